@@ -5,6 +5,7 @@
  * 导出:
  * - dingtalkPlugin: ChannelPlugin 实现
  * - sendMessageDingtalk: 发送消息函数
+ * - sendRobotMessageDingtalk / sendBatchMessageDingtalk / sendWorkNotificationDingtalk: 模板消息、批量发送、工作通知
  * - DEFAULT_ACCOUNT_ID: 默认账户 ID
  *
  * Requirements: 1.1
@@ -31,13 +32,39 @@ export interface MoltbotPluginApi {
 export { dingtalkPlugin, DEFAULT_ACCOUNT_ID } from "./src/channel.js";
 
 // 导出发送消息函数
-export { sendMessageDingtalk } from "./src/send.js";
+export {
+  sendMessageDingtalk,
+  recallMessageDingtalk,
+  sendRobotMessageDingtalk,
+  sendBatchMessageDingtalk,
+  sendWorkNotificationDingtalk,
+  type DingtalkRobotMessage,
+  type DingtalkActionCardButton,
+  type BatchSendResult,
+  type WorkNotificationResult,
+} from "./src/send.js";
+
+// 导出互动卡片函数
+export {
+  sendCardDingtalk,
+  updateCardDingtalk,
+  buildActionCardData,
+  type DingtalkCardButton,
+  type DingtalkCardInput,
+  type SendCardParams,
+  type SendCardResult,
+} from "./src/interactive-card.js";
 
 // 导出 runtime 管理函数（供外部设置）
 export { setDingtalkRuntime, getDingtalkRuntime } from "./src/runtime.js";
 
 // 导出类型
-export type { DingtalkConfig, ResolvedDingtalkAccount, DingtalkSendResult } from "./src/types.js";
+export type {
+  DingtalkConfig,
+  ResolvedDingtalkAccount,
+  DingtalkSendResult,
+  DingtalkCardAction,
+} from "./src/types.js";
 
 /**
  * 钉钉插件定义
@@ -55,22 +82,8 @@ const plugin = {
   id: "dingtalk",
   name: "DingTalk",
   description: "钉钉消息渠道插件",
-  configSchema: {
-    type: "object",
-    additionalProperties: false,
-    properties: {
-      enabled: { type: "boolean" },
-      clientId: { type: "string" },
-      clientSecret: { type: "string" },
-      dmPolicy: { type: "string", enum: ["open", "pairing", "allowlist"] },
-      groupPolicy: { type: "string", enum: ["open", "allowlist", "disabled"] },
-      requireMention: { type: "boolean" },
-      allowFrom: { type: "array", items: { type: "string" } },
-      groupAllowFrom: { type: "array", items: { type: "string" } },
-      historyLimit: { type: "integer", minimum: 0 },
-      textChunkLimit: { type: "integer", minimum: 1 },
-    },
-  },
+  // 与渠道 configSchema 共用（账户级字段 + defaultAccount / accounts）
+  configSchema: dingtalkPlugin.configSchema.schema,
 
   /**
    * 注册钉钉渠道插件
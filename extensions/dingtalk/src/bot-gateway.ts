@@ -1,10 +1,7 @@
 import { type DWClient } from "dingtalk-stream";
-import * as fs from "node:fs/promises";
-import * as os from "node:os";
-import * as path from "node:path";
 import { registerDingtalkBotHandler } from "./bot-stream-handler.js";
 import { createDingtalkClientFromConfig } from "./client.js";
-import type { DingtalkConfig } from "./config.js";
+import { DEFAULT_ACCOUNT_ID, resolveDingtalkAccount, type DingtalkConfig } from "./config.js";
 import { createLogger, type Logger } from "./logger.js";
 
 export interface MonitorDingtalkOpts {
@@ -59,75 +56,14 @@ const RECONNECT_BASE_DELAY_MS = 1_000;
 const RECONNECT_MAX_DELAY_MS = 60_000;
 const RECONNECT_JITTER_RATIO = 0.2;
 
-let currentClient: DWClient | null = null;
-let currentAccountId: string | null = null;
-let currentPromise: Promise<void> | null = null;
-let currentStop: (() => void) | null = null;
-
-function toRecord(value: unknown): Record<string, unknown> {
-  if (!value || typeof value !== "object" || Array.isArray(value)) {
-    return {};
-  }
-  return value as Record<string, unknown>;
-}
-
-async function ensureGatewayHttpEnabled(params: {
-  dingtalkCfg?: DingtalkConfig;
-  logger: Logger;
-}): Promise<void> {
-  const { dingtalkCfg, logger } = params;
-  if (!dingtalkCfg?.enableAICard) {
-    return;
-  }
-
-  const home = os.homedir();
-  const candidates = [
-    path.join(home, ".openclaw", "openclaw.json"),
-    path.join(home, ".openclaw", "config.json"),
-  ];
-
-  for (const filePath of candidates) {
-    try {
-      await fs.access(filePath);
-    } catch {
-      continue;
-    }
-
-    try {
-      const raw = await fs.readFile(filePath, "utf8");
-      const cleaned = raw.replace(/^\uFEFF/, "").trim();
-      if (!cleaned) {
-        continue;
-      }
-
-      const cfg = JSON.parse(cleaned) as Record<string, unknown>;
-      const gateway = toRecord(cfg.gateway);
-      const http = toRecord(gateway.http);
-      const endpoints = toRecord(http.endpoints);
-      const chatCompletions = toRecord(endpoints.chatCompletions);
-
-      if (chatCompletions.enabled === true) {
-        logger.debug(`[gateway] chatCompletions already enabled in ${filePath}`);
-        return;
-      }
-
-      chatCompletions.enabled = true;
-      endpoints.chatCompletions = chatCompletions;
-      http.endpoints = endpoints;
-      gateway.http = http;
-      cfg.gateway = gateway;
-
-      await fs.writeFile(filePath, `${JSON.stringify(cfg, null, 2)}\n`, "utf8");
-      logger.info(`[gateway] enabled http.endpoints.chatCompletions in ${filePath}`);
-      logger.info("[gateway] restart OpenClaw gateway to apply HTTP endpoint change");
-      return;
-    } catch (err) {
-      logger.warn(`[gateway] failed to update ${filePath}: ${String(err)}`);
-    }
-  }
+type GatewayInstance = {
+  client: DWClient | null;
+  promise: Promise<void>;
+  stop: () => void;
+};
 
-  logger.warn("[gateway] openclaw config not found; cannot auto-enable http endpoint");
-}
+/** 按账户 ID 维护的 Stream 连接实例 */
+const gateways = new Map<string, GatewayInstance>();
 
 function createGatewayMetrics(): GatewayMetrics {
   return {
@@ -361,6 +297,7 @@ async function runGatewayLoop(params: {
   signal: AbortSignal;
 }): Promise<void> {
   const { config, dingtalkCfg, accountId, logger, signal } = params;
+  const instance = gateways.get(accountId);
   const metrics = createGatewayMetrics();
   const stateRef: TransitionRef = { state: "idle" };
 
@@ -380,7 +317,9 @@ async function runGatewayLoop(params: {
       throw err;
     }
 
-    currentClient = client;
+    if (instance) {
+      instance.client = client;
+    }
     try {
       sessionResult = await runGatewaySession({
         client,
@@ -396,8 +335,8 @@ async function runGatewayLoop(params: {
       sessionResult = { kind: "reconnect", reason: "session_error" };
     } finally {
       safeDisconnect(client, logger);
-      if (currentClient === client) {
-        currentClient = null;
+      if (instance?.client === client) {
+        instance.client = null;
       }
     }
 
@@ -434,26 +373,32 @@ async function runGatewayLoop(params: {
 }
 
 export async function monitorDingtalkProvider(opts: MonitorDingtalkOpts = {}): Promise<void> {
-  const { config, runtime, abortSignal, accountId = "default" } = opts;
-  const logger: Logger = createLogger("dingtalk", {
-    log: runtime?.log,
-    error: runtime?.error,
-  });
+  const { config, runtime, abortSignal } = opts;
+  const account = resolveDingtalkAccount({ cfg: config ?? {}, accountId: opts.accountId });
+  const accountId = account.accountId;
+  const logger: Logger = createLogger(
+    accountId === DEFAULT_ACCOUNT_ID ? "dingtalk" : `dingtalk:${accountId}`,
+    {
+      log: runtime?.log,
+      error: runtime?.error,
+    },
+  );
 
-  if (currentPromise) {
-    if (currentAccountId && currentAccountId !== accountId) {
-      throw new Error(`DingTalk already running for account ${currentAccountId}`);
-    }
+  const existing = gateways.get(accountId);
+  if (existing) {
     logger.debug(`existing gateway for account ${accountId} is active, reusing promise`);
-    return currentPromise;
+    return existing.promise;
   }
 
-  const dingtalkCfg = config?.channels?.dingtalk;
+  const dingtalkCfg = account.config;
   if (!dingtalkCfg) {
-    throw new Error("DingTalk configuration not found");
+    throw new Error(`DingTalk configuration not found for account ${accountId}`);
+  }
+  if (dingtalkCfg.gatewayToken || dingtalkCfg.gatewayPassword) {
+    logger.warn(
+      "gatewayToken / gatewayPassword are deprecated and ignored: AI Card replies go through the runtime dispatcher; remove them from the dingtalk config",
+    );
   }
-
-  await ensureGatewayHttpEnabled({ dingtalkCfg, logger });
 
   const stopController = new AbortController();
   const stopSignal = stopController.signal;
@@ -468,11 +413,15 @@ export async function monitorDingtalkProvider(opts: MonitorDingtalkOpts = {}): P
     abortSignal?.addEventListener("abort", onAbort, { once: true });
   }
 
-  currentAccountId = accountId;
-  currentStop = () => {
-    logger.info("stop requested, stopping Stream gateway");
-    stopController.abort();
+  const instance: GatewayInstance = {
+    client: null,
+    promise: Promise.resolve(),
+    stop: () => {
+      logger.info("stop requested, stopping Stream gateway");
+      stopController.abort();
+    },
   };
+  gateways.set(accountId, instance);
 
   const runPromise = runGatewayLoop({
     config,
@@ -482,37 +431,37 @@ export async function monitorDingtalkProvider(opts: MonitorDingtalkOpts = {}): P
     signal: stopSignal,
   }).finally(() => {
     abortSignal?.removeEventListener("abort", onAbort);
-    if (currentPromise === runPromise) {
-      currentClient = null;
-      currentAccountId = null;
-      currentStop = null;
-      currentPromise = null;
+    if (gateways.get(accountId) === instance) {
+      gateways.delete(accountId);
     }
   });
 
-  currentPromise = runPromise;
+  instance.promise = runPromise;
   return runPromise;
 }
 
-export function stopDingtalkMonitor(): void {
-  if (currentStop) {
-    currentStop();
-    return;
-  }
-  if (currentClient) {
-    const logger = createLogger("dingtalk");
-    safeDisconnect(currentClient, logger);
-    currentClient = null;
-    currentAccountId = null;
-    currentPromise = null;
-    currentStop = null;
+/**
+ * 停止 Stream 连接
+ *
+ * @param accountId 账户 ID；不传时停止所有账户
+ */
+export function stopDingtalkMonitor(accountId?: string): void {
+  const targets = accountId ? [accountId] : Array.from(gateways.keys());
+  for (const id of targets) {
+    const instance = gateways.get(id);
+    if (!instance) continue;
+    instance.stop();
+    if (instance.client) {
+      safeDisconnect(instance.client, createLogger("dingtalk"));
+      instance.client = null;
+    }
   }
 }
 
-export function isMonitorActive(): boolean {
-  return currentPromise !== null;
+export function isMonitorActive(accountId?: string): boolean {
+  return accountId ? gateways.has(accountId) : gateways.size > 0;
 }
 
-export function getCurrentAccountId(): string | null {
-  return currentAccountId;
+export function getActiveAccountIds(): string[] {
+  return Array.from(gateways.keys());
 }
@@ -4,17 +4,18 @@
  * 实现消息解析、策略检查和 Agent 分发
  */
 
-import type { DingtalkRawMessage, DingtalkMessageContext } from "./types.js";
+import type { DingtalkRawMessage, DingtalkMessageContext, DingtalkQuotedMessage } from "./types.js";
 import {
   type DingtalkConfig,
+  type PluginConfig,
+  resolveDingtalkAccount,
   resolveInboundMediaDir,
   resolveInboundMediaKeepDays,
   resolveInboundMediaTempDir,
 } from "./config.js";
 import * as fs from "node:fs";
-import * as path from "node:path";
 import { getDingtalkRuntime, isDingtalkRuntimeInitialized } from "./runtime.js";
-import { sendMessageDingtalk } from "./send.js";
+import { recallEmotionDingtalk, replyEmotionDingtalk, sendMessageDingtalk } from "./send.js";
 import {
   sendMediaDingtalk,
   extractFileFromMessage,
@@ -26,55 +27,33 @@ import {
   type MediaMsgType,
 } from "./media.js";
 import { getAccessToken } from "./client.js";
-import { createAICard, streamAICard, finishAICard, type AICardInstance } from "./card.js";
+import { createAICard, createAICardStream, type AICardStream } from "./card.js";
 import {
   createLogger,
   type Logger,
+  applyGroupAgentOverride,
   checkDmPolicy,
+  resolveEffectiveDmPolicy,
+  warnPairingWithoutAdmins,
   checkGroupPolicy,
+  resolveGroupOverride,
+  handlePairingCommand,
+  issuePairingChallenge,
   resolveFileCategory,
   extractMediaFromText,
-  normalizeLocalPath,
-  isImagePath,
   appendCronHiddenPrompt,
-  splitCronHiddenPrompt,
   finalizeInboundMediaFile,
   pruneInboundMediaDir,
+  createWorkingIndicator,
+  NOOP_WORKING_INDICATOR,
+  type WorkingIndicator,
+  recordGroupHistory,
+  takeGroupHistory,
+  buildGroupHistoryBody,
+  type HistoryEntry,
+  createStreamingReplyState,
 } from "@openclaw-china/shared";
 
-function buildGatewayUserContent(inboundCtx: InboundContext, logger: Logger): string {
-  const base = inboundCtx.CommandBody ?? inboundCtx.Body ?? "";
-  const { base: baseText, prompt } = splitCronHiddenPrompt(base);
-  const rawPaths: string[] = [];
-
-  if (typeof inboundCtx.MediaPath === "string") {
-    rawPaths.push(inboundCtx.MediaPath);
-  }
-  if (Array.isArray(inboundCtx.MediaPaths)) {
-    rawPaths.push(...inboundCtx.MediaPaths);
-  }
-
-  const files = new Set<string>();
-  for (const raw of rawPaths) {
-    const localPath = normalizeLocalPath(raw);
-    if (!localPath) continue;
-    if (isImagePath(localPath)) continue;
-    if (!fs.existsSync(localPath)) {
-      logger.warn(`[gateway] local file not found: ${localPath}`);
-      continue;
-    }
-    files.add(localPath);
-  }
-
-  if (files.size === 0) {
-    return prompt ? `${baseText}\n\n${prompt}` : baseText;
-  }
-
-  const list = Array.from(files).map((p) => `- ${p}`).join("\n");
-  const content = `${baseText}\n\n[local files]\n${list}`;
-  return prompt ? `${content}\n\n${prompt}` : content;
-}
-
 /**
  * 从文本中提取本地媒体路径（图片/文件），但不修改原始文本
  */
@@ -165,145 +144,6 @@ function resolveAudioRecognition(raw: DingtalkRawMessage): string | undefined {
   return trimmed.length > 0 ? trimmed : undefined;
 }
 
-function resolveGatewayAuthFromConfigFile(logger: Logger): string | undefined {
-  try {
-    const fs = require("fs");
-    const path = require("path");
-    const os = require("os");
-    const home = os.homedir();
-    const candidates = [
-      path.join(home, ".openclaw", "openclaw.json"),
-      path.join(home, ".openclaw", "config.json"),
-    ];
-    for (const filePath of candidates) {
-      if (!fs.existsSync(filePath)) continue;
-      const raw = fs.readFileSync(filePath, "utf8");
-      const cleaned = raw.replace(/^\uFEFF/, "").trim();
-      const cfg = JSON.parse(cleaned) as Record<string, unknown>;
-      const gateway = (cfg.gateway as Record<string, unknown> | undefined) ?? {};
-      const auth = (gateway.auth as Record<string, unknown> | undefined) ?? {};
-      const mode = typeof auth.mode === "string" ? auth.mode : "";
-      const token = typeof auth.token === "string" ? auth.token : "";
-      const password = typeof auth.password === "string" ? auth.password : "";
-      if (mode === "token" && token) return token;
-      if (mode === "password" && password) return password;
-      if (token) return token;
-      if (password) return password;
-    }
-  } catch (err) {
-    logger.debug(`[gateway] failed to read openclaw config: ${String(err)}`);
-  }
-  return undefined;
-}
-
-function resolveGatewayRequestParams(
-  runtime: unknown,
-  dingtalkCfg: DingtalkConfig,
-  logger: Logger
-): { gatewayUrl: string; headers: Record<string, string> } {
-  const runtimeRecord = runtime as Record<string, unknown>;
-  const gateway = runtimeRecord?.gateway as Record<string, unknown> | undefined;
-  const gatewayPort = typeof gateway?.port === "number" ? gateway.port : 18789;
-  const gatewayUrl =
-    typeof gateway?.url === "string"
-      ? gateway.url
-      : `http://127.0.0.1:${gatewayPort}/v1/chat/completions`;
-  const authToken =
-    dingtalkCfg.gatewayToken ??
-    dingtalkCfg.gatewayPassword ??
-    (gateway?.auth as Record<string, unknown> | undefined)?.token ??
-    (gateway as Record<string, unknown> | undefined)?.authToken ??
-    (gateway as Record<string, unknown> | undefined)?.token ??
-    process.env.OPENCLAW_GATEWAY_TOKEN ??
-    process.env.OPENCLAW_GATEWAY_PASSWORD ??
-    resolveGatewayAuthFromConfigFile(logger);
-
-  const headers: Record<string, string> = {
-    "Content-Type": "application/json",
-  };
-  if (typeof authToken === "string" && authToken.trim()) {
-    headers["Authorization"] = `Bearer ${authToken}`;
-  } else {
-    logger.warn("[gateway] auth token not found; request may be rejected");
-  }
-
-  return { gatewayUrl, headers };
-}
-
-async function* streamFromGateway(params: {
-  runtime: unknown;
-  sessionKey: string;
-  userContent: string;
-  logger: Logger;
-  dingtalkCfg: DingtalkConfig;
-  abortSignal?: AbortSignal;
-}): AsyncGenerator<string, void, unknown> {
-  const { runtime, sessionKey, userContent, logger, dingtalkCfg, abortSignal } = params;
-  const { gatewayUrl, headers } = resolveGatewayRequestParams(runtime, dingtalkCfg, logger);
-
-  logger.debug(`[gateway] streaming via ${gatewayUrl}, session=${sessionKey}`);
-
-  const response = await fetch(gatewayUrl, {
-    method: "POST",
-    headers,
-    body: JSON.stringify({
-      model: "default",
-      messages: [{ role: "user", content: userContent }],
-      stream: true,
-      user: sessionKey,
-    }),
-    signal: abortSignal,
-  });
-
-  if (!response.ok || !response.body) {
-    const errText = response.body ? await response.text() : "(no body)";
-    throw new Error(`Gateway error: ${response.status} - ${errText}`);
-  }
-
-  const reader = response.body.getReader();
-  const decoder = new TextDecoder();
-  let buffer = "";
-  let lastChunkTime: number | null = null; // 初始为 null，第一个 chunk 不检测
-  const TASK_BOUNDARY_THRESHOLD_MS = 1000; // 超过1秒认为是任务边界
-
-  while (true) {
-    const { done: readDone, value } = await reader.read();
-    if (readDone) break;
-
-    buffer += decoder.decode(value, { stream: true });
-    const lines = buffer.split("\n");
-    buffer = lines.pop() ?? "";
-
-    for (const line of lines) {
-      if (!line.startsWith("data: ")) continue;
-      const data = line.slice(6).trim();
-      if (data === "[DONE]") return;
-      try {
-        const chunk = JSON.parse(data) as { choices?: Array<{ delta?: { content?: string }; finish_reason?: string | null }> };
-        const choice = chunk?.choices?.[0];
-        const content = choice?.delta?.content;
-
-        if (typeof content === "string" && content) {
-          const now = Date.now();
-
-          // 检测时间间隔，判断是否为任务边界（跳过第一个 chunk）
-            if (lastChunkTime !== null) {
-              const timeSinceLastChunk = now - lastChunkTime;
-              if (timeSinceLastChunk > TASK_BOUNDARY_THRESHOLD_MS) {
-                yield "\n\n---\n\n"; 
-              }
-            }
-
-          yield content;
-          lastChunkTime = now;
-        }
-      } catch {
-        continue;
-      }
-    }
-  }
-}
-
 /**
  * 解析钉钉原始消息为标准化的消息上下文
  * 
@@ -343,6 +183,8 @@ export function parseDingtalkMessage(raw: DingtalkRawMessage): DingtalkMessageCo
     raw.senderUserid ??
     raw.senderId;
 
+  const quoted = parseRepliedMessage(raw);
+
   return {
     conversationId: raw.conversationId,
     messageId,
@@ -353,6 +195,7 @@ export function parseDingtalkMessage(raw: DingtalkRawMessage): DingtalkMessageCo
     contentType: raw.msgtype,
     mentionedBot,
     robotCode: raw.robotCode,
+    ...(quoted ? { quoted } : {}),
   };
 }
 
@@ -368,6 +211,80 @@ function resolveMentionedBot(raw: DingtalkRawMessage): boolean {
   return atUsers.length > 0;
 }
 
+/** 引用消息正文最大长度 */
+const QUOTED_MESSAGE_MAX_CHARS = 1000;
+
+/**
+ * 解析回复消息中被引用的原消息（text.repliedMsg）
+ *
+ * 文本 / 富文本取正文，图片、文件等媒体记录 downloadCode 供后续下载；
+ * 非回复消息返回 undefined
+ */
+export function parseRepliedMessage(raw: DingtalkRawMessage): DingtalkQuotedMessage | undefined {
+  const replied = raw.msgtype === "text" ? raw.text?.repliedMsg : undefined;
+  if (!replied || typeof replied !== "object") return undefined;
+
+  const msgType = replied.msgType ?? "text";
+  let text = "";
+  const media: DingtalkQuotedMessage["media"] = [];
+
+  if (msgType === "text") {
+    if (typeof replied.content === "string") {
+      // content 可能是 JSON 字符串 {"text":"..."}，也可能直接是正文
+      try {
+        const parsed = JSON.parse(replied.content) as { text?: unknown };
+        text = typeof parsed?.text === "string" ? parsed.text : replied.content;
+      } catch {
+        text = replied.content;
+      }
+    } else {
+      const content = replied.content as { text?: unknown } | undefined;
+      text = typeof content?.text === "string" ? content.text : "";
+    }
+  } else if (msgType === "richText") {
+    const richText = parseRichTextMessage({ msgtype: "richText", content: replied.content });
+    text = richText?.textParts.join("\n") ?? "";
+    for (const downloadCode of richText?.imageCodes ?? []) {
+      media.push({ downloadCode, msgType: "picture" });
+    }
+  } else {
+    const file = extractFileFromMessage({ msgtype: msgType, content: replied.content });
+    if (file) {
+      media.push({ downloadCode: file.downloadCode, msgType: file.msgType, fileName: file.fileName });
+      text = file.recognition ?? "";
+    }
+  }
+
+  text = text.trim();
+  if (text.length > QUOTED_MESSAGE_MAX_CHARS) {
+    text = `${text.slice(0, QUOTED_MESSAGE_MAX_CHARS)}…`;
+  }
+  if (!text && media.length === 0) {
+    text = `[${msgType}]`;
+  }
+
+  return {
+    messageId: replied.msgId,
+    senderId: replied.senderId,
+    senderNick: replied.senderNick,
+    msgType,
+    text,
+    media,
+  };
+}
+
+/**
+ * 在正文前附加引用块
+ */
+export function formatQuotedBody(body: string, quoted: string, sender?: string): string {
+  const quoteLines = quoted
+    .split("\n")
+    .map((line) => `> ${line}`)
+    .join("\n");
+  const header = sender ? `[引用 ${sender} 的消息]` : "[引用消息]";
+  return `${header}\n${quoteLines}\n\n${body}`;
+}
+
 /**
  * 入站消息上下�?
  * 用于传递给 Moltbot 核心的标准化上下�?
@@ -430,6 +347,14 @@ export interface InboundContext {
   FileSize?: number;
   /** 语音识别文本 (用于 audio 消息) */
   Transcript?: string;
+  /** 群覆盖配置中的系统提示词 */
+  GroupSystemPrompt?: string;
+  /** 被引用（回复）的消息 ID */
+  ReplyToId?: string;
+  /** 被引用消息的正文 */
+  ReplyToBody?: string;
+  /** 被引用消息的发送者 */
+  ReplyToSender?: string;
 }
 
 /**
@@ -476,177 +401,10 @@ export function buildInboundContext(
     CommandAuthorized: true,
     OriginatingChannel: "dingtalk",
     OriginatingTo: to,
+    ...(ctx.quoted?.messageId ? { ReplyToId: ctx.quoted.messageId } : {}),
   };
 }
 
-/**
- * 处理 AI Card 流式响应
- * 
- * 通过 Moltbot 核心 API 获取 LLM 响应，并流式更新 AI Card
- * 仅支持 gateway-sse (HTTP SSE) 流式输出
- * 
- * @param params 处理参数
- * @returns Promise<void>
- */
-async function handleAICardStreaming(params: {
-  card: AICardInstance;
-  cfg: unknown;
-  route: { sessionKey: string; accountId: string; agentId?: string };
-  inboundCtx: InboundContext;
-  dingtalkCfg: DingtalkConfig;
-  targetId: string;
-  chatType: "direct" | "group";
-  logger: Logger;
-  }): Promise<void> {
-    const { card, cfg, route, inboundCtx, dingtalkCfg, targetId, chatType, logger } = params;
-    let accumulated = "";
-    const streamStartAt = Date.now();
-    const streamStartIso = new Date(streamStartAt).toISOString();
-    let firstChunkAt: number | null = null;
-    let chunkCount = 0;
-
-  try {
-    const core = getDingtalkRuntime();
-    let lastUpdateTime = 0;
-    const updateInterval = 100; // 最小更新间隔 ms
-    const firstFrameContent = " ";
-    let firstFrameSent = false;
-
-    try {
-      await streamAICard(card, firstFrameContent, false, (msg) => logger.debug(msg));
-      firstFrameSent = true;
-      lastUpdateTime = Date.now();
-    } catch (err) {
-      logger.debug(`failed to send first frame: ${String(err)}`);
-    }
-
-    // 根据配置选择流式源
-    const gatewayUserContent = buildGatewayUserContent(inboundCtx, logger);
-    for await (const chunk of streamFromGateway({
-      runtime: core,
-      sessionKey: route.sessionKey,
-      userContent: gatewayUserContent,
-      logger,
-      dingtalkCfg,
-    })) {
-      accumulated += chunk;
-      chunkCount += 1;
-      if (!firstChunkAt) {
-        firstChunkAt = Date.now();
-        const firstChunkIso = new Date(firstChunkAt).toISOString();
-        logger.debug(
-          `[stream] first chunk at ${firstChunkIso} (after ${firstChunkAt - streamStartAt}ms, len=${chunk.length}, start=${streamStartIso})`
-        );
-      }
-      const now = Date.now();
-        if (!firstFrameSent || now - lastUpdateTime >= updateInterval) {
-          await streamAICard(card, accumulated, false);
-          lastUpdateTime = now;
-          firstFrameSent = true;
-        }
-      }
-
-      // 完成卡片
-      await finishAICard(card, accumulated, (msg) => logger.debug(msg));
-      logger.info(`AI Card streaming completed with ${accumulated.length} chars`);
-
-      const { mediaUrls: mediaFromLines } = extractMediaLinesFromText({
-        text: accumulated,
-        logger,
-      });
-      const { mediaUrls: localMediaFromText } = extractLocalMediaFromText({
-        text: accumulated,
-        logger,
-      });
-      const mediaQueue: string[] = [];
-      const seenMedia = new Set<string>();
-      const addMedia = (value?: string) => {
-        const trimmed = value?.trim();
-        if (!trimmed) return;
-        if (seenMedia.has(trimmed)) return;
-        seenMedia.add(trimmed);
-        mediaQueue.push(trimmed);
-      };
-      for (const url of mediaFromLines) addMedia(url);
-      for (const url of localMediaFromText) addMedia(url);
-
-      // 单独发送媒体消息（图片/文件）
-      if (mediaQueue.length > 0) {
-        logger.debug(`[stream] sending ${mediaQueue.length} media attachments`);
-        for (const mediaUrl of mediaQueue) {
-          try {
-            await sendMediaDingtalk({
-              cfg: dingtalkCfg,
-              to: targetId,
-              mediaUrl,
-              chatType,
-            });
-            logger.debug(`[stream] sent media: ${mediaUrl}`);
-          } catch (fileErr) {
-            logger.warn(`[stream] failed to send media ${mediaUrl}: ${String(fileErr)}`);
-          }
-        }
-      }
-    } catch (err) {
-    logger.error(`AI Card streaming failed: ${String(err)}`);
-    // 尝试用错误信息完成卡片
-    try {
-      const errorMsg = `⚠️ Response interrupted: ${String(err)}`;
-      await finishAICard(card, errorMsg, (msg) => logger.debug(msg));
-    } catch (finishErr) {
-      logger.error(`Failed to finish card with error: ${String(finishErr)}`);
-    }
-
-    // 回退到普通消息发送（使用钉钉 SDK）
-      try {
-        const fallbackText = accumulated.trim()
-          ? accumulated
-          : `⚠️ Response interrupted: ${String(err)}`;
-        const limit = dingtalkCfg.textChunkLimit ?? 4000;
-        for (let i = 0; i < fallbackText.length; i += limit) {
-          const chunk = fallbackText.slice(i, i + limit);
-          await sendMessageDingtalk({
-            cfg: dingtalkCfg,
-            to: targetId,
-            text: chunk,
-            chatType,
-          });
-        }
-        const { mediaUrls: mediaFromLines } = extractMediaLinesFromText({
-          text: fallbackText,
-          logger,
-        });
-        const { mediaUrls: localMediaFromText } = extractLocalMediaFromText({
-          text: fallbackText,
-          logger,
-        });
-        const mediaQueue: string[] = [];
-        const seenMedia = new Set<string>();
-        const addMedia = (value?: string) => {
-          const trimmed = value?.trim();
-          if (!trimmed) return;
-          if (seenMedia.has(trimmed)) return;
-          seenMedia.add(trimmed);
-          mediaQueue.push(trimmed);
-        };
-        for (const url of mediaFromLines) addMedia(url);
-        for (const url of localMediaFromText) addMedia(url);
-        for (const mediaUrl of mediaQueue) {
-          await sendMediaDingtalk({
-            cfg: dingtalkCfg,
-            to: targetId,
-            mediaUrl,
-            chatType,
-          });
-        }
-
-        logger.info("AI Card failed; fallback message sent via SDK");
-      } catch (fallbackErr) {
-      logger.error(`Failed to send fallback message: ${String(fallbackErr)}`);
-    }
-  }
-}
-
 /**
  * 构建文件上下文消�?
  * 
@@ -696,6 +454,73 @@ export function buildFileContextMessage(
   }
 }
 
+/**
+ * 下载引用消息中的媒体并写入上下文
+ *
+ * 引用内容只加入 Body（供 Agent 理解上下文），RawBody / CommandBody 保持原文以便命令解析；
+ * 引用的图片 / 文件与本条消息的附件一起放入 MediaPaths。下载失败时保留占位描述，不中断分发
+ */
+async function applyQuotedMessage(params: {
+  quoted: DingtalkQuotedMessage;
+  inboundCtx: InboundContext;
+  channelCfg: DingtalkConfig | undefined;
+  archive: (file: DownloadedFile) => Promise<DownloadedFile>;
+  logger: Logger;
+}): Promise<void> {
+  const { quoted, inboundCtx, channelCfg, archive, logger } = params;
+  const lines = quoted.text ? [quoted.text] : [];
+  const files: DownloadedFile[] = [];
+
+  let accessToken: string | null = null;
+  if (quoted.media.length > 0 && channelCfg?.clientId && channelCfg?.clientSecret) {
+    try {
+      accessToken = await getAccessToken(channelCfg.clientId, channelCfg.clientSecret);
+    } catch (err) {
+      logger.warn(`failed to get access token for quoted media: ${String(err)}`);
+    }
+  }
+
+  for (const item of quoted.media) {
+    if (accessToken && channelCfg?.clientId) {
+      try {
+        const file = await archive(
+          await downloadDingTalkFile({
+            downloadCode: item.downloadCode,
+            robotCode: channelCfg.clientId,
+            accessToken,
+            fileName: item.fileName,
+            msgType: item.msgType,
+            log: logger,
+            maxFileSizeMB: channelCfg.maxFileSizeMB,
+          })
+        );
+        files.push(file);
+        lines.push(file.path);
+        continue;
+      } catch (err) {
+        logger.warn(`failed to download quoted ${item.msgType}: ${String(err)}`);
+      }
+    }
+    lines.push(buildFileContextMessage(item.msgType, item.fileName));
+  }
+
+  const quotedBody = lines.join("\n");
+  const sender = quoted.senderNick ?? quoted.senderId;
+  inboundCtx.ReplyToBody = quotedBody;
+  if (sender) inboundCtx.ReplyToSender = sender;
+  inboundCtx.Body = formatQuotedBody(inboundCtx.Body, quotedBody, sender);
+
+  if (files.length > 0) {
+    const paths = inboundCtx.MediaPaths ?? (inboundCtx.MediaPath ? [inboundCtx.MediaPath] : []);
+    const types = inboundCtx.MediaTypes ?? (inboundCtx.MediaType ? [inboundCtx.MediaType] : []);
+    inboundCtx.MediaPaths = [...paths, ...files.map((file) => file.path)];
+    inboundCtx.MediaTypes = [...types, ...files.map((file) => file.contentType)];
+    if (!inboundCtx.MediaPath) {
+      inboundCtx.MediaPath = inboundCtx.MediaPaths[0];
+      inboundCtx.MediaType = inboundCtx.MediaTypes[0];
+    }
+  }
+}
 
 /**
  * 处理钉钉入站消息
@@ -734,8 +559,7 @@ export async function handleDingtalkMessage(params: {
   const audioRecognition = resolveAudioRecognition(raw);
   
   // 获取钉钉配置
-  const dingtalkCfg = (cfg as Record<string, unknown>)?.channels as Record<string, unknown> | undefined;
-  const channelCfg = dingtalkCfg?.dingtalk as DingtalkConfig | undefined;
+  const channelCfg = resolveDingtalkAccount({ cfg: (cfg ?? {}) as PluginConfig, accountId }).config;
   const inboundMediaDir = resolveInboundMediaDir(channelCfg);
   const inboundMediaKeepDays = resolveInboundMediaKeepDays(channelCfg);
   const inboundMediaTempDir = resolveInboundMediaTempDir();
@@ -762,26 +586,78 @@ export async function handleDingtalkMessage(params: {
       groupAllowFrom,
       requireMention,
       mentionedBot: ctx.mentionedBot,
+      senderId: ctx.senderId,
+      groups: channelCfg?.groups,
     });
     
     if (!policyResult.allowed) {
       logger.debug(`policy rejected: ${policyResult.reason}`);
+      // 未 @机器人 的群消息记入历史，被 @ 时作为上下文
+      if (policyResult.mentionRequired) {
+        recordGroupHistory({
+          channel: "dingtalk",
+          accountId,
+          conversationId: ctx.conversationId,
+          limit: channelCfg?.historyLimit ?? 0,
+          entry: {
+            sender: ctx.senderNick ?? ctx.senderId,
+            body: ctx.content || `[${ctx.contentType}]`,
+            timestamp: Date.now(),
+            messageId: ctx.messageId,
+          },
+        });
+      }
       return;
     }
   } else {
-    const dmPolicy = channelCfg?.dmPolicy ?? "open";
     const allowFrom = channelCfg?.allowFrom ?? [];
+    const { dmPolicy, pairingWithoutAdmins } = resolveEffectiveDmPolicy(channelCfg?.dmPolicy ?? "open", allowFrom);
+    const pairingScope = { channel: "dingtalk", accountId };
+    if (pairingWithoutAdmins) {
+      warnPairingWithoutAdmins(pairingScope, logger);
+    }
+
+    const sendPairingText = async (text: string): Promise<void> => {
+      if (!channelCfg) return;
+      try {
+        await sendMessageDingtalk({ cfg: channelCfg, to: ctx.senderId, text, chatType: "direct", accountId });
+      } catch (err) {
+        logger.warn(`failed to send pairing reply: ${String(err)}`);
+      }
+    };
     
     const policyResult = checkDmPolicy({
       dmPolicy,
       senderId: ctx.senderId,
       allowFrom,
+      pairing: pairingScope,
     });
     
     if (!policyResult.allowed) {
       logger.debug(`policy rejected: ${policyResult.reason}`);
+      if (policyResult.pairingRequired) {
+        const challenge = issuePairingChallenge(pairingScope, ctx.senderId);
+        if (challenge.created) {
+          logger.info(`pairing code ${challenge.code} issued for sender ${ctx.senderId}`);
+        }
+        await sendPairingText(challenge.text);
+      }
       return;
     }
+
+    // 配对模式下 allowFrom 中的发送者作为管理员审批配对码
+    if (dmPolicy === "pairing") {
+      const pairingReply = handlePairingCommand({
+        scope: pairingScope,
+        senderId: ctx.senderId,
+        text: ctx.content,
+        admins: allowFrom,
+      });
+      if (pairingReply !== null) {
+        await sendPairingText(pairingReply);
+        return;
+      }
+    }
   }
   
   // 检查运行时是否已初始化
@@ -794,6 +670,9 @@ export async function handleDingtalkMessage(params: {
   let downloadedMedia: DownloadedFile | null = null;
   let downloadedRichTextImages: DownloadedFile[] = [];
   let extractedFileInfo: ExtractedFileInfo | null = null;
+
+  // 「思考中」表情：消息被接受后贴上，首条回复送达或处理结束时撤回
+  let working: WorkingIndicator = NOOP_WORKING_INDICATOR;
   
   try {
     // 获取完整�?Moltbot 运行时（包含 core API�?
@@ -818,17 +697,35 @@ export async function handleDingtalkMessage(params: {
       logger.debug("core.channel.reply dispatcher factory not available, skipping dispatch");
       return;
     }
+
+    if (channelCfg && channelCfg.workingIndicator !== false && raw.msgId) {
+      const emotion = { cfg: channelCfg, msgId: raw.msgId, conversationId: ctx.conversationId };
+      working = createWorkingIndicator({
+        show: () => replyEmotionDingtalk(emotion),
+        clear: () => recallEmotionDingtalk(emotion),
+        onError: (err, phase) => logger.debug(`working indicator ${phase} failed: ${String(err)}`),
+      });
+      void working.start();
+    }
     
     // 解析路由
     const resolveAgentRoute = routingApi.resolveAgentRoute as (opts: Record<string, unknown>) => Record<string, unknown>;
-    const route = resolveAgentRoute({
-      cfg,
-      channel: "dingtalk",
-      peer: {
-        kind: isGroup ? "group" : "dm",
-        id: isGroup ? ctx.conversationId : ctx.senderId,
-      },
-    });
+    // 群覆盖配置：固定 Agent、附加系统提示词
+    const groupOverride = isGroup
+      ? resolveGroupOverride(channelCfg?.groups, ctx.conversationId)
+      : undefined;
+    const route = applyGroupAgentOverride(
+      resolveAgentRoute({
+        cfg,
+        channel: "dingtalk",
+        accountId,
+        peer: {
+          kind: isGroup ? "group" : "dm",
+          id: isGroup ? ctx.conversationId : ctx.senderId,
+        },
+      }) as Record<string, unknown> & { agentId?: string; sessionKey: string },
+      groupOverride
+    );
     
     // ===== 媒体消息处理 (Requirements 9.1, 9.2, 9.4, 9.6) =====
     // 用于存储下载的媒体文件信�?
@@ -951,6 +848,9 @@ export async function handleDingtalkMessage(params: {
     if (audioRecognition) {
       inboundCtx.Transcript = audioRecognition;
     }
+    if (groupOverride?.systemPrompt) {
+      inboundCtx.GroupSystemPrompt = groupOverride.systemPrompt;
+    }
     
     // 设置媒体相关字段 (Requirements 7.1-7.8)
     if (downloadedMedia) {
@@ -1000,22 +900,37 @@ export async function handleDingtalkMessage(params: {
       inboundCtx.CommandBody = textBody;
     }
 
+    // 回复消息：附加被引用的原消息（含图片 / 文件）
+    if (ctx.quoted) {
+      await applyQuotedMessage({
+        quoted: ctx.quoted,
+        inboundCtx,
+        channelCfg,
+        archive: archiveInboundMedia,
+        logger,
+      });
+    }
+
+    // 群聊：拼接上次回复以来未 @机器人 的消息
+    const groupHistory: HistoryEntry[] = isGroup
+      ? takeGroupHistory({ channel: "dingtalk", accountId, conversationId: ctx.conversationId })
+      : [];
+    if (groupHistory.length > 0) {
+      inboundCtx.Body = buildGroupHistoryBody({ entries: groupHistory, body: inboundCtx.Body });
+    }
+
     // 如果�?finalizeInboundContext，使用它
     const finalizeInboundContext = replyApi?.finalizeInboundContext as
       | ((ctx: InboundContext) => InboundContext)
       | undefined;
     const finalCtx = finalizeInboundContext ? finalizeInboundContext(inboundCtx) : inboundCtx;
 
-    let cronSource = "";
     let cronBase = "";
     if (typeof finalCtx.RawBody === "string" && finalCtx.RawBody) {
-      cronSource = "RawBody";
       cronBase = finalCtx.RawBody;
     } else if (typeof finalCtx.Body === "string" && finalCtx.Body) {
-      cronSource = "Body";
       cronBase = finalCtx.Body;
     } else if (typeof finalCtx.CommandBody === "string" && finalCtx.CommandBody) {
-      cronSource = "CommandBody";
       cronBase = finalCtx.CommandBody;
     }
 
@@ -1024,7 +939,7 @@ export async function handleDingtalkMessage(params: {
       const injected = nextCron !== cronBase;
       if (injected) {
         // 只覆盖发送给 LLM 的正文，避免污染 Body/RawBody
-        finalCtx.BodyForAgent = nextCron;
+        finalCtx.BodyForAgent = buildGroupHistoryBody({ entries: groupHistory, body: nextCron });
       }
     }
 
@@ -1094,35 +1009,6 @@ export async function handleDingtalkMessage(params: {
       return;
     }
 
-    // ===== AI Card 流式处理 =====
-    if (enableAICard) {
-      const card = await createAICard({
-        cfg: dingtalkCfgResolved,
-        conversationType: ctx.chatType === "group" ? "2" : "1",
-        conversationId: ctx.conversationId,
-        senderId: ctx.senderId,
-        senderStaffId: raw.senderStaffId,
-        log: (msg) => logger.debug(msg),
-      });
-
-      if (card) {
-        logger.info("AI Card created, using streaming mode");
-        await handleAICardStreaming({
-          card,
-          cfg,
-          route: route as { sessionKey: string; accountId: string; agentId?: string },
-          inboundCtx: finalCtx,
-          dingtalkCfg: dingtalkCfgResolved,
-          targetId: isGroup ? ctx.conversationId : ctx.senderId,
-          chatType: isGroup ? "group" : "direct",
-          logger,
-        });
-        return;
-      } else {
-        logger.warn("AI Card creation failed, falling back to normal message");
-      }
-    }
-
     // ===== 普通消息模�?=====
     const textApi = coreChannel?.text as Record<string, unknown> | undefined;
     
@@ -1160,6 +1046,7 @@ export async function handleDingtalkMessage(params: {
             to: targetId,
             mediaUrl,
             chatType,
+            accountId,
           });
           sent = true;
         } catch (err) {
@@ -1170,6 +1057,7 @@ export async function handleDingtalkMessage(params: {
             to: targetId,
             text: fallbackText,
             chatType,
+            accountId,
           });
           sent = true;
         }
@@ -1218,13 +1106,16 @@ export async function handleDingtalkMessage(params: {
             to: targetId,
             text: chunk,
             chatType,
+            accountId,
           });
           sent = true;
+          void working.stop();
         }
       }
 
       for (const mediaUrl of mediaQueue) {
         await sendMediaWithFallback(mediaUrl);
+        void working.stop();
       }
 
       if (!hasText && mediaQueue.length === 0) {
@@ -1252,30 +1143,148 @@ export async function handleDingtalkMessage(params: {
     if (dispatchReplyWithBufferedBlockDispatcher) {
       logger.debug(`dispatching to agent (buffered, session=${(route as Record<string, unknown>)?.sessionKey})`);
       const deliveryState = { delivered: false, skippedNonSilent: 0 };
-      const result = await dispatchReplyWithBufferedBlockDispatcher({
-        ctx: finalCtx,
-        cfg,
-        dispatcherOptions: {
-          deliver: async (payload: unknown, info?: { kind?: string }) => {
-            const didSend = await deliver(
-              payload as { text?: string; mediaUrl?: string; mediaUrls?: string[] },
-              info
-            );
-            if (didSend) {
-              deliveryState.delivered = true;
-            }
-          },
-          humanDelay,
-          onSkip: (_payload: unknown, info: { kind: string; reason: string }) => {
-            if (info.reason !== "silent") {
-              deliveryState.skippedNonSilent += 1;
-            }
-          },
-          onError: (err: unknown, info: { kind: string }) => {
-            logger.error(`${info.kind} reply failed: ${String(err)}`);
-          },
+
+      // AI Card：回复开始时投放卡片，之后随 partial / block 内容节流更新，final 内容用于收尾
+      const aiCard = createStreamingReplyState<AICardStream>({
+        enabled: enableAICard,
+        start: async () => {
+          const card = await createAICard({
+            cfg: dingtalkCfgResolved,
+            conversationType: isGroup ? "2" : "1",
+            conversationId: ctx.conversationId,
+            senderId: ctx.senderId,
+            senderStaffId: raw.senderStaffId,
+            log: (msg) => logger.debug(msg),
+          });
+          if (!card) return null;
+          logger.info("AI Card created, using streaming mode");
+          // AI Card 本身即表示「正在回复」
+          void working.stop();
+          return createAICardStream(card, { log: (msg) => logger.debug(msg) });
         },
+        onStartFailed: () => logger.warn("AI Card creation failed, falling back to normal message"),
       });
+      const cardFinalTexts: string[] = [];
+      const cardMediaUrls: string[] = [];
+      const addCardMedia = (typed: { mediaUrl?: string; mediaUrls?: string[] }) => {
+        const urls = typed.mediaUrls ?? (typed.mediaUrl ? [typed.mediaUrl] : []);
+        for (const url of urls) {
+          const trimmed = url?.trim();
+          if (trimmed && !cardMediaUrls.includes(trimmed)) cardMediaUrls.push(trimmed);
+        }
+      };
+
+      const finishCardReply = async (stream: AICardStream, text: string) => {
+        const { text: cardText, mediaUrls: mediaFromLines } = extractMediaLinesFromText({
+          text,
+          logger,
+        });
+        const { mediaUrls: localMediaFromText } = extractLocalMediaFromText({
+          text: cardText,
+          logger,
+        });
+        try {
+          await stream.finish(cardText.trim());
+          logger.info(`AI Card streaming completed with ${cardText.length} chars`);
+        } catch (err) {
+          // 卡片收尾失败时改用普通消息重发全文
+          logger.error(`failed to finish AI Card: ${String(err)}`);
+          await deliver({ text: cardText }, { kind: "final" });
+        }
+        const media = [...cardMediaUrls, ...mediaFromLines, ...localMediaFromText];
+        if (media.length > 0) {
+          await deliver({ mediaUrls: Array.from(new Set(media)) }, { kind: "final" });
+        }
+      };
+
+      let result: Record<string, unknown>;
+      try {
+        result = await dispatchReplyWithBufferedBlockDispatcher({
+          ctx: finalCtx,
+          cfg,
+          dispatcherOptions: {
+            deliver: async (payload: unknown, info?: { kind?: string }) => {
+              const typed = payload as { text?: string; mediaUrl?: string; mediaUrls?: string[] };
+
+              if (aiCard.disabled) {
+                // 卡片投放失败前已缓冲的 block 内容先补发；partial 快照由 final 覆盖
+                const pending = aiCard.takeText();
+                if (pending && !(aiCard.sawPartial && info?.kind === "final")) {
+                  if (await deliver({ text: pending }, { kind: "block" })) {
+                    deliveryState.delivered = true;
+                  }
+                }
+                const didSend = await deliver(typed, info);
+                if (didSend) {
+                  deliveryState.delivered = true;
+                }
+                return;
+              }
+
+              addCardMedia(typed);
+              const text = typeof typed.text === "string" ? typed.text.trim() : "";
+              if (info?.kind === "final") {
+                if (text) cardFinalTexts.push(text);
+                return;
+              }
+              await aiCard.appendBlock(text);
+            },
+            humanDelay,
+            onReplyStart: enableAICard
+              ? async () => {
+                  await aiCard.ensure();
+                }
+              : undefined,
+            onSkip: (_payload: unknown, info: { kind: string; reason: string }) => {
+              if (info.reason !== "silent") {
+                deliveryState.skippedNonSilent += 1;
+              }
+            },
+            onError: (err: unknown, info: { kind: string }) => {
+              aiCard.error = String(err);
+              logger.error(`${info.kind} reply failed: ${String(err)}`);
+            },
+          },
+          replyOptions: enableAICard
+            ? {
+                onPartialReply: async (payload: { text?: string }) => {
+                  if (typeof payload?.text === "string") await aiCard.applyPartial(payload.text);
+                },
+              }
+            : undefined,
+        });
+      } catch (err) {
+        const stream = await aiCard.current();
+        await stream?.fail(String(err)).catch(() => undefined);
+        throw err;
+      }
+
+      const cardStream = await aiCard.current();
+      const cardText = cardFinalTexts.length > 0 ? cardFinalTexts.join("\n\n") : aiCard.text;
+      if (cardStream) {
+        if (aiCard.error && cardFinalTexts.length === 0) {
+          await cardStream.fail(aiCard.error, cardText).catch((err) => {
+            logger.error(`failed to finish AI Card with error: ${String(err)}`);
+          });
+        } else if (cardText.trim() || cardMediaUrls.length > 0) {
+          await finishCardReply(cardStream, cardText);
+        } else {
+          await cardStream.fail("No response generated. Please try again.").catch(() => undefined);
+        }
+        deliveryState.delivered = true;
+      } else if (enableAICard && (cardText.trim() || cardMediaUrls.length > 0)) {
+        // 卡片未能投放：按普通消息发送已缓冲的回复
+        const didSend = await deliver(
+          {
+            text: cardText,
+            mediaUrls: cardMediaUrls.length ? cardMediaUrls : undefined,
+          },
+          { kind: "final" }
+        );
+        if (didSend) {
+          deliveryState.delivered = true;
+        }
+      }
 
       if (!deliveryState.delivered && deliveryState.skippedNonSilent > 0) {
         await sendMessageDingtalk({
@@ -1283,6 +1292,7 @@ export async function handleDingtalkMessage(params: {
           to: isGroup ? ctx.conversationId : ctx.senderId,
           text: "No response generated. Please try again.",
           chatType: isGroup ? "group" : "direct",
+          accountId,
         });
       }
 
@@ -1354,6 +1364,7 @@ export async function handleDingtalkMessage(params: {
   } catch (err) {
     logger.error(`failed to dispatch message: ${String(err)}`);
   } finally {
+    await working.stop();
     try {
       await pruneInboundMediaDir({
         inboundDir: inboundMediaDir,
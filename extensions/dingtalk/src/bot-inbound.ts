@@ -3,4 +3,6 @@ export {
   parseDingtalkMessage,
   buildInboundContext,
   buildFileContextMessage,
+  parseRepliedMessage,
+  formatQuotedBody,
 } from "./bot-handler.js";
@@ -1,15 +1,10 @@
-import { TOPIC_ROBOT, type DWClient, type DWClientDownStream } from "dingtalk-stream";
+import { TOPIC_CARD, TOPIC_ROBOT, type DWClient, type DWClientDownStream } from "dingtalk-stream";
 import { handleDingtalkMessage } from "./bot-handler.js";
-import type { DingtalkConfig } from "./config.js";
+import { buildCardActionMessage, parseDingtalkCardCallback } from "./interactive-card.js";
+import { resolveDingtalkAccount, type DingtalkConfig, type PluginConfig } from "./config.js";
 import type { Logger } from "./logger.js";
 import type { DingtalkRawMessage } from "./types.js";
 
-type PluginConfig = {
-  channels?: {
-    dingtalk?: DingtalkConfig;
-  };
-};
-
 export interface RegisterDingtalkBotHandlerParams {
   client: DWClient;
   config?: PluginConfig;
@@ -128,7 +123,8 @@ function processDingtalkInbound(params: {
     }
   }
 
-  if (streamMessageId && isDuplicateMessage(streamMessageId, Date.now())) {
+  // 不同账户的 messageId 互不相关，按账户隔离去重
+  if (streamMessageId && isDuplicateMessage(`${accountId}:${streamMessageId}`, Date.now())) {
     onDedupeHit?.(streamMessageId);
     logger.debug(`duplicate message ignored: ${streamMessageId}`);
     return;
@@ -160,8 +156,65 @@ function processDingtalkInbound(params: {
   }
 }
 
+/**
+ * 卡片回调：ACK 后转换为入站消息交给 Agent（cards.callbackToAgent=false 时仅 ACK）
+ */
+function processDingtalkCardCallback(params: {
+  payload: DWClientDownStream;
+  client: DWClient;
+  config?: PluginConfig;
+  dingtalkCfg?: DingtalkConfig;
+  accountId: string;
+  logger: Logger;
+}): void {
+  const { payload, client, config, dingtalkCfg, accountId, logger } = params;
+  const streamMessageId = payload?.headers?.messageId;
+
+  if (streamMessageId) {
+    try {
+      client.socketCallBackResponse(streamMessageId, {});
+    } catch (err) {
+      logger.error(`failed to ACK card callback ${streamMessageId}: ${String(err)}`);
+    }
+  }
+
+  if (streamMessageId && isDuplicateMessage(`${accountId}:${streamMessageId}`, Date.now())) {
+    logger.debug(`duplicate card callback ignored: ${streamMessageId}`);
+    return;
+  }
+
+  const action = parseDingtalkCardCallback(payload.data);
+  if (!action) {
+    logger.warn("card callback missing outTrackId/userId, ignored");
+    return;
+  }
+  logger.info(`Card action: from=${action.userId} card=${action.outTrackId} action=${action.actionIds.join(",")}`);
+  if (dingtalkCfg?.cards?.callbackToAgent === false) return;
+
+  const rawMessage = buildCardActionMessage({
+    action,
+    accountId,
+    robotCode: dingtalkCfg?.clientId,
+  });
+  if (streamMessageId) rawMessage.streamMessageId = streamMessageId;
+
+  void handleDingtalkMessage({
+    cfg: config,
+    raw: rawMessage,
+    accountId,
+    log: (msg: string) => logger.info(msg.replace(/^\[dingtalk\]\s*/, "")),
+    error: (msg: string) => logger.error(msg.replace(/^\[dingtalk\]\s*/, "")),
+    enableAICard: dingtalkCfg?.enableAICard ?? true,
+  }).catch((err) => {
+    logger.error(`error handling card callback: ${String(err)}`);
+  });
+}
+
 export function registerDingtalkBotHandler(params: RegisterDingtalkBotHandlerParams): void {
-  const dingtalkCfg = params.config?.channels?.dingtalk;
+  const dingtalkCfg = resolveDingtalkAccount({
+    cfg: params.config ?? {},
+    accountId: params.accountId,
+  }).config;
   params.client.registerCallbackListener(TOPIC_ROBOT, (payload) => {
     processDingtalkInbound({
       payload,
@@ -176,6 +229,16 @@ export function registerDingtalkBotHandler(params: RegisterDingtalkBotHandlerPar
       onParseError: params.onParseError,
     });
   });
+  params.client.registerCallbackListener(TOPIC_CARD, (payload) => {
+    processDingtalkCardCallback({
+      payload,
+      client: params.client,
+      config: params.config,
+      dingtalkCfg,
+      accountId: params.accountId,
+      logger: params.logger,
+    });
+  });
 }
 
 export function clearDingtalkMessageDedupeCache(): void {
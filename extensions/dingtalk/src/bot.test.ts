@@ -5,10 +5,26 @@
  * Property 2: 消息解析正确性
  */
 
-import { describe, it, expect } from "vitest";
+import { afterEach, describe, it, expect, vi } from "vitest";
 import * as fc from "fast-check";
-import { parseDingtalkMessage, buildInboundContext } from "./bot.js";
-import { checkDmPolicy, checkGroupPolicy } from "@openclaw-china/shared";
+import {
+  parseDingtalkMessage,
+  buildInboundContext,
+  formatQuotedBody,
+  parseRepliedMessage,
+  handleDingtalkMessage,
+} from "./bot.js";
+import { clearDingtalkRuntime, setDingtalkRuntime } from "./runtime.js";
+import { clearTokenCache } from "./client.js";
+import { DingtalkConfigSchema } from "./config.js";
+import { dingtalkOutbound } from "./outbound.js";
+import {
+  checkDmPolicy,
+  checkGroupPolicy,
+  clearSentMessages,
+  resetSendQueues,
+  resolveSentMessage,
+} from "@openclaw-china/shared";
 import type { DingtalkRawMessage, DingtalkMessageContext } from "./types.js";
 
 describe("Feature: dingtalk-integration, Property 2: 消息解析正确性", () => {
@@ -232,30 +248,53 @@ describe("Feature: dingtalk-integration, Property 3: 策略检查正确性", ()
   });
 
   /**
-   * Property: When dmPolicy is "open" or "pairing", all senders should be allowed
+   * Property: When dmPolicy is "open", all senders should be allowed
    */
-  it("should allow all senders when dmPolicy is open or pairing", () => {
+  it("should allow all senders when dmPolicy is open", () => {
     const testArb = fc.record({
-      dmPolicy: fc.constantFrom("open", "pairing") as fc.Arbitrary<"open" | "pairing">,
       senderId: fc.string({ minLength: 1, maxLength: 50 }),
       allowFrom: fc.array(fc.string({ minLength: 1, maxLength: 50 })),
     });
 
     fc.assert(
-      fc.property(testArb, ({ dmPolicy, senderId, allowFrom }) => {
+      fc.property(testArb, ({ senderId, allowFrom }) => {
         const result = checkDmPolicy({
-          dmPolicy,
+          dmPolicy: "open",
           senderId,
           allowFrom,
         });
 
-        // Should always be allowed for open and pairing policies
         expect(result.allowed).toBe(true);
       }),
       { numRuns: 100 }
     );
   });
 
+  /**
+   * Property: When dmPolicy is "pairing", only allowFrom senders pass without a pairing store
+   */
+  it("should require pairing for senders outside allowFrom when dmPolicy is pairing", () => {
+    const testArb = fc.record({
+      senderId: fc.string({ minLength: 1, maxLength: 50 }),
+      allowFrom: fc.array(fc.string({ minLength: 1, maxLength: 50 })),
+    });
+
+    fc.assert(
+      fc.property(testArb, ({ senderId, allowFrom }) => {
+        const result = checkDmPolicy({
+          dmPolicy: "pairing",
+          senderId,
+          allowFrom,
+        });
+
+        const isInAllowlist = allowFrom.includes(senderId);
+        expect(result.allowed).toBe(isInAllowlist);
+        expect(result.pairingRequired === true).toBe(!isInAllowlist);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
   /**
    * Property: When groupPolicy is "disabled", all group messages should be rejected
    * Validates: Requirement 5.2
@@ -546,3 +585,195 @@ describe("Feature: dingtalk-integration, Property 4: 上下文构建完整性",
     );
   });
 });
+
+describe("quoted reply messages", () => {
+  const base: DingtalkRawMessage = {
+    senderId: "user-1",
+    senderNick: "张三",
+    conversationType: "2",
+    conversationId: "cid-1",
+    msgtype: "text",
+    text: { content: "这个是什么意思？" },
+  };
+
+  it("parses quoted text and exposes it on the inbound context", () => {
+    const ctx = parseDingtalkMessage({
+      ...base,
+      text: {
+        content: "这个是什么意思？",
+        isReplyMsg: true,
+        repliedMsg: {
+          msgId: "msg-0",
+          msgType: "text",
+          senderId: "user-2",
+          content: { text: "明天 10 点发版" },
+        },
+      },
+    });
+
+    expect(ctx.content).toBe("这个是什么意思？");
+    expect(ctx.quoted).toEqual({
+      messageId: "msg-0",
+      senderId: "user-2",
+      senderNick: undefined,
+      msgType: "text",
+      text: "明天 10 点发版",
+      media: [],
+    });
+    expect(buildInboundContext(ctx, "session", "default").ReplyToId).toBe("msg-0");
+    expect(formatQuotedBody(ctx.content, ctx.quoted!.text, "user-2")).toBe(
+      "[引用 user-2 的消息]\n> 明天 10 点发版\n\n这个是什么意思？"
+    );
+  });
+
+  it("collects download codes for quoted pictures, files and rich text", () => {
+    const quotedPicture = parseRepliedMessage({
+      ...base,
+      text: {
+        content: "看下这张图",
+        repliedMsg: { msgType: "picture", content: JSON.stringify({ downloadCode: "pic-code" }) },
+      },
+    });
+    expect(quotedPicture?.media).toEqual([{ downloadCode: "pic-code", msgType: "picture", fileName: undefined }]);
+    expect(quotedPicture?.text).toBe("");
+
+    const quotedFile = parseRepliedMessage({
+      ...base,
+      text: {
+        content: "总结一下",
+        repliedMsg: { msgType: "file", content: { downloadCode: "file-code", fileName: "报告.pdf" } },
+      },
+    });
+    expect(quotedFile?.media).toEqual([{ downloadCode: "file-code", msgType: "file", fileName: "报告.pdf" }]);
+
+    const quotedRichText = parseRepliedMessage({
+      ...base,
+      text: {
+        content: "?",
+        repliedMsg: {
+          msgType: "richText",
+          content: { richText: [{ text: "截图如下" }, { type: "picture", downloadCode: "rich-code" }] },
+        },
+      },
+    });
+    expect(quotedRichText?.text).toBe("截图如下");
+    expect(quotedRichText?.media).toEqual([{ downloadCode: "rich-code", msgType: "picture" }]);
+
+    expect(parseRepliedMessage(base)).toBeUndefined();
+    expect(parseDingtalkMessage(base).quoted).toBeUndefined();
+  });
+});
+
+describe("pairing without admins", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("treats pairing without allowFrom as open instead of issuing a pairing code", async () => {
+    clearDingtalkRuntime();
+    const fetchMock = vi.fn().mockRejectedValue(new Error("unexpected request"));
+    vi.stubGlobal("fetch", fetchMock);
+    const logs: string[] = [];
+
+    await handleDingtalkMessage({
+      cfg: {
+        channels: {
+          dingtalk: { clientId: "id", clientSecret: "secret", dmPolicy: "pairing", allowFrom: [] },
+        },
+      },
+      raw: {
+        senderId: "user-1",
+        senderNick: "User",
+        conversationType: "1",
+        conversationId: "conv-1",
+        msgtype: "text",
+        text: { content: "hello" },
+      },
+      accountId: "pairing-fallback",
+      log: (msg) => logs.push(msg),
+      error: (msg) => logs.push(msg),
+    });
+
+    expect(logs.some((line) => line.includes("treating DMs as open for account pairing-fallback"))).toBe(true);
+    expect(logs.some((line) => line.includes("runtime not initialized"))).toBe(true);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe("sent message registry", () => {
+  function mockJsonResponse(payload: unknown): Response {
+    return {
+      ok: true,
+      status: 200,
+      json: vi.fn().mockResolvedValue(payload),
+      text: vi.fn().mockResolvedValue(JSON.stringify(payload)),
+    } as unknown as Response;
+  }
+
+  afterEach(() => {
+    clearDingtalkRuntime();
+    clearTokenCache();
+    clearSentMessages();
+    resetSendQueues();
+    vi.unstubAllGlobals();
+  });
+
+  it("records agent replies from inbound dispatch so they can be recalled", async () => {
+    setDingtalkRuntime({
+      channel: {
+        routing: {
+          resolveAgentRoute: () => ({ sessionKey: "dingtalk:user-1", accountId: "acc-1" }),
+        },
+        reply: {
+          dispatchReplyFromConfig: vi.fn(),
+          createReplyDispatcher: vi.fn(),
+          dispatchReplyWithBufferedBlockDispatcher: async ({ dispatcherOptions }) => {
+            await dispatcherOptions.deliver({ text: "这是回复" }, { kind: "final" });
+            return { queuedFinal: true, counts: { final: 1 } };
+          },
+        },
+      },
+    });
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(mockJsonResponse({ accessToken: "token-a", expireIn: 7200 }))
+      .mockResolvedValueOnce(mockJsonResponse({ processQueryKey: "pqk-reply" }))
+      .mockResolvedValueOnce(mockJsonResponse({ successResult: ["pqk-reply"] }));
+    vi.stubGlobal("fetch", fetchMock as unknown as typeof fetch);
+    const cfg = {
+      channels: {
+        dingtalk: DingtalkConfigSchema.parse({
+          accounts: {
+            "acc-1": { clientId: "ding-robot", clientSecret: "secret", workingIndicator: false },
+          },
+        }),
+      },
+    };
+
+    await handleDingtalkMessage({
+      cfg,
+      raw: {
+        senderId: "user-1",
+        senderNick: "User",
+        conversationType: "1",
+        conversationId: "conv-1",
+        msgtype: "text",
+        text: { content: "hello" },
+      },
+      accountId: "acc-1",
+      log: () => undefined,
+    });
+
+    expect(fetchMock.mock.calls[1]?.[0]).toBe("https://api.dingtalk.com/v1.0/robot/oToMessages/batchSend");
+    expect(resolveSentMessage({ channel: "dingtalk", accountId: "acc-1", to: "user:user-1" })).toMatchObject({
+      messageId: "pqk-reply",
+    });
+
+    // 出站 recall 可按会话目标（含裸用户 ID）找到这条回复
+    await expect(dingtalkOutbound.recall({ cfg, accountId: "acc-1", to: "user-1" })).resolves.toEqual({ ok: true });
+    expect(fetchMock.mock.calls[2]?.[0]).toBe("https://api.dingtalk.com/v1.0/robot/otoMessages/batchRecall");
+    const recallInit = fetchMock.mock.calls[2]?.[1] as RequestInit | undefined;
+    expect(JSON.parse(String(recallInit?.body))).toMatchObject({ processQueryKeys: ["pqk-reply"] });
+    expect(resolveSentMessage({ channel: "dingtalk", accountId: "acc-1", to: "user:user-1" })).toBeUndefined();
+  });
+});
@@ -1,3 +1,9 @@
 export type { InboundContext } from "./bot-inbound.js";
-export { parseDingtalkMessage, buildInboundContext, buildFileContextMessage } from "./bot-inbound.js";
+export {
+  parseDingtalkMessage,
+  buildInboundContext,
+  buildFileContextMessage,
+  parseRepliedMessage,
+  formatQuotedBody,
+} from "./bot-inbound.js";
 export { handleDingtalkMessage } from "./bot-handler.js";
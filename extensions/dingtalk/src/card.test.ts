@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { createAICardStream, type AICardInstance } from "./card.js";
+
+function mockOkResponse(): Response {
+  return {
+    ok: true,
+    status: 200,
+    json: vi.fn().mockResolvedValue({}),
+    text: vi.fn().mockResolvedValue("{}"),
+  } as unknown as Response;
+}
+
+function newCard(): AICardInstance {
+  return { cardInstanceId: "card_1", accessToken: "token-a", inputingStarted: true };
+}
+
+describe("AI Card stream", () => {
+  const fetchMock = vi.fn();
+
+  function streamedContents(): Array<{ content: string; isFinalize: boolean }> {
+    return fetchMock.mock.calls
+      .filter((call) => String(call[0]).endsWith("/v1.0/card/streaming"))
+      .map((call) => {
+        const body = JSON.parse(String((call[1] as RequestInit).body)) as {
+          content: string;
+          isFinalize: boolean;
+        };
+        return { content: body.content, isFinalize: body.isFinalize };
+      });
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    fetchMock.mockReset().mockImplementation(async () => mockOkResponse());
+    vi.stubGlobal("fetch", fetchMock as unknown as typeof fetch);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it("throttles updates and only pushes the latest text", async () => {
+    const stream = createAICardStream(newCard(), { intervalMs: 300 });
+
+    stream.update("a");
+    stream.update("ab");
+    stream.update("abc");
+    await vi.advanceTimersByTimeAsync(0);
+    expect(streamedContents()).toEqual([{ content: "a", isFinalize: false }]);
+
+    await vi.advanceTimersByTimeAsync(300);
+    expect(streamedContents().map((item) => item.content)).toEqual(["a", "abc"]);
+  });
+
+  it("finalizes with the full reply and ignores later updates", async () => {
+    const stream = createAICardStream(newCard(), { intervalMs: 300 });
+
+    stream.update("partial");
+    stream.update("partial reply");
+    await stream.finish("final reply");
+    stream.update("late");
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(streamedContents()).toEqual([
+      { content: "partial", isFinalize: false },
+      { content: "final reply", isFinalize: true },
+    ]);
+  });
+
+  it("appends the failure reason to the streamed text", async () => {
+    const stream = createAICardStream(newCard());
+
+    stream.update("half done");
+    await stream.fail("timeout");
+
+    expect(streamedContents().at(-1)).toEqual({
+      content: "half done\n\n⚠️ Response interrupted: timeout",
+      isFinalize: true,
+    });
+  });
+});
@@ -5,12 +5,15 @@
  * - createAICard: 创建 AI Card 实例
  * - streamAICard: 流式更新卡片内容
  * - finishAICard: 完成卡片
+ * - createAICardStream: 节流推送的流式更新控制器
  *
  * API 文档:
  * - 创建卡片: https://open.dingtalk.com/document/orgapp/create-card-instances
  * - 流式更新: https://open.dingtalk.com/document/orgapp/streaming-card-updates
  */
 
+import { createThrottledStream } from "@openclaw-china/shared";
+
 import { getAccessToken } from "./client.js";
 import type { DingtalkConfig } from "./types.js";
 
@@ -346,3 +349,48 @@ export async function finishAICard(
     clearTimeout(finishTimeoutId);
   }
 }
+
+/** 默认流式更新间隔（毫秒） */
+export const DEFAULT_AI_CARD_STREAM_INTERVAL_MS = 300;
+
+/**
+ * AI Card 流式更新控制器
+ */
+export interface AICardStream {
+  /** 更新正文（节流，返回时不保证已推送） */
+  update: (text: string) => void;
+  /** 以最终内容完成卡片 */
+  finish: (text: string) => Promise<void>;
+  /** 以错误说明完成卡片 */
+  fail: (reason: string, text?: string) => Promise<void>;
+}
+
+/**
+ * 为已投放的 AI Card 创建流式更新控制器
+ *
+ * @param card AI Card 实例
+ * @param options.intervalMs 更新间隔（毫秒）
+ * @param options.log 日志函数
+ */
+export function createAICardStream(
+  card: AICardInstance,
+  options: { intervalMs?: number; log?: (msg: string) => void } = {}
+): AICardStream {
+  const log = options.log;
+  const stream = createThrottledStream({
+    intervalMs: options.intervalMs ?? DEFAULT_AI_CARD_STREAM_INTERVAL_MS,
+    push: (text) => streamAICard(card, text, false, log),
+    onError: (err) => log?.(`[AICard] stream update failed: ${String(err)}`),
+  });
+  const close = (text: string) => stream.close(() => finishAICard(card, text, log));
+
+  return {
+    update: (text: string) => stream.update(text),
+    finish: (text: string) => close(text),
+    fail: (reason: string, text?: string) => {
+      const body = (text ?? stream.latestText).trim();
+      const note = `⚠️ Response interrupted: ${reason}`;
+      return close(body ? `${body}\n\n${note}` : note);
+    },
+  };
+}
@@ -12,14 +12,19 @@
  */
 
 import type { ResolvedDingtalkAccount, DingtalkConfig } from "./types.js";
-import { DingtalkConfigSchema, isConfigured, resolveDingtalkCredentials } from "./config.js";
+import {
+  DEFAULT_ACCOUNT_ID,
+  listDingtalkAccountIds,
+  resolveDefaultDingtalkAccountId,
+  resolveDingtalkAccount,
+  type PluginConfig,
+} from "./config.js";
 import { dingtalkOutbound } from "./outbound.js";
-import { monitorDingtalkProvider } from "./monitor.js";
+import { monitorDingtalkProvider, stopDingtalkMonitor } from "./monitor.js";
 import { setDingtalkRuntime } from "./runtime.js";
 import { dingtalkOnboardingAdapter } from "./onboarding.js";
 
-/** 默认账户 ID */
-export const DEFAULT_ACCOUNT_ID = "default";
+export { DEFAULT_ACCOUNT_ID } from "./config.js";
 
 /**
  * 渠道元数据
@@ -36,42 +41,63 @@ const meta = {
 } as const;
 
 /**
- * 配置接口类型（简化版）
+ * 账户级配置字段 JSON Schema（顶层与 accounts.<id> 共用）
  */
-interface PluginConfig {
-  channels?: {
-    dingtalk?: DingtalkConfig;
-  };
-}
-
-/**
- * 解析钉钉账户配置
- *
- * @param params 参数对象
- * @returns 解析后的账户配置
- */
-function resolveDingtalkAccount(params: {
-  cfg: PluginConfig;
-  accountId?: string;
-}): ResolvedDingtalkAccount {
-  const { cfg, accountId = DEFAULT_ACCOUNT_ID } = params;
-  const dingtalkCfg = cfg.channels?.dingtalk;
-
-  // 解析配置
-  const parsed = dingtalkCfg ? DingtalkConfigSchema.safeParse(dingtalkCfg) : null;
-  const config = parsed?.success ? parsed.data : undefined;
-
-  // 检查是否已配置凭证
-  const credentials = resolveDingtalkCredentials(config);
-  const configured = Boolean(credentials);
-
-  return {
-    accountId,
-    enabled: config?.enabled ?? true,
-    configured,
-    clientId: credentials?.clientId,
-  };
-}
+const accountConfigProperties = {
+  name: { type: "string" },
+  enabled: { type: "boolean" },
+  clientId: { type: "string" },
+  clientSecret: { type: "string" },
+  dmPolicy: { type: "string", enum: ["open", "pairing", "allowlist"] },
+  groupPolicy: { type: "string", enum: ["open", "allowlist", "disabled"] },
+  requireMention: { type: "boolean" },
+  allowFrom: { type: "array", items: { type: "string" } },
+  groupAllowFrom: { type: "array", items: { type: "string" } },
+  groups: {
+    type: "object",
+    additionalProperties: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        requireMention: { type: "boolean" },
+        allowFrom: { type: "array", items: { type: "string" } },
+        agentId: { type: "string" },
+        systemPrompt: { type: "string" },
+      },
+    },
+  },
+  historyLimit: { type: "integer", minimum: 0 },
+  textChunkLimit: { type: "integer", minimum: 1 },
+  enableAICard: { type: "boolean" },
+  workingIndicator: { type: "boolean" },
+  cards: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      templateId: { type: "string" },
+      templates: { type: "object", additionalProperties: { type: "string" } },
+      callbackToAgent: { type: "boolean" },
+    },
+  },
+  workNotice: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      agentId: { type: "string" },
+    },
+  },
+  gatewayToken: { type: "string" },
+  gatewayPassword: { type: "string" },
+  maxFileSizeMB: { type: "number", minimum: 0 },
+  inboundMedia: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      dir: { type: "string" },
+      keepDays: { type: "number", minimum: 0 },
+    },
+  },
+};
 
 /**
  * 钉钉渠道插件
@@ -113,26 +139,14 @@ export const dingtalkPlugin = {
       type: "object",
       additionalProperties: false,
       properties: {
-        enabled: { type: "boolean" },
-        clientId: { type: "string" },
-        clientSecret: { type: "string" },
-        dmPolicy: { type: "string", enum: ["open", "pairing", "allowlist"] },
-        groupPolicy: { type: "string", enum: ["open", "allowlist", "disabled"] },
-        requireMention: { type: "boolean" },
-        allowFrom: { type: "array", items: { type: "string" } },
-        groupAllowFrom: { type: "array", items: { type: "string" } },
-        historyLimit: { type: "integer", minimum: 0 },
-        textChunkLimit: { type: "integer", minimum: 1 },
-        enableAICard: { type: "boolean" },
-        gatewayToken: { type: "string" },
-        gatewayPassword: { type: "string" },
-        maxFileSizeMB: { type: "number", minimum: 0 },
-        inboundMedia: {
+        ...accountConfigProperties,
+        defaultAccount: { type: "string" },
+        accounts: {
           type: "object",
-          additionalProperties: false,
-          properties: {
-            dir: { type: "string" },
-            keepDays: { type: "number", minimum: 0 },
+          additionalProperties: {
+            type: "object",
+            additionalProperties: false,
+            properties: accountConfigProperties,
           },
         },
       },
@@ -153,7 +167,7 @@ export const dingtalkPlugin = {
      * 列出所有账户 ID
      * Requirements: 2.1
      */
-    listAccountIds: (_cfg: PluginConfig): string[] => [DEFAULT_ACCOUNT_ID],
+    listAccountIds: (cfg: PluginConfig): string[] => listDingtalkAccountIds(cfg),
 
     /**
      * 解析账户配置
@@ -165,20 +179,41 @@ export const dingtalkPlugin = {
     /**
      * 获取默认账户 ID
      */
-    defaultAccountId: (): string => DEFAULT_ACCOUNT_ID,
+    defaultAccountId: (cfg: PluginConfig): string => resolveDefaultDingtalkAccountId(cfg),
 
     /**
      * 设置账户启用状态
      */
-    setAccountEnabled: (params: { cfg: PluginConfig; enabled: boolean }): PluginConfig => {
-      const existingConfig = params.cfg.channels?.dingtalk ?? {};
+    setAccountEnabled: (params: { cfg: PluginConfig; accountId?: string; enabled: boolean }): PluginConfig => {
+      const accountId = params.accountId ?? DEFAULT_ACCOUNT_ID;
+      const existingConfig: Partial<DingtalkConfig> = params.cfg.channels?.dingtalk ?? {};
+      const useAccount = Boolean(params.cfg.channels?.dingtalk?.accounts?.[accountId]);
+      if (!useAccount) {
+        return {
+          ...params.cfg,
+          channels: {
+            ...params.cfg.channels,
+            dingtalk: {
+              ...existingConfig,
+              enabled: params.enabled,
+            } as DingtalkConfig,
+          },
+        };
+      }
+
       return {
         ...params.cfg,
         channels: {
           ...params.cfg.channels,
           dingtalk: {
             ...existingConfig,
-            enabled: params.enabled,
+            accounts: {
+              ...existingConfig.accounts,
+              [accountId]: {
+                ...existingConfig.accounts?.[accountId],
+                enabled: params.enabled,
+              },
+            },
           } as DingtalkConfig,
         },
       };
@@ -186,9 +221,27 @@ export const dingtalkPlugin = {
 
     /**
      * 删除账户配置
+     *
+     * 删除非默认账户时仅移除 accounts.<id>；删除默认账户时移除整个钉钉配置
      */
-    deleteAccount: (params: { cfg: PluginConfig }): PluginConfig => {
+    deleteAccount: (params: { cfg: PluginConfig; accountId?: string }): PluginConfig => {
+      const accountId = params.accountId ?? DEFAULT_ACCOUNT_ID;
       const next = { ...params.cfg };
+      const current = params.cfg.channels?.dingtalk;
+
+      if (current?.accounts?.[accountId]) {
+        const accounts = { ...current.accounts };
+        delete accounts[accountId];
+        next.channels = {
+          ...params.cfg.channels,
+          dingtalk: {
+            ...current,
+            accounts: Object.keys(accounts).length > 0 ? accounts : undefined,
+          },
+        };
+        return next;
+      }
+
       const nextChannels = { ...params.cfg.channels };
       delete (nextChannels as Record<string, unknown>).dingtalk;
       if (Object.keys(nextChannels).length > 0) {
@@ -203,14 +256,14 @@ export const dingtalkPlugin = {
      * 检查账户是否已配置
      * Requirements: 2.3
      */
-    isConfigured: (_account: ResolvedDingtalkAccount, cfg: PluginConfig): boolean =>
-      isConfigured(cfg.channels?.dingtalk),
+    isConfigured: (account: ResolvedDingtalkAccount): boolean => account.configured,
 
     /**
      * 描述账户信息
      */
     describeAccount: (account: ResolvedDingtalkAccount) => ({
       accountId: account.accountId,
+      name: account.name,
       enabled: account.enabled,
       configured: account.configured,
     }),
@@ -218,8 +271,8 @@ export const dingtalkPlugin = {
     /**
      * 解析白名单
      */
-    resolveAllowFrom: (params: { cfg: PluginConfig }): string[] =>
-      params.cfg.channels?.dingtalk?.allowFrom ?? [],
+    resolveAllowFrom: (params: { cfg: PluginConfig; accountId?: string }): string[] =>
+      resolveDingtalkAccount({ cfg: params.cfg, accountId: params.accountId }).config?.allowFrom ?? [],
 
     /**
      * 格式化白名单条目
@@ -235,8 +288,8 @@ export const dingtalkPlugin = {
    * 安全警告收集器
    */
   security: {
-    collectWarnings: (params: { cfg: PluginConfig }): string[] => {
-      const dingtalkCfg = params.cfg.channels?.dingtalk;
+    collectWarnings: (params: { cfg: PluginConfig; accountId?: string }): string[] => {
+      const dingtalkCfg = resolveDingtalkAccount({ cfg: params.cfg, accountId: params.accountId }).config;
       const groupPolicy = dingtalkCfg?.groupPolicy ?? "allowlist";
       if (groupPolicy !== "open") return [];
       return [
@@ -249,7 +302,8 @@ export const dingtalkPlugin = {
    * 设置向导适配器
    */
   setup: {
-    resolveAccountId: (): string => DEFAULT_ACCOUNT_ID,
+    resolveAccountId: (params?: { accountId?: string }): string =>
+      params?.accountId?.trim() || DEFAULT_ACCOUNT_ID,
     applyAccountConfig: (params: { cfg: PluginConfig }): PluginConfig => {
       const existingConfig = params.cfg.channels?.dingtalk ?? {};
       return {
@@ -311,6 +365,13 @@ export const dingtalkPlugin = {
         }
       }
 
+      const account = resolveDingtalkAccount({ cfg: ctx.cfg, accountId: ctx.accountId });
+      if (!account.configured) {
+        ctx.log?.info(`[dingtalk] account ${ctx.accountId} not configured; provider not started`);
+        ctx.setStatus?.({ accountId: ctx.accountId, running: false, configured: false });
+        return;
+      }
+
       return monitorDingtalkProvider({
         config: ctx.cfg,
         runtime:
@@ -322,5 +383,16 @@ export const dingtalkPlugin = {
         accountId: ctx.accountId,
       });
     },
+
+    /**
+     * 停止账户连接
+     */
+    stopAccount: async (ctx: {
+      accountId: string;
+      setStatus?: (status: Record<string, unknown>) => void;
+    }): Promise<void> => {
+      stopDingtalkMonitor(ctx.accountId);
+      ctx.setStatus?.({ accountId: ctx.accountId, running: false, lastStopAt: Date.now() });
+    },
   },
 };
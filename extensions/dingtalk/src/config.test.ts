@@ -7,9 +7,13 @@
 
 import { describe, it, expect } from "vitest";
 import * as fc from "fast-check";
+import plugin from "../index.js";
 import {
   DingtalkConfigSchema,
   isConfigured,
+  listDingtalkAccountIds,
+  resolveDefaultDingtalkAccountId,
+  resolveDingtalkAccount,
   resolveDingtalkCredentials,
   resolveInboundMediaDir,
   resolveInboundMediaKeepDays,
@@ -224,3 +228,62 @@ describe("inboundMedia retention config", () => {
     expect(resolveInboundMediaDir(cfg)).toBe("/tmp/custom-inbound");
   });
 });
+
+describe("multi-account config", () => {
+  const cfg = {
+    channels: {
+      dingtalk: DingtalkConfigSchema.parse({
+        clientId: "top-id",
+        clientSecret: "top-secret",
+        dmPolicy: "allowlist",
+        allowFrom: ["u1"],
+        defaultAccount: "sales",
+        accounts: {
+          support: { name: "Support", clientId: "support-id", clientSecret: "support-secret" },
+          sales: { enabled: false, allowFrom: ["u2"] },
+        },
+      }),
+    },
+  };
+
+  it("lists default account when accounts map is absent", () => {
+    const single = { channels: { dingtalk: DingtalkConfigSchema.parse({ clientId: "a" }) } };
+    expect(listDingtalkAccountIds(single)).toEqual(["default"]);
+    expect(resolveDefaultDingtalkAccountId({})).toBe("default");
+  });
+
+  it("lists sorted account ids and honors defaultAccount", () => {
+    expect(listDingtalkAccountIds(cfg)).toEqual(["sales", "support"]);
+    expect(resolveDefaultDingtalkAccountId(cfg)).toBe("sales");
+  });
+
+  it("merges account overrides on top of top-level config", () => {
+    const support = resolveDingtalkAccount({ cfg, accountId: "support" });
+    expect(support.name).toBe("Support");
+    expect(support.clientId).toBe("support-id");
+    expect(support.configured).toBe(true);
+    expect(support.config?.dmPolicy).toBe("allowlist");
+    expect(support.config?.allowFrom).toEqual(["u1"]);
+
+    const sales = resolveDingtalkAccount({ cfg, accountId: "sales" });
+    expect(sales.enabled).toBe(false);
+    expect(sales.clientId).toBe("top-id");
+    expect(sales.config?.allowFrom).toEqual(["u2"]);
+  });
+
+  it("resolves top-level config as default account when accountId is omitted", () => {
+    const account = resolveDingtalkAccount({ cfg });
+    expect(account.accountId).toBe("default");
+    expect(account.clientId).toBe("top-id");
+    expect(account.enabled).toBe(true);
+  });
+
+  it("declares accounts and defaultAccount in the plugin config schema", () => {
+    const { properties } = plugin.configSchema;
+    expect(properties.defaultAccount).toEqual({ type: "string" });
+    expect(properties.accounts.additionalProperties.properties).toMatchObject({
+      clientId: { type: "string" },
+      groups: { additionalProperties: { properties: { agentId: { type: "string" } } } },
+    });
+  });
+});
@@ -2,11 +2,28 @@
 import { z } from "zod";
 import { homedir, tmpdir } from "node:os";
 import { join } from "node:path";
+import type { ResolvedDingtalkAccount } from "./types.js";
+
+/** 默认账户 ID */
+export const DEFAULT_ACCOUNT_ID = "default";
+
+/** 按群覆盖配置（groups.<会话 ID>，"*" 为所有群默认值） */
+const DingtalkGroupConfigSchema = z.object({
+  /** 覆盖全局 requireMention */
+  requireMention: z.boolean().optional(),
+  /** 允许在该群触发机器人的发送者 */
+  allowFrom: z.array(z.string()).optional(),
+  /** 该群固定使用的 Agent ID */
+  agentId: z.string().optional(),
+  /** 该群附加的系统提示词 */
+  systemPrompt: z.string().optional(),
+});
 
 /**
- * 钉钉渠道配置 Schema
+ * 钉钉账户配置 Schema
  * 
  * 配置字段说明:
+ * - name: 账户显示名称
  * - enabled: 是否启用该渠道
  * - clientId: 钉钉应用的 AppKey
  * - clientSecret: 钉钉应用的 AppSecret
@@ -15,13 +32,20 @@ import { join } from "node:path";
  * - requireMention: 群聊是否需要 @机器人
  * - allowFrom: 单聊白名单用户 ID 列表
  * - groupAllowFrom: 群聊白名单会话 ID 列表
+ * - groups: 按群覆盖配置（requireMention / allowFrom / agentId / systemPrompt）
  * - historyLimit: 历史消息数量限制
  * - textChunkLimit: 文本分块大小限制
  * - enableAICard: 是否启用 AI Card 流式响应
+ * - workingIndicator: 收到消息后是否给原消息贴「思考中」表情，回复送达后撤回
+ * - cards: 互动卡片模板与回调处理
+ * - workNotice: 工作通知（应用 AgentId）
  * - maxFileSizeMB: 媒体文件大小限制 (MB)
  * - inboundMedia: 入站媒体归档与保留策略
  */
-export const DingtalkConfigSchema = z.object({
+const DingtalkAccountSchema = z.object({
+  /** 账户显示名称 */
+  name: z.string().optional(),
+
   /** 是否启用钉钉渠道 */
   enabled: z.boolean().optional().default(true),
   
@@ -46,6 +70,9 @@ export const DingtalkConfigSchema = z.object({
   /** 群聊白名单: 允许的会话 ID 列表 */
   groupAllowFrom: z.array(z.string()).optional(),
   
+  /** 按群覆盖配置 */
+  groups: z.record(DingtalkGroupConfigSchema).optional(),
+  
   /** 历史消息数量限制 */
   historyLimit: z.number().int().min(0).optional().default(10),
   
@@ -55,10 +82,33 @@ export const DingtalkConfigSchema = z.object({
   /** 是否启用 AI Card 流式响应 */
   enableAICard: z.boolean().optional().default(true),
 
-  /** Gateway auth token（Bearer） */
+  /** 收到消息后给原消息贴「思考中」表情，回复送达后撤回 */
+  workingIndicator: z.boolean().optional().default(true),
+
+  /** 互动卡片 */
+  cards: z
+    .object({
+      /** 通用互动卡片模板 ID（需声明 title / content / buttons / inputs 变量） */
+      templateId: z.string().optional(),
+      /** 具名模板：名称 -> 模板 ID，发送时可按名称引用 */
+      templates: z.record(z.string()).optional(),
+      /** 卡片按钮/表单回调是否作为用户输入交给 Agent */
+      callbackToAgent: z.boolean().optional().default(true),
+    })
+    .optional(),
+
+  /** 工作通知 */
+  workNotice: z
+    .object({
+      /** 钉钉应用 AgentId（开发者后台「应用信息」中查看） */
+      agentId: z.string().optional(),
+    })
+    .optional(),
+
+  /** @deprecated AI Card 已改由运行时分发回复，不再调用 Gateway HTTP 接口；保留以兼容旧配置 */
   gatewayToken: z.string().optional(),
 
-  /** Gateway auth password（替代 gatewayToken） */
+  /** @deprecated 同 gatewayToken */
   gatewayPassword: z.string().optional(),
 
   /** 媒体文件大小限制 (MB)，默认 100MB */
@@ -74,7 +124,38 @@ export const DingtalkConfigSchema = z.object({
   
 });
 
+/**
+ * 账户级配置 Schema
+ * 所有字段均可选，未设置的字段继承顶层配置
+ */
+export const DingtalkAccountConfigSchema = DingtalkAccountSchema.partial();
+
+/**
+ * 钉钉渠道配置 Schema（顶层）
+ *
+ * 顶层字段作为默认账户配置，同时也是 accounts.<id> 的继承基础:
+ * - defaultAccount: 默认账户 ID
+ * - accounts: 多账户配置（键为账户 ID）
+ */
+export const DingtalkConfigSchema = DingtalkAccountSchema.extend({
+  /** 默认账户 ID */
+  defaultAccount: z.string().optional(),
+
+  /** 多账户配置 */
+  accounts: z.record(DingtalkAccountConfigSchema).optional(),
+});
+
 export type DingtalkConfig = z.infer<typeof DingtalkConfigSchema>;
+export type DingtalkAccountConfig = z.infer<typeof DingtalkAccountConfigSchema>;
+
+/**
+ * 配置接口类型（简化版）
+ */
+export interface PluginConfig {
+  channels?: {
+    dingtalk?: DingtalkConfig;
+  };
+}
 
 const DEFAULT_INBOUND_MEDIA_DIR = join(homedir(), ".openclaw", "media", "dingtalk", "inbound");
 const DEFAULT_INBOUND_MEDIA_KEEP_DAYS = 7;
@@ -120,3 +201,81 @@ export function resolveDingtalkCredentials(
     clientSecret: config.clientSecret,
   };
 }
+
+export function normalizeAccountId(raw?: string | null): string {
+  const trimmed = String(raw ?? "").trim();
+  return trimmed || DEFAULT_ACCOUNT_ID;
+}
+
+function listConfiguredAccountIds(cfg: PluginConfig): string[] {
+  const accounts = cfg.channels?.dingtalk?.accounts;
+  if (!accounts || typeof accounts !== "object") return [];
+  return Object.keys(accounts).filter(Boolean);
+}
+
+/**
+ * 列出所有钉钉账户 ID
+ * 未配置 accounts 时仅返回默认账户
+ */
+export function listDingtalkAccountIds(cfg: PluginConfig): string[] {
+  const ids = listConfiguredAccountIds(cfg);
+  if (ids.length === 0) return [DEFAULT_ACCOUNT_ID];
+  return ids.sort((a, b) => a.localeCompare(b));
+}
+
+export function resolveDefaultDingtalkAccountId(cfg: PluginConfig): string {
+  const dingtalkCfg = cfg.channels?.dingtalk;
+  if (dingtalkCfg?.defaultAccount?.trim()) return dingtalkCfg.defaultAccount.trim();
+  const ids = listDingtalkAccountIds(cfg);
+  if (ids.includes(DEFAULT_ACCOUNT_ID)) return DEFAULT_ACCOUNT_ID;
+  return ids[0] ?? DEFAULT_ACCOUNT_ID;
+}
+
+/**
+ * 合并顶层配置与账户配置，并补齐默认值
+ *
+ * @returns 合并后的账户配置；配置不合法时返回 undefined
+ */
+export function mergeDingtalkAccountConfig(
+  cfg: PluginConfig,
+  accountId: string
+): DingtalkConfig | undefined {
+  const base = cfg.channels?.dingtalk;
+  if (!base) return undefined;
+  const { accounts, defaultAccount: _ignored, ...baseConfig } = base;
+  const account = accounts?.[accountId] ?? {};
+  const parsed = DingtalkConfigSchema.safeParse({ ...baseConfig, ...account });
+  return parsed.success ? parsed.data : undefined;
+}
+
+/**
+ * 解析钉钉账户
+ *
+ * @param params.cfg 插件配置
+ * @param params.accountId 账户 ID（缺省为默认账户）
+ * @returns 解析后的账户信息
+ */
+export function resolveDingtalkAccount(params: {
+  cfg: PluginConfig;
+  accountId?: string | null;
+}): ResolvedDingtalkAccount {
+  const accountId = normalizeAccountId(params.accountId);
+  const baseEnabled = params.cfg.channels?.dingtalk?.enabled !== false;
+  const config = mergeDingtalkAccountConfig(params.cfg, accountId);
+  const credentials = resolveDingtalkCredentials(config);
+
+  return {
+    accountId,
+    name: config?.name?.trim() || undefined,
+    enabled: baseEnabled && config?.enabled !== false,
+    configured: Boolean(credentials),
+    clientId: credentials?.clientId,
+    config,
+  };
+}
+
+export function listEnabledDingtalkAccounts(cfg: PluginConfig): ResolvedDingtalkAccount[] {
+  return listDingtalkAccountIds(cfg)
+    .map((accountId) => resolveDingtalkAccount({ cfg, accountId }))
+    .filter((account) => account.enabled);
+}
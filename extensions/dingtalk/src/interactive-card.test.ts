@@ -0,0 +1,129 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { clearTokenCache } from "./client.js";
+import { DingtalkConfigSchema } from "./config.js";
+import {
+  buildActionCardData,
+  buildCardActionMessage,
+  clearCardTargets,
+  formatDingtalkCardAction,
+  parseDingtalkCardCallback,
+  resolveCardTemplateId,
+  sendCardDingtalk,
+} from "./interactive-card.js";
+
+const cfg = DingtalkConfigSchema.parse({
+  clientId: "ding-robot",
+  clientSecret: "secret",
+  cards: { templateId: "tpl-default", templates: { approval: "tpl-approval" } },
+});
+
+function mockJsonResponse(payload: unknown): Response {
+  return {
+    ok: true,
+    status: 200,
+    json: vi.fn().mockResolvedValue(payload),
+    text: vi.fn().mockResolvedValue(JSON.stringify(payload)),
+  } as unknown as Response;
+}
+
+afterEach(() => {
+  clearCardTargets();
+  clearTokenCache();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("resolveCardTemplateId", () => {
+  it("prefers explicit id, then named template, then default", () => {
+    expect(resolveCardTemplateId(cfg, { templateId: "tpl-x" })).toBe("tpl-x");
+    expect(resolveCardTemplateId(cfg, { template: "approval" })).toBe("tpl-approval");
+    expect(resolveCardTemplateId(cfg, {})).toBe("tpl-default");
+    expect(() => resolveCardTemplateId(cfg, { template: "missing" })).toThrow(/missing/);
+    expect(() => resolveCardTemplateId(DingtalkConfigSchema.parse({}), {})).toThrow(/not configured/);
+  });
+});
+
+describe("card callbacks", () => {
+  const callback = {
+    outTrackId: "card-1",
+    userId: "user-1",
+    spaceType: "IM_GROUP",
+    spaceId: "cid-fallback",
+    content: JSON.stringify({
+      cardPrivateData: { actionIds: ["approve"], params: { reason: "ok", amount: 3 } },
+    }),
+  };
+
+  it("parses action ids and params", () => {
+    const action = parseDingtalkCardCallback(JSON.stringify(callback));
+    expect(action).toEqual({
+      outTrackId: "card-1",
+      userId: "user-1",
+      actionIds: ["approve"],
+      params: { reason: "ok", amount: 3 },
+      spaceType: "IM_GROUP",
+      spaceId: "cid-fallback",
+    });
+    expect(formatDingtalkCardAction(action!)).toBe(
+      "[card_action] out_track_id=card-1 action=approve reason=ok amount=3"
+    );
+    expect(parseDingtalkCardCallback({ userId: "user-1" })).toBeNull();
+  });
+
+  it("routes callbacks to the conversation the card was sent to", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(mockJsonResponse({ accessToken: "token-a", expireIn: 7200 }))
+      .mockResolvedValue(mockJsonResponse({ success: true, result: { deliverResults: [{ success: true }] } }));
+    vi.stubGlobal("fetch", fetchMock as unknown as typeof fetch);
+
+    const result = await sendCardDingtalk({
+      cfg,
+      accountId: "default",
+      to: "cid-group",
+      chatType: "group",
+      outTrackId: "card-1",
+      cardData: buildActionCardData({
+        title: "审批",
+        content: "是否通过？",
+        buttons: [{ id: "approve", text: "通过" }],
+      }),
+    });
+
+    expect(result).toEqual({ outTrackId: "card-1", conversationId: "cid-group" });
+    expect(fetchMock.mock.calls[1]?.[0]).toBe("https://api.dingtalk.com/v1.0/card/instances/createAndDeliver");
+    const body = JSON.parse(String(fetchMock.mock.calls[1]?.[1]?.body)) as Record<string, unknown>;
+    expect(body).toMatchObject({
+      cardTemplateId: "tpl-default",
+      outTrackId: "card-1",
+      callbackType: "STREAM",
+      openSpaceId: "dtv1.card//IM_GROUP.cid-group",
+      imGroupOpenDeliverModel: { robotCode: "ding-robot" },
+    });
+    expect((body.cardData as { cardParamMap: Record<string, string> }).cardParamMap.buttons).toBe(
+      JSON.stringify([{ id: "approve", text: "通过", color: "blue", params: {} }])
+    );
+
+    const message = buildCardActionMessage({
+      action: parseDingtalkCardCallback(callback)!,
+      accountId: "default",
+      robotCode: "ding-robot",
+    });
+    expect(message).toMatchObject({
+      senderId: "user-1",
+      conversationType: "2",
+      conversationId: "cid-group",
+      atUsers: [{ dingtalkId: "ding-robot" }],
+    });
+  });
+
+  it("falls back to the callback space when the card target is unknown", () => {
+    const message = buildCardActionMessage({
+      action: parseDingtalkCardCallback({ ...callback, spaceType: "IM_ROBOT", spaceId: undefined })!,
+    });
+    expect(message.conversationType).toBe("1");
+    expect(message.conversationId).toBe("user-1");
+    expect(message.atUsers).toBeUndefined();
+  });
+});
@@ -0,0 +1,407 @@
+/**
+ * 钉钉互动卡片
+ *
+ * 提供:
+ * - sendCardDingtalk: 按模板创建并投放卡片（单聊/群聊）
+ * - updateCardDingtalk: 按 key 更新卡片数据
+ * - buildActionCardData: 构造通用互动卡片（标题 / 正文 / 按钮 / 输入框）的数据
+ * - parseDingtalkCardCallback / buildCardActionMessage: 卡片回调转换为入站消息
+ *
+ * 卡片模板在钉钉卡片平台搭建，按钮回调类型需设置为 STREAM。
+ *
+ * API 文档:
+ * - 创建并投放卡片: https://open.dingtalk.com/document/orgapp/create-and-deliver-cards
+ * - 更新卡片: https://open.dingtalk.com/document/orgapp/interactive-card-update-interface
+ */
+
+import { enqueueSend } from "@openclaw-china/shared";
+import { getAccessToken } from "./client.js";
+import type { DingtalkCardAction, DingtalkConfig, DingtalkRawMessage } from "./types.js";
+
+/** 钉钉 API 基础 URL */
+const DINGTALK_API_BASE = "https://api.dingtalk.com";
+
+/** HTTP 请求超时时间（毫秒） */
+const REQUEST_TIMEOUT = 30000;
+
+/** 最多记录的卡片投放目标数 */
+const MAX_CARD_TARGETS = 1000;
+
+/**
+ * 卡片按钮
+ */
+export interface DingtalkCardButton {
+  /** 动作 ID，回调时出现在 actionIds 中 */
+  id: string;
+  /** 按钮文字 */
+  text: string;
+  /** 按钮颜色（由模板解释，如 blue / gray / red） */
+  color?: string;
+  /** 点击时随回调提交的参数 */
+  params?: Record<string, string>;
+}
+
+/**
+ * 卡片表单输入框
+ */
+export interface DingtalkCardInput {
+  /** 字段 ID，回调时作为 params 的键 */
+  id: string;
+  label: string;
+  placeholder?: string;
+  required?: boolean;
+}
+
+/**
+ * 发送卡片参数
+ */
+export interface SendCardParams {
+  /** 钉钉配置 */
+  cfg: DingtalkConfig;
+  /** 账户 ID（用于回调时找回会话） */
+  accountId?: string;
+  /** 目标 ID（用户 ID 或会话 ID） */
+  to: string;
+  /** 聊天类型 */
+  chatType: "direct" | "group";
+  /** 模板 ID；省略时按 template 名称或 cards.templateId 解析 */
+  templateId?: string;
+  /** cards.templates 中的模板名称 */
+  template?: string;
+  /** 卡片公共数据，非字符串值会序列化为 JSON */
+  cardData: Record<string, unknown>;
+  /** 按用户 ID 区分的私有数据 */
+  privateData?: Record<string, Record<string, unknown>>;
+  /** 卡片实例 ID；省略时自动生成 */
+  outTrackId?: string;
+}
+
+/**
+ * 发送卡片结果
+ */
+export interface SendCardResult {
+  outTrackId: string;
+  conversationId: string;
+}
+
+/**
+ * 更新卡片参数
+ */
+export interface UpdateCardParams {
+  cfg: DingtalkConfig;
+  outTrackId: string;
+  /** 需要更新的字段（仅更新给出的 key） */
+  cardData: Record<string, unknown>;
+  privateData?: Record<string, Record<string, unknown>>;
+}
+
+type CardTarget = {
+  conversationId: string;
+  chatType: "direct" | "group";
+};
+
+/** 已投放卡片的会话 (accountId:outTrackId -> target)，回调时据此回复到原会话 */
+const cardTargets = new Map<string, CardTarget>();
+
+function cardTargetKey(accountId: string | undefined, outTrackId: string): string {
+  return `${accountId ?? "default"}:${outTrackId}`;
+}
+
+function rememberCardTarget(accountId: string | undefined, outTrackId: string, target: CardTarget): void {
+  cardTargets.set(cardTargetKey(accountId, outTrackId), target);
+  while (cardTargets.size > MAX_CARD_TARGETS) {
+    const oldest = cardTargets.keys().next().value;
+    if (typeof oldest !== "string") break;
+    cardTargets.delete(oldest);
+  }
+}
+
+export function clearCardTargets(): void {
+  cardTargets.clear();
+}
+
+/**
+ * 卡片变量只接受字符串，对象 / 数组 / 数字等序列化为 JSON
+ */
+export function toCardParamMap(data: Record<string, unknown>): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined || value === null) continue;
+    result[key] = typeof value === "string" ? value : JSON.stringify(value);
+  }
+  return result;
+}
+
+/**
+ * 构造通用互动卡片数据（配合 cards.templateId 模板使用）
+ */
+export function buildActionCardData(params: {
+  title: string;
+  content: string;
+  buttons?: DingtalkCardButton[];
+  inputs?: DingtalkCardInput[];
+}): Record<string, unknown> {
+  return {
+    title: params.title,
+    content: params.content,
+    buttons: (params.buttons ?? []).map((button) => ({
+      id: button.id,
+      text: button.text,
+      color: button.color ?? "blue",
+      params: button.params ?? {},
+    })),
+    inputs: params.inputs ?? [],
+  };
+}
+
+/**
+ * 解析模板 ID：显式 templateId > cards.templates[template] > cards.templateId
+ */
+export function resolveCardTemplateId(
+  cfg: DingtalkConfig,
+  params: { templateId?: string; template?: string }
+): string {
+  if (params.templateId?.trim()) return params.templateId.trim();
+  if (params.template) {
+    const named = cfg.cards?.templates?.[params.template];
+    if (!named) {
+      throw new Error(`DingTalk card template "${params.template}" not found in cards.templates`);
+    }
+    return named;
+  }
+  const fallback = cfg.cards?.templateId?.trim();
+  if (!fallback) {
+    throw new Error("DingTalk card template not configured (cards.templateId or templateId required)");
+  }
+  return fallback;
+}
+
+function buildPrivateData(
+  privateData?: Record<string, Record<string, unknown>>
+): Record<string, { cardParamMap: Record<string, string> }> | undefined {
+  if (!privateData) return undefined;
+  const result: Record<string, { cardParamMap: Record<string, string> }> = {};
+  for (const [userId, data] of Object.entries(privateData)) {
+    result[userId] = { cardParamMap: toCardParamMap(data) };
+  }
+  return result;
+}
+
+async function requestCardApi(params: {
+  accessToken: string;
+  method: "POST" | "PUT";
+  path: string;
+  body: unknown;
+  action: string;
+}): Promise<void> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+
+  try {
+    const init: RequestInit = {
+      method: params.method,
+      headers: {
+        "Content-Type": "application/json",
+        "x-acs-dingtalk-access-token": params.accessToken,
+      },
+      body: JSON.stringify(params.body),
+      signal: controller.signal,
+    };
+    const response = await fetch(`${DINGTALK_API_BASE}${params.path}`, init);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      let errorMessage = `DingTalk card ${params.action} failed: HTTP ${response.status}`;
+      try {
+        const errorData = JSON.parse(errorText) as { code?: string; message?: string };
+        if (errorData.message) {
+          errorMessage = `DingTalk card ${params.action} failed: ${errorData.message} (code: ${errorData.code ?? "unknown"})`;
+        }
+      } catch {
+        errorMessage = `${errorMessage} - ${errorText}`;
+      }
+      throw new Error(errorMessage);
+    }
+
+    const data = (await response.json().catch(() => ({}))) as {
+      success?: boolean;
+      result?: { deliverResults?: Array<{ success?: boolean; spaceId?: string; errorMsg?: string }> };
+    };
+    const failed = (data.result?.deliverResults ?? []).filter((item) => item.success === false);
+    if (failed.length > 0) {
+      throw new Error(
+        `DingTalk card ${params.action} failed: ${failed.map((item) => `${item.spaceId ?? "unknown"}: ${item.errorMsg ?? "unknown error"}`).join(", ")}`
+      );
+    }
+  } catch (err) {
+    if (err instanceof Error && err.name === "AbortError") {
+      throw new Error(`DingTalk card ${params.action} timed out after ${REQUEST_TIMEOUT}ms`);
+    }
+    throw err;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * 创建并投放互动卡片
+ *
+ * 调用 /v1.0/card/instances/createAndDeliver，回调类型为 STREAM
+ *
+ * @throws Error 如果凭证 / 模板未配置或 API 调用失败
+ */
+export async function sendCardDingtalk(params: SendCardParams): Promise<SendCardResult> {
+  const { cfg, accountId, to, chatType } = params;
+
+  if (!cfg.clientId || !cfg.clientSecret) {
+    throw new Error("DingTalk credentials not configured (clientId, clientSecret required)");
+  }
+
+  const cardTemplateId = resolveCardTemplateId(cfg, params);
+  const accessToken = await getAccessToken(cfg.clientId, cfg.clientSecret);
+  const outTrackId =
+    params.outTrackId ?? `card_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+
+  const body: Record<string, unknown> = {
+    cardTemplateId,
+    outTrackId,
+    callbackType: "STREAM",
+    cardData: { cardParamMap: toCardParamMap(params.cardData) },
+    userIdType: 1,
+  };
+  const privateData = buildPrivateData(params.privateData);
+  if (privateData) body.privateData = privateData;
+
+  if (chatType === "group") {
+    body.openSpaceId = `dtv1.card//IM_GROUP.${to}`;
+    body.imGroupOpenSpaceModel = { supportForward: true };
+    body.imGroupOpenDeliverModel = { robotCode: cfg.clientId };
+  } else {
+    body.openSpaceId = `dtv1.card//IM_ROBOT.${to}`;
+    body.imRobotOpenSpaceModel = { supportForward: true };
+    body.imRobotOpenDeliverModel = { spaceType: "IM_ROBOT", robotCode: cfg.clientId };
+  }
+
+  await enqueueSend({ platform: "dingtalk", accountId: cfg.clientId, target: `${chatType}:${to}` }, () =>
+    requestCardApi({
+      accessToken,
+      method: "POST",
+      path: "/v1.0/card/instances/createAndDeliver",
+      body,
+      action: "send",
+    })
+  );
+
+  rememberCardTarget(accountId, outTrackId, { conversationId: to, chatType });
+  return { outTrackId, conversationId: to };
+}
+
+/**
+ * 更新卡片数据（仅更新给出的 key）
+ *
+ * @throws Error 如果凭证未配置或 API 调用失败
+ */
+export async function updateCardDingtalk(params: UpdateCardParams): Promise<void> {
+  const { cfg, outTrackId } = params;
+
+  if (!cfg.clientId || !cfg.clientSecret) {
+    throw new Error("DingTalk credentials not configured (clientId, clientSecret required)");
+  }
+
+  const accessToken = await getAccessToken(cfg.clientId, cfg.clientSecret);
+  const body: Record<string, unknown> = {
+    outTrackId,
+    cardData: { cardParamMap: toCardParamMap(params.cardData) },
+    cardUpdateOptions: { updateCardDataByKey: true, updatePrivateDataByKey: true },
+  };
+  const privateData = buildPrivateData(params.privateData);
+  if (privateData) body.privateData = privateData;
+
+  await requestCardApi({
+    accessToken,
+    method: "PUT",
+    path: "/v1.0/card/instances",
+    body,
+    action: "update",
+  });
+}
+
+function toRecord(value: unknown): Record<string, unknown> {
+  if (typeof value === "string") {
+    try {
+      const parsed = JSON.parse(value) as unknown;
+      return parsed && typeof parsed === "object" ? (parsed as Record<string, unknown>) : {};
+    } catch {
+      return {};
+    }
+  }
+  return value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+}
+
+/**
+ * 解析卡片回调（TOPIC_CARD）数据；缺少 outTrackId / userId 时返回 null
+ */
+export function parseDingtalkCardCallback(data: unknown): DingtalkCardAction | null {
+  const payload = toRecord(data);
+  const outTrackId = typeof payload.outTrackId === "string" ? payload.outTrackId : "";
+  const userId = typeof payload.userId === "string" ? payload.userId : "";
+  if (!outTrackId || !userId) return null;
+
+  // content: {"cardPrivateData":{"actionIds":["approve"],"params":{...}}}
+  const content = toRecord(payload.content);
+  const privateData = toRecord(content.cardPrivateData);
+  const actionIds = Array.isArray(privateData.actionIds)
+    ? privateData.actionIds.filter((id): id is string => typeof id === "string")
+    : [];
+
+  return {
+    outTrackId,
+    userId,
+    actionIds,
+    params: toRecord(privateData.params),
+    spaceType: typeof payload.spaceType === "string" ? payload.spaceType : undefined,
+    spaceId: typeof payload.spaceId === "string" ? payload.spaceId : undefined,
+  };
+}
+
+/**
+ * 卡片回调的文本表示，作为用户输入交给 Agent
+ */
+export function formatDingtalkCardAction(action: DingtalkCardAction): string {
+  const parts = [`out_track_id=${action.outTrackId}`];
+  if (action.actionIds.length > 0) parts.push(`action=${action.actionIds.join(",")}`);
+  for (const [key, value] of Object.entries(action.params)) {
+    parts.push(`${key}=${typeof value === "string" ? value : JSON.stringify(value)}`);
+  }
+  return `[card_action] ${parts.join(" ")}`;
+}
+
+/**
+ * 将卡片回调转换为入站消息
+ *
+ * 会话优先取发送卡片时记录的目标；进程重启后退回到回调中的场域信息
+ */
+export function buildCardActionMessage(params: {
+  action: DingtalkCardAction;
+  accountId?: string;
+  robotCode?: string;
+}): DingtalkRawMessage {
+  const { action, accountId, robotCode } = params;
+  const known = cardTargets.get(cardTargetKey(accountId, action.outTrackId));
+  const isGroup = known ? known.chatType === "group" : action.spaceType === "IM_GROUP";
+  const conversationId = known?.conversationId ?? action.spaceId ?? action.userId;
+
+  return {
+    senderId: action.userId,
+    senderStaffId: action.userId,
+    senderNick: action.userId,
+    conversationType: isGroup ? "2" : "1",
+    conversationId,
+    msgtype: "text",
+    text: { content: formatDingtalkCardAction(action) },
+    // 点击机器人发出的卡片视为对机器人说话，群聊不再要求 @
+    atUsers: isGroup && robotCode ? [{ dingtalkId: robotCode }] : undefined,
+    robotCode,
+    cardAction: action,
+  };
+}
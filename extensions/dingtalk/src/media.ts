@@ -16,12 +16,14 @@
 
 import { getAccessToken } from "./client.js";
 import { resolveInboundMediaTempDir } from "./config.js";
+import { recordSentDingtalk } from "./send.js";
 import {
   extractImagesFromText,
   cleanupFileSafe,
   downloadToTempFile,
   FileSizeLimitError as SharedFileSizeLimitError,
   MediaTimeoutError,
+  enqueueSend,
 } from "@openclaw-china/shared";
 import type { Logger } from "./logger.js";
 import * as path from "path";
@@ -125,6 +127,8 @@ export interface SendMediaParams {
   mediaBuffer?: Buffer;
   /** 可选的文件名 */
   fileName?: string;
+  /** 账户 ID（登记已发送消息用，默认 default） */
+  accountId?: string;
 }
 
 /**
@@ -345,7 +349,7 @@ export async function uploadMediaDingtalk(params: {
 export async function sendMediaDingtalk(
   params: SendMediaParams
 ): Promise<DingtalkSendResult> {
-  const { cfg, to, mediaUrl, chatType, mediaBuffer, fileName } = params;
+  const { cfg, to, mediaUrl, chatType, mediaBuffer, fileName, accountId } = params;
 
   // 验证凭证
   if (!cfg.clientId || !cfg.clientSecret) {
@@ -433,26 +437,13 @@ export async function sendMediaDingtalk(
   // 获取 Access Token
   const accessToken = await getAccessToken(cfg.clientId, cfg.clientSecret);
 
-  // 发送媒体消息
-  if (chatType === "direct") {
-    return sendDirectMediaMessage({
-      cfg,
-      to,
-      mediaId: uploadResult.mediaId,
-      mediaType,
-      accessToken,
-      fileName: name,
-    });
-  } else {
-    return sendGroupMediaMessage({
-      cfg,
-      to,
-      mediaId: uploadResult.mediaId,
-      mediaType,
-      accessToken,
-      fileName: name,
-    });
-  }
+  // 发送媒体消息（与文本共用发送队列）
+  const message = { cfg, to, mediaId: uploadResult.mediaId, mediaType, accessToken, fileName: name };
+  const result = await enqueueSend({ platform: "dingtalk", accountId: cfg.clientId, target: `${chatType}:${to}` }, () =>
+    chatType === "direct" ? sendDirectMediaMessage(message) : sendGroupMediaMessage(message)
+  );
+  recordSentDingtalk({ accountId, to, chatType, result });
+  return result;
 }
 
 /**
@@ -640,6 +631,7 @@ async function sendDirectMediaMessage(params: {
     return {
       messageId: data.processQueryKey ?? `dm_media_${Date.now()}`,
       conversationId: to,
+      processQueryKey: data.processQueryKey,
     };
   } catch (err) {
     if (err instanceof Error && err.name === "AbortError") {
@@ -704,6 +696,7 @@ async function sendGroupMediaMessage(params: {
     return {
       messageId: data.processQueryKey ?? `gm_media_${Date.now()}`,
       conversationId: to,
+      processQueryKey: data.processQueryKey,
     };
   } catch (err) {
     if (err instanceof Error && err.name === "AbortError") {
@@ -7,6 +7,6 @@ export {
   monitorDingtalkProvider,
   stopDingtalkMonitor,
   isMonitorActive,
-  getCurrentAccountId,
+  getActiveAccountIds,
   type MonitorDingtalkOpts,
 } from "./bot-gateway.js";
@@ -2,8 +2,11 @@
  * 钉钉出站适配器
  *
  * 实现 ChannelOutboundAdapter 接口，提供:
- * - sendText: 发送文本消息
+ * - sendText: 发送文本消息（notice:<userId>[,<userId>...] 目标以工作通知发送）
  * - sendMedia: 发送媒体消息（含回退逻辑）
+ * - sendCard: 发送互动卡片（按钮 / 表单回调会作为用户输入回到 Agent）
+ * - recall: 撤回已发送的消息
+ * - edit: 钉钉普通机器人消息不支持编辑，返回错误
  * - chunker: 长消息分块（利用 Moltbot 核心的 markdown-aware 分块）
  *
  * 配置:
@@ -12,9 +15,18 @@
  * - chunkerMode: "markdown" (使用 markdown 感知的分块模式)
  */
 
-import { sendMessageDingtalk } from "./send.js";
+import { forgetSentMessage, resolveSentMessage, type MessageActionResult } from "@openclaw-china/shared";
+import {
+  extractTitle,
+  formatDingtalkTarget,
+  recallMessageDingtalk,
+  sendMessageDingtalk,
+  sendWorkNotificationDingtalk,
+} from "./send.js";
 import { sendMediaDingtalk } from "./media.js";
+import { sendCardDingtalk } from "./interactive-card.js";
 import { getDingtalkRuntime } from "./runtime.js";
+import { resolveDingtalkAccount } from "./config.js";
 import type { DingtalkConfig } from "./types.js";
 
 /**
@@ -37,6 +49,17 @@ export interface SendResult {
   conversationId?: string;
 }
 
+/**
+ * 撤回/编辑参数
+ */
+export interface MessageActionParams {
+  cfg: OutboundConfig;
+  accountId?: string;
+  /** 要操作的消息 ID（processQueryKey）；省略时取发给 to 的最近一条消息 */
+  messageId?: string;
+  to?: string;
+}
+
 /**
  * 解析目标 ID 和聊天类型
  */
@@ -50,6 +73,46 @@ function parseTarget(to: string): { targetId: string; chatType: "direct" | "grou
   return { targetId: to, chatType: "direct" };
 }
 
+/**
+ * 解析工作通知目标（notice:<userId>[,<userId>...]），非工作通知目标返回 null
+ */
+function parseNoticeTarget(to: string): string[] | null {
+  if (!to.startsWith("notice:")) return null;
+  return to
+    .slice(7)
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+}
+
+/**
+ * 以工作通知发送 Markdown 文本，messageId 为异步任务 ID（不支持撤回）
+ */
+async function sendNoticeText(
+  dingtalkCfg: DingtalkConfig,
+  to: string,
+  userIds: string[],
+  text: string
+): Promise<SendResult> {
+  const { taskId } = await sendWorkNotificationDingtalk({
+    cfg: dingtalkCfg,
+    userIds,
+    message: { type: "markdown", title: extractTitle(text, "通知"), text },
+  });
+  return { channel: "dingtalk", messageId: taskId, chatId: to, conversationId: to };
+}
+
+
+/**
+ * 解析指定账户的钉钉配置
+ */
+function resolveOutboundConfig(cfg: OutboundConfig, accountId?: string): DingtalkConfig {
+  const account = resolveDingtalkAccount({ cfg, accountId });
+  if (!account.config) {
+    throw new Error(`DingTalk channel not configured for account ${account.accountId}`);
+  }
+  return account.config;
+}
 
 /**
  * 钉钉出站适配器
@@ -87,12 +150,16 @@ export const dingtalkOutbound = {
     cfg: OutboundConfig;
     to: string;
     text: string;
+    accountId?: string;
   }): Promise<SendResult> => {
     const { cfg, to, text } = params;
 
-    const dingtalkCfg = cfg.channels?.dingtalk;
-    if (!dingtalkCfg) {
-      throw new Error("DingTalk channel not configured");
+    const dingtalkCfg = resolveOutboundConfig(cfg, params.accountId);
+    const accountId = resolveDingtalkAccount({ cfg, accountId: params.accountId }).accountId;
+
+    const noticeUsers = parseNoticeTarget(to);
+    if (noticeUsers) {
+      return sendNoticeText(dingtalkCfg, to, noticeUsers, text);
     }
 
     const { targetId, chatType } = parseTarget(to);
@@ -102,6 +169,7 @@ export const dingtalkOutbound = {
       to: targetId,
       text,
       chatType,
+      accountId,
     });
 
     return {
@@ -120,12 +188,18 @@ export const dingtalkOutbound = {
     to: string;
     text?: string;
     mediaUrl?: string;
+    accountId?: string;
   }): Promise<SendResult> => {
     const { cfg, to, text, mediaUrl } = params;
 
-    const dingtalkCfg = cfg.channels?.dingtalk;
-    if (!dingtalkCfg) {
-      throw new Error("DingTalk channel not configured");
+    const dingtalkCfg = resolveOutboundConfig(cfg, params.accountId);
+    const accountId = resolveDingtalkAccount({ cfg, accountId: params.accountId }).accountId;
+
+    // 工作通知不走机器人媒体消息，媒体以链接形式附在正文后
+    const noticeUsers = parseNoticeTarget(to);
+    if (noticeUsers) {
+      const parts = [text?.trim(), mediaUrl ? `📎 ${mediaUrl}` : undefined].filter(Boolean);
+      return sendNoticeText(dingtalkCfg, to, noticeUsers, parts.join("\n\n"));
     }
 
     const { targetId, chatType } = parseTarget(to);
@@ -137,6 +211,7 @@ export const dingtalkOutbound = {
         to: targetId,
         text,
         chatType,
+        accountId,
       });
     }
 
@@ -148,6 +223,7 @@ export const dingtalkOutbound = {
           to: targetId,
           mediaUrl,
           chatType,
+          accountId,
         });
 
         return {
@@ -166,6 +242,7 @@ export const dingtalkOutbound = {
           to: targetId,
           text: fallbackText,
           chatType,
+          accountId,
         });
 
         return {
@@ -185,4 +262,81 @@ export const dingtalkOutbound = {
       conversationId: targetId,
     };
   },
+
+  /**
+   * 发送互动卡片，messageId 为卡片 outTrackId
+   */
+  sendCard: async (params: {
+    cfg: OutboundConfig;
+    to: string;
+    accountId?: string;
+    /** 模板 ID；省略时按 template 名称或 cards.templateId 解析 */
+    templateId?: string;
+    template?: string;
+    cardData: Record<string, unknown>;
+  }): Promise<SendResult> => {
+    const { cfg, to, accountId, templateId, template, cardData } = params;
+
+    const dingtalkCfg = resolveOutboundConfig(cfg, accountId);
+    const { targetId, chatType } = parseTarget(to);
+
+    const result = await sendCardDingtalk({
+      cfg: dingtalkCfg,
+      accountId: resolveDingtalkAccount({ cfg, accountId }).accountId,
+      to: targetId,
+      chatType,
+      templateId,
+      template,
+      cardData,
+    });
+
+    return {
+      channel: "dingtalk",
+      messageId: result.outTrackId,
+      chatId: result.conversationId,
+      conversationId: result.conversationId,
+    };
+  },
+
+  /**
+   * 撤回机器人发送的消息
+   */
+  recall: async (params: MessageActionParams): Promise<MessageActionResult> => {
+    const dingtalkCfg = resolveOutboundConfig(params.cfg, params.accountId);
+    const accountId = resolveDingtalkAccount({ cfg: params.cfg, accountId: params.accountId }).accountId;
+    // 发送时登记的目标为 chat:<会话 ID> / user:<用户 ID>，裸 ID 按单聊处理
+    const target = params.to ? parseTarget(params.to) : undefined;
+    const record = resolveSentMessage({
+      channel: "dingtalk",
+      accountId,
+      messageId: params.messageId,
+      to: target ? formatDingtalkTarget(target.targetId, target.chatType) : undefined,
+    });
+    const messageId = record?.messageId ?? params.messageId?.trim();
+    const to = record?.to ?? params.to;
+    if (!messageId || !to) {
+      return { ok: false, error: "no sent message to recall (messageId and to are required)" };
+    }
+
+    const { targetId, chatType } = parseTarget(to);
+    try {
+      await recallMessageDingtalk({
+        cfg: dingtalkCfg,
+        conversationId: chatType === "group" ? targetId : undefined,
+        chatType,
+        processQueryKeys: [messageId],
+      });
+    } catch (err) {
+      return { ok: false, error: err instanceof Error ? err.message : String(err) };
+    }
+    forgetSentMessage({ channel: "dingtalk", accountId, messageId });
+    return { ok: true };
+  },
+
+  /**
+   * 编辑已发送的消息（钉钉机器人消息不支持编辑）
+   */
+  edit: async (_params: MessageActionParams & { text: string }): Promise<MessageActionResult> => {
+    return { ok: false, error: "DingTalk robot messages cannot be edited; recall and resend instead" };
+  },
 };
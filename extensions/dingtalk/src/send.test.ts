@@ -0,0 +1,179 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { resetSendQueues } from "@openclaw-china/shared";
+
+import { clearTokenCache } from "./client.js";
+import { DingtalkConfigSchema } from "./config.js";
+import {
+  buildRobotMessage,
+  buildWorkNotificationMessage,
+  sendBatchMessageDingtalk,
+  sendWorkNotificationDingtalk,
+} from "./send.js";
+
+const cfg = DingtalkConfigSchema.parse({
+  clientId: "ding-robot",
+  clientSecret: "secret",
+  workNotice: { agentId: "3001" },
+});
+
+function mockJsonResponse(payload: unknown): Response {
+  return {
+    ok: true,
+    status: 200,
+    json: vi.fn().mockResolvedValue(payload),
+    text: vi.fn().mockResolvedValue(JSON.stringify(payload)),
+  } as unknown as Response;
+}
+
+function requestBody(fetchMock: ReturnType<typeof vi.fn>, index: number): Record<string, unknown> {
+  const init = fetchMock.mock.calls[index]?.[1] as RequestInit | undefined;
+  return JSON.parse(String(init?.body)) as Record<string, unknown>;
+}
+
+afterEach(() => {
+  clearTokenCache();
+  resetSendQueues();
+  vi.unstubAllGlobals();
+});
+
+describe("buildRobotMessage", () => {
+  const buttons = [
+    { title: "同意", url: "https://example.com/ok" },
+    { title: "拒绝", url: "https://example.com/no" },
+  ];
+
+  it("maps action cards to the template for the button count", () => {
+    const single = buildRobotMessage({ type: "actionCard", title: "审批", text: "请处理", buttons: buttons.slice(0, 1) });
+    expect(single.msgKey).toBe("sampleActionCard");
+    expect(JSON.parse(single.msgParam)).toEqual({
+      title: "审批",
+      text: "请处理",
+      singleTitle: "同意",
+      singleURL: "https://example.com/ok",
+    });
+
+    const vertical = buildRobotMessage({ type: "actionCard", title: "审批", text: "请处理", buttons });
+    expect(vertical.msgKey).toBe("sampleActionCard2");
+    expect(JSON.parse(vertical.msgParam)).toMatchObject({ actionTitle2: "拒绝", actionURL2: "https://example.com/no" });
+
+    const horizontal = buildRobotMessage({
+      type: "actionCard",
+      title: "审批",
+      text: "请处理",
+      buttons,
+      orientation: "horizontal",
+    });
+    expect(horizontal.msgKey).toBe("sampleActionCard6");
+    expect(JSON.parse(horizontal.msgParam)).toMatchObject({ buttonTitle1: "同意", buttonUrl2: "https://example.com/no" });
+
+    expect(() => buildRobotMessage({ type: "actionCard", title: "x", text: "x", buttons: [] })).toThrow(/1-5 buttons/);
+  });
+
+  it("builds link, image and file templates", () => {
+    expect(
+      buildRobotMessage({ type: "link", title: "周报", text: "本周进展", messageUrl: "https://example.com/r" })
+    ).toEqual({
+      msgKey: "sampleLink",
+      msgParam: JSON.stringify({ title: "周报", text: "本周进展", messageUrl: "https://example.com/r", picUrl: "" }),
+    });
+    expect(buildRobotMessage({ type: "image", photoURL: "@media-1" }).msgKey).toBe("sampleImageMsg");
+    expect(JSON.parse(buildRobotMessage({ type: "file", mediaId: "@file-1", fileName: "报表.XLSX" }).msgParam)).toEqual({
+      mediaId: "@file-1",
+      fileName: "报表.XLSX",
+      fileType: "xlsx",
+    });
+  });
+});
+
+describe("sendBatchMessageDingtalk", () => {
+  it("splits users into batches and collects invalid ids", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(mockJsonResponse({ accessToken: "token-a", expireIn: 7200 }))
+      .mockResolvedValueOnce(mockJsonResponse({ processQueryKey: "pqk-1", invalidStaffIdList: ["u3"] }))
+      .mockResolvedValueOnce(mockJsonResponse({ processQueryKey: "pqk-2", flowControlledStaffIdList: ["u21"] }));
+    vi.stubGlobal("fetch", fetchMock as unknown as typeof fetch);
+
+    const userIds = Array.from({ length: 21 }, (_, i) => `u${i + 1}`);
+    const result = await sendBatchMessageDingtalk({
+      cfg,
+      userIds: [...userIds, "u1"],
+      message: { type: "text", content: "上线通知" },
+    });
+
+    expect(result).toEqual({
+      processQueryKeys: ["pqk-1", "pqk-2"],
+      invalidUserIds: ["u3"],
+      flowControlledUserIds: ["u21"],
+    });
+    expect(fetchMock.mock.calls[1]?.[0]).toBe("https://api.dingtalk.com/v1.0/robot/oToMessages/batchSend");
+    expect((requestBody(fetchMock, 1).userIds as string[]).length).toBe(20);
+    expect(requestBody(fetchMock, 2)).toMatchObject({ userIds: ["u21"], msgKey: "sampleText" });
+  });
+});
+
+describe("sendWorkNotificationDingtalk", () => {
+  it("sends through the corp conversation API with the app agentId", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(mockJsonResponse({ accessToken: "token-a", expireIn: 7200 }))
+      .mockResolvedValueOnce(mockJsonResponse({ errcode: 0, task_id: 123456 }));
+    vi.stubGlobal("fetch", fetchMock as unknown as typeof fetch);
+
+    const result = await sendWorkNotificationDingtalk({
+      cfg,
+      userIds: ["u1", "u2"],
+      message: { type: "markdown", title: "提醒", text: "## 今日待办" },
+    });
+
+    expect(result).toEqual({ taskId: "123456" });
+    expect(fetchMock.mock.calls[1]?.[0]).toBe(
+      "https://oapi.dingtalk.com/topapi/message/corpconversation/asyncsend_v2?access_token=token-a"
+    );
+    expect(requestBody(fetchMock, 1)).toEqual({
+      agent_id: 3001,
+      userid_list: "u1,u2",
+      msg: { msgtype: "markdown", markdown: { title: "提醒", text: "## 今日待办" } },
+    });
+  });
+
+  it("rejects missing agentId or recipients and surfaces errcode failures", async () => {
+    const message = { type: "text" as const, content: "hi" };
+    await expect(
+      sendWorkNotificationDingtalk({ cfg: DingtalkConfigSchema.parse({ clientId: "a", clientSecret: "b" }), userIds: ["u1"], message })
+    ).rejects.toThrow(/workNotice.agentId/);
+    await expect(sendWorkNotificationDingtalk({ cfg, message })).rejects.toThrow(/userIds, deptIds or toAllUser/);
+
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(mockJsonResponse({ accessToken: "token-a", expireIn: 7200 }))
+      .mockResolvedValueOnce(mockJsonResponse({ errcode: 33012, errmsg: "无效的USERID" }));
+    vi.stubGlobal("fetch", fetchMock as unknown as typeof fetch);
+    await expect(sendWorkNotificationDingtalk({ cfg, userIds: ["bad"], message })).rejects.toThrow(
+      "DingTalk work notification send failed: 无效的USERID (code: 33012)"
+    );
+
+    expect(
+      buildWorkNotificationMessage({
+        type: "actionCard",
+        title: "审批",
+        text: "请处理",
+        buttons: [
+          { title: "同意", url: "https://example.com/ok" },
+          { title: "拒绝", url: "https://example.com/no" },
+        ],
+      })
+    ).toEqual({
+      msgtype: "action_card",
+      action_card: {
+        title: "审批",
+        markdown: "请处理",
+        btn_orientation: "0",
+        btn_json_list: [
+          { title: "同意", action_url: "https://example.com/ok" },
+          { title: "拒绝", action_url: "https://example.com/no" },
+        ],
+      },
+    });
+  });
+});
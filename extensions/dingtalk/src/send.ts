@@ -3,28 +3,51 @@
  *
  * 提供:
  * - sendMessageDingtalk: 发送 Markdown 消息（单聊/群聊）
+ * - sendRobotMessageDingtalk: 按模板发送机器人消息（文本 / Markdown / ActionCard / 链接 / 图片 / 文件）
+ * - sendBatchMessageDingtalk: 机器人单聊批量发送给多个用户
+ * - sendWorkNotificationDingtalk: 以应用身份发送工作通知（可触达未与机器人聊过天的用户）
+ * - recallMessageDingtalk: 撤回机器人发送的消息（单聊/群聊）
+ * - replyEmotionDingtalk / recallEmotionDingtalk: 给消息贴 / 撤回表情
  *
  * API 文档:
  * - 单聊: https://open.dingtalk.com/document/orgapp/chatbots-send-one-on-one-chat-messages-in-batches
  * - 群聊: https://open.dingtalk.com/document/orgapp/the-robot-sends-a-group-message
+ * - 撤回: https://open.dingtalk.com/document/orgapp/batch-message-recall-chat
+ * - 消息模板: https://open.dingtalk.com/document/orgapp/types-of-messages-sent-by-robots
+ * - 工作通知: https://open.dingtalk.com/document/orgapp/asynchronous-sending-of-enterprise-session-messages
  */
 
+import { enqueueSend, recordSentMessage } from "@openclaw-china/shared";
 import { getAccessToken } from "./client.js";
+import { DEFAULT_ACCOUNT_ID } from "./config.js";
 import type { DingtalkConfig, DingtalkSendResult } from "./types.js";
 
 /** 钉钉 API 基础 URL */
 const DINGTALK_API_BASE = "https://api.dingtalk.com";
 
+/** 钉钉旧版 API 基础 URL（工作通知） */
+const DINGTALK_OAPI_BASE = "https://oapi.dingtalk.com";
+
 /** HTTP 请求超时时间（毫秒） */
 const REQUEST_TIMEOUT = 30000;
 
 /** Markdown 默认标题 */
 const DEFAULT_MARKDOWN_TITLE = "Moltbot";
 
+/** 单聊批量发送每次最多的用户数 */
+export const BATCH_SEND_MAX_USERS = 20;
+
+/** ActionCard 最多按钮数（sampleActionCard2 ~ sampleActionCard5） */
+const MAX_ACTION_CARD_BUTTONS = 5;
+
+/** 工作通知每次最多的用户数 / 部门数 */
+const WORK_NOTICE_MAX_USERS = 5000;
+const WORK_NOTICE_MAX_DEPTS = 500;
+
 /**
  * 从文本中提取标题（取第一行，去除 markdown 符号）
  */
-function extractTitle(text: string, defaultTitle: string): string {
+export function extractTitle(text: string, defaultTitle: string): string {
   const firstLine = text.split("\n")[0] || "";
   const cleaned = firstLine.replace(/^[#*\s\->]+/, "").slice(0, 20);
   return cleaned || defaultTitle;
@@ -44,6 +67,133 @@ export interface SendMessageParams {
   chatType: "direct" | "group";
   /** Markdown 消息标题（可选） */
   title?: string;
+  /** 账户 ID（登记已发送消息用，默认 default） */
+  accountId?: string;
+}
+
+/**
+ * ActionCard 按钮
+ */
+export interface DingtalkActionCardButton {
+  /** 按钮文字 */
+  title: string;
+  /** 点击跳转链接 */
+  url: string;
+}
+
+/**
+ * 机器人消息内容
+ *
+ * - image.photoURL: 图片 URL 或上传得到的 mediaId（工作通知只支持 mediaId）
+ * - file.mediaId: 上传得到的 mediaId
+ */
+export type DingtalkRobotMessage =
+  | { type: "text"; content: string }
+  | { type: "markdown"; title: string; text: string }
+  | {
+      type: "actionCard";
+      title: string;
+      text: string;
+      buttons: DingtalkActionCardButton[];
+      /** 按钮排列方向；horizontal 仅适用于两个按钮 */
+      orientation?: "vertical" | "horizontal";
+    }
+  | { type: "link"; title: string; text: string; messageUrl: string; picUrl?: string }
+  | { type: "image"; photoURL: string }
+  | { type: "file"; mediaId: string; fileName: string; fileType?: string };
+
+/**
+ * 机器人消息模板参数
+ */
+export interface RobotMessagePayload {
+  msgKey: string;
+  msgParam: string;
+}
+
+function resolveFileType(fileName: string, fileType?: string): string {
+  if (fileType) return fileType;
+  const dot = fileName.lastIndexOf(".");
+  return dot > 0 && dot < fileName.length - 1 ? fileName.slice(dot + 1).toLowerCase() : "file";
+}
+
+function checkActionCardButtons(buttons: DingtalkActionCardButton[]): void {
+  if (buttons.length === 0 || buttons.length > MAX_ACTION_CARD_BUTTONS) {
+    throw new Error(
+      `DingTalk action card requires 1-${MAX_ACTION_CARD_BUTTONS} buttons, got ${buttons.length}`
+    );
+  }
+}
+
+/**
+ * 将消息内容转为机器人消息模板（msgKey + msgParam）
+ *
+ * ActionCard 按按钮数选择模板:
+ * - 1 个按钮: sampleActionCard
+ * - 2 个按钮横排: sampleActionCard6
+ * - 2 ~ 5 个按钮竖排: sampleActionCard2 ~ sampleActionCard5
+ *
+ * @throws Error 如果 ActionCard 按钮数不在 1 ~ 5 之间
+ */
+export function buildRobotMessage(message: DingtalkRobotMessage): RobotMessagePayload {
+  switch (message.type) {
+    case "text":
+      return { msgKey: "sampleText", msgParam: JSON.stringify({ content: message.content }) };
+    case "markdown":
+      return {
+        msgKey: "sampleMarkdown",
+        msgParam: JSON.stringify({ title: message.title, text: message.text }),
+      };
+    case "actionCard": {
+      const { title, text, buttons, orientation } = message;
+      checkActionCardButtons(buttons);
+      if (buttons.length === 1) {
+        return {
+          msgKey: "sampleActionCard",
+          msgParam: JSON.stringify({ title, text, singleTitle: buttons[0].title, singleURL: buttons[0].url }),
+        };
+      }
+      if (buttons.length === 2 && orientation === "horizontal") {
+        return {
+          msgKey: "sampleActionCard6",
+          msgParam: JSON.stringify({
+            title,
+            text,
+            buttonTitle1: buttons[0].title,
+            buttonUrl1: buttons[0].url,
+            buttonTitle2: buttons[1].title,
+            buttonUrl2: buttons[1].url,
+          }),
+        };
+      }
+      const param: Record<string, string> = { title, text };
+      buttons.forEach((button, index) => {
+        param[`actionTitle${index + 1}`] = button.title;
+        param[`actionURL${index + 1}`] = button.url;
+      });
+      return { msgKey: `sampleActionCard${buttons.length}`, msgParam: JSON.stringify(param) };
+    }
+    case "link":
+      return {
+        msgKey: "sampleLink",
+        msgParam: JSON.stringify({
+          title: message.title,
+          text: message.text,
+          messageUrl: message.messageUrl,
+          picUrl: message.picUrl ?? "",
+        }),
+      };
+    case "image":
+      return { msgKey: "sampleImageMsg", msgParam: JSON.stringify({ photoURL: message.photoURL }) };
+    case "file":
+      return {
+        msgKey: "sampleFile",
+        msgParam: JSON.stringify({
+          mediaId: message.mediaId,
+          fileName: message.fileName,
+          fileType: resolveFileType(message.fileName, message.fileType),
+        }),
+      };
+  }
 }
 
 /**
@@ -63,6 +213,7 @@ interface DingtalkApiError {
  * - group: /v1.0/robot/groupMessages/send (群聊发送)
  *
  * 始终使用 sampleMarkdown 模板，支持表格、代码块等格式
+ * 发送经共享发送队列限流，遇到 QPS 限制时退避重试
  *
  * @param params 发送参数
  * @returns 发送结果
@@ -71,43 +222,199 @@ interface DingtalkApiError {
 export async function sendMessageDingtalk(
   params: SendMessageParams
 ): Promise<DingtalkSendResult> {
-  const { cfg, to, text, chatType, title } = params;
+  const { cfg, to, text, chatType, title, accountId } = params;
+
+  // 提取标题
+  const msgTitle = title || extractTitle(text, DEFAULT_MARKDOWN_TITLE);
+
+  return sendRobotMessageDingtalk({
+    cfg,
+    to,
+    chatType,
+    message: { type: "markdown", title: msgTitle, text },
+    accountId,
+  });
+}
+
+/**
+ * 发送机器人模板消息参数
+ */
+export interface SendRobotMessageParams {
+  /** 钉钉配置 */
+  cfg: DingtalkConfig;
+  /** 目标 ID（用户 ID 或会话 ID） */
+  to: string;
+  /** 聊天类型 */
+  chatType: "direct" | "group";
+  /** 消息内容 */
+  message: DingtalkRobotMessage;
+  /** 账户 ID（登记已发送消息用，默认 default） */
+  accountId?: string;
+}
+
+/**
+ * 钉钉会话目标（chat:<会话 ID> / user:<用户 ID>），与入站消息上下文的 To 一致
+ */
+export function formatDingtalkTarget(to: string, chatType: "direct" | "group"): string {
+  return `${chatType === "group" ? "chat" : "user"}:${to}`;
+}
+
+/**
+ * 登记已发送消息，供撤回使用；仅记录带 processQueryKey 的结果
+ */
+export function recordSentDingtalk(params: {
+  accountId?: string;
+  to: string;
+  chatType: "direct" | "group";
+  result: DingtalkSendResult;
+}): void {
+  const { accountId, to, chatType, result } = params;
+  if (!result.processQueryKey) return;
+  recordSentMessage({
+    channel: "dingtalk",
+    accountId: accountId ?? DEFAULT_ACCOUNT_ID,
+    messageId: result.processQueryKey,
+    to: formatDingtalkTarget(to, chatType),
+  });
+}
+
+/**
+ * 按模板发送机器人消息（单聊 / 企业内部群）
+ *
+ * 发送成功后登记到已发送消息表（带 processQueryKey 时），回复与主动发送均可撤回
+ *
+ * @param params 发送参数
+ * @returns 发送结果
+ * @throws Error 如果凭证未配置、模板参数无效或 API 调用失败
+ */
+export async function sendRobotMessageDingtalk(
+  params: SendRobotMessageParams
+): Promise<DingtalkSendResult> {
+  const { cfg, to, chatType, message, accountId } = params;
 
   // 验证凭证
   if (!cfg.clientId || !cfg.clientSecret) {
     throw new Error("DingTalk credentials not configured (clientId, clientSecret required)");
   }
 
+  const { msgKey, msgParam } = buildRobotMessage(message);
+
   // 获取 Access Token
   const accessToken = await getAccessToken(cfg.clientId, cfg.clientSecret);
 
-  // 提取标题
-  const msgTitle = title || extractTitle(text, DEFAULT_MARKDOWN_TITLE);
+  const result = await enqueueSend({ platform: "dingtalk", accountId: cfg.clientId, target: `${chatType}:${to}` }, async () => {
+    if (chatType === "group") {
+      return sendGroupMessage({ cfg, to, msgKey, msgParam, accessToken });
+    }
+
+    const data = await sendDirectMessage({ cfg, userIds: [to], msgKey, msgParam, accessToken });
+    // 检查是否有无效用户
+    if (data.invalidStaffIdList && data.invalidStaffIdList.length > 0) {
+      throw new Error(
+        `DingTalk direct message send failed: invalid user IDs: ${data.invalidStaffIdList.join(", ")}`
+      );
+    }
+    return {
+      messageId: data.processQueryKey ?? `dm_${Date.now()}`,
+      conversationId: to,
+      processQueryKey: data.processQueryKey,
+    };
+  });
+  recordSentDingtalk({ accountId, to, chatType, result });
+  return result;
+}
+
+/**
+ * 批量发送参数
+ */
+export interface SendBatchMessageParams {
+  /** 钉钉配置 */
+  cfg: DingtalkConfig;
+  /** 接收消息的用户 ID（staffId）列表 */
+  userIds: string[];
+  /** 消息内容 */
+  message: DingtalkRobotMessage;
+}
+
+/**
+ * 批量发送结果
+ */
+export interface BatchSendResult {
+  /** 每次调用返回的 processQueryKey（撤回时使用） */
+  processQueryKeys: string[];
+  /** 无效的用户 ID */
+  invalidUserIds: string[];
+  /** 被流控、未送达的用户 ID */
+  flowControlledUserIds: string[];
+}
+
+/**
+ * 机器人单聊批量发送
+ *
+ * 调用 /v1.0/robot/oToMessages/batchSend，每次最多 BATCH_SEND_MAX_USERS 个用户，
+ * 超出时自动分批；无效 / 被流控的用户在结果中返回，不抛错
+ *
+ * @param params 发送参数
+ * @returns 批量发送结果
+ * @throws Error 如果凭证未配置、模板参数无效或 API 调用失败
+ */
+export async function sendBatchMessageDingtalk(
+  params: SendBatchMessageParams
+): Promise<BatchSendResult> {
+  const { cfg, message } = params;
 
-  if (chatType === "direct") {
-    return sendDirectMessage({ cfg, to, text, accessToken, title: msgTitle });
-  } else {
-    return sendGroupMessage({ cfg, to, text, accessToken, title: msgTitle });
+  // 验证凭证
+  if (!cfg.clientId || !cfg.clientSecret) {
+    throw new Error("DingTalk credentials not configured (clientId, clientSecret required)");
+  }
+
+  const userIds = Array.from(new Set(params.userIds.map((id) => id.trim()).filter(Boolean)));
+  if (userIds.length === 0) {
+    throw new Error("DingTalk batch send requires at least one user ID");
   }
+
+  const { msgKey, msgParam } = buildRobotMessage(message);
+  const accessToken = await getAccessToken(cfg.clientId, cfg.clientSecret);
+  const clientId = cfg.clientId;
+
+  const result: BatchSendResult = { processQueryKeys: [], invalidUserIds: [], flowControlledUserIds: [] };
+  for (let i = 0; i < userIds.length; i += BATCH_SEND_MAX_USERS) {
+    const batch = userIds.slice(i, i + BATCH_SEND_MAX_USERS);
+    const data = await enqueueSend({ platform: "dingtalk", accountId: clientId, target: "direct:batch" }, () =>
+      sendDirectMessage({ cfg, userIds: batch, msgKey, msgParam, accessToken })
+    );
+    if (data.processQueryKey) result.processQueryKeys.push(data.processQueryKey);
+    result.invalidUserIds.push(...(data.invalidStaffIdList ?? []));
+    result.flowControlledUserIds.push(...(data.flowControlledStaffIdList ?? []));
+  }
+  return result;
 }
 
 
+/**
+ * 单聊批量发送接口返回
+ */
+interface BatchSendResponse {
+  processQueryKey?: string;
+  invalidStaffIdList?: string[];
+  flowControlledStaffIdList?: string[];
+}
+
 /**
  * 发送单聊消息
  *
  * 调用 /v1.0/robot/oToMessages/batchSend API
- * 始终使用 sampleMarkdown 模板
  *
  * @internal
  */
 async function sendDirectMessage(params: {
   cfg: DingtalkConfig;
-  to: string;
-  text: string;
+  userIds: string[];
+  msgKey: string;
+  msgParam: string;
   accessToken: string;
-  title: string;
-}): Promise<DingtalkSendResult> {
-  const { cfg, to, text, accessToken, title } = params;
+}): Promise<BatchSendResponse> {
+  const { cfg, userIds, msgKey, msgParam, accessToken } = params;
 
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
@@ -123,9 +430,9 @@ async function sendDirectMessage(params: {
         },
         body: JSON.stringify({
           robotCode: cfg.clientId,
-          userIds: [to],
-          msgKey: "sampleMarkdown",
-          msgParam: JSON.stringify({ title, text }),
+          userIds,
+          msgKey,
+          msgParam,
         }),
         signal: controller.signal,
       }
@@ -147,23 +454,7 @@ async function sendDirectMessage(params: {
       throw new Error(errorMessage);
     }
 
-    const data = (await response.json()) as {
-      processQueryKey?: string;
-      invalidStaffIdList?: string[];
-      flowControlledStaffIdList?: string[];
-    };
-
-    // 检查是否有无效用户
-    if (data.invalidStaffIdList && data.invalidStaffIdList.length > 0) {
-      throw new Error(
-        `DingTalk direct message send failed: invalid user IDs: ${data.invalidStaffIdList.join(", ")}`
-      );
-    }
-
-    return {
-      messageId: data.processQueryKey ?? `dm_${Date.now()}`,
-      conversationId: to,
-    };
+    return (await response.json()) as BatchSendResponse;
   } catch (err) {
     if (err instanceof Error && err.name === "AbortError") {
       throw new Error(`DingTalk direct message send timed out after ${REQUEST_TIMEOUT}ms`);
@@ -178,18 +469,17 @@ async function sendDirectMessage(params: {
  * 发送群聊消息
  *
  * 调用 /v1.0/robot/groupMessages/send API
- * 始终使用 sampleMarkdown 模板
  *
  * @internal
  */
 async function sendGroupMessage(params: {
   cfg: DingtalkConfig;
   to: string;
-  text: string;
+  msgKey: string;
+  msgParam: string;
   accessToken: string;
-  title: string;
 }): Promise<DingtalkSendResult> {
-  const { cfg, to, text, accessToken, title } = params;
+  const { cfg, to, msgKey, msgParam, accessToken } = params;
 
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
@@ -206,8 +496,8 @@ async function sendGroupMessage(params: {
         body: JSON.stringify({
           robotCode: cfg.clientId,
           openConversationId: to,
-          msgKey: "sampleMarkdown",
-          msgParam: JSON.stringify({ title, text }),
+          msgKey,
+          msgParam,
         }),
         signal: controller.signal,
       }
@@ -236,6 +526,7 @@ async function sendGroupMessage(params: {
     return {
       messageId: data.processQueryKey ?? `gm_${Date.now()}`,
       conversationId: to,
+      processQueryKey: data.processQueryKey,
     };
   } catch (err) {
     if (err instanceof Error && err.name === "AbortError") {
@@ -246,3 +537,343 @@ async function sendGroupMessage(params: {
     clearTimeout(timeoutId);
   }
 }
+
+/**
+ * 将消息内容转为工作通知消息体（msgtype + 对应字段）
+ *
+ * @throws Error 如果 ActionCard 按钮数不在 1 ~ 5 之间
+ */
+export function buildWorkNotificationMessage(message: DingtalkRobotMessage): Record<string, unknown> {
+  switch (message.type) {
+    case "text":
+      return { msgtype: "text", text: { content: message.content } };
+    case "markdown":
+      return { msgtype: "markdown", markdown: { title: message.title, text: message.text } };
+    case "actionCard": {
+      const { title, text, buttons, orientation } = message;
+      checkActionCardButtons(buttons);
+      if (buttons.length === 1) {
+        return {
+          msgtype: "action_card",
+          action_card: { title, markdown: text, single_title: buttons[0].title, single_url: buttons[0].url },
+        };
+      }
+      return {
+        msgtype: "action_card",
+        action_card: {
+          title,
+          markdown: text,
+          btn_orientation: orientation === "horizontal" ? "1" : "0",
+          btn_json_list: buttons.map((button) => ({ title: button.title, action_url: button.url })),
+        },
+      };
+    }
+    case "link":
+      return {
+        msgtype: "link",
+        link: {
+          title: message.title,
+          text: message.text,
+          messageUrl: message.messageUrl,
+          picUrl: message.picUrl ?? "",
+        },
+      };
+    case "image":
+      return { msgtype: "image", image: { media_id: message.photoURL } };
+    case "file":
+      return { msgtype: "file", file: { media_id: message.mediaId } };
+  }
+}
+
+/**
+ * 工作通知参数
+ */
+export interface SendWorkNotificationParams {
+  /** 钉钉配置（需配置 workNotice.agentId） */
+  cfg: DingtalkConfig;
+  /** 接收通知的用户 ID 列表（最多 5000 个） */
+  userIds?: string[];
+  /** 接收通知的部门 ID 列表（最多 500 个） */
+  deptIds?: string[];
+  /** 是否发给企业全员 */
+  toAllUser?: boolean;
+  /** 消息内容 */
+  message: DingtalkRobotMessage;
+}
+
+/**
+ * 工作通知发送结果
+ */
+export interface WorkNotificationResult {
+  /** 异步发送任务 ID（可用于查询发送进度 / 撤回） */
+  taskId: string;
+}
+
+/**
+ * 以应用身份发送工作通知
+ *
+ * 调用 /topapi/message/corpconversation/asyncsend_v2 API，
+ * 无需用户先与机器人单聊；同一应用给同一用户发送相同内容每天仅一次
+ *
+ * @param params 发送参数
+ * @returns 发送任务 ID
+ * @throws Error 如果凭证 / agentId 未配置、接收人为空或 API 调用失败
+ */
+export async function sendWorkNotificationDingtalk(
+  params: SendWorkNotificationParams
+): Promise<WorkNotificationResult> {
+  const { cfg, toAllUser, message } = params;
+
+  // 验证凭证
+  if (!cfg.clientId || !cfg.clientSecret) {
+    throw new Error("DingTalk credentials not configured (clientId, clientSecret required)");
+  }
+  const agentId = cfg.workNotice?.agentId?.trim();
+  if (!agentId) {
+    throw new Error("DingTalk work notification requires workNotice.agentId");
+  }
+
+  const userIds = (params.userIds ?? []).map((id) => id.trim()).filter(Boolean);
+  const deptIds = (params.deptIds ?? []).map((id) => id.trim()).filter(Boolean);
+  if (!toAllUser && userIds.length === 0 && deptIds.length === 0) {
+    throw new Error("DingTalk work notification requires userIds, deptIds or toAllUser");
+  }
+  if (userIds.length > WORK_NOTICE_MAX_USERS || deptIds.length > WORK_NOTICE_MAX_DEPTS) {
+    throw new Error(
+      `DingTalk work notification supports at most ${WORK_NOTICE_MAX_USERS} users and ${WORK_NOTICE_MAX_DEPTS} departments`
+    );
+  }
+
+  const body: Record<string, unknown> = {
+    agent_id: Number(agentId),
+    msg: buildWorkNotificationMessage(message),
+  };
+  if (userIds.length > 0) body.userid_list = userIds.join(",");
+  if (deptIds.length > 0) body.dept_id_list = deptIds.join(",");
+  if (toAllUser) body.to_all_user = true;
+
+  const accessToken = await getAccessToken(cfg.clientId, cfg.clientSecret);
+  const target = toAllUser ? "notice:all" : `notice:${[...userIds, ...deptIds].join(",")}`;
+
+  return enqueueSend({ platform: "dingtalk", accountId: cfg.clientId, target }, async () => {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+
+    try {
+      const response = await fetch(
+        `${DINGTALK_OAPI_BASE}/topapi/message/corpconversation/asyncsend_v2?access_token=${accessToken}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+          signal: controller.signal,
+        }
+      );
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`DingTalk work notification send failed: HTTP ${response.status} - ${errorText}`);
+      }
+
+      const data = (await response.json()) as {
+        errcode?: number;
+        errmsg?: string;
+        task_id?: number | string;
+      };
+
+      if (data.errcode && data.errcode !== 0) {
+        const error = new Error(
+          `DingTalk work notification send failed: ${data.errmsg ?? "unknown error"} (code: ${data.errcode})`
+        ) as Error & { errcode?: number };
+        error.errcode = data.errcode;
+        throw error;
+      }
+
+      return { taskId: String(data.task_id ?? `wn_${Date.now()}`) };
+    } catch (err) {
+      if (err instanceof Error && err.name === "AbortError") {
+        throw new Error(`DingTalk work notification send timed out after ${REQUEST_TIMEOUT}ms`);
+      }
+      throw err;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  });
+}
+
+/**
+ * 撤回消息参数
+ */
+export interface RecallMessageParams {
+  /** 钉钉配置 */
+  cfg: DingtalkConfig;
+  /** 会话 ID（群聊撤回必填） */
+  conversationId?: string;
+  /** 聊天类型 */
+  chatType: "direct" | "group";
+  /** 发送时返回的 processQueryKey 列表 */
+  processQueryKeys: string[];
+}
+
+/**
+ * 撤回机器人发送的消息
+ *
+ * 根据 chatType 调用不同的 API:
+ * - direct: /v1.0/robot/otoMessages/batchRecall
+ * - group: /v1.0/robot/groupMessages/recall
+ *
+ * @throws Error 如果凭证未配置、API 调用失败或有消息撤回失败
+ */
+export async function recallMessageDingtalk(params: RecallMessageParams): Promise<void> {
+  const { cfg, conversationId, chatType, processQueryKeys } = params;
+
+  if (!cfg.clientId || !cfg.clientSecret) {
+    throw new Error("DingTalk credentials not configured (clientId, clientSecret required)");
+  }
+  if (chatType === "group" && !conversationId) {
+    throw new Error("DingTalk group recall requires openConversationId");
+  }
+
+  const accessToken = await getAccessToken(cfg.clientId, cfg.clientSecret);
+
+  const url =
+    chatType === "direct"
+      ? `${DINGTALK_API_BASE}/v1.0/robot/otoMessages/batchRecall`
+      : `${DINGTALK_API_BASE}/v1.0/robot/groupMessages/recall`;
+  const body =
+    chatType === "direct"
+      ? { robotCode: cfg.clientId, processQueryKeys }
+      : { robotCode: cfg.clientId, openConversationId: conversationId, processQueryKeys };
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-acs-dingtalk-access-token": accessToken,
+      },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      let errorMessage = `DingTalk message recall failed: HTTP ${response.status}`;
+
+      try {
+        const errorData = JSON.parse(errorText) as DingtalkApiError;
+        if (errorData.message) {
+          errorMessage = `DingTalk message recall failed: ${errorData.message} (code: ${errorData.code ?? "unknown"})`;
+        }
+      } catch {
+        errorMessage = `${errorMessage} - ${errorText}`;
+      }
+
+      throw new Error(errorMessage);
+    }
+
+    const data = (await response.json()) as {
+      successResult?: string[];
+      failedResult?: Record<string, string>;
+    };
+
+    const failed = Object.entries(data.failedResult ?? {});
+    if (failed.length > 0) {
+      throw new Error(
+        `DingTalk message recall failed: ${failed.map(([key, reason]) => `${key}: ${reason}`).join(", ")}`
+      );
+    }
+  } catch (err) {
+    if (err instanceof Error && err.name === "AbortError") {
+      throw new Error(`DingTalk message recall timed out after ${REQUEST_TIMEOUT}ms`);
+    }
+    throw err;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/** 「思考中」表情（钉钉内置文字表情） */
+const THINKING_EMOTION = {
+  emotionId: "2659900",
+  emotionName: "🤔思考中",
+  text: "思考中",
+  backgroundId: "im_bg_1",
+};
+
+/**
+ * 表情回复参数
+ */
+export interface EmotionParams {
+  /** 钉钉配置 */
+  cfg: DingtalkConfig;
+  /** 被回复消息的 msgId */
+  msgId: string;
+  /** 会话 ID（openConversationId） */
+  conversationId: string;
+}
+
+async function postEmotion(path: string, params: EmotionParams, action: string): Promise<void> {
+  const { cfg, msgId, conversationId } = params;
+
+  if (!cfg.clientId || !cfg.clientSecret) {
+    throw new Error("DingTalk credentials not configured (clientId, clientSecret required)");
+  }
+
+  const accessToken = await getAccessToken(cfg.clientId, cfg.clientSecret);
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+
+  try {
+    const response = await fetch(`${DINGTALK_API_BASE}${path}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-acs-dingtalk-access-token": accessToken,
+      },
+      body: JSON.stringify({
+        robotCode: cfg.clientId,
+        openMsgId: msgId,
+        openConversationId: conversationId,
+        emotionType: 2,
+        emotionName: THINKING_EMOTION.emotionName,
+        textEmotion: THINKING_EMOTION,
+      }),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`DingTalk emotion ${action} failed: HTTP ${response.status} - ${errorText}`);
+    }
+  } catch (err) {
+    if (err instanceof Error && err.name === "AbortError") {
+      throw new Error(`DingTalk emotion ${action} timed out after ${REQUEST_TIMEOUT}ms`);
+    }
+    throw err;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * 给消息贴「思考中」表情
+ *
+ * 调用 /v1.0/robot/emotion/reply API
+ */
+export async function replyEmotionDingtalk(params: EmotionParams): Promise<void> {
+  await postEmotion("/v1.0/robot/emotion/reply", params, "reply");
+}
+
+/**
+ * 撤回消息上的「思考中」表情
+ *
+ * 调用 /v1.0/robot/emotion/recall API
+ */
+export async function recallEmotionDingtalk(params: EmotionParams): Promise<void> {
+  await postEmotion("/v1.0/robot/emotion/recall", params, "recall");
+}
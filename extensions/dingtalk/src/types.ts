@@ -1,8 +1,8 @@
 // 钉钉类型定义
 
-import type { DingtalkConfig } from "./config.js";
+import type { DingtalkAccountConfig, DingtalkConfig } from "./config.js";
 
-export type { DingtalkConfig };
+export type { DingtalkAccountConfig, DingtalkConfig };
 
 /**
  * 富文本消息元素
@@ -67,8 +67,14 @@ export interface DingtalkRawMessage {
   conversationId: string;
   /** 消息类型: text, audio, image, file, picture, video, richText 等 */
   msgtype: string;
-  /** 文本消息内容 */
-  text?: { content: string };
+  /** 文本消息内容；回复消息时携带被引用的原消息 */
+  text?: {
+    content: string;
+    /** 是否为回复（引用）消息 */
+    isReplyMsg?: boolean;
+    /** 被引用的原消息 */
+    repliedMsg?: DingtalkRepliedMessage;
+  };
   /**
    * 媒体消息内容
    * NOTE: 此字段可能是对象或 JSON 字符串，需要解析
@@ -78,6 +84,49 @@ export interface DingtalkRawMessage {
   atUsers?: Array<{ dingtalkId: string }>;
   /** 机器人 Code (clientId) */
   robotCode?: string;
+  /** 平台消息 ID（表情回复等接口使用） */
+  msgId?: string;
+  /** 互动卡片回调（由卡片回调转换的入站消息携带） */
+  cardAction?: DingtalkCardAction;
+}
+
+/**
+ * 被引用的原消息（text.repliedMsg）
+ * content 结构随 msgType 变化：text 为 { text }，媒体消息为 { downloadCode, ... }，
+ * richText 为 { richText: [...] }；可能是对象或 JSON 字符串
+ */
+export interface DingtalkRepliedMessage {
+  /** 原消息 ID */
+  msgId?: string;
+  /** 原消息类型 */
+  msgType?: string;
+  /** 原消息发送者 ID */
+  senderId?: string;
+  /** 原消息发送者昵称（部分事件提供） */
+  senderNick?: string;
+  /** 原消息发送时间（毫秒） */
+  createdAt?: number;
+  /** 原消息内容 */
+  content?: unknown;
+}
+
+/**
+ * 互动卡片回调
+ * 用户点击卡片按钮或提交表单时由 Stream 推送
+ */
+export interface DingtalkCardAction {
+  /** 卡片实例 outTrackId */
+  outTrackId: string;
+  /** 操作者 userId */
+  userId: string;
+  /** 触发的按钮 / 动作 ID */
+  actionIds: string[];
+  /** 按钮携带的参数与表单输入 */
+  params: Record<string, unknown>;
+  /** 卡片所在场域: IM_GROUP / IM_ROBOT 等 */
+  spaceType?: string;
+  /** 场域 ID（群聊为 openConversationId） */
+  spaceId?: string;
 }
 
 /**
@@ -103,6 +152,30 @@ export interface DingtalkMessageContext {
   mentionedBot: boolean;
   /** 机器人 Code */
   robotCode?: string;
+  /** 被引用的原消息（回复消息时存在） */
+  quoted?: DingtalkQuotedMessage;
+}
+
+/**
+ * 解析后的引用消息
+ */
+export interface DingtalkQuotedMessage {
+  /** 原消息 ID */
+  messageId?: string;
+  /** 原消息发送者 ID */
+  senderId?: string;
+  /** 原消息发送者昵称 */
+  senderNick?: string;
+  /** 原消息类型 */
+  msgType: string;
+  /** 原消息文本（纯媒体消息为空） */
+  text: string;
+  /** 原消息中待下载的媒体 */
+  media: Array<{
+    downloadCode: string;
+    msgType: "picture" | "video" | "audio" | "file";
+    fileName?: string;
+  }>;
 }
 
 /**
@@ -113,6 +186,8 @@ export interface DingtalkSendResult {
   messageId: string;
   /** 会话 ID */
   conversationId: string;
+  /** 平台返回的 processQueryKey（撤回消息时使用；未返回时为空） */
+  processQueryKey?: string;
 }
 
 /**
@@ -122,10 +197,14 @@ export interface DingtalkSendResult {
 export interface ResolvedDingtalkAccount {
   /** 账户 ID */
   accountId: string;
+  /** 账户显示名称 */
+  name?: string;
   /** 是否启用 */
   enabled: boolean;
   /** 是否已配置（有凭证） */
   configured: boolean;
   /** 客户端 ID */
   clientId?: string;
+  /** 合并顶层配置后的账户配置（配置不合法时为 undefined） */
+  config?: DingtalkConfig;
 }
@@ -8,18 +8,23 @@
  * - DEFAULT_ACCOUNT_ID: 默认账户 ID
  */
 
+import type { IncomingMessage, ServerResponse } from "http";
+
 import { feishuPlugin, DEFAULT_ACCOUNT_ID } from "./src/channel.js";
 import { setFeishuRuntime } from "./src/runtime.js";
+import { handleFeishuWebhookRequest } from "./src/webhook.js";
 
 /**
  * Moltbot 插件 API 接口
  *
  * 包含：
  * - registerChannel: 注册渠道插件
+ * - registerHttpHandler: 注册 HTTP 处理器（webhook 模式）
  * - runtime: 完整的 Moltbot 运行时（包含 core API）
  */
 export interface MoltbotPluginApi {
   registerChannel: (opts: { plugin: unknown }) => void;
+  registerHttpHandler?: (handler: (req: IncomingMessage, res: ServerResponse) => Promise<boolean> | boolean) => void;
   /** Moltbot 运行时，包含 channel.routing、channel.reply 等核心 API */
   runtime?: unknown;
   [key: string]: unknown;
@@ -29,7 +34,7 @@ export interface MoltbotPluginApi {
 export { feishuPlugin, DEFAULT_ACCOUNT_ID } from "./src/channel.js";
 
 // 导出发送消息函数
-export { sendMessageFeishu } from "./src/send.js";
+export { sendMessageFeishu, deleteMessageFeishu, updateMessageFeishu } from "./src/send.js";
 
 // 导出 runtime 管理函数（供外部设置）
 export { setFeishuRuntime, getFeishuRuntime } from "./src/runtime.js";
@@ -58,12 +63,25 @@ const plugin = {
       enabled: { type: "boolean" },
       appId: { type: "string" },
       appSecret: { type: "string" },
-      connectionMode: { type: "string", enum: ["websocket"] },
+      connectionMode: { type: "string", enum: ["websocket", "webhook"] },
       dmPolicy: { type: "string", enum: ["open", "pairing", "allowlist"] },
       groupPolicy: { type: "string", enum: ["open", "allowlist", "disabled"] },
       requireMention: { type: "boolean" },
       allowFrom: { type: "array", items: { type: "string" } },
       groupAllowFrom: { type: "array", items: { type: "string" } },
+      groups: {
+        type: "object",
+        additionalProperties: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            requireMention: { type: "boolean" },
+            allowFrom: { type: "array", items: { type: "string" } },
+            agentId: { type: "string" },
+            systemPrompt: { type: "string" },
+          },
+        },
+      },
       sendMarkdownAsCard: { type: "boolean" },
       historyLimit: { type: "integer", minimum: 0 },
       textChunkLimit: { type: "integer", minimum: 1 },
@@ -75,6 +93,7 @@ const plugin = {
    *
    * 1. 设置完整的 Moltbot 运行时（包含 core API）
    * 2. 调用 api.registerChannel 将 feishuPlugin 注册到 Moltbot
+   * 3. 注册 webhook 模式的 HTTP 处理器
    */
   register(api: MoltbotPluginApi) {
     if (api.runtime) {
@@ -82,6 +101,10 @@ const plugin = {
     }
 
     api.registerChannel({ plugin: feishuPlugin });
+
+    if (api.registerHttpHandler) {
+      api.registerHttpHandler(handleFeishuWebhookRequest);
+    }
   },
 };
 
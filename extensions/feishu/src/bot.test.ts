@@ -5,10 +5,49 @@
  * Property 2: 消息解析正确性
  */
 
-import { describe, it, expect } from "vitest";
+import { afterEach, describe, it, expect, vi } from "vitest";
 import * as fc from "fast-check";
-import { parseFeishuMessageEvent, buildInboundContext } from "./bot.js";
-import { checkDmPolicy, checkGroupPolicy } from "@openclaw-china/shared";
+
+const mocks = vi.hoisted(() => ({
+  createMessage: vi.fn(),
+  replyMessage: vi.fn(),
+  deleteMessage: vi.fn(),
+}));
+
+vi.mock("./client.js", async () => {
+  const actual = await vi.importActual<typeof import("./client.js")>("./client.js");
+  return {
+    ...actual,
+    createFeishuClientFromConfig: () => ({
+      im: {
+        v1: {
+          message: { create: mocks.createMessage, reply: mocks.replyMessage, delete: mocks.deleteMessage },
+        },
+      },
+    }),
+  };
+});
+
+import {
+  parseFeishuMessageEvent,
+  buildInboundContext,
+  parsePostContent,
+  replaceMentionPlaceholders,
+  renderQuotedMessage,
+  formatQuotedBody,
+  resolveThreadSessionKey,
+  handleFeishuMessage,
+} from "./bot.js";
+import { clearFeishuRuntime, setFeishuRuntime } from "./runtime.js";
+import { FeishuConfigSchema } from "./config.js";
+import { feishuOutbound } from "./outbound.js";
+import {
+  checkDmPolicy,
+  checkGroupPolicy,
+  clearSentMessages,
+  resetSendQueues,
+  resolveSentMessage,
+} from "@openclaw-china/shared";
 import type { FeishuMessageEvent, FeishuMessageContext } from "./types.js";
 
 describe("Feature: feishu-integration, Property 2: 消息解析正确性", () => {
@@ -244,3 +283,293 @@ describe("Feature: feishu-integration, Property 4: 上下文构建完整性", ()
     );
   });
 });
+
+describe("inbound media message parsing", () => {
+  const makeEvent = (messageType: string, content: unknown): FeishuMessageEvent => ({
+    sender: { sender_id: { open_id: "ou_1" } },
+    message: {
+      message_id: "om_1",
+      chat_id: "oc_1",
+      chat_type: "p2p",
+      message_type: messageType,
+      content: JSON.stringify(content),
+    },
+  });
+
+  it("collects image, file, audio and video resources", () => {
+    const image = parseFeishuMessageEvent(makeEvent("image", { image_key: "img_v3_1" }));
+    expect(image.content).toBe("[图片]");
+    expect(image.resources).toEqual([{ kind: "image", key: "img_v3_1" }]);
+
+    const file = parseFeishuMessageEvent(
+      makeEvent("file", { file_key: "file_v3_1", file_name: "report.pdf" })
+    );
+    expect(file.content).toBe("[文件: report.pdf]");
+    expect(file.resources).toEqual([{ kind: "file", key: "file_v3_1", fileName: "report.pdf" }]);
+
+    const audio = parseFeishuMessageEvent(makeEvent("audio", { file_key: "file_v3_2", duration: 2000 }));
+    expect(audio.content).toBe("[语音消息]");
+    expect(audio.resources).toEqual([{ kind: "audio", key: "file_v3_2", duration: 2000 }]);
+
+    const media = parseFeishuMessageEvent(
+      makeEvent("media", { file_key: "file_v3_3", image_key: "img_v3_2", file_name: "clip.mp4" })
+    );
+    expect(media.content).toBe("[视频: clip.mp4]");
+    expect(media.resources?.[0]).toMatchObject({ kind: "media", key: "file_v3_3" });
+  });
+
+  it("uses a placeholder for stickers without resources", () => {
+    const sticker = parseFeishuMessageEvent(makeEvent("sticker", { file_key: "file_v3_4" }));
+    expect(sticker.content).toBe("[表情]");
+    expect(sticker.resources).toBeUndefined();
+  });
+
+  it("flattens post messages into markdown", () => {
+    const post = {
+      title: "周报",
+      content: [
+        [
+          { tag: "text", text: "完成 ", style: ["bold"] },
+          { tag: "a", text: "文档", href: "https://example.com/doc" },
+          { tag: "at", user_id: "ou_2", user_name: "张三" },
+        ],
+        [{ tag: "img", image_key: "img_v3_9" }],
+        [{ tag: "code_block", language: "TypeScript", text: "const a = 1;\n" }],
+      ],
+    };
+    const ctx = parseFeishuMessageEvent(makeEvent("post", post));
+    expect(ctx.resources).toEqual([{ kind: "image", key: "img_v3_9" }]);
+    expect(ctx.content).toBe(
+      "## 周报\n**完成 **[文档](https://example.com/doc)@张三\n[图片]\n\n```typescript\nconst a = 1;\n```"
+    );
+  });
+
+  it("embeds downloaded post images and accepts locale-wrapped content", () => {
+    const { markdown, imageKeys } = parsePostContent(
+      { zh_cn: { content: [[{ tag: "text", text: "看图" }, { tag: "img", image_key: "img_v3_9" }]] } },
+      new Map([["img_v3_9", "/tmp/feishu/a.png"]])
+    );
+    expect(imageKeys).toEqual(["img_v3_9"]);
+    expect(markdown).toBe("看图![image](/tmp/feishu/a.png)");
+  });
+});
+
+describe("bot mention detection", () => {
+  const BOT_OPEN_ID = "ou_bot";
+  const mentions = [
+    { key: "@_user_1", id: { open_id: BOT_OPEN_ID }, name: "助手" },
+    { key: "@_user_2", id: { open_id: "ou_alice" }, name: "Alice" },
+  ];
+  const makeEvent = (text: string, eventMentions = mentions): FeishuMessageEvent => ({
+    sender: { sender_id: { open_id: "ou_bob" } },
+    message: {
+      message_id: "om_1",
+      chat_id: "oc_1",
+      chat_type: "group",
+      message_type: "text",
+      content: JSON.stringify({ text }),
+      mentions: eventMentions,
+    },
+  });
+
+  it("only treats mentions of the bot's own open_id as mentioning the bot", () => {
+    const colleagueOnly = makeEvent("@_user_2 看一下", [mentions[1]!]);
+    expect(parseFeishuMessageEvent(colleagueOnly, BOT_OPEN_ID).mentionedBot).toBe(false);
+    expect(parseFeishuMessageEvent(makeEvent("@_user_1 hi"), BOT_OPEN_ID).mentionedBot).toBe(true);
+  });
+
+  it("falls back to any mention when the bot open_id is unknown", () => {
+    const colleagueOnly = makeEvent("@_user_2 看一下", [mentions[1]!]);
+    expect(parseFeishuMessageEvent(colleagueOnly).mentionedBot).toBe(true);
+  });
+
+  it("strips the bot placeholder and names other users", () => {
+    const ctx = parseFeishuMessageEvent(makeEvent("@_user_1 帮 @_user_2 查下日程"), BOT_OPEN_ID);
+    expect(ctx.content).toBe("帮 @Alice 查下日程");
+  });
+
+  it("keeps unknown placeholders untouched", () => {
+    expect(replaceMentionPlaceholders("@_user_9 hi", mentions, BOT_OPEN_ID)).toBe("@_user_9 hi");
+    expect(replaceMentionPlaceholders("@_user_1 hi", mentions)).toBe("@助手 hi");
+  });
+});
+
+describe("thread and quoted reply context", () => {
+  const threadEvent: FeishuMessageEvent = {
+    sender: { sender_id: { open_id: "ou_bob" } },
+    message: {
+      message_id: "om_3",
+      root_id: "om_1",
+      parent_id: "om_2",
+      thread_id: "omt_1",
+      chat_id: "oc_1",
+      chat_type: "group",
+      message_type: "text",
+      content: JSON.stringify({ text: "继续" }),
+    },
+  };
+
+  it("keeps root, parent and thread ids from the event", () => {
+    const ctx = parseFeishuMessageEvent(threadEvent);
+    expect(ctx.rootId).toBe("om_1");
+    expect(ctx.parentId).toBe("om_2");
+    expect(ctx.threadId).toBe("omt_1");
+
+    const inbound = buildInboundContext(ctx, "session", "default");
+    expect(inbound.ReplyToId).toBe("om_2");
+    expect(inbound.MessageThreadId).toBe("omt_1");
+  });
+
+  it("omits thread fields for top-level messages", () => {
+    const { root_id: _root, parent_id: _parent, thread_id: _thread, ...message } =
+      threadEvent.message!;
+    const ctx = parseFeishuMessageEvent({ ...threadEvent, message });
+    expect(ctx).not.toHaveProperty("parentId");
+    expect(ctx).not.toHaveProperty("threadId");
+    expect(buildInboundContext(ctx, "session", "default")).not.toHaveProperty("ReplyToId");
+  });
+
+  it("maps topic threads to their own session keys", () => {
+    expect(resolveThreadSessionKey("agent:main:feishu-china:group:oc_1", "omt_1")).toBe(
+      "agent:main:feishu-china:group:oc_1:thread:omt_1"
+    );
+    expect(resolveThreadSessionKey("agent:main:feishu-china:group:oc_1")).toBe(
+      "agent:main:feishu-china:group:oc_1"
+    );
+  });
+
+  it("renders quoted text, post and media messages", () => {
+    expect(
+      renderQuotedMessage({
+        messageId: "om_2",
+        messageType: "text",
+        content: JSON.stringify({ text: "@_user_1 明天开会" }),
+        mentions: [{ key: "@_user_1", id: { open_id: "ou_alice" }, name: "Alice" }],
+      })
+    ).toBe("@Alice 明天开会");
+    expect(
+      renderQuotedMessage({
+        messageId: "om_2",
+        messageType: "post",
+        content: JSON.stringify({ title: "周报", content: [[{ tag: "text", text: "进度正常" }]] }),
+      })
+    ).toContain("进度正常");
+    expect(
+      renderQuotedMessage({
+        messageId: "om_2",
+        messageType: "image",
+        content: JSON.stringify({ image_key: "img_v2_1" }),
+      })
+    ).toBe("[图片]");
+  });
+
+  it("prefixes the body with a quote block", () => {
+    expect(formatQuotedBody("好的", "第一行\n第二行")).toBe("[引用消息]\n> 第一行\n> 第二行\n\n好的");
+  });
+});
+
+describe("pairing without admins", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("treats pairing without allowFrom as open instead of issuing a pairing code", async () => {
+    clearFeishuRuntime();
+    const fetchMock = vi.fn().mockRejectedValue(new Error("unexpected request"));
+    vi.stubGlobal("fetch", fetchMock);
+    const logs: string[] = [];
+
+    await handleFeishuMessage({
+      cfg: {
+        channels: {
+          "feishu-china": { appId: "app", appSecret: "secret", dmPolicy: "pairing", allowFrom: [] },
+        },
+      },
+      event: {
+        sender: { sender_id: { open_id: "ou_user" } },
+        message: {
+          message_id: "om_1",
+          chat_id: "oc_1",
+          chat_type: "p2p",
+          message_type: "text",
+          content: JSON.stringify({ text: "hello" }),
+        },
+      },
+      accountId: "pairing-fallback",
+      log: (msg) => logs.push(msg),
+      error: (msg) => logs.push(msg),
+    });
+
+    expect(logs.some((line) => line.includes("treating DMs as open for account pairing-fallback"))).toBe(true);
+    expect(logs.some((line) => line.includes("runtime not initialized"))).toBe(true);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe("sent message registry", () => {
+  afterEach(() => {
+    clearFeishuRuntime();
+    clearSentMessages();
+    resetSendQueues();
+    vi.resetAllMocks();
+  });
+
+  it("records agent replies from inbound dispatch so they can be recalled", async () => {
+    setFeishuRuntime({
+      channel: {
+        routing: {
+          resolveAgentRoute: () => ({ sessionKey: "feishu:ou_user", accountId: "acc-1" }),
+        },
+        reply: {
+          createReplyDispatcher: vi.fn(),
+          dispatchReplyWithBufferedBlockDispatcher: async ({ dispatcherOptions }) => {
+            await dispatcherOptions.deliver({ text: "这是回复" }, { kind: "final" });
+            return { queuedFinal: true, counts: { final: 1 } };
+          },
+        },
+      },
+    });
+    mocks.replyMessage.mockResolvedValue({ code: 0, data: { message_id: "om_reply" } });
+    mocks.deleteMessage.mockResolvedValue({ code: 0 });
+    const cfg = {
+      channels: {
+        "feishu-china": FeishuConfigSchema.parse({
+          accounts: {
+            "acc-1": { appId: "cli_test", appSecret: "secret", workingIndicator: false },
+          },
+        }),
+      },
+    };
+
+    await handleFeishuMessage({
+      cfg,
+      event: {
+        sender: { sender_id: { open_id: "ou_user" } },
+        message: {
+          message_id: "om_inbound",
+          chat_id: "oc_p2p",
+          chat_type: "p2p",
+          message_type: "text",
+          content: JSON.stringify({ text: "hello" }),
+        },
+      },
+      accountId: "acc-1",
+      log: () => undefined,
+    });
+
+    expect(mocks.replyMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ path: { message_id: "om_inbound" } })
+    );
+    expect(resolveSentMessage({ channel: "feishu-china", accountId: "acc-1", to: "user:ou_user" })).toMatchObject({
+      messageId: "om_reply",
+      kind: "card",
+    });
+
+    // 出站 recall 可按入站会话目标找到这条回复
+    await expect(feishuOutbound.recall({ cfg, accountId: "acc-1", to: "user:ou_user" })).resolves.toEqual({
+      ok: true,
+    });
+    expect(mocks.deleteMessage).toHaveBeenCalledWith({ path: { message_id: "om_reply" } });
+    expect(resolveSentMessage({ channel: "feishu-china", accountId: "acc-1", to: "user:ou_user" })).toBeUndefined();
+  });
+});
@@ -4,11 +4,27 @@
  * 实现消息解析、策略检查和 Agent 分发
  */
 
-import type { FeishuMessageEvent, FeishuMessageContext } from "./types.js";
-import type { FeishuConfig } from "./config.js";
-import { FeishuConfigSchema } from "./config.js";
+import type {
+  FeishuFetchedMessage,
+  FeishuMention,
+  FeishuMessageEvent,
+  FeishuMessageContext,
+  FeishuMessageResource,
+} from "./types.js";
+import type { FeishuConfig, PluginConfig } from "./config.js";
+import {
+  resolveFeishuAccount,
+  resolveFeishuASRCredentials,
+  resolveInboundMediaDir,
+  resolveInboundMediaKeepDays,
+  resolveInboundMediaTempDir,
+} from "./config.js";
+import { fetchFeishuMessage } from "./client.js";
+import { downloadFeishuMessageResource, type DownloadedFeishuResource } from "./media.js";
 import { getFeishuRuntime, isFeishuRuntimeInitialized } from "./runtime.js";
 import {
+  addReactionFeishu,
+  removeReactionFeishu,
   sendFileFeishu,
   sendImageFeishu,
   sendMarkdownCardFeishu,
@@ -16,20 +32,253 @@ import {
   processLocalImagesInMarkdown,
 } from "./send.js";
 import { createLogger, type Logger } from "./logger.js";
+import { createFeishuStreamingCard, type FeishuStreamingCard } from "./streaming-card.js";
 import {
+  applyGroupAgentOverride,
   checkDmPolicy,
+  resolveEffectiveDmPolicy,
+  warnPairingWithoutAdmins,
   checkGroupPolicy,
+  resolveGroupOverride,
+  handlePairingCommand,
+  issuePairingChallenge,
   extractFilesFromText,
   extractMediaFromText,
   isImagePath,
   appendCronHiddenPrompt,
+  createWorkingIndicator,
+  NOOP_WORKING_INDICATOR,
+  type WorkingIndicator,
+  finalizeInboundMediaFile,
+  pruneInboundMediaDir,
+  transcribeTencentFlash,
+  ASRError,
+  recordGroupHistory,
+  takeGroupHistory,
+  buildGroupHistoryBody,
+  type HistoryEntry,
+  createStreamingReplyState,
 } from "@openclaw-china/shared";
 import * as fs from "node:fs";
 
+/** 支持处理的入站消息类型 */
+const SUPPORTED_MESSAGE_TYPES = new Set(["text", "post", "image", "file", "audio", "media", "sticker"]);
+
+/**
+ * 富文本（post）元素
+ * 参考: https://open.feishu.cn/document/server-docs/im-v1/message-content-description/message_content
+ */
+interface FeishuPostElement {
+  tag?: string;
+  text?: string;
+  href?: string;
+  user_id?: string;
+  user_name?: string;
+  image_key?: string;
+  file_key?: string;
+  language?: string;
+  emoji_type?: string;
+  style?: string[];
+}
+
+interface FeishuPostBody {
+  title?: string;
+  content?: FeishuPostElement[][];
+}
+
+function parseJsonContent(raw: string | undefined): Record<string, unknown> | undefined {
+  if (!raw) return undefined;
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return parsed && typeof parsed === "object" ? (parsed as Record<string, unknown>) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function readString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * 取出富文本正文
+ * 事件推送为 { title, content }，部分场景带语言包裹 { zh_cn: { title, content } }
+ */
+function resolvePostBody(raw: unknown): FeishuPostBody | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const record = raw as Record<string, unknown>;
+  if (Array.isArray(record.content)) return record as FeishuPostBody;
+  for (const locale of ["zh_cn", "en_us", "ja_jp", ...Object.keys(record)]) {
+    const inner = record[locale];
+    if (inner && typeof inner === "object" && Array.isArray((inner as Record<string, unknown>).content)) {
+      return inner as FeishuPostBody;
+    }
+  }
+  return undefined;
+}
+
+function applyTextStyle(text: string, style?: string[]): string {
+  if (!text.trim() || !style?.length) return text;
+  let result = text;
+  if (style.includes("lineThrough")) result = `~~${result}~~`;
+  if (style.includes("italic")) result = `*${result}*`;
+  if (style.includes("bold")) result = `**${result}**`;
+  return result;
+}
+
+function renderPostElement(element: FeishuPostElement, imagePaths?: Map<string, string>): string {
+  switch (element.tag) {
+    case "text":
+      return applyTextStyle(element.text ?? "", element.style);
+    case "a": {
+      const text = element.text ?? element.href ?? "";
+      return element.href ? `[${text}](${element.href})` : text;
+    }
+    case "at":
+      return `@${element.user_name ?? element.user_id ?? ""}`;
+    case "img": {
+      const localPath = element.image_key ? imagePaths?.get(element.image_key) : undefined;
+      return localPath ? `![image](${localPath})` : "[图片]";
+    }
+    case "media":
+      return "[视频]";
+    case "emotion":
+      return element.emoji_type ? `[${element.emoji_type}]` : "";
+    case "code_block":
+      return `\n\`\`\`${element.language?.toLowerCase() ?? ""}\n${(element.text ?? "").replace(/\n$/, "")}\n\`\`\`\n`;
+    case "hr":
+      return "\n---\n";
+    case "md":
+      return element.text ?? "";
+    default:
+      return element.text ?? "";
+  }
+}
+
+/**
+ * 将富文本（post）消息展开为 Markdown
+ *
+ * @param raw 已解析的 post 消息内容
+ * @param imagePaths 图片 key → 本地路径（已下载的图片以 Markdown 图片嵌入，未下载的显示为 [图片]）
+ * @returns Markdown 文本与内嵌图片 key 列表
+ */
+export function parsePostContent(
+  raw: unknown,
+  imagePaths?: Map<string, string>
+): { markdown: string; imageKeys: string[] } {
+  const body = resolvePostBody(raw);
+  if (!body) return { markdown: "", imageKeys: [] };
+
+  const imageKeys: string[] = [];
+  const lines: string[] = [];
+  const title = body.title?.trim();
+  if (title) lines.push(`## ${title}`);
+
+  for (const paragraph of body.content ?? []) {
+    if (!Array.isArray(paragraph)) continue;
+    for (const element of paragraph) {
+      if (element?.tag === "img" && element.image_key && !imageKeys.includes(element.image_key)) {
+        imageKeys.push(element.image_key);
+      }
+    }
+    lines.push(paragraph.map((element) => renderPostElement(element ?? {}, imagePaths)).join(""));
+  }
+
+  const markdown = lines
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+  return { markdown, imageKeys };
+}
+
+/**
+ * 解析非文本消息的内容描述与待下载资源
+ */
+function parseMediaContent(
+  contentType: string,
+  parsed: Record<string, unknown> | undefined
+): { content: string; resources: FeishuMessageResource[] } {
+  const fileKey = readString(parsed?.file_key);
+  const fileName = readString(parsed?.file_name);
+  const duration = typeof parsed?.duration === "number" ? parsed.duration : undefined;
+
+  switch (contentType) {
+    case "image": {
+      const imageKey = readString(parsed?.image_key);
+      return {
+        content: "[图片]",
+        resources: imageKey ? [{ kind: "image", key: imageKey }] : [],
+      };
+    }
+    case "file":
+      return {
+        content: `[文件: ${fileName ?? "未知文件"}]`,
+        resources: fileKey ? [{ kind: "file", key: fileKey, fileName }] : [],
+      };
+    case "audio":
+      return {
+        content: "[语音消息]",
+        resources: fileKey ? [{ kind: "audio", key: fileKey, duration }] : [],
+      };
+    case "media":
+      return {
+        content: fileName ? `[视频: ${fileName}]` : "[视频]",
+        resources: fileKey ? [{ kind: "media", key: fileKey, fileName, duration }] : [],
+      };
+    case "sticker":
+      // 表情包资源不支持通过消息资源接口下载
+      return { content: "[表情]", resources: [] };
+    default:
+      return { content: "", resources: [] };
+  }
+}
+
+/**
+ * 判断是否 @ 了机器人
+ *
+ * 已知机器人 open_id 时按 open_id 精确匹配；未知时退化为「存在任意 @」
+ */
+export function isBotMentioned(mentions: FeishuMention[], botOpenId?: string): boolean {
+  if (!botOpenId) return mentions.length > 0;
+  return mentions.some((mention) => mention.id?.open_id === botOpenId);
+}
+
+/**
+ * 替换文本中的 @_user_N 占位符
+ * - @机器人 的占位符直接移除
+ * - 其他用户替换为 @显示名
+ */
+export function replaceMentionPlaceholders(
+  text: string,
+  mentions: FeishuMention[],
+  botOpenId?: string
+): string {
+  if (mentions.length === 0) return text;
+  const byKey = new Map<string, FeishuMention>();
+  for (const mention of mentions) {
+    if (mention.key) byKey.set(mention.key, mention);
+  }
+  return text
+    .replace(/@_user_\d+/g, (key) => {
+      const mention = byKey.get(key);
+      if (!mention) return key;
+      if (botOpenId && mention.id?.open_id === botOpenId) return "";
+      return mention.name ? `@${mention.name}` : key;
+    })
+    .replace(/[ \t]{2,}/g, " ")
+    .trim();
+}
+
 /**
  * 解析飞书消息事件为标准化上下文
+ *
+ * @param event 消息事件
+ * @param botOpenId 机器人 open_id（用于判断 @ 机器人并移除其占位符）
  */
-export function parseFeishuMessageEvent(event: FeishuMessageEvent): FeishuMessageContext {
+export function parseFeishuMessageEvent(
+  event: FeishuMessageEvent,
+  botOpenId?: string
+): FeishuMessageContext {
   const message = event.message ?? {};
   const sender = event.sender?.sender_id ?? {};
 
@@ -38,18 +287,16 @@ export function parseFeishuMessageEvent(event: FeishuMessageEvent): FeishuMessag
   const messageId = message.message_id ?? `${message.chat_id ?? ""}_${Date.now()}`;
   const contentType = message.message_type ?? "";
 
-  let content = "";
-  if (contentType === "text" && message.content) {
-    try {
-      const parsed = JSON.parse(message.content) as { text?: string };
-      content = (parsed.text ?? "").trim();
-    } catch {
-      content = message.content.trim();
-    }
-  }
-
   const mentions = message.mentions ?? [];
-  const mentionedBot = mentions.length > 0;
+
+  const { content, resources } = parseMessageBody(
+    contentType,
+    message.content,
+    mentions,
+    botOpenId
+  );
+
+  const mentionedBot = isBotMentioned(mentions, botOpenId);
 
   return {
     chatId: message.chat_id ?? "",
@@ -59,9 +306,82 @@ export function parseFeishuMessageEvent(event: FeishuMessageEvent): FeishuMessag
     content,
     contentType,
     mentionedBot,
+    ...(resources.length > 0 ? { resources } : {}),
+    ...(message.root_id ? { rootId: message.root_id } : {}),
+    ...(message.parent_id ? { parentId: message.parent_id } : {}),
+    ...(message.thread_id ? { threadId: message.thread_id } : {}),
   };
 }
 
+/**
+ * 按消息类型解析 content 为文本描述与待下载资源
+ */
+function parseMessageBody(
+  contentType: string,
+  rawContent: string | undefined,
+  mentions: FeishuMention[],
+  botOpenId?: string
+): { content: string; resources: FeishuMessageResource[] } {
+  if (contentType === "text") {
+    if (!rawContent) return { content: "", resources: [] };
+    let text: string;
+    try {
+      const parsed = JSON.parse(rawContent) as { text?: string };
+      text = (parsed.text ?? "").trim();
+    } catch {
+      text = rawContent.trim();
+    }
+    return { content: replaceMentionPlaceholders(text, mentions, botOpenId), resources: [] };
+  }
+  if (contentType === "post") {
+    const post = parsePostContent(parseJsonContent(rawContent));
+    return {
+      content: post.markdown,
+      resources: post.imageKeys.map((key) => ({ kind: "image", key })),
+    };
+  }
+  if (contentType) {
+    return parseMediaContent(contentType, parseJsonContent(rawContent));
+  }
+  return { content: "", resources: [] };
+}
+
+/** 引用消息正文最大长度 */
+const QUOTED_MESSAGE_MAX_CHARS = 1000;
+
+/**
+ * 将被引用的父消息渲染为文本
+ *
+ * 文本 / 富文本取正文，媒体消息使用占位描述；无法识别的类型返回空字符串
+ */
+export function renderQuotedMessage(message: FeishuFetchedMessage): string {
+  const { content } = parseMessageBody(
+    message.messageType,
+    message.content,
+    message.mentions ?? []
+  );
+  if (content.length <= QUOTED_MESSAGE_MAX_CHARS) return content;
+  return `${content.slice(0, QUOTED_MESSAGE_MAX_CHARS)}…`;
+}
+
+/**
+ * 在正文前附加引用块
+ */
+export function formatQuotedBody(body: string, quoted: string): string {
+  const quoteLines = quoted
+    .split("\n")
+    .map((line) => `> ${line}`)
+    .join("\n");
+  return `[引用消息]\n${quoteLines}\n\n${body}`;
+}
+
+/**
+ * 计算会话 key：话题内的消息使用独立会话
+ */
+export function resolveThreadSessionKey(sessionKey: string, threadId?: string): string {
+  return threadId ? `${sessionKey}:thread:${threadId}` : sessionKey;
+}
+
 /**
  * 从文本中提取行首 MEDIA: 指令（支持 file:// / 绝对路径 / URL）
  * 使用 shared 模块的 extractMediaFromText 实现
@@ -120,6 +440,30 @@ export interface InboundContext {
   CommandAuthorized: boolean;
   OriginatingChannel: "feishu-china";
   OriginatingTo: string;
+  /** 单个媒体文件的本地路径 */
+  MediaPath?: string;
+  /** 单个媒体文件的 MIME 类型 */
+  MediaType?: string;
+  /** 多个媒体文件的本地路径（post 消息） */
+  MediaPaths?: string[];
+  /** 多个媒体文件的 MIME 类型（post 消息） */
+  MediaTypes?: string[];
+  /** 原始文件名（file / media 消息） */
+  FileName?: string;
+  /** 文件大小（字节） */
+  FileSize?: number;
+  /** 语音识别文本（audio 消息） */
+  Transcript?: string;
+  /** 被引用（回复）的消息 ID */
+  ReplyToId?: string;
+  /** 被引用消息的正文 */
+  ReplyToBody?: string;
+  /** 被引用消息的发送者 */
+  ReplyToSender?: string;
+  /** 话题 ID */
+  MessageThreadId?: string;
+  /** 群覆盖配置中的系统提示词 */
+  GroupSystemPrompt?: string;
 }
 
 /**
@@ -158,9 +502,156 @@ export function buildInboundContext(
     CommandAuthorized: true,
     OriginatingChannel: "feishu-china",
     OriginatingTo: to,
+    ...(ctx.parentId ? { ReplyToId: ctx.parentId } : {}),
+    ...(ctx.threadId ? { MessageThreadId: ctx.threadId } : {}),
   };
 }
 
+/**
+ * 读取被引用的父消息并写入上下文
+ *
+ * 引用内容只加入 Body（供 Agent 理解上下文），RawBody / CommandBody 保持原文以便命令解析
+ * 获取失败时仅记录日志，不中断分发
+ */
+async function applyQuotedMessage(params: {
+  ctx: FeishuMessageContext;
+  inboundCtx: InboundContext;
+  channelCfg: FeishuConfig;
+  logger: Logger;
+}): Promise<void> {
+  const { ctx, inboundCtx, channelCfg, logger } = params;
+  if (!ctx.parentId) return;
+
+  try {
+    const parent = await fetchFeishuMessage({ cfg: channelCfg, messageId: ctx.parentId });
+    if (!parent) {
+      logger.debug(`quoted message ${ctx.parentId} not found or recalled`);
+      return;
+    }
+    const quoted = renderQuotedMessage(parent);
+    if (!quoted) return;
+    inboundCtx.ReplyToBody = quoted;
+    if (parent.senderId) inboundCtx.ReplyToSender = parent.senderId;
+    inboundCtx.Body = formatQuotedBody(inboundCtx.Body, quoted);
+  } catch (err) {
+    logger.warn(`failed to fetch quoted message ${ctx.parentId}: ${String(err)}`);
+  }
+}
+
+/**
+ * 下载入站消息中的资源并写入上下文
+ *
+ * - 资源归档到 inboundMedia.dir/YYYY-MM-DD
+ * - post 消息以已下载图片的本地路径重新展开正文
+ * - 语音消息在开启 ASR 时转写为文本
+ * 下载或识别失败时保留原有的占位描述，不中断分发
+ */
+async function applyInboundMedia(params: {
+  ctx: FeishuMessageContext;
+  event: FeishuMessageEvent;
+  inboundCtx: InboundContext;
+  channelCfg: FeishuConfig;
+  inboundMediaDir: string;
+  inboundMediaTempDir: string;
+  logger: Logger;
+}): Promise<void> {
+  const { ctx, event, inboundCtx, channelCfg, inboundMediaDir, inboundMediaTempDir, logger } =
+    params;
+  const resources = ctx.resources ?? [];
+  if (resources.length === 0) return;
+
+  const downloaded = new Map<string, DownloadedFeishuResource>();
+  for (const resource of resources) {
+    try {
+      const file = await downloadFeishuMessageResource({
+        cfg: channelCfg,
+        messageId: ctx.messageId,
+        resource,
+        maxFileSizeMB: channelCfg.maxFileSizeMB,
+        timeoutMs: channelCfg.mediaTimeoutMs,
+        tempDir: inboundMediaTempDir,
+        log: logger,
+      });
+      const finalPath = await finalizeInboundMediaFile({
+        filePath: file.path,
+        tempDir: inboundMediaTempDir,
+        inboundDir: inboundMediaDir,
+      });
+      downloaded.set(resource.key, { ...file, path: finalPath });
+    } catch (err) {
+      logger.warn(`failed to download ${resource.kind} resource ${resource.key}: ${String(err)}`);
+    }
+  }
+
+  const setBody = (body: string) => {
+    inboundCtx.Body = body;
+    inboundCtx.RawBody = body;
+    inboundCtx.CommandBody = body;
+  };
+
+  if (ctx.contentType === "post") {
+    const files = resources
+      .map((resource) => downloaded.get(resource.key))
+      .filter((file): file is DownloadedFeishuResource => Boolean(file));
+    if (files.length === 0) return;
+    const imagePaths = new Map<string, string>();
+    for (const [key, file] of downloaded) imagePaths.set(key, file.path);
+    const post = parsePostContent(parseJsonContent(event.message?.content), imagePaths);
+    if (post.markdown) setBody(post.markdown);
+    inboundCtx.MediaPaths = files.map((file) => file.path);
+    inboundCtx.MediaTypes = files.map((file) => file.contentType);
+    return;
+  }
+
+  const resource = resources[0] as FeishuMessageResource;
+  const file = downloaded.get(resource.key);
+  if (!file) return;
+
+  inboundCtx.MediaPath = file.path;
+  inboundCtx.MediaType = file.contentType;
+  if (file.fileName) inboundCtx.FileName = file.fileName;
+  inboundCtx.FileSize = file.size;
+
+  if (resource.kind !== "audio") return;
+
+  const asrCredentials = resolveFeishuASRCredentials(channelCfg);
+  if (!channelCfg.asr?.enabled) {
+    logger.info("voice message received but ASR is disabled");
+    return;
+  }
+  if (!asrCredentials) {
+    logger.warn("voice ASR enabled but credentials are missing or invalid");
+    return;
+  }
+
+  try {
+    // 飞书语音为 ogg 封装的 opus 编码
+    const transcript = await transcribeTencentFlash({
+      audio: await fs.promises.readFile(file.path),
+      config: {
+        appId: asrCredentials.appId,
+        secretId: asrCredentials.secretId,
+        secretKey: asrCredentials.secretKey,
+        voiceFormat: "ogg-opus",
+        timeoutMs: channelCfg.mediaTimeoutMs,
+      },
+    });
+    if (transcript.trim()) {
+      inboundCtx.Transcript = transcript.trim();
+      setBody(transcript.trim());
+      logger.info(`[voice-asr] transcript: ${inboundCtx.Transcript}`);
+    }
+  } catch (err) {
+    if (err instanceof ASRError) {
+      logger.warn(
+        `voice ASR failed: kind=${err.kind} provider=${err.provider} retryable=${err.retryable} message=${err.message}`
+      );
+    } else {
+      logger.warn(`voice ASR failed: ${String(err)}`);
+    }
+  }
+}
+
 /**
  * 处理飞书入站消息
  */
@@ -168,10 +659,12 @@ export async function handleFeishuMessage(params: {
   cfg: unknown;
   event: FeishuMessageEvent;
   accountId?: string;
+  /** 机器人 open_id（gateway 启动时获取） */
+  botOpenId?: string;
   log?: (msg: string) => void;
   error?: (msg: string) => void;
 }): Promise<void> {
-  const { cfg, event, accountId = "default" } = params;
+  const { cfg, event, accountId = "default", botOpenId } = params;
 
   const logger: Logger = createLogger("feishu", {
     log: params.log,
@@ -180,26 +673,28 @@ export async function handleFeishuMessage(params: {
   const receivedAt = Date.now();
   logger.info?.(`[trace] inbound received_at=${new Date(receivedAt).toISOString()}`);
 
-  const ctx = parseFeishuMessageEvent(event);
+  const ctx = parseFeishuMessageEvent(event, botOpenId);
   const isGroup = ctx.chatType === "group";
 
-  if (!ctx.content || ctx.contentType !== "text") {
+  if (!SUPPORTED_MESSAGE_TYPES.has(ctx.contentType) || (!ctx.content && !ctx.resources?.length)) {
     logger.debug("unsupported message type or empty content, skipping");
     return;
   }
 
-  const feishuCfg = (cfg as Record<string, unknown>)?.channels as Record<string, unknown> | undefined;
-  const rawChannelCfg = feishuCfg?.["feishu-china"] as FeishuConfig | undefined;
-  const parsedCfg = rawChannelCfg ? FeishuConfigSchema.safeParse(rawChannelCfg) : null;
-  if (parsedCfg && !parsedCfg.success) {
-    logger.warn(`invalid feishu config, using raw values: ${parsedCfg.error.message}`);
+  // 与 gateway / outbound 一致：账户配置覆盖顶层配置
+  const pluginCfg = (cfg ?? {}) as PluginConfig;
+  const channelCfg = resolveFeishuAccount({ cfg: pluginCfg, accountId }).config;
+  if (!channelCfg && pluginCfg.channels?.["feishu-china"]) {
+    logger.warn(`invalid feishu config for account ${accountId}`);
   }
-  const channelCfg = parsedCfg?.success ? parsedCfg.data : rawChannelCfg;
   logger.debug(
-    `config snapshot: channels.feishu-china=${channelCfg ? "present" : "missing"}, sendMarkdownAsCard=${
+    `config snapshot: channels.feishu-china(${accountId})=${channelCfg ? "present" : "missing"}, sendMarkdownAsCard=${
       channelCfg?.sendMarkdownAsCard ?? "undefined"
     }`
   );
+  const inboundMediaDir = resolveInboundMediaDir(channelCfg);
+  const inboundMediaKeepDays = resolveInboundMediaKeepDays(channelCfg);
+  const inboundMediaTempDir = resolveInboundMediaTempDir();
 
   if (isGroup) {
     const groupPolicy = channelCfg?.groupPolicy ?? "open";
@@ -212,26 +707,78 @@ export async function handleFeishuMessage(params: {
       groupAllowFrom,
       requireMention,
       mentionedBot: ctx.mentionedBot,
+      senderId: ctx.senderId,
+      groups: channelCfg?.groups,
     });
 
     if (!policyResult.allowed) {
       logger.debug(`policy rejected: ${policyResult.reason}`);
+      // 未 @机器人 的群消息记入历史，被 @ 时作为上下文
+      if (policyResult.mentionRequired) {
+        recordGroupHistory({
+          channel: "feishu-china",
+          accountId,
+          conversationId: ctx.chatId,
+          limit: channelCfg?.historyLimit ?? 0,
+          entry: {
+            sender: ctx.senderId,
+            body: ctx.content,
+            timestamp: Date.now(),
+            messageId: ctx.messageId,
+          },
+        });
+      }
       return;
     }
   } else {
-    const dmPolicy = channelCfg?.dmPolicy ?? "open";
     const allowFrom = channelCfg?.allowFrom ?? [];
+    const { dmPolicy, pairingWithoutAdmins } = resolveEffectiveDmPolicy(channelCfg?.dmPolicy ?? "open", allowFrom);
+    const pairingScope = { channel: "feishu-china", accountId };
+    if (pairingWithoutAdmins) {
+      warnPairingWithoutAdmins(pairingScope, logger);
+    }
+
+    const sendPairingText = async (text: string): Promise<void> => {
+      if (!channelCfg) return;
+      try {
+        await sendMessageFeishu({ cfg: channelCfg, to: ctx.chatId, text, receiveIdType: "chat_id", accountId });
+      } catch (err) {
+        logger.warn(`failed to send pairing reply: ${String(err)}`);
+      }
+    };
 
     const policyResult = checkDmPolicy({
       dmPolicy,
       senderId: ctx.senderId,
       allowFrom,
+      pairing: pairingScope,
     });
 
     if (!policyResult.allowed) {
       logger.debug(`policy rejected: ${policyResult.reason}`);
+      if (policyResult.pairingRequired) {
+        const challenge = issuePairingChallenge(pairingScope, ctx.senderId);
+        if (challenge.created) {
+          logger.info(`pairing code ${challenge.code} issued for sender ${ctx.senderId}`);
+        }
+        await sendPairingText(challenge.text);
+      }
       return;
     }
+
+    // 配对模式下 allowFrom 中的发送者作为管理员审批配对码
+    if (dmPolicy === "pairing") {
+      const pairingReply = handlePairingCommand({
+        scope: pairingScope,
+        senderId: ctx.senderId,
+        text: ctx.content,
+        admins: allowFrom,
+      });
+      if (pairingReply !== null) {
+        await sendPairingText(pairingReply);
+        return;
+      }
+    }
   }
 
   if (!isFeishuRuntimeInitialized()) {
@@ -239,6 +786,9 @@ export async function handleFeishuMessage(params: {
     return;
   }
 
+  // 「处理中」表情：消息被接受后添加，首条回复送达或处理结束时移除
+  let working: WorkingIndicator = NOOP_WORKING_INDICATOR;
+
   try {
     const core = getFeishuRuntime();
 
@@ -260,16 +810,69 @@ export async function handleFeishuMessage(params: {
       return;
     }
 
-    const route = core.channel.routing.resolveAgentRoute({
-      cfg,
-      channel: "feishu-china",
-      peer: {
-        kind: isGroup ? "group" : "dm",
-        id: isGroup ? ctx.chatId : ctx.senderId,
-      },
-    });
+    const inboundMessageId = event.message?.message_id;
+    if (channelCfg && channelCfg.workingIndicator !== false && inboundMessageId) {
+      const reactionCfg = channelCfg;
+      working = createWorkingIndicator({
+        show: () =>
+          addReactionFeishu({
+            cfg: reactionCfg,
+            messageId: inboundMessageId,
+            emojiType: reactionCfg.workingReaction ?? "Typing",
+          }),
+        clear: async (reactionId) => {
+          if (reactionId) await removeReactionFeishu({ cfg: reactionCfg, messageId: inboundMessageId, reactionId });
+        },
+        onError: (err, phase) => logger.debug(`working indicator ${phase} failed: ${String(err)}`),
+      });
+      void working.start();
+    }
 
-    const inboundCtx = buildInboundContext(ctx, route.sessionKey, route.accountId);
+    // 群覆盖配置：固定 Agent、附加系统提示词
+    const groupOverride = isGroup ? resolveGroupOverride(channelCfg?.groups, ctx.chatId) : undefined;
+
+    const route = applyGroupAgentOverride(
+      core.channel.routing.resolveAgentRoute({
+        cfg,
+        channel: "feishu-china",
+        accountId,
+        peer: {
+          kind: isGroup ? "group" : "dm",
+          id: isGroup ? ctx.chatId : ctx.senderId,
+        },
+      }),
+      groupOverride
+    );
+
+    // 话题群 / 话题回复映射为独立会话
+    const sessionKey = resolveThreadSessionKey(route.sessionKey, ctx.threadId);
+
+    const inboundCtx = buildInboundContext(ctx, sessionKey, route.accountId);
+    if (groupOverride?.systemPrompt) {
+      inboundCtx.GroupSystemPrompt = groupOverride.systemPrompt;
+    }
+    if (channelCfg && ctx.resources?.length) {
+      await applyInboundMedia({
+        ctx,
+        event,
+        inboundCtx,
+        channelCfg,
+        inboundMediaDir,
+        inboundMediaTempDir,
+        logger,
+      });
+    }
+    if (channelCfg && ctx.parentId) {
+      await applyQuotedMessage({ ctx, inboundCtx, channelCfg, logger });
+    }
+
+    // 群聊：拼接上次回复以来未 @机器人 的消息
+    const groupHistory: HistoryEntry[] = isGroup
+      ? takeGroupHistory({ channel: "feishu-china", accountId, conversationId: ctx.chatId })
+      : [];
+    if (groupHistory.length > 0) {
+      inboundCtx.Body = buildGroupHistoryBody({ entries: groupHistory, body: inboundCtx.Body });
+    }
 
     const finalCtx = core.channel.reply.finalizeInboundContext
       ? core.channel.reply.finalizeInboundContext(inboundCtx)
@@ -287,7 +890,7 @@ export async function handleFeishuMessage(params: {
     if (cronBase) {
       const nextCron = appendCronHiddenPrompt(cronBase);
       if (nextCron !== cronBase) {
-        finalCtx.BodyForAgent = nextCron;
+        finalCtx.BodyForAgent = buildGroupHistoryBody({ entries: groupHistory, body: nextCron });
       }
     }
 
@@ -310,20 +913,28 @@ export async function handleFeishuMessage(params: {
     const isHttpUrl = (value: string): boolean => /^https?:\/\//i.test(value);
     const isFeishuImageKey = (value: string): boolean => /^img_v\d+_/i.test(value.trim());
 
+    // 回复挂在触发消息下；话题内的消息继续在话题中回复
+    // 单聊按发送者 open_id 寻址，登记的已发送消息目标与入站 To（user:<open_id>）一致
+    const replyTarget = {
+      to: isGroup ? ctx.chatId : ctx.senderId,
+      receiveIdType: isGroup ? ("chat_id" as const) : ("open_id" as const),
+      replyToMessageId: event.message?.message_id,
+      replyInThread: Boolean(ctx.threadId),
+      accountId,
+    };
+
     const sendTextFeishu = async (text: string): Promise<void> => {
       if (channelCfg.sendMarkdownAsCard) {
         await sendMarkdownCardFeishu({
           cfg: channelCfg,
-          to: ctx.chatId,
           text,
-          receiveIdType: "chat_id",
+          ...replyTarget,
         });
       } else {
         await sendMessageFeishu({
           cfg: channelCfg,
-          to: ctx.chatId,
           text,
-          receiveIdType: "chat_id",
+          ...replyTarget,
         });
       }
     };
@@ -338,16 +949,14 @@ export async function handleFeishuMessage(params: {
         if (sendAsImage) {
           await sendImageFeishu({
             cfg: channelCfg,
-            to: ctx.chatId,
             mediaUrl,
-            receiveIdType: "chat_id",
+            ...replyTarget,
           });
         } else {
           await sendFileFeishu({
             cfg: channelCfg,
-            to: ctx.chatId,
             mediaUrl,
-            receiveIdType: "chat_id",
+            ...replyTarget,
           });
         }
         return true;
@@ -358,6 +967,36 @@ export async function handleFeishuMessage(params: {
       }
     };
 
+    const splitReplyText = (text: string): string[] =>
+      textApi?.chunkTextWithMode && typeof textChunkLimit === "number" && textChunkLimit > 0
+        ? textApi.chunkTextWithMode(text, textChunkLimit, chunkMode)
+        : [text];
+
+    /**
+     * 上传 Markdown 中的本地图片，并拆出非图片本地文件（随后作为附件发送）
+     */
+    const prepareReplyChunk = async (
+      chunk: string
+    ): Promise<{ text: string; localFiles: string[] }> => {
+      const processedChunk = await processLocalImagesInMarkdown(channelCfg, chunk);
+      const { text, files } = extractFilesFromText(processedChunk, {
+        removeFromText: true,
+        checkExists: false,
+        parseBarePaths: true,
+        parseMarkdownLinks: true,
+      });
+
+      const localFiles = files
+        .filter((f) => f.isLocal && f.localPath && !isImagePath(f.localPath))
+        .map((f) => f.localPath as string)
+        .filter((p) => {
+          if (fs.existsSync(p)) return true;
+          logger.warn?.(`[feishu] local file not found: ${p}`);
+          return false;
+        });
+      return { text, localFiles };
+    };
+
     const deliver = async (
       payload: { text?: string; mediaUrl?: string; mediaUrls?: string[] },
       info?: { kind?: string }
@@ -391,31 +1030,13 @@ export async function handleFeishuMessage(params: {
         `[trace] deliver_start=${new Date(deliverAt).toISOString()} (+${deliverAt - receivedAt}ms)`
       );
 
-      const chunks =
-        textApi?.chunkTextWithMode && typeof textChunkLimit === "number" && textChunkLimit > 0
-          ? textApi.chunkTextWithMode(textWithoutMediaLines, textChunkLimit, chunkMode)
-          : [textWithoutMediaLines];
+      const chunks = splitReplyText(textWithoutMediaLines);
 
       const localFilesSet = new Set<string>();
       for (const chunk of chunks) {
         if (!chunk.trim()) continue;
 
-        const processedChunk = await processLocalImagesInMarkdown(channelCfg, chunk);
-        const { text: cleanedChunk, files } = extractFilesFromText(processedChunk, {
-          removeFromText: true,
-          checkExists: false,
-          parseBarePaths: true,
-          parseMarkdownLinks: true,
-        });
-
-        const localFiles = files
-          .filter((f) => f.isLocal && f.localPath && !isImagePath(f.localPath))
-          .map((f) => f.localPath as string)
-          .filter((p) => {
-            if (fs.existsSync(p)) return true;
-            logger.warn?.(`[feishu] local file not found: ${p}`);
-            return false;
-          });
+        const { text: cleanedChunk, localFiles } = await prepareReplyChunk(chunk);
         for (const filePath of localFiles) {
           localFilesSet.add(filePath);
         }
@@ -423,10 +1044,11 @@ export async function handleFeishuMessage(params: {
         logger.debug(
           `send reply via ${
             channelCfg.sendMarkdownAsCard ? "interactive markdown card" : "text message"
-          } (receive_id_type=chat_id, chunk_len=${cleanedChunk.length}, local_files=${localFiles.length}, kind=${replyKind})`
+          } (reply_to=${replyTarget.replyToMessageId ?? "none"}, chunk_len=${cleanedChunk.length}, local_files=${localFiles.length}, kind=${replyKind})`
         );
         await sendTextFeishu(cleanedChunk);
         sent = true;
+        void working.stop();
         const sentAt = Date.now();
         logger.info?.(
           `[trace] deliver_sent=${new Date(sentAt).toISOString()} (+${sentAt - receivedAt}ms)`
@@ -443,6 +1065,7 @@ export async function handleFeishuMessage(params: {
         const didSend = await sendMediaWithFallback(mediaUrl);
         if (didSend) {
           sent = true;
+          void working.stop();
         }
       }
 
@@ -462,7 +1085,7 @@ export async function handleFeishuMessage(params: {
       | undefined;
 
     if (dispatchReplyWithBufferedBlockDispatcher) {
-      logger.debug(`dispatching to agent (buffered, session=${route.sessionKey})`);
+      logger.debug(`dispatching to agent (buffered, session=${sessionKey})`);
       const deliveryState = { delivered: false, skippedNonSilent: 0 };
       const buffered = {
         lastText: "",
@@ -475,54 +1098,135 @@ export async function handleFeishuMessage(params: {
         if (buffered.mediaUrls.includes(trimmed)) return;
         buffered.mediaUrls.push(trimmed);
       };
+      const addPayloadMedia = (typed: { mediaUrl?: string; mediaUrls?: string[] }) => {
+        if (Array.isArray(typed.mediaUrls)) {
+          for (const url of typed.mediaUrls) addBufferedMedia(url);
+        } else if (typed.mediaUrl) {
+          addBufferedMedia(typed.mediaUrl);
+        }
+      };
 
-      const result = await dispatchReplyWithBufferedBlockDispatcher({
-        ctx: finalCtx,
-        cfg,
-        dispatcherOptions: {
-          deliver: async (payload: unknown, info?: { kind?: string }) => {
-            if (!replyFinalOnly) {
-              const didSend = await deliver(
-                payload as { text?: string; mediaUrl?: string; mediaUrls?: string[] },
-                info
-              );
-              if (didSend) {
-                deliveryState.delivered = true;
-              }
-              return;
-            }
-
-            if (!info || info.kind !== "final") {
-              return;
-            }
-
-            const typed = payload as { text?: string; mediaUrl?: string; mediaUrls?: string[] };
-            buffered.hasPayload = true;
-            if (typeof typed.text === "string" && typed.text.trim()) {
-              buffered.lastText = typed.text;
-            }
-            if (Array.isArray(typed.mediaUrls)) {
-              for (const url of typed.mediaUrls) addBufferedMedia(url);
-            } else if (typed.mediaUrl) {
-              addBufferedMedia(typed.mediaUrl);
-            }
-          },
-          humanDelay,
-          onSkip: (_payload: unknown, info: { kind: string; reason: string }) => {
-            if (info.reason !== "silent") {
-              deliveryState.skippedNonSilent += 1;
-            }
-          },
-          onError: (err: unknown, info: { kind: string }) => {
-            logger.error(`${info.kind} reply failed: ${String(err)}`);
-          },
+      // 流式卡片：回复开始时发送卡片，之后随 partial / block 内容节流更新
+      const streamingEnabled = channelCfg.streamingCard === true;
+      const stream = createStreamingReplyState<FeishuStreamingCard>({
+        enabled: streamingEnabled,
+        start: async () => {
+          const card = await createFeishuStreamingCard({
+            cfg: channelCfg,
+            ...replyTarget,
+            throttleMs: channelCfg.streamingThrottleMs,
+            maxChars: textChunkLimit,
+            log: (msg) => logger.debug(msg),
+          });
+          // 流式卡片本身即表示「正在回复」
+          void working.stop();
+          return card;
         },
+        onStartFailed: (err) =>
+          logger.warn(`failed to create streaming card, falling back to plain replies: ${String(err)}`),
       });
 
-      if (buffered.hasPayload) {
+      const finishStreamingReply = async (card: FeishuStreamingCard, text: string) => {
+        const { text: textWithoutMediaLines, mediaUrls: mediaFromLines } = extractMediaLinesFromText({
+          text,
+          logger,
+        });
+        const [head = "", ...rest] = splitReplyText(textWithoutMediaLines).filter((chunk) =>
+          chunk.trim()
+        );
+        const { text: cardText, localFiles } = head
+          ? await prepareReplyChunk(head)
+          : { text: "", localFiles: [] as string[] };
+        await card.finish(cardText);
+        logger.debug(`streaming card finished (len=${cardText.length}, overflow_chunks=${rest.length})`);
+
+        for (const chunk of rest) {
+          await deliver({ text: chunk }, { kind: "final" });
+        }
+        const media = [...buffered.mediaUrls, ...mediaFromLines, ...localFiles];
+        if (media.length > 0) {
+          await deliver({ mediaUrls: media }, { kind: "final" });
+        }
+      };
+
+      let result: unknown;
+      try {
+        result = await dispatchReplyWithBufferedBlockDispatcher({
+          ctx: finalCtx,
+          cfg,
+          dispatcherOptions: {
+            deliver: async (payload: unknown, info?: { kind?: string }) => {
+              const typed = payload as { text?: string; mediaUrl?: string; mediaUrls?: string[] };
+
+              if (!stream.disabled && info?.kind !== "final") {
+                addPayloadMedia(typed);
+                if (typeof typed.text === "string") await stream.appendBlock(typed.text);
+                return;
+              }
+
+              if (!replyFinalOnly && stream.disabled) {
+                const didSend = await deliver(typed, info);
+                if (didSend) {
+                  deliveryState.delivered = true;
+                }
+                return;
+              }
+
+              if (!info || info.kind !== "final") {
+                return;
+              }
+
+              buffered.hasPayload = true;
+              if (typeof typed.text === "string" && typed.text.trim()) {
+                buffered.lastText = typed.text;
+              }
+              addPayloadMedia(typed);
+            },
+            humanDelay,
+            onReplyStart: streamingEnabled
+              ? async () => {
+                  await stream.ensure();
+                }
+              : undefined,
+            onSkip: (_payload: unknown, info: { kind: string; reason: string }) => {
+              if (info.reason !== "silent") {
+                deliveryState.skippedNonSilent += 1;
+              }
+            },
+            onError: (err: unknown, info: { kind: string }) => {
+              stream.error = String(err);
+              logger.error(`${info.kind} reply failed: ${String(err)}`);
+            },
+          },
+          replyOptions: streamingEnabled
+            ? {
+                onPartialReply: async (payload: { text?: string }) => {
+                  if (typeof payload?.text === "string") await stream.applyPartial(payload.text);
+                },
+              }
+            : undefined,
+        });
+      } catch (err) {
+        const card = await stream.current();
+        await card?.fail(String(err));
+        throw err;
+      }
+
+      const streamingCard = await stream.current();
+      if (streamingCard) {
+        const finalText = buffered.lastText || stream.text;
+        if (stream.error && !buffered.hasPayload) {
+          await streamingCard.fail(stream.error, finalText);
+        } else if (finalText.trim() || buffered.mediaUrls.length > 0) {
+          await finishStreamingReply(streamingCard, finalText);
+        } else {
+          await streamingCard.fail("No response generated. Please try again.");
+        }
+        deliveryState.delivered = true;
+      } else if (buffered.hasPayload || (stream.disabled && stream.text)) {
         const didSend = await deliver(
           {
-            text: buffered.lastText,
+            text: buffered.lastText || stream.text,
             mediaUrls: buffered.mediaUrls.length ? buffered.mediaUrls : undefined,
           },
           { kind: "final" }
@@ -574,7 +1278,7 @@ export async function handleFeishuMessage(params: {
       return;
     }
 
-    logger.debug(`dispatching to agent (session=${route.sessionKey})`);
+    logger.debug(`dispatching to agent (session=${sessionKey})`);
 
     const { queuedFinal, counts } = await core.channel.reply.dispatchReplyFromConfig({
       ctx: finalCtx,
@@ -591,5 +1295,15 @@ export async function handleFeishuMessage(params: {
     );
   } catch (err) {
     logger.error(`failed to dispatch message: ${String(err)}`);
+  } finally {
+    await working.stop();
+    try {
+      await pruneInboundMediaDir({
+        inboundDir: inboundMediaDir,
+        keepDays: inboundMediaKeepDays,
+      });
+    } catch (err) {
+      logger.debug(`failed to prune inbound media dir: ${String(err)}`);
+    }
   }
 }
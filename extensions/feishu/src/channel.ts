@@ -3,13 +3,19 @@
  */
 
 import type { ResolvedFeishuAccount, FeishuConfig } from "./types.js";
-import { FeishuConfigSchema, isConfigured, resolveFeishuCredentials } from "./config.js";
+import {
+  DEFAULT_ACCOUNT_ID,
+  listFeishuAccountIds,
+  resolveDefaultFeishuAccountId,
+  resolveFeishuAccount,
+  type PluginConfig,
+} from "./config.js";
 import { feishuOutbound } from "./outbound.js";
-import { startFeishuGateway, stopFeishuGateway } from "./gateway.js";
+import { isGatewayActive, startFeishuGateway, stopFeishuGateway } from "./gateway.js";
+import { isFeishuWebhookActive, startFeishuWebhook, stopFeishuWebhook } from "./webhook.js";
 import { setFeishuRuntime } from "./runtime.js";
 
-/** 默认账户 ID */
-export const DEFAULT_ACCOUNT_ID = "default";
+export { DEFAULT_ACCOUNT_ID } from "./config.js";
 
 const meta = {
   id: "feishu-china",
@@ -22,32 +28,62 @@ const meta = {
   order: 70,
 } as const;
 
-interface PluginConfig {
-  channels?: {
-    "feishu-china"?: FeishuConfig;
-  };
-}
-
-function resolveFeishuAccount(params: {
-  cfg: PluginConfig;
-  accountId?: string;
-}): ResolvedFeishuAccount {
-  const { cfg, accountId = DEFAULT_ACCOUNT_ID } = params;
-  const feishuCfg = cfg.channels?.["feishu-china"];
-
-  const parsed = feishuCfg ? FeishuConfigSchema.safeParse(feishuCfg) : null;
-  const config = parsed?.success ? parsed.data : undefined;
-
-  const credentials = resolveFeishuCredentials(config);
-  const configured = Boolean(credentials);
-
-  return {
-    accountId,
-    enabled: config?.enabled ?? true,
-    configured,
-    appId: credentials?.appId,
-  };
-}
+/** 账户级配置字段（顶层与 accounts.<id> 共用） */
+const accountConfigProperties = {
+  name: { type: "string" },
+  enabled: { type: "boolean" },
+  appId: { type: "string" },
+  appSecret: { type: "string" },
+  connectionMode: { type: "string", enum: ["websocket", "webhook"] },
+  webhookPath: { type: "string" },
+  encryptKey: { type: "string" },
+  verificationToken: { type: "string" },
+  dmPolicy: { type: "string", enum: ["open", "pairing", "allowlist"] },
+  groupPolicy: { type: "string", enum: ["open", "allowlist", "disabled"] },
+  requireMention: { type: "boolean" },
+  allowFrom: { type: "array", items: { type: "string" } },
+  groupAllowFrom: { type: "array", items: { type: "string" } },
+  groups: {
+    type: "object",
+    additionalProperties: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        requireMention: { type: "boolean" },
+        allowFrom: { type: "array", items: { type: "string" } },
+        agentId: { type: "string" },
+        systemPrompt: { type: "string" },
+      },
+    },
+  },
+  sendMarkdownAsCard: { type: "boolean" },
+  historyLimit: { type: "integer", minimum: 0 },
+  textChunkLimit: { type: "integer", minimum: 1 },
+  streamingCard: { type: "boolean" },
+  streamingThrottleMs: { type: "integer", minimum: 200 },
+  workingIndicator: { type: "boolean" },
+  workingReaction: { type: "string" },
+  maxFileSizeMB: { type: "number", exclusiveMinimum: 0 },
+  mediaTimeoutMs: { type: "integer", minimum: 1 },
+  inboundMedia: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      dir: { type: "string" },
+      keepDays: { type: "number", minimum: 0 },
+    },
+  },
+  asr: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      enabled: { type: "boolean" },
+      appId: { type: "string" },
+      secretId: { type: "string" },
+      secretKey: { type: "string" },
+    },
+  },
+};
 
 export const feishuPlugin = {
   id: "feishu-china",
@@ -61,7 +97,7 @@ export const feishuPlugin = {
     media: true,
     reactions: false,
     threads: false,
-    edit: false,
+    edit: true,
     reply: true,
     polls: false,
   },
@@ -71,18 +107,16 @@ export const feishuPlugin = {
       type: "object",
       additionalProperties: false,
       properties: {
-        enabled: { type: "boolean" },
-        appId: { type: "string" },
-        appSecret: { type: "string" },
-        connectionMode: { type: "string", enum: ["websocket"] },
-        dmPolicy: { type: "string", enum: ["open", "pairing", "allowlist"] },
-        groupPolicy: { type: "string", enum: ["open", "allowlist", "disabled"] },
-        requireMention: { type: "boolean" },
-        allowFrom: { type: "array", items: { type: "string" } },
-        groupAllowFrom: { type: "array", items: { type: "string" } },
-        sendMarkdownAsCard: { type: "boolean" },
-        historyLimit: { type: "integer", minimum: 0 },
-        textChunkLimit: { type: "integer", minimum: 1 },
+        ...accountConfigProperties,
+        defaultAccount: { type: "string" },
+        accounts: {
+          type: "object",
+          additionalProperties: {
+            type: "object",
+            additionalProperties: false,
+            properties: accountConfigProperties,
+          },
+        },
       },
     },
   },
@@ -90,29 +124,66 @@ export const feishuPlugin = {
   reload: { configPrefixes: ["channels.feishu-china"] },
 
   config: {
-    listAccountIds: (_cfg: PluginConfig): string[] => [DEFAULT_ACCOUNT_ID],
+    listAccountIds: (cfg: PluginConfig): string[] => listFeishuAccountIds(cfg),
 
     resolveAccount: (cfg: PluginConfig, accountId?: string): ResolvedFeishuAccount =>
       resolveFeishuAccount({ cfg, accountId }),
 
-    defaultAccountId: (): string => DEFAULT_ACCOUNT_ID,
+    defaultAccountId: (cfg: PluginConfig): string => resolveDefaultFeishuAccountId(cfg),
+
+    setAccountEnabled: (params: { cfg: PluginConfig; accountId?: string; enabled: boolean }): PluginConfig => {
+      const accountId = params.accountId ?? DEFAULT_ACCOUNT_ID;
+      const existingConfig: Partial<FeishuConfig> = params.cfg.channels?.["feishu-china"] ?? {};
+      const useAccount = Boolean(existingConfig.accounts?.[accountId]);
+      if (!useAccount) {
+        return {
+          ...params.cfg,
+          channels: {
+            ...params.cfg.channels,
+            "feishu-china": {
+              ...existingConfig,
+              enabled: params.enabled,
+            } as FeishuConfig,
+          },
+        };
+      }
 
-    setAccountEnabled: (params: { cfg: PluginConfig; enabled: boolean }): PluginConfig => {
-      const existingConfig = params.cfg.channels?.["feishu-china"] ?? {};
       return {
         ...params.cfg,
         channels: {
           ...params.cfg.channels,
           "feishu-china": {
             ...existingConfig,
-            enabled: params.enabled,
+            accounts: {
+              ...existingConfig.accounts,
+              [accountId]: {
+                ...existingConfig.accounts?.[accountId],
+                enabled: params.enabled,
+              },
+            },
           } as FeishuConfig,
         },
       };
     },
 
-    deleteAccount: (params: { cfg: PluginConfig }): PluginConfig => {
+    deleteAccount: (params: { cfg: PluginConfig; accountId?: string }): PluginConfig => {
+      const accountId = params.accountId ?? DEFAULT_ACCOUNT_ID;
       const next = { ...params.cfg };
+      const current = params.cfg.channels?.["feishu-china"];
+
+      if (current?.accounts?.[accountId]) {
+        const accounts = { ...current.accounts };
+        delete accounts[accountId];
+        next.channels = {
+          ...params.cfg.channels,
+          "feishu-china": {
+            ...current,
+            accounts: Object.keys(accounts).length > 0 ? accounts : undefined,
+          },
+        };
+        return next;
+      }
+
       const nextChannels = { ...params.cfg.channels };
       delete (nextChannels as Record<string, unknown>)["feishu-china"];
       if (Object.keys(nextChannels).length > 0) {
@@ -123,17 +194,17 @@ export const feishuPlugin = {
       return next;
     },
 
-    isConfigured: (_account: ResolvedFeishuAccount, cfg: PluginConfig): boolean =>
-      isConfigured(cfg.channels?.["feishu-china"]),
+    isConfigured: (account: ResolvedFeishuAccount): boolean => account.configured,
 
     describeAccount: (account: ResolvedFeishuAccount) => ({
       accountId: account.accountId,
+      name: account.name,
       enabled: account.enabled,
       configured: account.configured,
     }),
 
-    resolveAllowFrom: (params: { cfg: PluginConfig }): string[] =>
-      params.cfg.channels?.["feishu-china"]?.allowFrom ?? [],
+    resolveAllowFrom: (params: { cfg: PluginConfig; accountId?: string }): string[] =>
+      resolveFeishuAccount({ cfg: params.cfg, accountId: params.accountId }).config?.allowFrom ?? [],
 
     formatAllowFrom: (params: { allowFrom: (string | number)[] }): string[] =>
       params.allowFrom
@@ -143,8 +214,8 @@ export const feishuPlugin = {
   },
 
   security: {
-    collectWarnings: (params: { cfg: PluginConfig }): string[] => {
-      const feishuCfg = params.cfg.channels?.["feishu-china"];
+    collectWarnings: (params: { cfg: PluginConfig; accountId?: string }): string[] => {
+      const feishuCfg = resolveFeishuAccount({ cfg: params.cfg, accountId: params.accountId }).config;
       const groupPolicy = feishuCfg?.groupPolicy ?? "allowlist";
       if (groupPolicy !== "open") return [];
       return [
@@ -154,7 +225,8 @@ export const feishuPlugin = {
   },
 
   setup: {
-    resolveAccountId: (): string => DEFAULT_ACCOUNT_ID,
+    resolveAccountId: (params?: { accountId?: string }): string =>
+      params?.accountId?.trim() || DEFAULT_ACCOUNT_ID,
     applyAccountConfig: (params: { cfg: PluginConfig }): PluginConfig => {
       const existingConfig = params.cfg.channels?.["feishu-china"] ?? {};
       return {
@@ -199,20 +271,61 @@ export const feishuPlugin = {
         }
       }
 
+      const account = resolveFeishuAccount({ cfg: ctx.cfg, accountId: ctx.accountId });
+      if (!account.configured) {
+        ctx.log?.info(`[feishu] account ${ctx.accountId} not configured; gateway not started`);
+        ctx.setStatus?.({ accountId: ctx.accountId, running: false, configured: false });
+        return;
+      }
+
+      const runtime =
+        (ctx.runtime as { log?: (msg: string) => void; error?: (msg: string) => void }) ?? {
+          log: ctx.log?.info ?? console.log,
+          error: ctx.log?.error ?? console.error,
+        };
+
+      if (account.config?.connectionMode === "webhook") {
+        ctx.setStatus?.({
+          accountId: ctx.accountId,
+          running: true,
+          configured: true,
+          mode: "webhook",
+          lastStartAt: Date.now(),
+        });
+        await startFeishuWebhook({
+          config: ctx.cfg,
+          runtime,
+          abortSignal: ctx.abortSignal,
+          accountId: ctx.accountId,
+          statusSink: (patch) => ctx.setStatus?.({ accountId: ctx.accountId, ...patch }),
+        });
+        return;
+      }
+
+      ctx.setStatus?.({
+        accountId: ctx.accountId,
+        running: true,
+        configured: true,
+        lastStartAt: Date.now(),
+      });
+
       await startFeishuGateway({
         config: ctx.cfg,
-        runtime:
-          (ctx.runtime as { log?: (msg: string) => void; error?: (msg: string) => void }) ?? {
-            log: ctx.log?.info ?? console.log,
-            error: ctx.log?.error ?? console.error,
-          },
+        runtime,
         abortSignal: ctx.abortSignal,
         accountId: ctx.accountId,
       });
     },
-    stopAccount: async (ctx: { accountId: string }): Promise<void> => {
+    stopAccount: async (ctx: {
+      accountId: string;
+      setStatus?: (status: Record<string, unknown>) => void;
+    }): Promise<void> => {
       stopFeishuGateway(ctx.accountId);
+      stopFeishuWebhook(ctx.accountId);
+      ctx.setStatus?.({ accountId: ctx.accountId, running: false, lastStopAt: Date.now() });
     },
-    getStatus: () => ({ connected: true }),
+    getStatus: (ctx?: { accountId?: string }) => ({
+      connected: isGatewayActive(ctx?.accountId) || isFeishuWebhookActive(ctx?.accountId),
+    }),
   },
 };
@@ -5,6 +5,7 @@
 
 import * as lark from "@larksuiteoapi/node-sdk";
 import type { FeishuConfig } from "./config.js";
+import type { FeishuFetchedMessage, FeishuMention } from "./types.js";
 
 // 客户端缓存
 const clientCache = new Map<string, lark.Client>();
@@ -29,3 +30,83 @@ export function createFeishuClientFromConfig(config: FeishuConfig): lark.Client
 
   return client;
 }
+
+// 机器人 open_id 缓存 (appId -> open_id)
+const botOpenIdCache = new Map<string, string>();
+
+/**
+ * 获取机器人自身的 open_id
+ *
+ * 调用机器人信息接口 GET /open-apis/bot/v3/info，结果按 appId 缓存
+ * 用于群聊中准确判断是否 @ 了本机器人
+ */
+export async function fetchFeishuBotOpenId(config: FeishuConfig): Promise<string> {
+  const cacheKey = config.appId ?? "";
+  const cached = botOpenIdCache.get(cacheKey);
+  if (cached) return cached;
+
+  const client = createFeishuClientFromConfig(config);
+  const result = (await client.request({
+    method: "GET",
+    url: "/open-apis/bot/v3/info",
+  })) as { code?: number; msg?: string; bot?: { open_id?: string } };
+
+  if (result?.code !== 0 || !result.bot?.open_id) {
+    throw new Error(`Feishu bot info failed: code=${result?.code} msg=${result?.msg ?? ""}`);
+  }
+
+  botOpenIdCache.set(cacheKey, result.bot.open_id);
+  return result.bot.open_id;
+}
+
+/**
+ * 获取单条消息内容
+ *
+ * 调用 GET /open-apis/im/v1/messages/:message_id，用于读取被引用的父消息
+ * 消息不存在或已撤回时返回 null
+ */
+export async function fetchFeishuMessage(params: {
+  cfg: FeishuConfig;
+  messageId: string;
+}): Promise<FeishuFetchedMessage | null> {
+  const client = createFeishuClientFromConfig(params.cfg);
+  const result = (await client.im.v1.message.get({
+    path: { message_id: params.messageId },
+  })) as {
+    code?: number;
+    msg?: string;
+    data?: {
+      items?: Array<{
+        message_id?: string;
+        msg_type?: string;
+        deleted?: boolean;
+        body?: { content?: string };
+        sender?: { id?: string; sender_type?: string };
+        mentions?: Array<{ key?: string; id?: string; name?: string }>;
+      }>;
+    };
+  };
+
+  if (result?.code !== undefined && result.code !== 0) {
+    throw new Error(`Feishu get message failed: code=${result.code} msg=${result.msg ?? ""}`);
+  }
+
+  const item = result?.data?.items?.[0];
+  if (!item || item.deleted) return null;
+
+  // 该接口的 mentions.id 为字符串（open_id），转换为事件中的结构
+  const mentions: FeishuMention[] | undefined = item.mentions?.map((m) => ({
+    key: m.key,
+    id: m.id ? { open_id: m.id } : undefined,
+    name: m.name,
+  }));
+
+  return {
+    messageId: item.message_id ?? params.messageId,
+    messageType: item.msg_type ?? "",
+    content: item.body?.content ?? "",
+    senderId: item.sender?.id,
+    senderType: item.sender?.sender_type,
+    mentions,
+  };
+}
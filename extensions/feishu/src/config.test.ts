@@ -7,7 +7,18 @@
 
 import { describe, it, expect } from "vitest";
 import * as fc from "fast-check";
-import { FeishuConfigSchema, isConfigured, resolveFeishuCredentials } from "./config.js";
+import { join } from "node:path";
+import {
+  FeishuConfigSchema,
+  isConfigured,
+  listFeishuAccountIds,
+  resolveDefaultFeishuAccountId,
+  resolveFeishuAccount,
+  resolveFeishuASRCredentials,
+  resolveFeishuCredentials,
+  resolveInboundMediaDir,
+  resolveInboundMediaKeepDays,
+} from "./config.js";
 
 describe("Feature: feishu-integration, Property 1: 配置 Schema 验证", () => {
   it("should parse valid configs and apply defaults", () => {
@@ -173,3 +184,91 @@ describe("Feature: feishu-integration, Property 1: 配置 Schema 验证", () =>
     );
   });
 });
+
+describe("multi-account config", () => {
+  const cfg = {
+    channels: {
+      "feishu-china": FeishuConfigSchema.parse({
+        appId: "cli_top",
+        appSecret: "top-secret",
+        groupPolicy: "allowlist",
+        groupAllowFrom: ["oc_1"],
+        accounts: {
+          ops: { name: "Ops Bot", appId: "cli_ops", appSecret: "ops-secret" },
+          hr: { enabled: false, groupAllowFrom: ["oc_2"] },
+        },
+      }),
+    },
+  };
+
+  it("lists default account when accounts map is absent", () => {
+    const single = { channels: { "feishu-china": FeishuConfigSchema.parse({ appId: "a" }) } };
+    expect(listFeishuAccountIds(single)).toEqual(["default"]);
+    expect(resolveDefaultFeishuAccountId(single)).toBe("default");
+  });
+
+  it("lists every configured account", () => {
+    expect(listFeishuAccountIds(cfg)).toEqual(["hr", "ops"]);
+    expect(resolveDefaultFeishuAccountId(cfg)).toBe("hr");
+  });
+
+  it("merges account overrides on top of top-level config", () => {
+    const ops = resolveFeishuAccount({ cfg, accountId: "ops" });
+    expect(ops.name).toBe("Ops Bot");
+    expect(ops.appId).toBe("cli_ops");
+    expect(ops.configured).toBe(true);
+    expect(ops.config?.groupPolicy).toBe("allowlist");
+    expect(ops.config?.groupAllowFrom).toEqual(["oc_1"]);
+
+    const hr = resolveFeishuAccount({ cfg, accountId: "hr" });
+    expect(hr.enabled).toBe(false);
+    expect(hr.appId).toBe("cli_top");
+    expect(hr.config?.groupAllowFrom).toEqual(["oc_2"]);
+  });
+});
+
+describe("inbound media and ASR config", () => {
+  it("applies media defaults", () => {
+    const config = FeishuConfigSchema.parse({});
+    expect(config.maxFileSizeMB).toBe(100);
+    expect(config.mediaTimeoutMs).toBe(30000);
+    expect(resolveInboundMediaDir(config)).toContain(join("media", "feishu", "inbound"));
+    expect(resolveInboundMediaKeepDays(config)).toBe(7);
+  });
+
+  it("honors inboundMedia overrides", () => {
+    const config = FeishuConfigSchema.parse({ inboundMedia: { dir: "/data/feishu", keepDays: 0 } });
+    expect(resolveInboundMediaDir(config)).toBe("/data/feishu");
+    expect(resolveInboundMediaKeepDays(config)).toBe(0);
+  });
+
+  it("resolves ASR credentials only when enabled and complete", () => {
+    const asr = { appId: "1300000000", secretId: "sid", secretKey: "skey" };
+    expect(resolveFeishuASRCredentials(FeishuConfigSchema.parse({ asr }))).toBeUndefined();
+    expect(
+      resolveFeishuASRCredentials(FeishuConfigSchema.parse({ asr: { ...asr, enabled: true } }))
+    ).toEqual(asr);
+    expect(
+      resolveFeishuASRCredentials(
+        FeishuConfigSchema.parse({ asr: { enabled: true, appId: "1300000000" } })
+      )
+    ).toBeUndefined();
+  });
+});
+
+describe("webhook connection mode", () => {
+  it("accepts webhook mode with event subscription credentials", () => {
+    const config = FeishuConfigSchema.parse({
+      connectionMode: "webhook",
+      webhookPath: "/feishu/events",
+      encryptKey: "ek",
+      verificationToken: "vt",
+    });
+    expect(config.connectionMode).toBe("webhook");
+    expect(config.webhookPath).toBe("/feishu/events");
+  });
+
+  it("rejects unknown connection modes", () => {
+    expect(FeishuConfigSchema.safeParse({ connectionMode: "polling" }).success).toBe(false);
+  });
+});
@@ -1,5 +1,23 @@
 // 飞书配置 schema
 import { z } from "zod";
+import { homedir, tmpdir } from "node:os";
+import { join } from "node:path";
+import type { ResolvedFeishuAccount } from "./types.js";
+
+/** 默认账户 ID */
+export const DEFAULT_ACCOUNT_ID = "default";
+
+/** 按群覆盖配置（groups.<会话 ID>，"*" 为所有群默认值） */
+const FeishuGroupConfigSchema = z.object({
+  /** 覆盖全局 requireMention */
+  requireMention: z.boolean().optional(),
+  /** 允许在该群触发机器人的发送者 */
+  allowFrom: z.array(z.string()).optional(),
+  /** 该群固定使用的 Agent ID */
+  agentId: z.string().optional(),
+  /** 该群附加的系统提示词 */
+  systemPrompt: z.string().optional(),
+});
 
 /**
  * 飞书渠道配置 Schema
@@ -8,17 +26,34 @@ import { z } from "zod";
  * - enabled: 是否启用该渠道
  * - appId: 飞书应用 App ID
  * - appSecret: 飞书应用 App Secret
- * - connectionMode: 连接模式（仅支持 websocket）
+ * - connectionMode: 连接模式 (websocket=长连接, webhook=HTTP 事件订阅)
+ * - webhookPath: webhook 模式下的回调路径
+ * - encryptKey: 事件订阅 Encrypt Key（webhook 模式）
+ * - verificationToken: 事件订阅 Verification Token（webhook 模式）
  * - dmPolicy: 单聊策略 (open=开放, pairing=配对, allowlist=白名单)
  * - groupPolicy: 群聊策略 (open=开放, allowlist=白名单, disabled=禁用)
  * - requireMention: 群聊是否需要 @机器人
  * - allowFrom: 单聊白名单用户 ID 列表
  * - groupAllowFrom: 群聊白名单会话 ID 列表
+ * - groups: 按群覆盖配置（requireMention / allowFrom / agentId / systemPrompt）
  * - historyLimit: 历史消息数量限制
  * - textChunkLimit: 文本分块大小限制
  * - replyFinalOnly: 是否只发送最终回复（非流式）
+ * - streamingCard: 是否以可更新的交互卡片流式回复
+ * - streamingThrottleMs: 流式卡片更新间隔 (毫秒)
+ * - workingIndicator: 收到消息后是否给原消息添加「处理中」表情，回复送达后移除
+ * - workingReaction: 「处理中」表情类型 (emoji_type)
+ * - maxFileSizeMB: 入站媒体文件大小限制 (MB)
+ * - mediaTimeoutMs: 入站媒体下载超时 (毫秒)
+ * - inboundMedia: 入站媒体归档与保留策略
+ * - asr: 语音消息识别（腾讯云录音文件识别极速版）
+ * - defaultAccount: 默认账户 ID
+ * - accounts: 多账户配置（键为账户 ID，未填写字段继承顶层配置）
  */
-export const FeishuConfigSchema = z.object({
+const FeishuAccountSchema = z.object({
+  /** 账户显示名称 */
+  name: z.string().optional(),
+
   /** 是否启用飞书渠道 */
   enabled: z.boolean().optional().default(true),
 
@@ -28,8 +63,17 @@ export const FeishuConfigSchema = z.object({
   /** 飞书应用 App Secret */
   appSecret: z.string().optional(),
 
-  /** 连接模式（暂只支持 websocket） */
-  connectionMode: z.enum(["websocket"]).optional().default("websocket"),
+  /** 连接模式: websocket=长连接, webhook=HTTP 事件订阅 */
+  connectionMode: z.enum(["websocket", "webhook"]).optional().default("websocket"),
+
+  /** webhook 模式下的回调路径 */
+  webhookPath: z.string().optional(),
+
+  /** 事件订阅 Encrypt Key（配置后事件体为加密格式） */
+  encryptKey: z.string().optional(),
+
+  /** 事件订阅 Verification Token */
+  verificationToken: z.string().optional(),
 
   /** 单聊策略: open=开放, pairing=配对, allowlist=白名单 */
   dmPolicy: z.enum(["open", "pairing", "allowlist"]).optional().default("open"),
@@ -46,6 +90,9 @@ export const FeishuConfigSchema = z.object({
   /** 群聊白名单: 允许的会话 ID 列表 */
   groupAllowFrom: z.array(z.string()).optional(),
 
+  /** 按群覆盖配置 */
+  groups: z.record(FeishuGroupConfigSchema).optional(),
+
   /** 是否将 Markdown 文本以卡片形式发送 */
   sendMarkdownAsCard: z.boolean().optional().default(true),
 
@@ -57,9 +104,66 @@ export const FeishuConfigSchema = z.object({
 
   /** 仅发送最终回复（非流式） */
   replyFinalOnly: z.boolean().optional().default(false),
+
+  /** 以可更新的交互卡片流式回复 */
+  streamingCard: z.boolean().optional().default(false),
+
+  /** 流式卡片更新间隔 (毫秒，飞书单条消息更新上限 5 QPS) */
+  streamingThrottleMs: z.number().int().min(200).optional().default(500),
+
+  /** 收到消息后给原消息添加「处理中」表情，回复送达后移除 */
+  workingIndicator: z.boolean().optional().default(true),
+
+  /** 「处理中」表情类型，见飞书表情文案说明 emoji_type */
+  workingReaction: z.string().optional().default("Typing"),
+
+  /** 入站媒体文件大小限制 (MB) */
+  maxFileSizeMB: z.number().positive().optional().default(100),
+
+  /** 入站媒体下载超时 (毫秒) */
+  mediaTimeoutMs: z.number().int().positive().optional().default(30000),
+
+  /** 入站媒体归档策略 */
+  inboundMedia: z
+    .object({
+      dir: z.string().optional(),
+      keepDays: z.number().optional(),
+    })
+    .optional(),
+
+  /** 语音识别配置 */
+  asr: z
+    .object({
+      enabled: z.boolean().optional().default(false),
+      appId: z.string().optional(),
+      secretId: z.string().optional(),
+      secretKey: z.string().optional(),
+    })
+    .optional(),
+});
+
+/** 单个账户配置 Schema（所有字段可选，缺省继承顶层配置） */
+export const FeishuAccountConfigSchema = FeishuAccountSchema.partial();
+
+export const FeishuConfigSchema = FeishuAccountSchema.extend({
+  /** 默认账户 ID */
+  defaultAccount: z.string().optional(),
+
+  /** 多账户配置 */
+  accounts: z.record(FeishuAccountConfigSchema).optional(),
 });
 
 export type FeishuConfig = z.infer<typeof FeishuConfigSchema>;
+export type FeishuAccountConfig = z.infer<typeof FeishuAccountConfigSchema>;
+
+/**
+ * 插件配置（仅包含飞书渠道部分）
+ */
+export interface PluginConfig {
+  channels?: {
+    "feishu-china"?: FeishuConfig;
+  };
+}
 
 /**
  * 检查飞书配置是否已配置凭证
@@ -86,3 +190,118 @@ export function resolveFeishuCredentials(
     appSecret: config.appSecret,
   };
 }
+
+/**
+ * 解析语音识别凭证
+ * @param config 飞书配置对象
+ * @returns 凭证对象；未启用或凭证不完整时返回 undefined
+ */
+export function resolveFeishuASRCredentials(
+  config: FeishuConfig | undefined
+): { appId: string; secretId: string; secretKey: string } | undefined {
+  const asr = config?.asr;
+  if (!asr?.enabled) return undefined;
+  if (!asr.appId || !asr.secretId || !asr.secretKey) return undefined;
+  return {
+    appId: asr.appId,
+    secretId: asr.secretId,
+    secretKey: asr.secretKey,
+  };
+}
+
+const DEFAULT_INBOUND_MEDIA_DIR = join(homedir(), ".openclaw", "media", "feishu", "inbound");
+const DEFAULT_INBOUND_MEDIA_KEEP_DAYS = 7;
+const DEFAULT_INBOUND_MEDIA_TEMP_DIR = join(tmpdir(), "feishu-media");
+
+export function resolveInboundMediaDir(config: FeishuConfig | undefined): string {
+  return String(config?.inboundMedia?.dir ?? "").trim() || DEFAULT_INBOUND_MEDIA_DIR;
+}
+
+export function resolveInboundMediaKeepDays(config: FeishuConfig | undefined): number {
+  const value = config?.inboundMedia?.keepDays;
+  return typeof value === "number" && Number.isFinite(value) && value >= 0
+    ? value
+    : DEFAULT_INBOUND_MEDIA_KEEP_DAYS;
+}
+
+export function resolveInboundMediaTempDir(): string {
+  return DEFAULT_INBOUND_MEDIA_TEMP_DIR;
+}
+
+export function normalizeAccountId(raw?: string | null): string {
+  const trimmed = String(raw ?? "").trim();
+  return trimmed || DEFAULT_ACCOUNT_ID;
+}
+
+function listConfiguredAccountIds(cfg: PluginConfig): string[] {
+  const accounts = cfg.channels?.["feishu-china"]?.accounts;
+  if (!accounts || typeof accounts !== "object") return [];
+  return Object.keys(accounts).filter(Boolean);
+}
+
+/**
+ * 列出所有飞书账户 ID
+ * 未配置 accounts 时仅返回默认账户
+ */
+export function listFeishuAccountIds(cfg: PluginConfig): string[] {
+  const ids = listConfiguredAccountIds(cfg);
+  if (ids.length === 0) return [DEFAULT_ACCOUNT_ID];
+  return ids.sort((a, b) => a.localeCompare(b));
+}
+
+export function resolveDefaultFeishuAccountId(cfg: PluginConfig): string {
+  const feishuCfg = cfg.channels?.["feishu-china"];
+  if (feishuCfg?.defaultAccount?.trim()) return feishuCfg.defaultAccount.trim();
+  const ids = listFeishuAccountIds(cfg);
+  if (ids.includes(DEFAULT_ACCOUNT_ID)) return DEFAULT_ACCOUNT_ID;
+  return ids[0] ?? DEFAULT_ACCOUNT_ID;
+}
+
+/**
+ * 合并顶层配置与账户配置，并补齐默认值
+ *
+ * @returns 合并后的账户配置；配置不合法时返回 undefined
+ */
+export function mergeFeishuAccountConfig(
+  cfg: PluginConfig,
+  accountId: string
+): FeishuConfig | undefined {
+  const base = cfg.channels?.["feishu-china"];
+  if (!base) return undefined;
+  const { accounts, defaultAccount: _ignored, ...baseConfig } = base;
+  const account = accounts?.[accountId] ?? {};
+  const parsed = FeishuConfigSchema.safeParse({ ...baseConfig, ...account });
+  return parsed.success ? parsed.data : undefined;
+}
+
+/**
+ * 解析飞书账户
+ *
+ * @param params.cfg 插件配置
+ * @param params.accountId 账户 ID（缺省为默认账户）
+ * @returns 解析后的账户信息
+ */
+export function resolveFeishuAccount(params: {
+  cfg: PluginConfig;
+  accountId?: string | null;
+}): ResolvedFeishuAccount {
+  const accountId = normalizeAccountId(params.accountId);
+  const baseEnabled = params.cfg.channels?.["feishu-china"]?.enabled !== false;
+  const config = mergeFeishuAccountConfig(params.cfg, accountId);
+  const credentials = resolveFeishuCredentials(config);
+
+  return {
+    accountId,
+    name: config?.name?.trim() || undefined,
+    enabled: baseEnabled && config?.enabled !== false,
+    configured: Boolean(credentials),
+    appId: credentials?.appId,
+    config,
+  };
+}
+
+export function listEnabledFeishuAccounts(cfg: PluginConfig): ResolvedFeishuAccount[] {
+  return listFeishuAccountIds(cfg)
+    .map((accountId) => resolveFeishuAccount({ cfg, accountId }))
+    .filter((account) => account.enabled);
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  computeFeishuSignature,
+  decryptFeishuEncrypted,
+  encryptFeishuPlaintext,
+  verifyFeishuSignature,
+} from "./crypto.js";
+
+const encryptKey = "test key";
+
+describe("feishu crypto", () => {
+  it("roundtrips encrypt/decrypt", () => {
+    const payload = JSON.stringify({ type: "url_verification", challenge: "abc" });
+    const encrypt = encryptFeishuPlaintext({ encryptKey, plaintext: payload });
+    expect(decryptFeishuEncrypted({ encryptKey, encrypt })).toBe(payload);
+  });
+
+  it("decrypts the official sample payload", () => {
+    // 开放平台文档示例: encryptKey = "test key"
+    const encrypt = "P37w+VZImNgPEO1RBhJ6RtKl7n6zymIbEG1pReEzghk=";
+    expect(decryptFeishuEncrypted({ encryptKey, encrypt })).toBe("hello world");
+  });
+
+  it("fails to decrypt with a wrong key", () => {
+    const encrypt = encryptFeishuPlaintext({ encryptKey, plaintext: "hello" });
+    expect(() => decryptFeishuEncrypted({ encryptKey: "other key", encrypt })).toThrow();
+  });
+
+  it("verifies signature", () => {
+    const params = { timestamp: "1700000000", nonce: "nonce", encryptKey, body: '{"encrypt":"x"}' };
+    const signature = computeFeishuSignature(params);
+    expect(verifyFeishuSignature({ ...params, signature })).toBe(true);
+    expect(verifyFeishuSignature({ ...params, signature: signature.toUpperCase() })).toBe(true);
+    expect(verifyFeishuSignature({ ...params, body: "{}", signature })).toBe(false);
+  });
+});
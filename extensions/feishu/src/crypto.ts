@@ -0,0 +1,66 @@
+/**
+ * 飞书事件订阅加解密
+ *
+ * 参考: https://open.feishu.cn/document/server-docs/event-subscription-guide/event-subscription-configure-/encrypt-key-encryption-configuration-case
+ */
+
+import crypto from "node:crypto";
+
+function deriveKey(encryptKey: string): Buffer {
+  const trimmed = encryptKey.trim();
+  if (!trimmed) throw new Error("encryptKey missing");
+  return crypto.createHash("sha256").update(trimmed).digest();
+}
+
+/**
+ * 解密事件体中的 encrypt 字段
+ *
+ * 算法: AES-256-CBC，key = sha256(encryptKey)，密文 base64 解码后前 16 字节为 IV
+ */
+export function decryptFeishuEncrypted(params: { encryptKey: string; encrypt: string }): string {
+  const raw = Buffer.from(params.encrypt, "base64");
+  if (raw.length <= 16) throw new Error("invalid encrypt payload");
+  const iv = raw.subarray(0, 16);
+  const decipher = crypto.createDecipheriv("aes-256-cbc", deriveKey(params.encryptKey), iv);
+  return Buffer.concat([decipher.update(raw.subarray(16)), decipher.final()]).toString("utf8");
+}
+
+/**
+ * 加密明文（与 decryptFeishuEncrypted 对应，主要用于测试与本地调试）
+ */
+export function encryptFeishuPlaintext(params: { encryptKey: string; plaintext: string }): string {
+  const iv = crypto.randomBytes(16);
+  const cipher = crypto.createCipheriv("aes-256-cbc", deriveKey(params.encryptKey), iv);
+  const encrypted = Buffer.concat([cipher.update(params.plaintext, "utf8"), cipher.final()]);
+  return Buffer.concat([iv, encrypted]).toString("base64");
+}
+
+/**
+ * 计算请求签名
+ *
+ * signature = sha256(timestamp + nonce + encryptKey + body)
+ */
+export function computeFeishuSignature(params: {
+  timestamp: string;
+  nonce: string;
+  encryptKey: string;
+  body: string;
+}): string {
+  return crypto
+    .createHash("sha256")
+    .update(`${params.timestamp}${params.nonce}${params.encryptKey}${params.body}`)
+    .digest("hex");
+}
+
+export function verifyFeishuSignature(params: {
+  timestamp: string;
+  nonce: string;
+  encryptKey: string;
+  body: string;
+  signature: string;
+}): boolean {
+  const expected = computeFeishuSignature(params);
+  const actual = params.signature.trim().toLowerCase();
+  if (expected.length !== actual.length) return false;
+  return crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(actual));
+}
@@ -3,10 +3,11 @@
  */
 
 import * as lark from "@larksuiteoapi/node-sdk";
-import type { FeishuConfig } from "./config.js";
+import { DEFAULT_ACCOUNT_ID, resolveFeishuAccount, type FeishuConfig } from "./config.js";
 import type { FeishuMessageEvent } from "./types.js";
 import { createLogger, type Logger } from "./logger.js";
 import { handleFeishuMessage } from "./bot.js";
+import { fetchFeishuBotOpenId } from "./client.js";
 
 /**
  * Gateway 配置选项
@@ -25,14 +26,17 @@ export interface FeishuGatewayOptions {
   accountId?: string;
 }
 
-// WebSocket 客户端缓存
-let currentClient: lark.WSClient | null = null;
-let currentAccountId: string | null = null;
-let currentPromise: Promise<void> | null = null;
-let currentStop: (() => void) | null = null;
+type FeishuGatewayInstance = {
+  client: lark.WSClient;
+  promise: Promise<void> | null;
+  stop: (() => void) | null;
+};
+
+// WebSocket 客户端缓存 (accountId -> instance)
+const gateways = new Map<string, FeishuGatewayInstance>();
 
-// 消息去重缓存 (messageId -> timestamp)
-const processedMessages = new Map<string, number>();
+// 消息去重缓存 (accountId -> messageId -> timestamp)
+const processedMessagesByAccount = new Map<string, Map<string, number>>();
 const MESSAGE_DEDUPE_TTL_MS = 60 * 1000; // 60秒过期
 
 // 消息过期时间（30分钟）
@@ -53,7 +57,16 @@ type FeishuWsClientInternal = {
   reConnect?: (isStart?: boolean) => void;
 };
 
-function cleanupDedupeCache(): void {
+function getDedupeCache(accountId: string): Map<string, number> {
+  let cache = processedMessagesByAccount.get(accountId);
+  if (!cache) {
+    cache = new Map<string, number>();
+    processedMessagesByAccount.set(accountId, cache);
+  }
+  return cache;
+}
+
+function cleanupDedupeCache(processedMessages: Map<string, number>): void {
   const now = Date.now();
   for (const [messageId, timestamp] of processedMessages) {
     if (now - timestamp > MESSAGE_DEDUPE_TTL_MS) {
@@ -62,19 +75,26 @@ function cleanupDedupeCache(): void {
   }
 }
 
-function isDuplicateMessage(messageId: string): boolean {
+/**
+ * 检查消息是否重复（websocket / webhook 共用去重缓存）
+ */
+export function isDuplicateMessage(accountId: string, messageId: string): boolean {
   if (!messageId) return false;
+  const processedMessages = getDedupeCache(accountId);
   if (processedMessages.has(messageId)) {
     return true;
   }
   processedMessages.set(messageId, Date.now());
   if (processedMessages.size > 100) {
-    cleanupDedupeCache();
+    cleanupDedupeCache(processedMessages);
   }
   return false;
 }
 
-function isMessageExpired(createTimeMs: string | undefined): boolean {
+/**
+ * 检查消息是否已过期
+ */
+export function isMessageExpired(createTimeMs: string | undefined): boolean {
   if (!createTimeMs) return false;
   const createTime = Number.parseInt(createTimeMs, 10);
   if (Number.isNaN(createTime)) return false;
@@ -86,27 +106,30 @@ function isMessageExpired(createTimeMs: string | undefined): boolean {
  * 启动飞书 WebSocket 连接
  */
 export async function startFeishuGateway(opts: FeishuGatewayOptions = {}): Promise<void> {
-  const { config, runtime, abortSignal, accountId = "default" } = opts;
-
-  const logger: Logger = createLogger("feishu", {
-    log: runtime?.log,
-    error: runtime?.error,
-  });
-
-  if (currentClient) {
-    if (currentAccountId && currentAccountId !== accountId) {
-      throw new Error(`Feishu already running for account ${currentAccountId}`);
-    }
+  const { config, runtime, abortSignal } = opts;
+  const account = resolveFeishuAccount({ cfg: config ?? {}, accountId: opts.accountId });
+  const accountId = account.accountId;
+
+  const logger: Logger = createLogger(
+    accountId === DEFAULT_ACCOUNT_ID ? "feishu" : `feishu:${accountId}`,
+    {
+      log: runtime?.log,
+      error: runtime?.error,
+    },
+  );
+
+  const existing = gateways.get(accountId);
+  if (existing) {
     logger.debug(`existing connection for account ${accountId} is active, reusing gateway`);
-    if (currentPromise) {
-      return currentPromise;
+    if (existing.promise) {
+      return existing.promise;
     }
     throw new Error("Feishu gateway state invalid: active client without promise");
   }
 
-  const feishuCfg = config?.channels?.["feishu-china"];
+  const feishuCfg = account.config;
   if (!feishuCfg) {
-    throw new Error("Feishu configuration not found");
+    throw new Error(`Feishu configuration not found for account ${accountId}`);
   }
 
   if (!feishuCfg.appId || !feishuCfg.appSecret) {
@@ -119,12 +142,24 @@ export async function startFeishuGateway(opts: FeishuGatewayOptions = {}): Promi
     loggerLevel: lark.LoggerLevel.error,
   });
 
-  currentClient = wsClient;
-  currentAccountId = accountId;
+  const instance: FeishuGatewayInstance = { client: wsClient, promise: null, stop: null };
+  gateways.set(accountId, instance);
+
+  // 获取机器人 open_id，用于群聊 @ 判断；失败时退化为「存在任意 @」
+  const botOpenIdPromise: Promise<string | undefined> = fetchFeishuBotOpenId(feishuCfg).then(
+    (openId) => {
+      logger.info(`bot open_id resolved: ${openId}`);
+      return openId;
+    },
+    (err) => {
+      logger.warn(`failed to resolve bot open_id, mention detection degraded: ${String(err)}`);
+      return undefined;
+    },
+  );
 
   logger.info(`starting WebSocket connection for account ${accountId}...`);
 
-  currentPromise = new Promise<void>((resolve, reject) => {
+  instance.promise = new Promise<void>((resolve, reject) => {
     let stopped = false;
     let watchdogId: ReturnType<typeof setInterval> | null = null;
     let connectStartedAt = Date.now();
@@ -160,11 +195,8 @@ export async function startFeishuGateway(opts: FeishuGatewayOptions = {}): Promi
         clearInterval(watchdogId);
         watchdogId = null;
       }
-      if (currentClient === wsClient) {
-        currentClient = null;
-        currentAccountId = null;
-        currentStop = null;
-        currentPromise = null;
+      if (gateways.get(accountId) === instance) {
+        gateways.delete(accountId);
       }
       try {
         const clientAny = wsClient as unknown as Record<string, unknown>;
@@ -199,7 +231,7 @@ export async function startFeishuGateway(opts: FeishuGatewayOptions = {}): Promi
       finalizeResolve();
     };
 
-    currentStop = () => {
+    instance.stop = () => {
       logger.info("stop requested, stopping gateway");
       finalizeResolve();
     };
@@ -220,7 +252,7 @@ export async function startFeishuGateway(opts: FeishuGatewayOptions = {}): Promi
 
           const messageId = message.message_id ?? "";
 
-          if (isDuplicateMessage(messageId)) {
+          if (isDuplicateMessage(accountId, messageId)) {
             return {};
           }
 
@@ -234,11 +266,14 @@ export async function startFeishuGateway(opts: FeishuGatewayOptions = {}): Promi
             `Inbound: chat=${message.chat_id ?? ""} type=${message.message_type ?? ""} text="${contentPreview}"`,
           );
 
+          const botOpenId = await botOpenIdPromise;
+
           setImmediate(() => {
             void handleFeishuMessage({
               cfg: config,
               event,
               accountId,
+              botOpenId,
               log: (msg: string) => logger.info(msg.replace(/^\[feishu\]\s*/, "")),
               error: (msg: string) => logger.error(msg.replace(/^\[feishu\]\s*/, "")),
             }).catch((err) => {
@@ -281,23 +316,27 @@ export async function startFeishuGateway(opts: FeishuGatewayOptions = {}): Promi
     }
   });
 
-  return currentPromise;
+  return instance.promise;
 }
 
 /**
  * 停止飞书 Gateway
+ *
+ * @param accountId 账户 ID；不传时停止所有账户
  */
-export function stopFeishuGateway(accountId = "default"): void {
-  if (currentStop) {
-    if (!currentAccountId || currentAccountId === accountId) {
-      currentStop();
+export function stopFeishuGateway(accountId?: string): void {
+  const targets = accountId ? [accountId] : Array.from(gateways.keys());
+  for (const id of targets) {
+    const instance = gateways.get(id);
+    if (!instance) continue;
+
+    if (instance.stop) {
+      instance.stop();
+      continue;
     }
-    return;
-  }
 
-  if (currentClient) {
     try {
-      const clientAny = currentClient as unknown as Record<string, unknown>;
+      const clientAny = instance.client as unknown as Record<string, unknown>;
       if (typeof clientAny.close === "function") {
         (clientAny.close as () => void)();
       } else if (typeof clientAny.stop === "function") {
@@ -306,17 +345,23 @@ export function stopFeishuGateway(accountId = "default"): void {
     } catch (err) {
       console.error(`[feishu] failed to stop client: ${String(err)}`);
     } finally {
-      currentClient = null;
-      currentAccountId = null;
-      currentPromise = null;
-      currentStop = null;
+      gateways.delete(id);
     }
   }
 }
 
 /**
  * 获取当前连接状态
+ *
+ * @param accountId 账户 ID；不传时检查是否有任一账户在线
+ */
+export function isGatewayActive(accountId?: string): boolean {
+  return accountId ? gateways.has(accountId) : gateways.size > 0;
+}
+
+/**
+ * 获取所有活跃连接的账户 ID
  */
-export function isGatewayActive(): boolean {
-  return currentClient !== null;
+export function getActiveFeishuAccountIds(): string[] {
+  return Array.from(gateways.keys());
 }
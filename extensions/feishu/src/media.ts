@@ -0,0 +1,168 @@
+/**
+ * 飞书入站媒体
+ *
+ * 通过消息资源接口下载消息中的图片 / 文件 / 音视频，写入临时目录
+ */
+
+import * as fsPromises from "node:fs/promises";
+import * as path from "node:path";
+import type { Readable } from "node:stream";
+import { FileSizeLimitError, MediaTimeoutError, getMimeType } from "@openclaw-china/shared";
+import type { FeishuConfig } from "./config.js";
+import { resolveInboundMediaTempDir } from "./config.js";
+import { createFeishuClientFromConfig } from "./client.js";
+import type { Logger } from "./logger.js";
+import type { FeishuMessageResource, FeishuResourceKind } from "./types.js";
+
+/** 默认下载超时（毫秒） */
+const DEFAULT_DOWNLOAD_TIMEOUT = 30_000;
+
+/** 默认文件大小限制（飞书接口上限 100MB） */
+const DEFAULT_MAX_FILE_SIZE_MB = 100;
+
+/** Content-Type → 扩展名（无源文件名时使用） */
+const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+  "image/bmp": ".bmp",
+  "audio/ogg": ".ogg",
+  "audio/opus": ".opus",
+  "audio/mpeg": ".mp3",
+  "video/mp4": ".mp4",
+  "application/pdf": ".pdf",
+};
+
+/** 资源类型对应的兜底扩展名 */
+const FALLBACK_EXTENSIONS: Record<FeishuResourceKind, string> = {
+  image: ".jpg",
+  file: "",
+  audio: ".ogg",
+  media: ".mp4",
+};
+
+/**
+ * 下载后的资源文件
+ */
+export interface DownloadedFeishuResource {
+  /** 本地路径 */
+  path: string;
+  /** MIME 类型 */
+  contentType: string;
+  /** 文件大小（字节） */
+  size: number;
+  /** 原始文件名 */
+  fileName?: string;
+}
+
+export interface DownloadFeishuResourceParams {
+  cfg: FeishuConfig;
+  messageId: string;
+  resource: FeishuMessageResource;
+  /** 文件大小限制（MB） */
+  maxFileSizeMB?: number;
+  /** 下载超时（毫秒） */
+  timeoutMs?: number;
+  /** 临时目录，默认 resolveInboundMediaTempDir() */
+  tempDir?: string;
+  log?: Logger;
+}
+
+function sanitizeFileName(name: string): string {
+  return name.replace(/[\\/:*?"<>|\s]+/g, "_").slice(0, 80);
+}
+
+function resolveExtension(
+  kind: FeishuResourceKind,
+  contentType: string,
+  fileName?: string
+): string {
+  const fromName = fileName ? path.extname(fileName) : "";
+  if (fromName) return fromName.toLowerCase();
+  return CONTENT_TYPE_EXTENSIONS[contentType] ?? FALLBACK_EXTENSIONS[kind];
+}
+
+async function readStreamWithLimit(stream: Readable, maxSize: number): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let total = 0;
+  for await (const chunk of stream) {
+    const buf = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk as Uint8Array);
+    total += buf.length;
+    if (total > maxSize) {
+      stream.destroy();
+      throw new FileSizeLimitError(total, maxSize);
+    }
+    chunks.push(buf);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * 下载飞书消息中的资源文件
+ *
+ * 接口文档: im/v1/messages/:message_id/resources/:file_key
+ * 图片使用 type=image，文件 / 语音 / 视频使用 type=file；表情包不支持下载
+ */
+export async function downloadFeishuMessageResource(
+  params: DownloadFeishuResourceParams
+): Promise<DownloadedFeishuResource> {
+  const { cfg, messageId, resource, log } = params;
+  const maxSize = (params.maxFileSizeMB ?? DEFAULT_MAX_FILE_SIZE_MB) * 1024 * 1024;
+  const timeoutMs = params.timeoutMs ?? DEFAULT_DOWNLOAD_TIMEOUT;
+  const tempDir = params.tempDir ?? resolveInboundMediaTempDir();
+
+  const client = createFeishuClientFromConfig(cfg);
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  let stream: Readable | undefined;
+
+  const download = async (): Promise<{ buffer: Buffer; contentType: string }> => {
+    const response = await client.im.v1.messageResource.get({
+      path: { message_id: messageId, file_key: resource.key },
+      params: { type: resource.kind === "image" ? "image" : "file" },
+    });
+    const headers = (response.headers ?? {}) as Record<string, unknown>;
+    const rawType = String(headers["content-type"] ?? "").split(";")[0]?.trim();
+    const contentLength = Number(headers["content-length"]);
+    if (Number.isFinite(contentLength) && contentLength > maxSize) {
+      throw new FileSizeLimitError(contentLength, maxSize);
+    }
+    stream = response.getReadableStream();
+    const buffer = await readStreamWithLimit(stream, maxSize);
+    const contentType =
+      rawType ||
+      (resource.fileName ? getMimeType(resource.fileName) : undefined) ||
+      "application/octet-stream";
+    return { buffer, contentType };
+  };
+
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => {
+      stream?.destroy();
+      reject(new MediaTimeoutError(timeoutMs));
+    }, timeoutMs);
+  });
+
+  try {
+    log?.debug?.(`downloading ${resource.kind} resource ${resource.key} (message=${messageId})`);
+    const { buffer, contentType } = await Promise.race([download(), timeout]);
+
+    const ext = resolveExtension(resource.kind, contentType, resource.fileName);
+    const random = Math.random().toString(36).slice(2, 8);
+    const fileName = `feishu-${resource.kind}-${Date.now()}-${random}${ext}`;
+    const fullPath = path.join(tempDir, sanitizeFileName(fileName));
+
+    await fsPromises.mkdir(tempDir, { recursive: true });
+    await fsPromises.writeFile(fullPath, buffer);
+    log?.debug?.(`resource saved to: ${fullPath} (${buffer.length} bytes)`);
+
+    return {
+      path: fullPath,
+      contentType,
+      size: buffer.length,
+      fileName: resource.fileName,
+    };
+  } finally {
+    if (timeoutId) clearTimeout(timeoutId);
+  }
+}
@@ -2,11 +2,29 @@
  * 飞书出站适配器
  */
 
-import { sendFileFeishu, sendImageFeishu, sendMarkdownCardFeishu, sendMessageFeishu } from "./send.js";
+import {
+  deleteMessageFeishu,
+  formatFeishuTarget,
+  patchMarkdownCardFeishu,
+  sendFileFeishu,
+  sendImageFeishu,
+  sendMarkdownCardFeishu,
+  sendMessageFeishu,
+  updateMessageFeishu,
+} from "./send.js";
 import { getFeishuRuntime } from "./runtime.js";
 import type { FeishuConfig } from "./types.js";
-import { FeishuConfigSchema } from "./config.js";
-import { extractFilesFromText, extractImagesFromText, isHttpUrl, isImagePath, normalizeLocalPath } from "@openclaw-china/shared";
+import { resolveFeishuAccount } from "./config.js";
+import {
+  extractFilesFromText,
+  extractImagesFromText,
+  forgetSentMessage,
+  isHttpUrl,
+  isImagePath,
+  normalizeLocalPath,
+  resolveSentMessage,
+  type MessageActionResult,
+} from "@openclaw-china/shared";
 import * as fs from "node:fs";
 
 export interface OutboundConfig {
@@ -22,6 +40,42 @@ export interface SendResult {
   conversationId?: string;
 }
 
+export interface MessageActionParams {
+  cfg: OutboundConfig;
+  accountId?: string;
+  /** 要操作的消息 ID；省略时取发给 to 的最近一条消息 */
+  messageId?: string;
+  to?: string;
+}
+
+const CHANNEL_ID = "feishu-china";
+
+/**
+ * 解析指定账户的飞书配置
+ */
+function resolveOutboundConfig(cfg: OutboundConfig, accountId?: string): FeishuConfig {
+  const account = resolveFeishuAccount({ cfg, accountId });
+  if (!account.config) {
+    throw new Error(`Feishu channel not configured for account ${account.accountId}`);
+  }
+  return account.config;
+}
+
+/**
+ * 查找已发送消息（发送时在 send.ts 登记，目标为 chat:<chat_id> / user:<open_id>）
+ */
+function findSent(params: MessageActionParams) {
+  const accountId = resolveFeishuAccount({ cfg: params.cfg, accountId: params.accountId }).accountId;
+  const target = params.to ? parseTarget(params.to) : undefined;
+  const record = resolveSentMessage({
+    channel: CHANNEL_ID,
+    accountId,
+    messageId: params.messageId,
+    to: target ? formatFeishuTarget(target.targetId, target.receiveIdType) : undefined,
+  });
+  return { accountId, record };
+}
+
 function isFeishuImageKey(value: string): boolean {
   return /^img_v\d+_/i.test(value.trim());
 }
@@ -53,15 +107,16 @@ export const feishuOutbound = {
     return [text];
   },
 
-  sendText: async (params: { cfg: OutboundConfig; to: string; text: string }): Promise<SendResult> => {
+  sendText: async (params: {
+    cfg: OutboundConfig;
+    to: string;
+    text: string;
+    accountId?: string;
+  }): Promise<SendResult> => {
     const { cfg, to, text } = params;
 
-    const rawFeishuCfg = cfg.channels?.["feishu-china"];
-    const parsedCfg = rawFeishuCfg ? FeishuConfigSchema.safeParse(rawFeishuCfg) : null;
-    const feishuCfg = parsedCfg?.success ? parsedCfg.data : rawFeishuCfg;
-    if (!feishuCfg) {
-      throw new Error("Feishu channel not configured");
-    }
+    const feishuCfg = resolveOutboundConfig(cfg, params.accountId);
+    const accountId = resolveFeishuAccount({ cfg, accountId: params.accountId }).accountId;
 
     const { targetId, receiveIdType } = parseTarget(to);
 
@@ -113,12 +168,14 @@ export const feishuOutbound = {
           to: targetId,
           text: cleanedText,
           receiveIdType,
+          accountId,
         })
       : await sendMessageFeishu({
           cfg: feishuCfg,
           to: targetId,
           text: cleanedText,
           receiveIdType,
+          accountId,
         });
 
     // 兜底补发逻辑：
@@ -136,6 +193,7 @@ export const feishuOutbound = {
             to: targetId,
             mediaUrl: img.localPath,
             receiveIdType,
+            accountId,
           });
         } catch (err) {
           console.error(`[feishu] failed to send fallback image ${img.localPath}:`, err);
@@ -153,6 +211,7 @@ export const feishuOutbound = {
             to: targetId,
             mediaUrl: filePath,
             receiveIdType,
+            accountId,
           });
         } catch (err) {
           console.error(`[feishu] failed to send fallback file ${filePath}:`, err);
@@ -173,13 +232,12 @@ export const feishuOutbound = {
     to: string;
     text?: string;
     mediaUrl?: string;
+    accountId?: string;
   }): Promise<SendResult> => {
     const { cfg, to, text, mediaUrl } = params;
 
-    const feishuCfg = cfg.channels?.["feishu-china"];
-    if (!feishuCfg) {
-      throw new Error("Feishu channel not configured");
-    }
+    const feishuCfg = resolveOutboundConfig(cfg, params.accountId);
+    const accountId = resolveFeishuAccount({ cfg, accountId: params.accountId }).accountId;
 
     const { targetId, receiveIdType } = parseTarget(to);
 
@@ -189,6 +247,7 @@ export const feishuOutbound = {
         to: targetId,
         text,
         receiveIdType,
+        accountId,
       });
     }
 
@@ -205,12 +264,14 @@ export const feishuOutbound = {
               to: targetId,
               mediaUrl,
               receiveIdType,
+              accountId,
             })
           : await sendFileFeishu({
               cfg: feishuCfg,
               to: targetId,
               mediaUrl,
               receiveIdType,
+              accountId,
             });
         return {
           channel: "feishu-china",
@@ -226,6 +287,7 @@ export const feishuOutbound = {
           to: targetId,
           text: fallbackText,
           receiveIdType,
+          accountId,
         });
         return {
           channel: "feishu-china",
@@ -243,4 +305,52 @@ export const feishuOutbound = {
       conversationId: targetId,
     };
   },
+
+  /**
+   * 撤回机器人发送的消息（24 小时内）
+   */
+  recall: async (params: MessageActionParams): Promise<MessageActionResult> => {
+    const feishuCfg = resolveOutboundConfig(params.cfg, params.accountId);
+    const { accountId, record } = findSent(params);
+    const messageId = record?.messageId ?? params.messageId?.trim();
+    if (!messageId) {
+      return { ok: false, error: "no sent message to recall" };
+    }
+
+    try {
+      await deleteMessageFeishu({ cfg: feishuCfg, messageId });
+    } catch (err) {
+      return { ok: false, error: err instanceof Error ? err.message : String(err) };
+    }
+    forgetSentMessage({ channel: CHANNEL_ID, accountId, messageId });
+    return { ok: true };
+  },
+
+  /**
+   * 编辑已发送的消息：文本消息走 message.update，Markdown 卡片走 message.patch
+   */
+  edit: async (params: MessageActionParams & { text: string }): Promise<MessageActionResult> => {
+    const feishuCfg = resolveOutboundConfig(params.cfg, params.accountId);
+    const { record } = findSent(params);
+    const messageId = record?.messageId ?? params.messageId?.trim();
+    if (!messageId) {
+      return { ok: false, error: "no sent message to edit" };
+    }
+    // 未登记的消息按当前配置推断类型
+    const kind = record?.kind ?? (feishuCfg.sendMarkdownAsCard ? "card" : "text");
+    if (kind !== "text" && kind !== "card") {
+      return { ok: false, error: `cannot edit ${kind} message` };
+    }
+
+    try {
+      if (kind === "card") {
+        await patchMarkdownCardFeishu({ cfg: feishuCfg, messageId, text: params.text });
+      } else {
+        await updateMessageFeishu({ cfg: feishuCfg, messageId, text: params.text });
+      }
+    } catch (err) {
+      return { ok: false, error: err instanceof Error ? err.message : String(err) };
+    }
+    return { ok: true };
+  },
 };
@@ -2,7 +2,7 @@
  * 飞书发送消息
  */
 
-import type { FeishuConfig } from "./config.js";
+import { DEFAULT_ACCOUNT_ID, type FeishuConfig } from "./config.js";
 import type { FeishuSendResult } from "./types.js";
 import { createFeishuClientFromConfig } from "./client.js";
 import * as fsPromises from "fs/promises";
@@ -16,6 +16,8 @@ import {
   getExtension,
   IMAGE_EXTENSIONS,
   extractImagesFromText,
+  enqueueSend,
+  recordSentMessage,
 } from "@openclaw-china/shared";
 
 export interface SendMessageParams {
@@ -23,6 +25,12 @@ export interface SendMessageParams {
   to: string;
   text: string;
   receiveIdType?: "chat_id" | "open_id";
+  /** 回复的消息 ID（提供时通过回复接口发送，消息挂在该条消息下） */
+  replyToMessageId?: string;
+  /** 是否以话题形式回复 */
+  replyInThread?: boolean;
+  /** 账户 ID（登记已发送消息用，默认 default） */
+  accountId?: string;
 }
 
 export interface SendMediaParams {
@@ -30,6 +38,12 @@ export interface SendMediaParams {
   to: string;
   mediaUrl: string;
   receiveIdType?: "chat_id" | "open_id";
+  /** 回复的消息 ID（提供时通过回复接口发送，消息挂在该条消息下） */
+  replyToMessageId?: string;
+  /** 是否以话题形式回复 */
+  replyInThread?: boolean;
+  /** 账户 ID（登记已发送消息用，默认 default） */
+  accountId?: string;
 }
 
 export interface SendFileParams {
@@ -37,26 +51,101 @@ export interface SendFileParams {
   to: string;
   mediaUrl: string;
   receiveIdType?: "chat_id" | "open_id";
+  /** 回复的消息 ID（提供时通过回复接口发送，消息挂在该条消息下） */
+  replyToMessageId?: string;
+  /** 是否以话题形式回复 */
+  replyInThread?: boolean;
+  /** 账户 ID（登记已发送消息用，默认 default） */
+  accountId?: string;
 }
 
-export async function sendMessageFeishu(params: SendMessageParams): Promise<FeishuSendResult> {
-  const { cfg, to, text, receiveIdType = "chat_id" } = params;
+/** 已发送消息类型（edit 据此选择 message.update 或卡片 patch） */
+const SENT_KIND_BY_MSG_TYPE: Record<string, string> = {
+  text: "text",
+  interactive: "card",
+  image: "image",
+  file: "file",
+};
 
+/**
+ * 飞书会话目标（chat:<chat_id> / user:<open_id>），与入站消息上下文的 To 一致
+ */
+export function formatFeishuTarget(to: string, receiveIdType: "chat_id" | "open_id"): string {
+  return `${receiveIdType === "open_id" ? "user" : "chat"}:${to}`;
+}
+
+/**
+ * 发送消息；提供 replyToMessageId 时改用回复接口
+ *
+ * 经共享发送队列按应用 + 会话限流，触发频控时退避重试；
+ * 发送成功后登记到已发送消息表，回复与主动发送均可 recall / edit
+ *
+ * @returns 新消息 ID
+ */
+async function createOrReplyMessage(
+  cfg: FeishuConfig,
+  params: {
+    to: string;
+    receiveIdType: "chat_id" | "open_id";
+    msgType: string;
+    content: string;
+    replyToMessageId?: string;
+    replyInThread?: boolean;
+    accountId?: string;
+  }
+): Promise<string> {
+  const { to, receiveIdType, msgType, content, replyToMessageId, replyInThread, accountId } = params;
   const client = createFeishuClientFromConfig(cfg);
 
-  try {
-    const result = await client.im.v1.message.create({
-      params: {
-        receive_id_type: receiveIdType,
-      },
-      data: {
-        receive_id: to,
-        msg_type: "text",
-        content: JSON.stringify({ text }),
-      },
+  const result = await enqueueSend({ platform: "feishu", accountId: cfg.appId ?? "", target: to }, () =>
+    replyToMessageId
+      ? client.im.v1.message.reply({
+          path: { message_id: replyToMessageId },
+          data: {
+            msg_type: msgType,
+            content,
+            reply_in_thread: replyInThread ?? false,
+          },
+        })
+      : client.im.v1.message.create({
+          params: {
+            receive_id_type: receiveIdType,
+          },
+          data: {
+            receive_id: to,
+            msg_type: msgType,
+            content,
+          },
+        })
+  );
+
+  const messageId = (result as { data?: { message_id?: string } })?.data?.message_id ?? "";
+  if (messageId) {
+    recordSentMessage({
+      channel: "feishu-china",
+      accountId: accountId ?? DEFAULT_ACCOUNT_ID,
+      messageId,
+      to: formatFeishuTarget(to, receiveIdType),
+      kind: SENT_KIND_BY_MSG_TYPE[msgType],
     });
+  }
+  return messageId;
+}
+
+export async function sendMessageFeishu(params: SendMessageParams): Promise<FeishuSendResult> {
+  const { cfg, to, text, receiveIdType = "chat_id", replyToMessageId, replyInThread, accountId } = params;
 
-    const messageId = (result as { data?: { message_id?: string } })?.data?.message_id ?? "";
+
+  try {
+    const messageId = await createOrReplyMessage(cfg, {
+      to,
+      receiveIdType,
+      msgType: "text",
+      content: JSON.stringify({ text }),
+      replyToMessageId,
+      replyInThread,
+      accountId,
+    });
 
     return {
       messageId,
@@ -72,26 +161,28 @@ export interface SendCardParams {
   to: string;
   card: Record<string, unknown>;
   receiveIdType?: "chat_id" | "open_id";
+  /** 回复的消息 ID（提供时通过回复接口发送，消息挂在该条消息下） */
+  replyToMessageId?: string;
+  /** 是否以话题形式回复 */
+  replyInThread?: boolean;
+  /** 账户 ID（登记已发送消息用，默认 default） */
+  accountId?: string;
 }
 
 export async function sendCardFeishu(params: SendCardParams): Promise<FeishuSendResult> {
-  const { cfg, to, card, receiveIdType = "chat_id" } = params;
-  const client = createFeishuClientFromConfig(cfg);
+  const { cfg, to, card, receiveIdType = "chat_id", replyToMessageId, replyInThread, accountId } = params;
 
   try {
-    const result = await client.im.v1.message.create({
-      params: {
-        receive_id_type: receiveIdType,
-      },
-      data: {
-        receive_id: to,
-        msg_type: "interactive",
-        content: JSON.stringify(card),
-      },
+    const messageId = await createOrReplyMessage(cfg, {
+      to,
+      receiveIdType,
+      msgType: "interactive",
+      content: JSON.stringify(card),
+      replyToMessageId,
+      replyInThread,
+      accountId,
     });
 
-    const messageId = (result as { data?: { message_id?: string } })?.data?.message_id ?? "";
-
     return {
       messageId,
       chatId: to,
@@ -101,10 +192,124 @@ export async function sendCardFeishu(params: SendCardParams): Promise<FeishuSend
   }
 }
 
-export async function sendImageFeishu(params: SendMediaParams): Promise<FeishuSendResult> {
-  const { cfg, to, mediaUrl, receiveIdType = "chat_id" } = params;
+export interface PatchCardParams {
+  cfg: FeishuConfig;
+  messageId: string;
+  card: Record<string, unknown>;
+}
+
+/**
+ * 更新已发送的卡片消息
+ *
+ * 仅支持 config.update_multi 为 true 的共享卡片；单条消息更新频率上限 5 QPS
+ */
+export async function patchCardFeishu(params: PatchCardParams): Promise<void> {
+  const { cfg, messageId, card } = params;
+  const client = createFeishuClientFromConfig(cfg);
+
+  try {
+    const result = (await client.im.v1.message.patch({
+      path: { message_id: messageId },
+      data: { content: JSON.stringify(card) },
+    })) as { code?: number; msg?: string } | undefined;
+
+    if (result?.code !== undefined && result.code !== 0) {
+      throw new Error(`code=${result.code} msg=${result.msg ?? ""}`);
+    }
+  } catch (err) {
+    throw new Error(`Feishu patch card failed: ${String(err)}`);
+  }
+}
+
+export interface MessageRefParams {
+  cfg: FeishuConfig;
+  messageId: string;
+}
+
+function assertFeishuOk(result: unknown): void {
+  const { code, msg } = (result ?? {}) as { code?: number; msg?: string };
+  if (code !== undefined && code !== 0) {
+    throw new Error(`code=${code} msg=${msg ?? ""}`);
+  }
+}
+
+/**
+ * 撤回机器人发送的消息
+ *
+ * 仅能撤回 24 小时内发送的消息，且机器人仍需在会话内
+ */
+export async function deleteMessageFeishu(params: MessageRefParams): Promise<void> {
+  const { cfg, messageId } = params;
+  const client = createFeishuClientFromConfig(cfg);
+
+  try {
+    assertFeishuOk(await client.im.v1.message.delete({ path: { message_id: messageId } }));
+  } catch (err) {
+    throw new Error(`Feishu delete message failed: ${String(err)}`);
+  }
+}
+
+/**
+ * 编辑已发送的文本消息（im.v1.message.update 仅支持 text / post）
+ */
+export async function updateMessageFeishu(params: MessageRefParams & { text: string }): Promise<void> {
+  const { cfg, messageId, text } = params;
   const client = createFeishuClientFromConfig(cfg);
 
+  try {
+    assertFeishuOk(
+      await client.im.v1.message.update({
+        path: { message_id: messageId },
+        data: { msg_type: "text", content: JSON.stringify({ text }) },
+      })
+    );
+  } catch (err) {
+    throw new Error(`Feishu update message failed: ${String(err)}`);
+  }
+}
+
+/**
+ * 给消息添加表情回复
+ *
+ * @returns reaction ID（移除时使用）
+ */
+export async function addReactionFeishu(params: MessageRefParams & { emojiType: string }): Promise<string> {
+  const { cfg, messageId, emojiType } = params;
+  const client = createFeishuClientFromConfig(cfg);
+
+  try {
+    const result = await client.im.v1.messageReaction.create({
+      path: { message_id: messageId },
+      data: { reaction_type: { emoji_type: emojiType } },
+    });
+    assertFeishuOk(result);
+    return (result as { data?: { reaction_id?: string } })?.data?.reaction_id ?? "";
+  } catch (err) {
+    throw new Error(`Feishu add reaction failed: ${String(err)}`);
+  }
+}
+
+/**
+ * 移除消息上的表情回复
+ */
+export async function removeReactionFeishu(params: MessageRefParams & { reactionId: string }): Promise<void> {
+  const { cfg, messageId, reactionId } = params;
+  const client = createFeishuClientFromConfig(cfg);
+
+  try {
+    assertFeishuOk(
+      await client.im.v1.messageReaction.delete({
+        path: { message_id: messageId, reaction_id: reactionId },
+      })
+    );
+  } catch (err) {
+    throw new Error(`Feishu remove reaction failed: ${String(err)}`);
+  }
+}
+
+export async function sendImageFeishu(params: SendMediaParams): Promise<FeishuSendResult> {
+  const { cfg, to, mediaUrl, receiveIdType = "chat_id", replyToMessageId, replyInThread, accountId } = params;
+
   try {
     const src = stripTitleFromUrl(mediaUrl);
     const { buffer, fileName } = isHttpUrl(src)
@@ -112,19 +317,16 @@ export async function sendImageFeishu(params: SendMediaParams): Promise<FeishuSe
       : await readLocalImageBuffer(resolveLocalPath(src));
     const imageKey = await uploadFeishuImage({ cfg, buffer, fileName });
 
-    const result = await client.im.v1.message.create({
-      params: {
-        receive_id_type: receiveIdType,
-      },
-      data: {
-        receive_id: to,
-        msg_type: "image",
-        content: JSON.stringify({ image_key: imageKey }),
-      },
+    const messageId = await createOrReplyMessage(cfg, {
+      to,
+      receiveIdType,
+      msgType: "image",
+      content: JSON.stringify({ image_key: imageKey }),
+      replyToMessageId,
+      replyInThread,
+      accountId,
     });
 
-    const messageId = (result as { data?: { message_id?: string } })?.data?.message_id ?? "";
-
     return {
       messageId,
       chatId: to,
@@ -149,9 +351,18 @@ export function buildMarkdownCard(text: string): Record<string, unknown> {
 }
 
 export async function sendMarkdownCardFeishu(params: SendMessageParams): Promise<FeishuSendResult> {
-  const { cfg, to, text, receiveIdType = "chat_id" } = params;
+  const { cfg, to, text, receiveIdType = "chat_id", replyToMessageId, replyInThread, accountId } = params;
+  const card = await buildMarkdownCardWithImages({ cfg, text });
+  return sendCardFeishu({ cfg, to, card, receiveIdType, replyToMessageId, replyInThread, accountId });
+}
+
+/**
+ * 用新的 Markdown 内容替换已发送的 Markdown 卡片
+ */
+export async function patchMarkdownCardFeishu(params: MessageRefParams & { text: string }): Promise<void> {
+  const { cfg, messageId, text } = params;
   const card = await buildMarkdownCardWithImages({ cfg, text });
-  return sendCardFeishu({ cfg, to, card, receiveIdType });
+  await patchCardFeishu({ cfg, messageId, card });
 }
 
 // Standalone markdown image, and image wrapped in a link: [![alt](img)](link)
@@ -530,6 +741,8 @@ async function buildMarkdownCardWithImages(params: {
   return {
     config: {
       wide_screen_mode: true,
+      // 共享卡片，允许之后通过 patchCardFeishu 编辑
+      update_multi: true,
     },
     elements: processedElements,
   };
@@ -613,8 +826,7 @@ export async function processLocalImagesInMarkdown(
 }
 
 export async function sendFileFeishu(params: SendFileParams): Promise<FeishuSendResult> {
-  const { cfg, to, mediaUrl, receiveIdType = "chat_id" } = params;
-  const client = createFeishuClientFromConfig(cfg);
+  const { cfg, to, mediaUrl, receiveIdType = "chat_id", replyToMessageId, replyInThread, accountId } = params;
 
   try {
     const src = stripTitleFromUrl(mediaUrl);
@@ -630,19 +842,16 @@ export async function sendFileFeishu(params: SendFileParams): Promise<FeishuSend
           return uploadFeishuFile({ cfg, file: stream, fileName });
         })();
 
-    const result = await client.im.v1.message.create({
-      params: {
-        receive_id_type: receiveIdType,
-      },
-      data: {
-        receive_id: to,
-        msg_type: "file",
-        content: JSON.stringify({ file_key: fileKey }),
-      },
+    const messageId = await createOrReplyMessage(cfg, {
+      to,
+      receiveIdType,
+      msgType: "file",
+      content: JSON.stringify({ file_key: fileKey }),
+      replyToMessageId,
+      replyInThread,
+      accountId,
     });
 
-    const messageId = (result as { data?: { message_id?: string } })?.data?.message_id ?? "";
-
     return {
       messageId,
       chatId: to,
@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+  sendCardFeishu: vi.fn(),
+  patchCardFeishu: vi.fn(),
+}));
+
+vi.mock("./send.js", () => ({
+  sendCardFeishu: mocks.sendCardFeishu,
+  patchCardFeishu: mocks.patchCardFeishu,
+}));
+
+import { buildStreamingCard, createFeishuStreamingCard } from "./streaming-card.js";
+import { FeishuConfigSchema } from "./config.js";
+
+const cfg = FeishuConfigSchema.parse({ appId: "cli_test", appSecret: "secret" });
+
+function patchedContents(): string[] {
+  return mocks.patchCardFeishu.mock.calls.map((call) => {
+    const card = (call[0] as { card: { elements: Array<{ content?: string }> } }).card;
+    return card.elements[0]?.content ?? "";
+  });
+}
+
+describe("feishu streaming card", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mocks.sendCardFeishu.mockReset().mockResolvedValue({ messageId: "om_card", chatId: "oc_1" });
+    mocks.patchCardFeishu.mockReset().mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("builds updatable cards with a status note", () => {
+    const card = buildStreamingCard("hello", "failed", "timeout") as {
+      config: { update_multi: boolean };
+      elements: Array<{ tag: string; content?: string; elements?: Array<{ content: string }> }>;
+    };
+    expect(card.config.update_multi).toBe(true);
+    expect(card.elements[0]).toEqual({ tag: "markdown", content: "hello" });
+    expect(card.elements[1]?.elements?.[0]?.content).toBe("⚠️ 回复失败：timeout");
+  });
+
+  it("throttles updates and only pushes the latest text", async () => {
+    const card = await createFeishuStreamingCard({ cfg, to: "oc_1", throttleMs: 500 });
+    expect(card.messageId).toBe("om_card");
+
+    card.update("a");
+    card.update("ab");
+    card.update("abc");
+    await vi.advanceTimersByTimeAsync(0);
+    expect(patchedContents()).toEqual(["a"]);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(patchedContents()).toEqual(["a", "abc"]);
+  });
+
+  it("finishes with a success state and ignores later updates", async () => {
+    const card = await createFeishuStreamingCard({ cfg, to: "oc_1" });
+    card.update("partial");
+    card.update("partial text");
+    await card.finish("final text");
+    card.update("late");
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(patchedContents()).toEqual(["partial", "final text"]);
+    const last = mocks.patchCardFeishu.mock.calls.at(-1)?.[0] as {
+      card: { elements: Array<{ elements?: Array<{ content: string }> }> };
+    };
+    expect(last.card.elements[1]?.elements?.[0]?.content).toBe("✅ 已完成");
+  });
+
+  it("keeps streaming when a patch fails", async () => {
+    const log = vi.fn();
+    mocks.patchCardFeishu.mockRejectedValueOnce(new Error("rate limited"));
+    const card = await createFeishuStreamingCard({ cfg, to: "oc_1", log });
+    card.update("one");
+    await vi.advanceTimersByTimeAsync(0);
+    await card.fail("boom");
+
+    expect(log).toHaveBeenCalledWith(expect.stringContaining("rate limited"));
+    expect(patchedContents()).toEqual(["one", "one"]);
+  });
+});
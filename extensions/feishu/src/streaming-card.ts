@@ -0,0 +1,155 @@
+/**
+ * 飞书流式卡片回复
+ *
+ * 回复开始时发送一张可更新的交互卡片，随后按节流间隔 PATCH 卡片内容，
+ * 最终以成功 / 失败状态收尾
+ *
+ * API 文档:
+ * - 发送消息: https://open.feishu.cn/document/server-docs/im-v1/message/create
+ * - 回复消息: https://open.feishu.cn/document/server-docs/im-v1/message/reply
+ * - 更新卡片: https://open.feishu.cn/document/server-docs/im-v1/message-card/patch
+ */
+
+import { createThrottledStream } from "@openclaw-china/shared";
+
+import type { FeishuConfig } from "./config.js";
+import { patchCardFeishu, sendCardFeishu } from "./send.js";
+
+/** 默认更新间隔（毫秒）；飞书单条消息更新上限 5 QPS */
+export const DEFAULT_STREAMING_THROTTLE_MS = 500;
+
+/** 最小更新间隔（毫秒） */
+const MIN_STREAMING_THROTTLE_MS = 200;
+
+/** 卡片正文最大长度（超出部分由调用方另行发送） */
+const DEFAULT_MAX_CARD_CHARS = 4000;
+
+/** 流式卡片状态 */
+export type FeishuStreamingCardStatus = "streaming" | "success" | "failed";
+
+const STATUS_NOTES: Record<FeishuStreamingCardStatus, string> = {
+  streaming: "⏳ 生成中…",
+  success: "✅ 已完成",
+  failed: "⚠️ 回复失败",
+};
+
+/**
+ * 构建流式卡片内容
+ *
+ * @param text 当前正文
+ * @param status 卡片状态
+ * @param detail 失败原因等附加说明
+ */
+export function buildStreamingCard(
+  text: string,
+  status: FeishuStreamingCardStatus,
+  detail?: string
+): Record<string, unknown> {
+  const note = detail ? `${STATUS_NOTES[status]}：${detail}` : STATUS_NOTES[status];
+  return {
+    config: {
+      wide_screen_mode: true,
+      update_multi: true,
+    },
+    elements: [
+      {
+        tag: "markdown",
+        content: text.trim() || "…",
+      },
+      {
+        tag: "note",
+        elements: [{ tag: "plain_text", content: note }],
+      },
+    ],
+  };
+}
+
+/**
+ * 流式卡片控制器
+ */
+export interface FeishuStreamingCard {
+  /** 卡片消息 ID */
+  readonly messageId: string;
+  /** 更新正文（节流，返回时不保证已推送） */
+  update: (text: string) => void;
+  /** 以成功状态结束 */
+  finish: (text: string) => Promise<void>;
+  /** 以失败状态结束 */
+  fail: (reason: string, text?: string) => Promise<void>;
+}
+
+export interface CreateStreamingCardParams {
+  cfg: FeishuConfig;
+  to: string;
+  receiveIdType?: "chat_id" | "open_id";
+  /** 回复的消息 ID（卡片挂在该条消息下） */
+  replyToMessageId?: string;
+  /** 是否以话题形式回复 */
+  replyInThread?: boolean;
+  /** 更新间隔（毫秒） */
+  throttleMs?: number;
+  /** 卡片正文最大长度 */
+  maxChars?: number;
+  /** 账户 ID（登记已发送消息用） */
+  accountId?: string;
+  log?: (msg: string) => void;
+}
+
+function clampText(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text;
+  return `${text.slice(0, Math.max(0, maxChars - 1))}…`;
+}
+
+/**
+ * 发送流式卡片并返回控制器
+ */
+export async function createFeishuStreamingCard(
+  params: CreateStreamingCardParams
+): Promise<FeishuStreamingCard> {
+  const { cfg, to, receiveIdType = "chat_id", replyToMessageId, replyInThread, accountId, log } = params;
+  const throttleMs = Math.max(
+    MIN_STREAMING_THROTTLE_MS,
+    params.throttleMs ?? DEFAULT_STREAMING_THROTTLE_MS
+  );
+  const maxChars = params.maxChars ?? DEFAULT_MAX_CARD_CHARS;
+
+  const { messageId } = await sendCardFeishu({
+    cfg,
+    to,
+    card: buildStreamingCard("", "streaming"),
+    receiveIdType,
+    replyToMessageId,
+    replyInThread,
+    accountId,
+  });
+  if (!messageId) {
+    throw new Error("Feishu streaming card created without message_id");
+  }
+
+  const logUpdateError = (err: unknown) => log?.(`[streaming-card] update failed: ${String(err)}`);
+  const stream = createThrottledStream({
+    intervalMs: throttleMs,
+    push: (text) =>
+      patchCardFeishu({ cfg, messageId, card: buildStreamingCard(clampText(text, maxChars), "streaming") }),
+    onError: logUpdateError,
+  });
+
+  // 收尾更新失败只记录，卡片停留在最后一次推送的内容
+  const close = (
+    status: Exclude<FeishuStreamingCardStatus, "streaming">,
+    text: string,
+    detail?: string
+  ): Promise<void> =>
+    stream.close(() =>
+      patchCardFeishu({ cfg, messageId, card: buildStreamingCard(clampText(text, maxChars), status, detail) }).catch(
+        logUpdateError
+      )
+    );
+
+  return {
+    messageId,
+    update: (text: string) => stream.update(text),
+    finish: (text: string) => close("success", text),
+    fail: (reason: string, text?: string) => close("failed", text ?? stream.latestText, reason),
+  };
+}
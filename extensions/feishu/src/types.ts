@@ -1,8 +1,8 @@
 // 飞书类型定义
 
-import type { FeishuConfig } from "./config.js";
+import type { FeishuConfig, FeishuAccountConfig } from "./config.js";
 
-export type { FeishuConfig };
+export type { FeishuConfig, FeishuAccountConfig };
 
 export interface FeishuMention {
   key?: string;
@@ -24,6 +24,12 @@ export interface FeishuMessageEvent {
   };
   message?: {
     message_id?: string;
+    /** 回复链根消息 ID */
+    root_id?: string;
+    /** 被回复（引用）的消息 ID */
+    parent_id?: string;
+    /** 话题 ID（话题群 / 话题回复） */
+    thread_id?: string;
     chat_id?: string;
     chat_type?: "p2p" | "group";
     message_type?: string;
@@ -33,6 +39,29 @@ export interface FeishuMessageEvent {
   };
 }
 
+/**
+ * 入站资源类型
+ * - image: 图片（image_key）
+ * - file: 文件（file_key）
+ * - audio: 语音（file_key，opus 编码）
+ * - media: 视频（file_key）
+ */
+export type FeishuResourceKind = "image" | "file" | "audio" | "media";
+
+/**
+ * 消息中的待下载资源
+ */
+export interface FeishuMessageResource {
+  /** 资源类型 */
+  kind: FeishuResourceKind;
+  /** 资源 key（image_key / file_key） */
+  key: string;
+  /** 原始文件名 */
+  fileName?: string;
+  /** 时长（毫秒，语音 / 视频） */
+  duration?: number;
+}
+
 /**
  * 解析后的消息上下文
  * 用于内部处理的标准化消息格式
@@ -52,6 +81,30 @@ export interface FeishuMessageContext {
   contentType: string;
   /** 是否 @提及了机器人 */
   mentionedBot: boolean;
+  /** 消息中待下载的资源（图片 / 文件 / 语音 / 视频） */
+  resources?: FeishuMessageResource[];
+  /** 回复链根消息 ID */
+  rootId?: string;
+  /** 被回复（引用）的消息 ID */
+  parentId?: string;
+  /** 话题 ID */
+  threadId?: string;
+}
+
+/**
+ * 通过消息接口获取的单条消息
+ */
+export interface FeishuFetchedMessage {
+  messageId: string;
+  /** 消息类型 */
+  messageType: string;
+  /** 原始 content（JSON 字符串） */
+  content: string;
+  /** 发送者 ID（用户为 open_id，机器人为 app_id） */
+  senderId?: string;
+  /** 发送者类型: user / app */
+  senderType?: string;
+  mentions?: FeishuMention[];
 }
 
 /**
@@ -71,10 +124,14 @@ export interface FeishuSendResult {
 export interface ResolvedFeishuAccount {
   /** 账户 ID */
   accountId: string;
+  /** 账户显示名称 */
+  name?: string;
   /** 是否启用 */
   enabled: boolean;
   /** 是否已配置（有凭证） */
   configured: boolean;
   /** 应用 ID */
   appId?: string;
+  /** 合并后的账户配置 */
+  config?: FeishuConfig;
 }
@@ -0,0 +1,172 @@
+import { Readable } from "node:stream";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { describe, expect, it } from "vitest";
+
+import { FeishuConfigSchema } from "./config.js";
+import { computeFeishuSignature, encryptFeishuPlaintext } from "./crypto.js";
+import { handleFeishuWebhookRequest, registerFeishuWebhookTarget } from "./webhook.js";
+import type { ResolvedFeishuAccount } from "./types.js";
+
+const encryptKey = "encrypt-key";
+const verificationToken = "verify-token";
+
+function createRequest(
+  method: string,
+  url: string,
+  body?: string,
+  headers: Record<string, string> = {}
+): IncomingMessage {
+  const stream = new Readable({
+    read() {
+      return;
+    },
+  });
+  if (body) {
+    stream.push(body);
+  }
+  stream.push(null);
+  (stream as IncomingMessage).method = method;
+  (stream as IncomingMessage).url = url;
+  (stream as IncomingMessage).headers = headers;
+  return stream as IncomingMessage;
+}
+
+function createResponseRecorder() {
+  const chunks: Buffer[] = [];
+  const res = {
+    statusCode: 200,
+    setHeader: () => undefined,
+    end: (data?: string | Buffer) => {
+      if (data === undefined) return;
+      chunks.push(Buffer.isBuffer(data) ? data : Buffer.from(String(data)));
+    },
+  } as unknown as ServerResponse;
+
+  return {
+    res,
+    getBody: () => Buffer.concat(chunks).toString("utf8"),
+  };
+}
+
+function buildAccount(overrides: Record<string, unknown> = {}): ResolvedFeishuAccount {
+  return {
+    accountId: "default",
+    enabled: true,
+    configured: true,
+    appId: "cli_test",
+    config: FeishuConfigSchema.parse({
+      appId: "cli_test",
+      appSecret: "secret",
+      connectionMode: "webhook",
+      ...overrides,
+    }),
+  };
+}
+
+function register(overrides: Record<string, unknown> = {}) {
+  return registerFeishuWebhookTarget({
+    account: buildAccount(overrides),
+    config: {},
+    runtime: {},
+    path: "/feishu",
+  });
+}
+
+describe("feishu webhook", () => {
+  it("ignores unregistered paths", async () => {
+    const recorder = createResponseRecorder();
+    const handled = await handleFeishuWebhookRequest(createRequest("POST", "/other", "{}"), recorder.res);
+    expect(handled).toBe(false);
+  });
+
+  it("answers plain url_verification challenges", async () => {
+    const unregister = register({ verificationToken });
+    const body = JSON.stringify({ type: "url_verification", challenge: "c1", token: verificationToken });
+    const recorder = createResponseRecorder();
+
+    const handled = await handleFeishuWebhookRequest(createRequest("POST", "/feishu", body), recorder.res);
+
+    expect(handled).toBe(true);
+    expect(JSON.parse(recorder.getBody())).toEqual({ challenge: "c1" });
+    unregister();
+  });
+
+  it("decrypts encrypted url_verification challenges", async () => {
+    const unregister = register({ encryptKey, verificationToken });
+    const encrypt = encryptFeishuPlaintext({
+      encryptKey,
+      plaintext: JSON.stringify({ type: "url_verification", challenge: "c2", token: verificationToken }),
+    });
+    const recorder = createResponseRecorder();
+
+    await handleFeishuWebhookRequest(
+      createRequest("POST", "/feishu", JSON.stringify({ encrypt })),
+      recorder.res
+    );
+
+    expect(JSON.parse(recorder.getBody())).toEqual({ challenge: "c2" });
+    unregister();
+  });
+
+  it("rejects mismatched verification tokens", async () => {
+    const unregister = register({ verificationToken });
+    const body = JSON.stringify({ type: "url_verification", challenge: "c3", token: "wrong" });
+    const recorder = createResponseRecorder();
+
+    await handleFeishuWebhookRequest(createRequest("POST", "/feishu", body), recorder.res);
+
+    expect(recorder.res.statusCode).toBe(401);
+    unregister();
+  });
+
+  it("rejects events with an invalid signature", async () => {
+    const unregister = register({ encryptKey });
+    const encrypt = encryptFeishuPlaintext({
+      encryptKey,
+      plaintext: JSON.stringify({ schema: "2.0", header: { event_type: "im.message.receive_v1" } }),
+    });
+    const body = JSON.stringify({ encrypt });
+    const headers = {
+      "x-lark-request-timestamp": "1700000000",
+      "x-lark-request-nonce": "nonce",
+      "x-lark-signature": computeFeishuSignature({
+        timestamp: "1700000000",
+        nonce: "nonce",
+        encryptKey,
+        body: `${body} `,
+      }),
+    };
+    const recorder = createResponseRecorder();
+
+    await handleFeishuWebhookRequest(createRequest("POST", "/feishu", body, headers), recorder.res);
+
+    expect(recorder.res.statusCode).toBe(401);
+    unregister();
+  });
+
+  it("acknowledges signed events", async () => {
+    const unregister = register({ encryptKey });
+    const encrypt = encryptFeishuPlaintext({
+      encryptKey,
+      plaintext: JSON.stringify({ schema: "2.0", header: { event_type: "im.chat.updated_v1" } }),
+    });
+    const body = JSON.stringify({ encrypt });
+    const headers = {
+      "x-lark-request-timestamp": "1700000000",
+      "x-lark-request-nonce": "nonce",
+      "x-lark-signature": computeFeishuSignature({
+        timestamp: "1700000000",
+        nonce: "nonce",
+        encryptKey,
+        body,
+      }),
+    };
+    const recorder = createResponseRecorder();
+
+    await handleFeishuWebhookRequest(createRequest("POST", "/feishu", body, headers), recorder.res);
+
+    expect(recorder.res.statusCode).toBe(200);
+    expect(JSON.parse(recorder.getBody())).toEqual({});
+    unregister();
+  });
+});
@@ -0,0 +1,400 @@
+/**
+ * 飞书 HTTP 事件订阅（webhook 模式）
+ *
+ * 处理 url_verification 校验、Encrypt Key 解密、Verification Token 与签名校验，
+ * 并将 im.message.receive_v1 事件分发到 handleFeishuMessage
+ */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { DEFAULT_ACCOUNT_ID, resolveFeishuAccount } from "./config.js";
+import type { PluginConfig } from "./config.js";
+import type { FeishuMessageEvent, ResolvedFeishuAccount } from "./types.js";
+import { createLogger, type Logger } from "./logger.js";
+import { handleFeishuMessage } from "./bot.js";
+import { fetchFeishuBotOpenId } from "./client.js";
+import { decryptFeishuEncrypted, verifyFeishuSignature } from "./crypto.js";
+import { isDuplicateMessage, isMessageExpired, type FeishuGatewayOptions } from "./gateway.js";
+
+/** 默认回调路径 */
+export const DEFAULT_FEISHU_WEBHOOK_PATH = "/feishu";
+
+/** 请求体大小上限 */
+const MAX_BODY_BYTES = 1024 * 1024;
+
+export type FeishuWebhookTarget = {
+  account: ResolvedFeishuAccount;
+  config: PluginConfig;
+  path: string;
+  runtime: {
+    log?: (msg: string) => void;
+    error?: (msg: string) => void;
+  };
+  /** 机器人 open_id（用于 @ 判断） */
+  botOpenId?: Promise<string | undefined>;
+  statusSink?: (patch: { lastInboundAt?: number }) => void;
+};
+
+type FeishuWebhookInstance = {
+  path: string;
+  promise: Promise<void>;
+  stop: () => void;
+};
+
+/** 事件回调体（解密后） */
+type FeishuCallbackPayload = {
+  type?: string;
+  challenge?: string;
+  token?: string;
+  schema?: string;
+  header?: {
+    event_id?: string;
+    event_type?: string;
+    token?: string;
+    app_id?: string;
+  };
+  event?: unknown;
+};
+
+// 回调路径 -> 注册的账户
+const webhookTargets = new Map<string, FeishuWebhookTarget[]>();
+
+// 运行中的 webhook 账户 (accountId -> instance)
+const webhooks = new Map<string, FeishuWebhookInstance>();
+
+function normalizeWebhookPath(raw: string): string {
+  const trimmed = raw.trim();
+  if (!trimmed) return "/";
+  const withSlash = trimmed.startsWith("/") ? trimmed : `/${trimmed}`;
+  if (withSlash.length > 1 && withSlash.endsWith("/")) return withSlash.slice(0, -1);
+  return withSlash;
+}
+
+function resolvePath(req: IncomingMessage): string {
+  const url = new URL(req.url ?? "/", "http://localhost");
+  return normalizeWebhookPath(url.pathname || "/");
+}
+
+function readHeader(req: IncomingMessage, name: string): string {
+  const value = req.headers?.[name];
+  return (Array.isArray(value) ? value[0] : value) ?? "";
+}
+
+function jsonOk(res: ServerResponse, body: unknown): void {
+  res.statusCode = 200;
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  res.end(JSON.stringify(body));
+}
+
+async function readRawBody(
+  req: IncomingMessage,
+  maxBytes: number
+): Promise<{ ok: boolean; value?: string; error?: string }> {
+  const chunks: Buffer[] = [];
+  let total = 0;
+  return await new Promise((resolve) => {
+    req.on("data", (chunk: Buffer) => {
+      total += chunk.length;
+      if (total > maxBytes) {
+        resolve({ ok: false, error: "payload too large" });
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      const raw = Buffer.concat(chunks).toString("utf8");
+      if (!raw.trim()) {
+        resolve({ ok: false, error: "empty payload" });
+        return;
+      }
+      resolve({ ok: true, value: raw });
+    });
+    req.on("error", (err) => {
+      resolve({ ok: false, error: err instanceof Error ? err.message : String(err) });
+    });
+  });
+}
+
+function parseJsonObject(raw: string): Record<string, unknown> | null {
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return parsed && typeof parsed === "object" ? (parsed as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 按账户配置解析回调体
+ *
+ * - 配置了 encryptKey 时要求事件体加密，并在携带签名头时校验签名
+ * - 配置了 verificationToken 时校验 token（v1: token，v2: header.token）
+ *
+ * @returns 解析后的明文回调体；不属于该账户时返回 null
+ */
+function resolvePayloadForTarget(params: {
+  target: FeishuWebhookTarget;
+  body: Record<string, unknown>;
+  rawBody: string;
+  req: IncomingMessage;
+}): FeishuCallbackPayload | null {
+  const { target, body, rawBody, req } = params;
+  const { encryptKey, verificationToken } = target.account.config ?? {};
+  const encrypt = typeof body.encrypt === "string" ? body.encrypt : "";
+
+  let payload: Record<string, unknown> | null = body;
+  if (encryptKey) {
+    if (!encrypt) return null;
+    const signature = readHeader(req, "x-lark-signature");
+    if (signature) {
+      const valid = verifyFeishuSignature({
+        timestamp: readHeader(req, "x-lark-request-timestamp"),
+        nonce: readHeader(req, "x-lark-request-nonce"),
+        encryptKey,
+        body: rawBody,
+        signature,
+      });
+      if (!valid) return null;
+    }
+    try {
+      payload = parseJsonObject(decryptFeishuEncrypted({ encryptKey, encrypt }));
+    } catch {
+      return null;
+    }
+  } else if (encrypt) {
+    return null;
+  }
+  if (!payload) return null;
+
+  const typed = payload as FeishuCallbackPayload;
+  if (verificationToken) {
+    const token = typed.header?.token ?? typed.token;
+    if (token !== verificationToken) return null;
+  }
+  return typed;
+}
+
+function buildLogger(target: FeishuWebhookTarget): Logger {
+  const accountId = target.account.accountId;
+  return createLogger(accountId === DEFAULT_ACCOUNT_ID ? "feishu" : `feishu:${accountId}`, {
+    log: target.runtime.log,
+    error: target.runtime.error,
+  });
+}
+
+/**
+ * 注册 webhook 回调目标
+ *
+ * @returns 取消注册函数
+ */
+export function registerFeishuWebhookTarget(target: FeishuWebhookTarget): () => void {
+  const key = normalizeWebhookPath(target.path);
+  const normalizedTarget = { ...target, path: key };
+  const existing = webhookTargets.get(key) ?? [];
+  webhookTargets.set(key, [...existing, normalizedTarget]);
+  return () => {
+    const updated = (webhookTargets.get(key) ?? []).filter((entry) => entry !== normalizedTarget);
+    if (updated.length > 0) webhookTargets.set(key, updated);
+    else webhookTargets.delete(key);
+  };
+}
+
+/**
+ * 处理飞书事件订阅回调请求
+ *
+ * @returns 是否已处理（路径未注册时返回 false，交由其他处理器）
+ */
+export async function handleFeishuWebhookRequest(
+  req: IncomingMessage,
+  res: ServerResponse
+): Promise<boolean> {
+  const path = resolvePath(req);
+  const targets = webhookTargets.get(path);
+  if (!targets || targets.length === 0) return false;
+
+  if (req.method !== "POST") {
+    res.statusCode = 405;
+    res.setHeader("Allow", "POST");
+    res.end("Method Not Allowed");
+    return true;
+  }
+
+  const raw = await readRawBody(req, MAX_BODY_BYTES);
+  if (!raw.ok || !raw.value) {
+    res.statusCode = raw.error === "payload too large" ? 413 : 400;
+    res.end(raw.error ?? "invalid payload");
+    return true;
+  }
+
+  const body = parseJsonObject(raw.value);
+  if (!body) {
+    res.statusCode = 400;
+    res.end("invalid payload");
+    return true;
+  }
+
+  let target: FeishuWebhookTarget | undefined;
+  let payload: FeishuCallbackPayload | null = null;
+  for (const candidate of targets) {
+    payload = resolvePayloadForTarget({ target: candidate, body, rawBody: raw.value, req });
+    if (payload) {
+      target = candidate;
+      break;
+    }
+  }
+
+  if (!target || !payload) {
+    res.statusCode = 401;
+    res.end("unauthorized");
+    return true;
+  }
+
+  const logger = buildLogger(target);
+
+  if (payload.type === "url_verification") {
+    logger.info(`url_verification received on ${path}`);
+    jsonOk(res, { challenge: payload.challenge ?? "" });
+    return true;
+  }
+
+  const eventType = payload.header?.event_type ?? "";
+  // 飞书要求 3 秒内响应，消息处理异步进行
+  jsonOk(res, {});
+  target.statusSink?.({ lastInboundAt: Date.now() });
+
+  if (eventType !== "im.message.receive_v1") {
+    logger.debug(`ignoring event type: ${eventType || "unknown"}`);
+    return true;
+  }
+
+  const event = payload.event as FeishuMessageEvent | undefined;
+  const message = event?.message;
+  if (!event || !message) return true;
+
+  const accountId = target.account.accountId;
+  const messageId = message.message_id ?? "";
+  if (isDuplicateMessage(accountId, messageId)) {
+    return true;
+  }
+  if (isMessageExpired(message.create_time)) {
+    logger.info(`skipping expired message ${messageId}`);
+    return true;
+  }
+
+  logger.info(
+    `Inbound(webhook): chat=${message.chat_id ?? ""} type=${message.message_type ?? ""}`
+  );
+
+  const botOpenId = await target.botOpenId;
+  setImmediate(() => {
+    void handleFeishuMessage({
+      cfg: target.config,
+      event,
+      accountId,
+      botOpenId,
+      log: (msg: string) => logger.info(msg.replace(/^\[feishu\]\s*/, "")),
+      error: (msg: string) => logger.error(msg.replace(/^\[feishu\]\s*/, "")),
+    }).catch((err) => {
+      logger.error(`error handling message: ${String(err)}`);
+    });
+  });
+
+  return true;
+}
+
+/**
+ * 启动 webhook 模式
+ *
+ * 注册回调路径后保持运行，直到 abortSignal 触发或 stopFeishuWebhook 被调用
+ */
+export async function startFeishuWebhook(
+  opts: FeishuGatewayOptions & {
+    statusSink?: (patch: { lastInboundAt?: number }) => void;
+  } = {}
+): Promise<void> {
+  const { config, runtime, abortSignal } = opts;
+  const account = resolveFeishuAccount({ cfg: config ?? {}, accountId: opts.accountId });
+  const accountId = account.accountId;
+
+  const existing = webhooks.get(accountId);
+  if (existing) return existing.promise;
+
+  const feishuCfg = account.config;
+  if (!feishuCfg) {
+    throw new Error(`Feishu configuration not found for account ${accountId}`);
+  }
+  if (!feishuCfg.appId || !feishuCfg.appSecret) {
+    throw new Error("Feishu appId/appSecret missing");
+  }
+
+  const path = normalizeWebhookPath(feishuCfg.webhookPath ?? DEFAULT_FEISHU_WEBHOOK_PATH);
+  const target: FeishuWebhookTarget = {
+    account,
+    config: config ?? {},
+    path,
+    runtime: runtime ?? {},
+    statusSink: opts.statusSink,
+  };
+  const logger = buildLogger(target);
+
+  target.botOpenId = fetchFeishuBotOpenId(feishuCfg).then(
+    (openId) => {
+      logger.info(`bot open_id resolved: ${openId}`);
+      return openId;
+    },
+    (err) => {
+      logger.warn(`failed to resolve bot open_id, mention detection degraded: ${String(err)}`);
+      return undefined;
+    }
+  );
+
+  if (!feishuCfg.encryptKey && !feishuCfg.verificationToken) {
+    logger.warn("webhook mode without encryptKey/verificationToken: requests are not authenticated");
+  }
+
+  const unregister = registerFeishuWebhookTarget(target);
+  logger.info(`webhook registered at ${path} for account ${accountId}`);
+
+  let stop: () => void = () => undefined;
+  const promise = new Promise<void>((resolve) => {
+    const finalize = () => {
+      abortSignal?.removeEventListener("abort", finalize);
+      unregister();
+      if (webhooks.get(accountId)?.promise === promise) {
+        webhooks.delete(accountId);
+      }
+      resolve();
+    };
+    stop = finalize;
+    if (abortSignal?.aborted) {
+      queueMicrotask(finalize);
+      return;
+    }
+    abortSignal?.addEventListener("abort", finalize, { once: true });
+  });
+
+  webhooks.set(accountId, { path, promise, stop: () => stop() });
+  return promise;
+}
+
+/**
+ * 停止 webhook 模式
+ *
+ * @param accountId 账户 ID；不传时停止所有账户
+ */
+export function stopFeishuWebhook(accountId?: string): void {
+  const targets = accountId ? [accountId] : Array.from(webhooks.keys());
+  for (const id of targets) {
+    webhooks.get(id)?.stop();
+    webhooks.delete(id);
+  }
+}
+
+/**
+ * 检查 webhook 是否已注册
+ *
+ * @param accountId 账户 ID；不传时检查是否有任一账户注册
+ */
+export function isFeishuWebhookActive(accountId?: string): boolean {
+  return accountId ? webhooks.has(accountId) : webhooks.size > 0;
+}
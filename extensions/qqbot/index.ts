@@ -43,6 +43,19 @@ const plugin = {
       requireMention: { type: "boolean" },
       allowFrom: { type: "array", items: { type: "string" } },
       groupAllowFrom: { type: "array", items: { type: "string" } },
+      groups: {
+        type: "object",
+        additionalProperties: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            requireMention: { type: "boolean" },
+            allowFrom: { type: "array", items: { type: "string" } },
+            agentId: { type: "string" },
+            systemPrompt: { type: "string" },
+          },
+        },
+      },
       historyLimit: { type: "integer", minimum: 0 },
       textChunkLimit: { type: "integer", minimum: 1 },
       replyFinalOnly: { type: "boolean" }
@@ -0,0 +1,46 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createLogger } from "@openclaw-china/shared";
+import { handleQQBotDispatch } from "./bot.js";
+import { QQBotConfigSchema } from "./config.js";
+import { clearQQBotRuntime, setQQBotRuntime } from "./runtime.js";
+
+describe("handleQQBotDispatch", () => {
+  afterEach(() => {
+    clearQQBotRuntime();
+    vi.unstubAllGlobals();
+  });
+
+  it("treats pairing without allowFrom as open instead of issuing a pairing code", async () => {
+    // 空运行时：通过策略检查后在路由阶段结束，不会真正分发
+    setQQBotRuntime({});
+    const fetchMock = vi.fn().mockRejectedValue(new Error("unexpected request"));
+    vi.stubGlobal("fetch", fetchMock);
+    const logs: string[] = [];
+
+    await handleQQBotDispatch({
+      eventType: "C2C_MESSAGE_CREATE",
+      eventData: {
+        id: "msg-1",
+        timestamp: "2026-01-01T00:00:00+08:00",
+        content: "hello",
+        author: { user_openid: "user-1" },
+      },
+      cfg: {
+        channels: {
+          qqbot: QQBotConfigSchema.parse({
+            appId: "app",
+            clientSecret: "secret",
+            dmPolicy: "pairing",
+            allowFrom: [],
+          }),
+        },
+      },
+      accountId: "pairing-fallback",
+      logger: createLogger("qqbot", { log: (msg) => logs.push(msg), error: (msg) => logs.push(msg) }),
+    });
+
+    expect(logs.some((line) => line.includes("treating DMs as open for account pairing-fallback"))).toBe(true);
+    expect(logs.some((line) => line.includes("routing API not available"))).toBe(true);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
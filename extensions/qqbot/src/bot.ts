@@ -3,29 +3,39 @@
  */
 
 import {
+  applyGroupAgentOverride,
   checkDmPolicy,
+  resolveEffectiveDmPolicy,
+  warnPairingWithoutAdmins,
   checkGroupPolicy,
+  resolveGroupOverride,
   cleanupFileSafe,
+  handlePairingCommand,
+  issuePairingChallenge,
   createLogger,
   downloadToTempFile,
   fetchMediaFromUrl,
   type Logger,
   appendCronHiddenPrompt,
+  createWorkingIndicator,
   ASRError,
   extractMediaFromText,
   isImagePath,
   transcribeTencentFlash,
 } from "@openclaw-china/shared";
 import {
-  QQBotConfigSchema,
   resolveQQBotASRCredentials,
+  resolveQQBotAccount,
+  type PluginConfig,
   type QQBotConfig,
 } from "./config.js";
+import { acknowledgeInteraction, getAccessToken } from "./client.js";
 import { qqbotOutbound } from "./outbound.js";
 import { getQQBotRuntime } from "./runtime.js";
 import type {
   InboundContext,
   QQInboundAttachment,
+  QQInboundMention,
   QQInboundMessage,
 } from "./types.js";
 import * as fs from "node:fs";
@@ -102,6 +112,55 @@ function parseTextWithAttachments(payload: Record<string, unknown>): {
   };
 }
 
+const GUILD_MENTION_RE = /<@!?(\w+)>/g;
+
+/**
+ * 频道消息中的 <@!user_id> / <@user_id>：去掉 @机器人，其余渲染为 @昵称
+ */
+function parseGuildMentions(
+  content: string,
+  payload: Record<string, unknown>
+): { text: string; mentions: QQInboundMention[] } {
+  const raw = Array.isArray(payload.mentions) ? payload.mentions : [];
+  const botIds = new Set<string>();
+  const mentions: QQInboundMention[] = [];
+  for (const entry of raw) {
+    if (!entry || typeof entry !== "object") continue;
+    const data = entry as Record<string, unknown>;
+    const id = toString(data.id);
+    if (!id) continue;
+    if (data.bot === true) {
+      botIds.add(id);
+    } else {
+      mentions.push({ id, name: toString(data.username) ?? id });
+    }
+  }
+  const text = content
+    .replace(GUILD_MENTION_RE, (token: string, id: string) => {
+      if (botIds.has(id)) return "";
+      const mention = mentions.find((item) => item.id === id);
+      return mention ? `@${mention.name}` : token;
+    })
+    .replace(/[ \t]{2,}/g, " ")
+    .trim();
+  return { text, mentions };
+}
+
+/**
+ * 频道回复：把回复中的 @昵称 还原为 <@user_id>（发送者与原消息中被 @ 的用户）
+ */
+function renderGuildMentions(text: string, event: QQInboundMessage): string {
+  const candidates: QQInboundMention[] = [...(event.mentions ?? [])];
+  if (event.senderName) candidates.push({ id: event.senderId, name: event.senderName });
+  // 长昵称优先，避免被短昵称截断
+  candidates.sort((a, b) => b.name.length - a.name.length);
+  let result = text;
+  for (const { id, name } of candidates) {
+    result = result.split(`@${name}`).join(`<@${id}>`);
+  }
+  return result;
+}
+
 type ResolvedInboundAttachment = {
   attachment: QQInboundAttachment;
   localImagePath?: string;
@@ -385,7 +444,9 @@ function parseGroupMessage(data: unknown): QQInboundMessage | null {
 
 function parseChannelMessage(data: unknown): QQInboundMessage | null {
   const payload = data as Record<string, unknown>;
-  const { text, attachments } = parseTextWithAttachments(payload);
+  const parsed = parseTextWithAttachments(payload);
+  const { attachments } = parsed;
+  const { text, mentions } = parseGuildMentions(parsed.text, payload);
   const id = toString(payload.id);
   const timestamp = toNumber(payload.timestamp) ?? Date.now();
   const channelId = toString(payload.channel_id);
@@ -405,12 +466,15 @@ function parseChannelMessage(data: unknown): QQInboundMessage | null {
     channelId,
     guildId,
     mentionedBot: true,
+    mentions: mentions.length > 0 ? mentions : undefined,
   };
 }
 
 function parseDirectMessage(data: unknown): QQInboundMessage | null {
   const payload = data as Record<string, unknown>;
-  const { text, attachments } = parseTextWithAttachments(payload);
+  const parsed = parseTextWithAttachments(payload);
+  const { attachments } = parsed;
+  const { text, mentions } = parseGuildMentions(parsed.text, payload);
   const id = toString(payload.id);
   const timestamp = toNumber(payload.timestamp) ?? Date.now();
   const guildId = toString(payload.guild_id);
@@ -428,6 +492,47 @@ function parseDirectMessage(data: unknown): QQInboundMessage | null {
     timestamp,
     guildId,
     mentionedBot: false,
+    mentions: mentions.length > 0 ? mentions : undefined,
+  };
+}
+
+/**
+ * 按钮回调：chat_type 0 频道 / 1 群聊 / 2 单聊，按钮的 data 作为用户输入
+ */
+function parseInteraction(data: unknown): QQInboundMessage | null {
+  const payload = data as Record<string, unknown>;
+  const id = toString(payload.id);
+  const payloadData = (payload.data ?? {}) as Record<string, unknown>;
+  const resolved = (payloadData.resolved ?? {}) as Record<string, unknown>;
+  const content = toString(resolved.button_data)?.trim();
+  if (!id || !content) return null;
+
+  const timestamp = toNumber(payload.timestamp) ?? Date.now();
+  const base = { content, messageId: id, eventId: id, timestamp };
+  const chatType = toNumber(payload.chat_type);
+
+  if (chatType === 1) {
+    const groupOpenid = toString(payload.group_openid);
+    const senderId = toString(payload.group_member_openid);
+    if (!groupOpenid || !senderId) return null;
+    return { ...base, type: "group", senderId, groupOpenid, mentionedBot: true };
+  }
+  if (chatType === 2) {
+    const senderId = toString(payload.user_openid);
+    if (!senderId) return null;
+    return { ...base, type: "direct", senderId, c2cOpenid: senderId, mentionedBot: false };
+  }
+
+  const channelId = toString(payload.channel_id);
+  const senderId = toString(resolved.user_id);
+  if (!channelId || !senderId) return null;
+  return {
+    ...base,
+    type: "channel",
+    senderId,
+    channelId,
+    guildId: toString(payload.guild_id),
+    mentionedBot: true,
   };
 }
 
@@ -441,6 +546,8 @@ function resolveInbound(eventType: string, data: unknown): QQInboundMessage | nu
       return parseChannelMessage(data);
     case "DIRECT_MESSAGE_CREATE":
       return parseDirectMessage(data);
+    case "INTERACTION_CREATE":
+      return parseInteraction(data);
     default:
       return null;
   }
@@ -463,6 +570,14 @@ function resolveChatTarget(event: QQInboundMessage): { to: string; peerId: strin
       peerKind: "group",
     };
   }
+  // 频道私信：没有 c2c openid，通过私信会话的 guild_id 回复
+  if (!event.c2cOpenid && event.guildId) {
+    return {
+      to: `dms:${event.guildId}`,
+      peerId: event.senderId,
+      peerKind: "dm",
+    };
+  }
   return {
     to: `user:${event.senderId}`,
     peerId: event.senderId,
@@ -470,6 +585,20 @@ function resolveChatTarget(event: QQInboundMessage): { to: string; peerId: strin
   };
 }
 
+/**
+ * 群聊 / 频道的会话 ID（groupAllowFrom 与 groups 配置的键）
+ */
+/**
+ * 被动回复引用：按钮回调使用事件 ID，其余使用消息 ID
+ */
+function resolveReplyRef(event: QQInboundMessage): { replyToId?: string; replyEventId?: string } {
+  return event.eventId ? { replyEventId: event.eventId } : { replyToId: event.messageId };
+}
+
+function resolveGroupConversationId(event: QQInboundMessage): string {
+  return event.type === "group" ? event.groupOpenid ?? "" : event.channelId ?? "";
+}
+
 function resolveEnvelopeFrom(event: QQInboundMessage): string {
   if (event.type === "group") {
     return `group:${event.groupOpenid ?? "unknown"}`;
@@ -619,23 +748,37 @@ async function dispatchToAgent(params: {
   }
 
   const target = resolveChatTarget(inbound);
-  if (inbound.c2cOpenid) {
-    const typing = await qqbotOutbound.sendTyping({
-      cfg: { channels: { qqbot: qqCfg } },
-      to: `user:${inbound.c2cOpenid}`,
-      replyToId: inbound.messageId,
-      inputSecond: 60,
-    });
-    if (typing.error) {
-      logger.warn(`sendTyping failed: ${typing.error}`);
-    }
+  const replyRef = resolveReplyRef(inbound);
+  // 「输入中」状态：仅单聊消息支持，发出回复后自动消失
+  if (inbound.c2cOpenid && replyRef.replyToId && qqCfg.workingIndicator !== false) {
+    const c2cOpenid = inbound.c2cOpenid;
+    void createWorkingIndicator({
+      show: async () => {
+        const typing = await qqbotOutbound.sendTyping({
+          cfg: { channels: { qqbot: qqCfg } },
+          to: `user:${c2cOpenid}`,
+          replyToId: inbound.messageId,
+          inputSecond: 60,
+        });
+        if (typing.error) throw new Error(typing.error);
+      },
+      onError: (err) => logger.warn(`sendTyping failed: ${err instanceof Error ? err.message : String(err)}`),
+    }).start();
   }
-  const route = routing({
-    cfg,
-    channel: "qqbot",
-    accountId,
-    peer: { kind: target.peerKind, id: target.peerId },
-  });
+  // 群覆盖配置：固定 Agent、附加系统提示词
+  const groupOverride =
+    target.peerKind === "group"
+      ? resolveGroupOverride(qqCfg.groups, resolveGroupConversationId(inbound))
+      : undefined;
+  const route = applyGroupAgentOverride(
+    routing({
+      cfg,
+      channel: "qqbot",
+      accountId,
+      peer: { kind: target.peerKind, id: target.peerId },
+    }),
+    groupOverride
+  );
 
   const replyApi = runtime.channel?.reply;
   if (!replyApi) {
@@ -668,7 +811,7 @@ async function dispatchToAgent(params: {
       cfg: { channels: { qqbot: qqCfg } },
       to: target.to,
       text: buildVoiceASRFallbackReply(resolvedAttachmentResult.asrErrorMessage),
-      replyToId: inbound.messageId,
+      ...replyRef,
     });
     if (fallback.error) {
       logger.error(`sendText ASR fallback failed: ${fallback.error}`);
@@ -717,6 +860,9 @@ async function dispatchToAgent(params: {
     rawBody,
     commandBody: rawBody,
   });
+  if (groupOverride?.systemPrompt) {
+    inboundCtx.GroupSystemPrompt = groupOverride.systemPrompt;
+  }
 
   const finalizeInboundContext = replyApi?.finalizeInboundContext as
     | ((ctx: InboundContext) => InboundContext)
@@ -805,6 +951,7 @@ async function dispatchToAgent(params: {
 
   const deliver = async (payload: unknown, info?: { kind?: string }): Promise<void> => {
     if (replyFinalOnly && info?.kind && info.kind !== "final") return;
+    const isFinal = !info?.kind || info.kind === "final";
     const typed = payload as { text?: string; mediaUrl?: string; mediaUrls?: string[] } | undefined;
     const rawText = typed?.text ?? "";
     const mediaLineResult = extractMediaLinesFromText({
@@ -838,16 +985,20 @@ async function dispatchToAgent(params: {
     for (const url of localMediaResult.mediaUrls) addMedia(url);
 
     if (trimmed) {
-      const converted = textApi?.convertMarkdownTables
+      const tableConverted = textApi?.convertMarkdownTables
         ? textApi.convertMarkdownTables(trimmed, resolvedTableMode)
         : trimmed;
+      const converted =
+        inbound.type === "channel" ? renderGuildMentions(tableConverted, inbound) : tableConverted;
       const chunks = chunkText(converted);
-      for (const chunk of chunks) {
+      for (const [index, chunk] of chunks.entries()) {
         const result = await qqbotOutbound.sendText({
           cfg: { channels: { qqbot: qqCfg } },
           to: target.to,
           text: chunk,
-          replyToId: inbound.messageId,
+          ...replyRef,
+          // 按钮附在最终回复的最后一段
+          keyboard: isFinal && index === chunks.length - 1 ? qqCfg.keyboard : undefined,
         });
         if (result.error) {
           logger.error(`sendText failed: ${result.error}`);
@@ -860,7 +1011,7 @@ async function dispatchToAgent(params: {
         cfg: { channels: { qqbot: qqCfg } },
         to: target.to,
         mediaUrl,
-        replyToId: inbound.messageId,
+        replyToId: replyRef.replyToId,
       });
       if (result.error) {
         logger.error(`sendMedia failed: ${result.error}`);
@@ -869,7 +1020,7 @@ async function dispatchToAgent(params: {
           cfg: { channels: { qqbot: qqCfg } },
           to: target.to,
           text: fallback,
-          replyToId: inbound.messageId,
+          ...replyRef,
         });
         if (fallbackResult.error) {
           logger.error(`sendText fallback failed: ${fallbackResult.error}`);
@@ -935,32 +1086,75 @@ async function dispatchToAgent(params: {
   dispatcherResult.markDispatchIdle?.();
 }
 
-function shouldHandleMessage(event: QQInboundMessage, qqCfg: QQBotConfig, logger: Logger): boolean {
+async function shouldHandleMessage(
+  event: QQInboundMessage,
+  qqCfg: QQBotConfig,
+  accountId: string,
+  logger: Logger
+): Promise<boolean> {
   if (event.type === "direct") {
-    const dmPolicy = qqCfg.dmPolicy ?? "open";
+    const allowFrom = qqCfg.allowFrom ?? [];
+    const { dmPolicy, pairingWithoutAdmins } = resolveEffectiveDmPolicy(qqCfg.dmPolicy ?? "open", allowFrom);
+    const pairingScope = { channel: "qqbot", accountId };
+    if (pairingWithoutAdmins) {
+      warnPairingWithoutAdmins(pairingScope, logger);
+    }
+
+    const sendPairingText = async (text: string): Promise<void> => {
+      const result = await qqbotOutbound.sendText({
+        cfg: { channels: { qqbot: qqCfg } },
+        to: resolveChatTarget(event).to,
+        text,
+        ...resolveReplyRef(event),
+      });
+      if (result.error) {
+        logger.warn(`failed to send pairing reply: ${result.error}`);
+      }
+    };
+
     const allowed = checkDmPolicy({
       dmPolicy,
       senderId: event.senderId,
-      allowFrom: qqCfg.allowFrom ?? [],
+      allowFrom,
+      pairing: pairingScope,
     });
     if (!allowed.allowed) {
       logger.info(`dm blocked: ${allowed.reason ?? "policy"}`);
+      if (allowed.pairingRequired) {
+        const challenge = issuePairingChallenge(pairingScope, event.senderId);
+        if (challenge.created) {
+          logger.info(`pairing code ${challenge.code} issued for sender ${event.senderId}`);
+        }
+        await sendPairingText(challenge.text);
+      }
       return false;
     }
+
+    // 配对模式下 allowFrom 中的发送者作为管理员审批配对码
+    if (dmPolicy === "pairing") {
+      const pairingReply = handlePairingCommand({
+        scope: pairingScope,
+        senderId: event.senderId,
+        text: event.content,
+        admins: allowFrom,
+      });
+      if (pairingReply !== null) {
+        await sendPairingText(pairingReply);
+        return false;
+      }
+    }
     return true;
   }
 
   const groupPolicy = qqCfg.groupPolicy ?? "open";
-  const conversationId =
-    event.type === "group"
-      ? event.groupOpenid ?? ""
-      : event.channelId ?? "";
   const allowed = checkGroupPolicy({
     groupPolicy,
-    conversationId,
+    conversationId: resolveGroupConversationId(event),
     groupAllowFrom: qqCfg.groupAllowFrom ?? [],
     requireMention: qqCfg.requireMention ?? true,
     mentionedBot: event.mentionedBot,
+    senderId: event.senderId,
+    groups: qqCfg.groups,
   });
   if (!allowed.allowed) {
     logger.info(`group blocked: ${allowed.reason ?? "policy"}`);
@@ -976,11 +1170,15 @@ export async function handleQQBotDispatch(params: DispatchParams): Promise<void>
     return;
   }
 
-  const rawCfg = params.cfg?.channels?.qqbot;
-  const parsedCfg = rawCfg ? QQBotConfigSchema.safeParse(rawCfg) : null;
-  const qqCfg = parsedCfg?.success ? parsedCfg.data : rawCfg;
+  // 与 outbound 一致：账户配置覆盖顶层配置，校验失败的配置不使用
+  const pluginCfg: PluginConfig = params.cfg ?? {};
+  const qqCfg = resolveQQBotAccount({ cfg: pluginCfg, accountId: params.accountId }).config;
   if (!qqCfg) {
-    logger.warn("qqbot config missing, ignoring inbound message");
+    logger.warn(
+      pluginCfg.channels?.qqbot
+        ? `invalid qqbot config for account ${params.accountId}, ignoring inbound message`
+        : "qqbot config missing, ignoring inbound message"
+    );
     return;
   }
   if (!qqCfg.enabled) {
@@ -988,6 +1186,16 @@ export async function handleQQBotDispatch(params: DispatchParams): Promise<void>
     return;
   }
 
+  // 按钮回调需先回应，否则客户端按钮会一直处于加载状态
+  if (inbound.eventId && qqCfg.appId && qqCfg.clientSecret) {
+    try {
+      const accessToken = await getAccessToken(qqCfg.appId, qqCfg.clientSecret);
+      await acknowledgeInteraction({ accessToken, interactionId: inbound.eventId });
+    } catch (err) {
+      logger.warn(`failed to acknowledge interaction: ${String(err)}`);
+    }
+  }
+
   const content = inbound.content.trim();
   const inboundLogContent = sanitizeInboundLogText(
     resolveInboundLogContent({
@@ -997,7 +1205,7 @@ export async function handleQQBotDispatch(params: DispatchParams): Promise<void>
   );
   logger.info(`[inbound-user] senderId=${inbound.senderId} content=${inboundLogContent}`);
 
-  if (!shouldHandleMessage(inbound, qqCfg, logger)) {
+  if (!(await shouldHandleMessage(inbound, qqCfg, params.accountId, logger))) {
     return;
   }
 
@@ -3,12 +3,18 @@
  */
 
 import type { ResolvedQQBotAccount, QQBotConfig } from "./types.js";
-import { QQBotConfigSchema, isConfigured, resolveQQBotCredentials } from "./config.js";
+import {
+  DEFAULT_ACCOUNT_ID,
+  listQQBotAccountIds,
+  resolveDefaultQQBotAccountId,
+  resolveQQBotAccount,
+  type PluginConfig,
+} from "./config.js";
 import { qqbotOutbound } from "./outbound.js";
-import { monitorQQBotProvider, stopQQBotMonitor } from "./monitor.js";
+import { isQQBotMonitorActive, monitorQQBotProvider, stopQQBotMonitor } from "./monitor.js";
 import { setQQBotRuntime } from "./runtime.js";
 
-export const DEFAULT_ACCOUNT_ID = "default";
+export { DEFAULT_ACCOUNT_ID } from "./config.js";
 
 const meta = {
   id: "qqbot",
@@ -21,31 +27,80 @@ const meta = {
   order: 72,
 } as const;
 
-interface PluginConfig {
-  channels?: {
-    qqbot?: QQBotConfig;
-  };
-}
-
-function resolveQQBotAccount(params: {
-  cfg: PluginConfig;
-  accountId?: string;
-}): ResolvedQQBotAccount {
-  const { cfg, accountId = DEFAULT_ACCOUNT_ID } = params;
-  const qqCfg = cfg.channels?.qqbot;
-  const parsed = qqCfg ? QQBotConfigSchema.safeParse(qqCfg) : null;
-  const config = parsed?.success ? parsed.data : undefined;
-  const credentials = resolveQQBotCredentials(config);
-  const configured = Boolean(credentials);
-
-  return {
-    accountId,
-    enabled: config?.enabled ?? true,
-    configured,
-    appId: credentials?.appId,
-    markdownSupport: config?.markdownSupport ?? false,
-  };
-}
+const accountConfigProperties = {
+  name: { type: "string" },
+  enabled: { type: "boolean" },
+  appId: { type: "string" },
+  clientSecret: { type: "string" },
+  asr: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      enabled: { type: "boolean" },
+      appId: { type: "string" },
+      secretId: { type: "string" },
+      secretKey: { type: "string" },
+    },
+  },
+  markdownSupport: { type: "boolean" },
+  markdownTemplate: {
+    type: "object",
+    additionalProperties: false,
+    required: ["id"],
+    properties: {
+      id: { type: "string" },
+      param: { type: "string" },
+    },
+  },
+  keyboard: {
+    type: "object",
+    properties: {
+      id: { type: "string" },
+      content: { type: "object" },
+    },
+  },
+  dmPolicy: { type: "string", enum: ["open", "pairing", "allowlist"] },
+  groupPolicy: { type: "string", enum: ["open", "allowlist", "disabled"] },
+  requireMention: { type: "boolean" },
+  allowFrom: { type: "array", items: { type: "string" } },
+  groupAllowFrom: { type: "array", items: { type: "string" } },
+  groups: {
+    type: "object",
+    additionalProperties: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        requireMention: { type: "boolean" },
+        allowFrom: { type: "array", items: { type: "string" } },
+        agentId: { type: "string" },
+        systemPrompt: { type: "string" },
+      },
+    },
+  },
+  historyLimit: { type: "integer", minimum: 0 },
+  textChunkLimit: { type: "integer", minimum: 1 },
+  replyFinalOnly: { type: "boolean" },
+  workingIndicator: { type: "boolean" },
+  intents: {
+    type: "array",
+    items: {
+      type: "string",
+      enum: [
+        "GUILDS",
+        "GUILD_MEMBERS",
+        "GUILD_MESSAGES",
+        "GUILD_MESSAGE_REACTIONS",
+        "DIRECT_MESSAGE",
+        "GROUP_AND_C2C",
+        "INTERACTION",
+        "MESSAGE_AUDIT",
+        "PUBLIC_GUILD_MESSAGES",
+      ],
+    },
+  },
+  shardCount: { type: "integer", minimum: 1 },
+  persistSession: { type: "boolean" },
+};
 
 export const qqbotPlugin = {
   id: "qqbot",
@@ -124,28 +179,16 @@ export const qqbotPlugin = {
       type: "object",
       additionalProperties: false,
       properties: {
-        enabled: { type: "boolean" },
-        appId: { type: "string" },
-        clientSecret: { type: "string" },
-        asr: {
+        ...accountConfigProperties,
+        defaultAccount: { type: "string" },
+        accounts: {
           type: "object",
-          additionalProperties: false,
-          properties: {
-            enabled: { type: "boolean" },
-            appId: { type: "string" },
-            secretId: { type: "string" },
-            secretKey: { type: "string" },
+          additionalProperties: {
+            type: "object",
+            additionalProperties: false,
+            properties: accountConfigProperties,
           },
         },
-        markdownSupport: { type: "boolean" },
-        dmPolicy: { type: "string", enum: ["open", "pairing", "allowlist"] },
-        groupPolicy: { type: "string", enum: ["open", "allowlist", "disabled"] },
-        requireMention: { type: "boolean" },
-        allowFrom: { type: "array", items: { type: "string" } },
-        groupAllowFrom: { type: "array", items: { type: "string" } },
-        historyLimit: { type: "integer", minimum: 0 },
-        textChunkLimit: { type: "integer", minimum: 1 },
-        replyFinalOnly: { type: "boolean" },
       },
     },
   },
@@ -153,25 +196,58 @@ export const qqbotPlugin = {
   reload: { configPrefixes: ["channels.qqbot"] },
 
   config: {
-    listAccountIds: (_cfg: PluginConfig): string[] => [DEFAULT_ACCOUNT_ID],
+    listAccountIds: (cfg: PluginConfig): string[] => listQQBotAccountIds(cfg),
     resolveAccount: (cfg: PluginConfig, accountId?: string): ResolvedQQBotAccount =>
       resolveQQBotAccount({ cfg, accountId }),
-    defaultAccountId: (): string => DEFAULT_ACCOUNT_ID,
-    setAccountEnabled: (params: { cfg: PluginConfig; enabled: boolean }): PluginConfig => {
-      const existing = params.cfg.channels?.qqbot ?? {};
+    defaultAccountId: (cfg: PluginConfig): string => resolveDefaultQQBotAccountId(cfg),
+    setAccountEnabled: (params: { cfg: PluginConfig; accountId?: string; enabled: boolean }): PluginConfig => {
+      const accountId = params.accountId ?? DEFAULT_ACCOUNT_ID;
+      const existing: Partial<QQBotConfig> = params.cfg.channels?.qqbot ?? {};
+      if (!existing.accounts?.[accountId]) {
+        return {
+          ...params.cfg,
+          channels: {
+            ...params.cfg.channels,
+            qqbot: {
+              ...existing,
+              enabled: params.enabled,
+            } as QQBotConfig,
+          },
+        };
+      }
       return {
         ...params.cfg,
         channels: {
           ...params.cfg.channels,
           qqbot: {
             ...existing,
-            enabled: params.enabled,
+            accounts: {
+              ...existing.accounts,
+              [accountId]: {
+                ...existing.accounts[accountId],
+                enabled: params.enabled,
+              },
+            },
           } as QQBotConfig,
         },
       };
     },
-    deleteAccount: (params: { cfg: PluginConfig }): PluginConfig => {
+    deleteAccount: (params: { cfg: PluginConfig; accountId?: string }): PluginConfig => {
+      const accountId = params.accountId ?? DEFAULT_ACCOUNT_ID;
       const next = { ...params.cfg };
+      const current = params.cfg.channels?.qqbot;
+      if (current?.accounts?.[accountId]) {
+        const accounts = { ...current.accounts };
+        delete accounts[accountId];
+        next.channels = {
+          ...params.cfg.channels,
+          qqbot: {
+            ...current,
+            accounts: Object.keys(accounts).length > 0 ? accounts : undefined,
+          },
+        };
+        return next;
+      }
       const nextChannels = { ...params.cfg.channels };
       delete (nextChannels as Record<string, unknown>).qqbot;
       if (Object.keys(nextChannels).length > 0) {
@@ -181,15 +257,15 @@ export const qqbotPlugin = {
       }
       return next;
     },
-    isConfigured: (_account: ResolvedQQBotAccount, cfg: PluginConfig): boolean =>
-      isConfigured(cfg.channels?.qqbot),
+    isConfigured: (account: ResolvedQQBotAccount): boolean => account.configured,
     describeAccount: (account: ResolvedQQBotAccount) => ({
       accountId: account.accountId,
+      name: account.name,
       enabled: account.enabled,
       configured: account.configured,
     }),
-    resolveAllowFrom: (params: { cfg: PluginConfig }): string[] =>
-      params.cfg.channels?.qqbot?.allowFrom ?? [],
+    resolveAllowFrom: (params: { cfg: PluginConfig; accountId?: string }): string[] =>
+      resolveQQBotAccount({ cfg: params.cfg, accountId: params.accountId }).config?.allowFrom ?? [],
     formatAllowFrom: (params: { allowFrom: (string | number)[] }): string[] =>
       params.allowFrom
         .map((entry) => String(entry).trim())
@@ -198,8 +274,8 @@ export const qqbotPlugin = {
   },
 
   security: {
-    collectWarnings: (params: { cfg: PluginConfig }): string[] => {
-      const qqCfg = params.cfg.channels?.qqbot;
+    collectWarnings: (params: { cfg: PluginConfig; accountId?: string }): string[] => {
+      const qqCfg = resolveQQBotAccount({ cfg: params.cfg, accountId: params.accountId }).config;
       const groupPolicy = qqCfg?.groupPolicy ?? "allowlist";
       if (groupPolicy !== "open") return [];
       return [
@@ -209,7 +285,8 @@ export const qqbotPlugin = {
   },
 
   setup: {
-    resolveAccountId: (): string => DEFAULT_ACCOUNT_ID,
+    resolveAccountId: (params?: { accountId?: string }): string =>
+      params?.accountId?.trim() || DEFAULT_ACCOUNT_ID,
     applyAccountConfig: (params: { cfg: PluginConfig }): PluginConfig => {
       const existing = params.cfg.channels?.qqbot ?? {};
       return {
@@ -254,6 +331,20 @@ export const qqbotPlugin = {
         }
       }
 
+      const account = resolveQQBotAccount({ cfg: ctx.cfg, accountId: ctx.accountId });
+      if (!account.configured) {
+        ctx.log?.info(`[qqbot] account ${ctx.accountId} not configured; gateway not started`);
+        ctx.setStatus?.({ accountId: ctx.accountId, running: false, configured: false });
+        return;
+      }
+
+      ctx.setStatus?.({
+        accountId: ctx.accountId,
+        running: true,
+        configured: true,
+        lastStartAt: Date.now(),
+      });
+
       await monitorQQBotProvider({
         config: ctx.cfg,
         runtime:
@@ -265,9 +356,15 @@ export const qqbotPlugin = {
         accountId: ctx.accountId,
       });
     },
-    stopAccount: async (_ctx: { accountId: string }): Promise<void> => {
-      stopQQBotMonitor();
+    stopAccount: async (ctx: {
+      accountId: string;
+      setStatus?: (status: Record<string, unknown>) => void;
+    }): Promise<void> => {
+      stopQQBotMonitor(ctx.accountId);
+      ctx.setStatus?.({ accountId: ctx.accountId, running: false, lastStopAt: Date.now() });
     },
-    getStatus: () => ({ connected: true }),
+    getStatus: (ctx?: { accountId?: string }) => ({
+      connected: isQQBotMonitorActive(ctx?.accountId),
+    }),
   },
 };
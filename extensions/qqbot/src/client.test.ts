@@ -0,0 +1,84 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { acknowledgeInteraction, buildGuildMessageBody, buildMessageBody } from "./client.js";
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("buildMessageBody", () => {
+  it("builds template markdown with keyboard", () => {
+    const keyboard = { id: "kb-1" };
+    const body = buildMessageBody({
+      content: "ignored",
+      messageId: "msg-1",
+      markdownTemplate: { templateId: "tpl-1", params: { text: "hello", tags: ["a", "b"] } },
+      keyboard,
+    });
+
+    expect(body).toMatchObject({
+      msg_type: 2,
+      msg_id: "msg-1",
+      keyboard,
+      markdown: {
+        custom_template_id: "tpl-1",
+        params: [
+          { key: "text", values: ["hello"] },
+          { key: "tags", values: ["a", "b"] },
+        ],
+      },
+    });
+  });
+
+  it("replies to interactions by event id and drops keyboard for plain text", () => {
+    const body = buildMessageBody({
+      content: "hello",
+      eventId: "evt-1",
+      keyboard: { id: "kb-1" },
+    });
+
+    expect(body.event_id).toBe("evt-1");
+    expect(body.msg_id).toBeUndefined();
+    expect(body.msg_type).toBe(0);
+    expect(body.keyboard).toBeUndefined();
+  });
+});
+
+describe("acknowledgeInteraction", () => {
+  it("puts the result code to the interaction", async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      text: vi.fn().mockResolvedValue(""),
+    });
+    vi.stubGlobal("fetch", fetchMock as unknown as typeof fetch);
+
+    await acknowledgeInteraction({ accessToken: "token", interactionId: "evt-1" });
+
+    expect(fetchMock.mock.calls[0]?.[0]).toBe("https://api.sgroup.qq.com/interactions/evt-1");
+    expect(fetchMock.mock.calls[0]?.[1]).toMatchObject({
+      method: "PUT",
+      body: JSON.stringify({ code: 0 }),
+    });
+  });
+});
+
+describe("buildGuildMessageBody", () => {
+  it("includes image, embed and ark fields", () => {
+    const body = buildGuildMessageBody({
+      content: "hi <@123>",
+      messageId: "msg-1",
+      image: "https://example.com/a.png",
+      embed: { title: "标题", fields: [{ name: "字段" }] },
+      ark: { template_id: 23, kv: [{ key: "#DESC#", value: "描述" }] },
+    });
+
+    expect(body).toEqual({
+      content: "hi <@123>",
+      msg_id: "msg-1",
+      image: "https://example.com/a.png",
+      embed: { title: "标题", fields: [{ name: "字段" }] },
+      ark: { template_id: 23, kv: [{ key: "#DESC#", value: "描述" }] },
+    });
+  });
+});
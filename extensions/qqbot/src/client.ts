@@ -1,4 +1,5 @@
-import { httpGet, httpPost, type HttpRequestOptions } from "@openclaw-china/shared";
+import { HttpError, httpGet, httpPost, httpPut, type HttpRequestOptions } from "@openclaw-china/shared";
+import type { QQBotKeyboard } from "./types.js";
 
 const API_BASE = "https://api.sgroup.qq.com";
 const TOKEN_URL = "https://bots.qq.com/app/getAppAccessToken";
@@ -8,8 +9,9 @@ type TokenCache = {
   expiresAt: number;
 };
 
-let tokenCache: TokenCache | null = null;
-let tokenPromise: Promise<string> | null = null;
+// 按 appId 缓存，多个机器人互不覆盖
+const tokenCacheMap = new Map<string, TokenCache>();
+const tokenPromiseMap = new Map<string, Promise<string>>();
 
 const MSG_SEQ_BASE = Math.floor(Date.now() / 1000) % 100000000;
 const msgSeqMap = new Map<string, number>();
@@ -28,8 +30,17 @@ function nextMsgSeq(messageId?: string): number {
   return MSG_SEQ_BASE + next;
 }
 
-export function clearTokenCache(): void {
-  tokenCache = null;
+/**
+ * 清除 access token 缓存
+ *
+ * @param appId 指定 appId 时仅清除该机器人的缓存，否则清除全部
+ */
+export function clearTokenCache(appId?: string): void {
+  if (appId) {
+    tokenCacheMap.delete(appId);
+  } else {
+    tokenCacheMap.clear();
+  }
 }
 
 export async function getAccessToken(
@@ -37,15 +48,17 @@ export async function getAccessToken(
   clientSecret: string,
   options?: HttpRequestOptions
 ): Promise<string> {
-  if (tokenCache && Date.now() < tokenCache.expiresAt - 5 * 60 * 1000) {
-    return tokenCache.token;
+  const cached = tokenCacheMap.get(appId);
+  if (cached && Date.now() < cached.expiresAt - 5 * 60 * 1000) {
+    return cached.token;
   }
 
-  if (tokenPromise) {
-    return tokenPromise;
+  const pending = tokenPromiseMap.get(appId);
+  if (pending) {
+    return pending;
   }
 
-  tokenPromise = (async () => {
+  const tokenPromise = (async () => {
     try {
       const data = await httpPost<{ access_token?: string; expires_in?: number }>(
         TOKEN_URL,
@@ -57,16 +70,17 @@ export async function getAccessToken(
         throw new Error("access_token missing from QQ response");
       }
 
-      tokenCache = {
+      tokenCacheMap.set(appId, {
         token: data.access_token,
         expiresAt: Date.now() + (data.expires_in ?? 7200) * 1000,
-      };
-      return tokenCache.token;
+      });
+      return data.access_token;
     } finally {
-      tokenPromise = null;
+      tokenPromiseMap.delete(appId);
     }
   })();
 
+  tokenPromiseMap.set(appId, tokenPromise);
   return tokenPromise;
 }
 
@@ -101,82 +115,258 @@ async function apiPost<T>(
   });
 }
 
+async function apiPut<T>(
+  accessToken: string,
+  path: string,
+  body: unknown,
+  options?: HttpRequestOptions
+): Promise<T> {
+  const url = `${API_BASE}${path}`;
+  return httpPut<T>(url, body, {
+    ...options,
+    headers: {
+      Authorization: `QQBot ${accessToken}`,
+      ...options?.headers,
+    },
+  });
+}
+
 export async function getGatewayUrl(accessToken: string): Promise<string> {
   const data = await apiGet<{ url: string }>(accessToken, "/gateway", { timeout: 15000 });
   return data.url;
 }
 
-function buildMessageBody(params: {
+export interface QQGatewayBotInfo {
+  url: string;
+  /** 建议分片数 */
+  shards: number;
+  session_start_limit: {
+    total: number;
+    /** 剩余可新建会话（IDENTIFY）次数 */
+    remaining: number;
+    /** 距离限额重置的毫秒数 */
+    reset_after: number;
+    /** 每 5 秒最多可 IDENTIFY 的分片数 */
+    max_concurrency: number;
+  };
+}
+
+/**
+ * 获取带分片建议与会话限额的网关信息
+ */
+export async function getGatewayBotInfo(accessToken: string): Promise<QQGatewayBotInfo> {
+  return apiGet<QQGatewayBotInfo>(accessToken, "/gateway/bot", { timeout: 15000 });
+}
+
+/**
+ * 模板 markdown 参数
+ * params 的值会转换为 [{ key, values }]，单个字符串视为只有一个值
+ */
+export interface QQMarkdownTemplate {
+  templateId: string;
+  params: Record<string, string | string[]>;
+}
+
+export interface QQMessageOptions {
   content: string;
+  /** 被动回复的消息 ID */
   messageId?: string;
+  /** 被动回复的事件 ID（如按钮回调 INTERACTION_CREATE），与 messageId 二选一 */
+  eventId?: string;
   markdown?: boolean;
-}): Record<string, unknown> {
-  const msgSeq = nextMsgSeq(params.messageId);
-  const body: Record<string, unknown> = params.markdown
-    ? {
-        markdown: { content: params.content },
-        msg_type: 2,
-        msg_seq: msgSeq,
-      }
-    : {
-        content: params.content,
-        msg_type: 0,
-        msg_seq: msgSeq,
-      };
+  /** 设置后以模板 markdown 发送，忽略 content */
+  markdownTemplate?: QQMarkdownTemplate;
+  keyboard?: QQBotKeyboard;
+}
 
+export function buildMessageBody(params: QQMessageOptions): Record<string, unknown> {
+  const msgSeq = nextMsgSeq(params.messageId ?? params.eventId);
+  let body: Record<string, unknown>;
+  if (params.markdownTemplate) {
+    body = {
+      markdown: {
+        custom_template_id: params.markdownTemplate.templateId,
+        params: Object.entries(params.markdownTemplate.params).map(([key, value]) => ({
+          key,
+          values: Array.isArray(value) ? value : [value],
+        })),
+      },
+      msg_type: 2,
+      msg_seq: msgSeq,
+    };
+  } else if (params.markdown) {
+    body = {
+      markdown: { content: params.content },
+      msg_type: 2,
+      msg_seq: msgSeq,
+    };
+  } else {
+    body = {
+      content: params.content,
+      msg_type: 0,
+      msg_seq: msgSeq,
+    };
+  }
+
+  // 按钮仅随 markdown 消息下发
+  if (params.keyboard && body.msg_type === 2) {
+    body.keyboard = params.keyboard;
+  }
   if (params.messageId) {
     body.msg_id = params.messageId;
+  } else if (params.eventId) {
+    body.event_id = params.eventId;
   }
   return body;
 }
 
-export async function sendC2CMessage(params: {
-  accessToken: string;
-  openid: string;
-  content: string;
-  messageId?: string;
-  markdown?: boolean;
-}): Promise<{ id: string; timestamp: number | string }> {
-  const body = buildMessageBody({
-    content: params.content,
-    messageId: params.messageId,
-    markdown: params.markdown,
-  });
+export async function sendC2CMessage(
+  params: QQMessageOptions & {
+    accessToken: string;
+    openid: string;
+  }
+): Promise<{ id: string; timestamp: number | string }> {
+  const { accessToken: _token, openid: _openid, ...message } = params;
+  const body = buildMessageBody(message);
   return apiPost(params.accessToken, `/v2/users/${params.openid}/messages`, body, {
     timeout: 15000,
   });
 }
 
-export async function sendGroupMessage(params: {
-  accessToken: string;
-  groupOpenid: string;
-  content: string;
-  messageId?: string;
-  markdown?: boolean;
-}): Promise<{ id: string; timestamp: number | string }> {
-  const body = buildMessageBody({
-    content: params.content,
-    messageId: params.messageId,
-    markdown: params.markdown,
-  });
+export async function sendGroupMessage(
+  params: QQMessageOptions & {
+    accessToken: string;
+    groupOpenid: string;
+  }
+): Promise<{ id: string; timestamp: number | string }> {
+  const { accessToken: _token, groupOpenid: _groupOpenid, ...message } = params;
+  const body = buildMessageBody(message);
   return apiPost(params.accessToken, `/v2/groups/${params.groupOpenid}/messages`, body, {
     timeout: 15000,
   });
 }
 
-export async function sendChannelMessage(params: {
-  accessToken: string;
-  channelId: string;
-  content: string;
+/** 频道 embed 消息 */
+export interface QQEmbed {
+  title?: string;
+  /** 消息弹窗内容 */
+  prompt?: string;
+  thumbnail?: { url: string };
+  fields?: Array<{ name: string }>;
+}
+
+/** 频道 ark 模板消息 */
+export interface QQArk {
+  template_id: number;
+  kv: Array<{
+    key: string;
+    value?: string;
+    obj?: Array<{ obj_kv: Array<{ key: string; value: string }> }>;
+  }>;
+}
+
+/**
+ * 频道 / 频道私信消息（v1 接口，与单聊/群聊的 v2 消息体不同）
+ */
+export interface QQGuildMessageOptions {
+  content?: string;
   messageId?: string;
-}): Promise<{ id: string; timestamp: number | string }> {
-  const body: Record<string, unknown> = { content: params.content };
+  eventId?: string;
+  /** 公网图片 URL */
+  image?: string;
+  /** 本地图片，以 multipart 的 file_image 字段上传 */
+  fileImage?: { data: Buffer; fileName: string };
+  embed?: QQEmbed;
+  ark?: QQArk;
+}
+
+export function buildGuildMessageBody(params: QQGuildMessageOptions): Record<string, unknown> {
+  const body: Record<string, unknown> = {};
+  if (params.content) body.content = params.content;
+  if (params.image) body.image = params.image;
+  if (params.embed) body.embed = params.embed;
+  if (params.ark) body.ark = params.ark;
   if (params.messageId) {
     body.msg_id = params.messageId;
+  } else if (params.eventId) {
+    body.event_id = params.eventId;
   }
-  return apiPost(params.accessToken, `/channels/${params.channelId}/messages`, body, {
-    timeout: 15000,
-  });
+  return body;
+}
+
+async function postGuildMessage(
+  accessToken: string,
+  path: string,
+  params: QQGuildMessageOptions
+): Promise<{ id: string; timestamp: number | string }> {
+  const body = buildGuildMessageBody(params);
+  if (!params.fileImage) {
+    return apiPost(accessToken, path, body, { timeout: 15000 });
+  }
+
+  // 本地图片：multipart/form-data，对象字段需序列化为 JSON 字符串
+  const formData = new FormData();
+  for (const [key, value] of Object.entries(body)) {
+    formData.append(key, typeof value === "string" ? value : JSON.stringify(value));
+  }
+  formData.append("file_image", new Blob([params.fileImage.data]), params.fileImage.fileName);
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 30000);
+  try {
+    const response = await fetch(`${API_BASE}${path}`, {
+      method: "POST",
+      headers: { Authorization: `QQBot ${accessToken}` },
+      body: formData,
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      const responseBody = await response.text().catch(() => "");
+      throw new HttpError(`HTTP ${response.status}: ${response.statusText}`, response.status, responseBody);
+    }
+    return (await response.json()) as { id: string; timestamp: number | string };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+export async function sendChannelMessage(
+  params: QQGuildMessageOptions & {
+    accessToken: string;
+    channelId: string;
+  }
+): Promise<{ id: string; timestamp: number | string }> {
+  return postGuildMessage(params.accessToken, `/channels/${params.channelId}/messages`, params);
+}
+
+/**
+ * 频道私信：guildId 为 DIRECT_MESSAGE_CREATE 事件中的私信会话 guild_id
+ */
+export async function sendDmsMessage(
+  params: QQGuildMessageOptions & {
+    accessToken: string;
+    guildId: string;
+  }
+): Promise<{ id: string; timestamp: number | string }> {
+  return postGuildMessage(params.accessToken, `/dms/${params.guildId}/messages`, params);
+}
+
+/**
+ * 回应按钮回调（INTERACTION_CREATE），否则客户端会一直显示加载中
+ *
+ * code：0 成功 / 1 操作失败 / 2 操作频繁 / 3 重复操作 / 4 没有权限 / 5 仅管理员操作
+ */
+export async function acknowledgeInteraction(params: {
+  accessToken: string;
+  interactionId: string;
+  code?: number;
+}): Promise<void> {
+  await apiPut(
+    params.accessToken,
+    `/interactions/${params.interactionId}`,
+    { code: params.code ?? 0 },
+    { timeout: 15000 }
+  );
 }
 
 export async function sendC2CInputNotify(params: {
@@ -1,5 +1,12 @@
 import { describe, expect, it } from "vitest";
-import { QQBotConfigSchema, resolveQQBotASRCredentials } from "./config.js";
+import {
+  QQBotConfigSchema,
+  listQQBotAccountIds,
+  resolveDefaultQQBotAccountId,
+  resolveQQBotASRCredentials,
+  resolveQQBotAccount,
+  resolveQQBotIntents,
+} from "./config.js";
 
 describe("QQBotConfigSchema", () => {
   it("applies media defaults", () => {
@@ -8,6 +15,14 @@ describe("QQBotConfigSchema", () => {
     expect(cfg.mediaTimeoutMs).toBe(30000);
   });
 
+  it("resolves gateway intents", () => {
+    expect(resolveQQBotIntents(QQBotConfigSchema.parse({}))).toBe((1 << 30) | (1 << 12) | (1 << 25) | (1 << 26));
+    expect(
+      resolveQQBotIntents(QQBotConfigSchema.parse({ intents: ["PUBLIC_GUILD_MESSAGES", "GUILD_MEMBERS"] }))
+    ).toBe((1 << 30) | (1 << 1));
+    expect(() => QQBotConfigSchema.parse({ intents: ["UNKNOWN"] })).toThrow();
+  });
+
   it("rejects invalid media constraints", () => {
     expect(() => QQBotConfigSchema.parse({ maxFileSizeMB: 0 })).toThrow();
     expect(() => QQBotConfigSchema.parse({ mediaTimeoutMs: 0 })).toThrow();
@@ -48,3 +63,39 @@ describe("QQBotConfigSchema", () => {
     });
   });
 });
+
+describe("QQBot multi-account", () => {
+  const cfg = {
+    channels: {
+      qqbot: QQBotConfigSchema.parse({
+        appId: "prod-app",
+        clientSecret: "prod-secret",
+        markdownSupport: true,
+        defaultAccount: "prod",
+        accounts: {
+          prod: { name: "Production" },
+          test: { appId: 10001, clientSecret: "test-secret", markdownSupport: false },
+        },
+      }),
+    },
+  };
+
+  it("lists configured accounts and the default one", () => {
+    expect(listQQBotAccountIds(cfg)).toEqual(["prod", "test"]);
+    expect(resolveDefaultQQBotAccountId(cfg)).toBe("prod");
+    expect(listQQBotAccountIds({})).toEqual(["default"]);
+  });
+
+  it("merges account fields over top-level config", () => {
+    const prod = resolveQQBotAccount({ cfg, accountId: "prod" });
+    expect(prod.name).toBe("Production");
+    expect(prod.appId).toBe("prod-app");
+    expect(prod.markdownSupport).toBe(true);
+
+    const test = resolveQQBotAccount({ cfg, accountId: "test" });
+    expect(test.appId).toBe("10001");
+    expect(test.config?.clientSecret).toBe("test-secret");
+    expect(test.markdownSupport).toBe(false);
+    expect(test.configured).toBe(true);
+  });
+});
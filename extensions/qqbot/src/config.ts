@@ -1,4 +1,7 @@
 import { z } from "zod";
+import type { ResolvedQQBotAccount } from "./types.js";
+
+export const DEFAULT_ACCOUNT_ID = "default";
 
 const optionalCoercedString = z.preprocess(
   (value) => {
@@ -9,7 +12,82 @@ const optionalCoercedString = z.preprocess(
   z.string().min(1).optional()
 );
 
-export const QQBotConfigSchema = z.object({
+/**
+ * 网关事件订阅（intents）
+ * PUBLIC_GUILD_MESSAGES 为公域 @机器人 消息，GUILD_MESSAGES 为私域全量消息
+ */
+export const QQBOT_INTENTS = {
+  GUILDS: 1 << 0,
+  GUILD_MEMBERS: 1 << 1,
+  GUILD_MESSAGES: 1 << 9,
+  GUILD_MESSAGE_REACTIONS: 1 << 10,
+  DIRECT_MESSAGE: 1 << 12,
+  GROUP_AND_C2C: 1 << 25,
+  INTERACTION: 1 << 26,
+  MESSAGE_AUDIT: 1 << 27,
+  PUBLIC_GUILD_MESSAGES: 1 << 30,
+} as const;
+
+export type QQBotIntentName = keyof typeof QQBOT_INTENTS;
+
+export const DEFAULT_QQBOT_INTENTS: QQBotIntentName[] = [
+  "PUBLIC_GUILD_MESSAGES",
+  "DIRECT_MESSAGE",
+  "GROUP_AND_C2C",
+  "INTERACTION",
+];
+
+const INTENT_NAMES = Object.keys(QQBOT_INTENTS) as [QQBotIntentName, ...QQBotIntentName[]];
+
+/** 按群覆盖配置（groups.<会话 ID>，"*" 为所有群默认值） */
+const QQBotGroupConfigSchema = z.object({
+  requireMention: z.boolean().optional(),
+  allowFrom: z.array(z.string()).optional(),
+  agentId: z.string().optional(),
+  systemPrompt: z.string().optional(),
+});
+
+/** 模板 markdown：模板 ID + 承载正文的参数名 */
+const QQBotMarkdownTemplateSchema = z.object({
+  id: z.string().min(1),
+  param: z.string().min(1).optional().default("text"),
+});
+
+/** 消息按钮（QQ 开放平台 keyboard.content.rows[].buttons[]） */
+const QQBotKeyboardButtonSchema = z.object({
+  id: z.string().optional(),
+  render_data: z.object({
+    label: z.string(),
+    visited_label: z.string(),
+    style: z.number().int().optional(),
+  }),
+  action: z.object({
+    /** 0 跳转链接 / 1 回调 / 2 指令 */
+    type: z.number().int(),
+    permission: z.object({
+      type: z.number().int(),
+      specify_user_ids: z.array(z.string()).optional(),
+      specify_role_ids: z.array(z.string()).optional(),
+    }),
+    data: z.string(),
+    enter: z.boolean().optional(),
+    reply: z.boolean().optional(),
+    unsupport_tips: z.string().optional(),
+  }),
+});
+
+/** 消息键盘：引用已申请的模板 ID，或直接给出自定义按钮 */
+export const QQBotKeyboardSchema = z.union([
+  z.object({ id: z.string().min(1) }),
+  z.object({
+    content: z.object({
+      rows: z.array(z.object({ buttons: z.array(QQBotKeyboardButtonSchema) })),
+    }),
+  }),
+]);
+
+const QQBotAccountSchema = z.object({
+  name: z.string().optional(),
   enabled: z.boolean().optional().default(true),
   appId: optionalCoercedString,
   clientSecret: optionalCoercedString,
@@ -22,19 +100,42 @@ export const QQBotConfigSchema = z.object({
     })
     .optional(),
   markdownSupport: z.boolean().optional().default(false),
+  markdownTemplate: QQBotMarkdownTemplateSchema.optional(),
+  keyboard: QQBotKeyboardSchema.optional(),
   dmPolicy: z.enum(["open", "pairing", "allowlist"]).optional().default("open"),
   groupPolicy: z.enum(["open", "allowlist", "disabled"]).optional().default("open"),
   requireMention: z.boolean().optional().default(true),
   allowFrom: z.array(z.string()).optional(),
   groupAllowFrom: z.array(z.string()).optional(),
+  groups: z.record(QQBotGroupConfigSchema).optional(),
   historyLimit: z.number().int().min(0).optional().default(10),
   textChunkLimit: z.number().int().positive().optional().default(1500),
   replyFinalOnly: z.boolean().optional().default(false),
+  workingIndicator: z.boolean().optional().default(true),
   maxFileSizeMB: z.number().positive().optional().default(100),
   mediaTimeoutMs: z.number().int().positive().optional().default(30000),
+  intents: z.array(z.enum(INTENT_NAMES)).optional(),
+  /** 分片数，不设置时使用 /gateway/bot 建议值 */
+  shardCount: z.number().int().positive().optional(),
+  persistSession: z.boolean().optional().default(true),
+});
+
+export const QQBotAccountConfigSchema = QQBotAccountSchema.partial();
+
+export const QQBotConfigSchema = QQBotAccountSchema.extend({
+  defaultAccount: z.string().optional(),
+  accounts: z.record(QQBotAccountConfigSchema).optional(),
 });
 
 export type QQBotConfig = z.infer<typeof QQBotConfigSchema>;
+export type QQBotAccountConfig = z.infer<typeof QQBotAccountConfigSchema>;
+export type QQBotKeyboard = z.infer<typeof QQBotKeyboardSchema>;
+
+export interface PluginConfig {
+  channels?: {
+    qqbot?: QQBotConfig;
+  };
+}
 
 export function isConfigured(config: QQBotConfig | undefined): boolean {
   return Boolean(config?.appId && config?.clientSecret);
@@ -47,6 +148,14 @@ export function resolveQQBotCredentials(
   return { appId: config.appId, clientSecret: config.clientSecret };
 }
 
+/**
+ * 计算 IDENTIFY 使用的 intents 位掩码
+ */
+export function resolveQQBotIntents(config: QQBotConfig | undefined): number {
+  const names = config?.intents?.length ? config.intents : DEFAULT_QQBOT_INTENTS;
+  return names.reduce((mask, name) => mask | QQBOT_INTENTS[name], 0);
+}
+
 export function resolveQQBotASRCredentials(
   config: QQBotConfig | undefined
 ): { appId: string; secretId: string; secretKey: string } | undefined {
@@ -59,3 +168,63 @@ export function resolveQQBotASRCredentials(
     secretKey: asr.secretKey,
   };
 }
+
+export function normalizeAccountId(raw?: string | null): string {
+  const trimmed = String(raw ?? "").trim();
+  return trimmed || DEFAULT_ACCOUNT_ID;
+}
+
+function listConfiguredAccountIds(cfg: PluginConfig): string[] {
+  const accounts = cfg.channels?.qqbot?.accounts;
+  if (!accounts || typeof accounts !== "object") return [];
+  return Object.keys(accounts).filter(Boolean);
+}
+
+export function listQQBotAccountIds(cfg: PluginConfig): string[] {
+  const ids = listConfiguredAccountIds(cfg);
+  if (ids.length === 0) return [DEFAULT_ACCOUNT_ID];
+  return ids.sort((a, b) => a.localeCompare(b));
+}
+
+export function resolveDefaultQQBotAccountId(cfg: PluginConfig): string {
+  const qqCfg = cfg.channels?.qqbot;
+  if (qqCfg?.defaultAccount?.trim()) return qqCfg.defaultAccount.trim();
+  const ids = listQQBotAccountIds(cfg);
+  if (ids.includes(DEFAULT_ACCOUNT_ID)) return DEFAULT_ACCOUNT_ID;
+  return ids[0] ?? DEFAULT_ACCOUNT_ID;
+}
+
+/**
+ * 合并顶层配置与 accounts.<accountId>，账户字段优先
+ */
+export function mergeQQBotAccountConfig(
+  cfg: PluginConfig,
+  accountId: string
+): QQBotConfig | undefined {
+  const base = cfg.channels?.qqbot;
+  if (!base) return undefined;
+  const { accounts, defaultAccount: _ignored, ...baseConfig } = base;
+  const account = accounts?.[accountId] ?? {};
+  const parsed = QQBotConfigSchema.safeParse({ ...baseConfig, ...account });
+  return parsed.success ? parsed.data : undefined;
+}
+
+export function resolveQQBotAccount(params: {
+  cfg: PluginConfig;
+  accountId?: string | null;
+}): ResolvedQQBotAccount {
+  const accountId = normalizeAccountId(params.accountId);
+  const baseEnabled = params.cfg.channels?.qqbot?.enabled !== false;
+  const config = mergeQQBotAccountConfig(params.cfg, accountId);
+  const credentials = resolveQQBotCredentials(config);
+
+  return {
+    accountId,
+    name: config?.name?.trim() || undefined,
+    enabled: baseEnabled && config?.enabled !== false,
+    configured: Boolean(credentials),
+    appId: credentials?.appId,
+    markdownSupport: config?.markdownSupport ?? false,
+    config,
+  };
+}
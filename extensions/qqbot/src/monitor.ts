@@ -1,12 +1,16 @@
 /**
  * QQ Bot WebSocket 网关连接管理
+ *
+ * - 分片数取 shardCount 配置或 /gateway/bot 建议值，按 max_concurrency 分批 IDENTIFY
+ * - 会话（session_id / 序号）按分片落盘，重启后优先 RESUME
  */
 
 import WebSocket from "ws";
 import { createLogger, type Logger } from "./logger.js";
 import { handleQQBotDispatch } from "./bot.js";
-import { QQBotConfigSchema } from "./config.js";
-import { clearTokenCache, getAccessToken, getGatewayUrl } from "./client.js";
+import { DEFAULT_ACCOUNT_ID, resolveQQBotAccount, resolveQQBotIntents } from "./config.js";
+import { clearTokenCache, getAccessToken, getGatewayBotInfo } from "./client.js";
+import { clearQQBotSession, loadQQBotSession, saveQQBotSession } from "./session-store.js";
 import type { QQBotConfig } from "./types.js";
 
 export interface MonitorQQBotOpts {
@@ -30,92 +34,79 @@ type GatewayPayload = {
   d?: unknown;
 };
 
-const INTENTS = {
-  GUILD_MESSAGES: 1 << 30,
-  DIRECT_MESSAGE: 1 << 12,
-  GROUP_AND_C2C: 1 << 25,
-};
+const RECONNECT_DELAYS_MS = [1000, 2000, 5000, 10000, 20000, 30000];
 
-const DEFAULT_INTENTS =
-  INTENTS.GUILD_MESSAGES | INTENTS.DIRECT_MESSAGE | INTENTS.GROUP_AND_C2C;
+/** 每批（max_concurrency 个分片）IDENTIFY 的间隔 */
+const IDENTIFY_WINDOW_MS = 5000;
 
-const RECONNECT_DELAYS_MS = [1000, 2000, 5000, 10000, 20000, 30000];
+/** 序号落盘的最小间隔，避免每条事件都写文件 */
+const SESSION_PERSIST_INTERVAL_MS = 2000;
 
-let activeSocket: WebSocket | null = null;
-let activeAccountId: string | null = null;
-let activePromise: Promise<void> | null = null;
-let activeStop: (() => void) | null = null;
+type QQBotMonitorInstance = {
+  promise: Promise<void> | null;
+  stop: (() => void) | null;
+};
 
-export async function monitorQQBotProvider(opts: MonitorQQBotOpts = {}): Promise<void> {
-  const { config, runtime, abortSignal, accountId = "default" } = opts;
-  const logger = createLogger("qqbot", {
-    log: runtime?.log,
-    error: runtime?.error,
-  });
+type QQBotShard = {
+  start: (delayMs: number) => void;
+  stop: () => void;
+};
 
-  if (activeSocket) {
-    if (activeAccountId && activeAccountId !== accountId) {
-      throw new Error(`QQBot already running for account ${activeAccountId}`);
-    }
-    if (activePromise) {
-      return activePromise;
+// 每个账户独立的连接状态 (accountId -> instance)
+const monitors = new Map<string, QQBotMonitorInstance>();
+
+export async function monitorQQBotProvider(opts: MonitorQQBotOpts = {}): Promise<void> {
+  const { config, runtime, abortSignal } = opts;
+  const account = resolveQQBotAccount({ cfg: config ?? {}, accountId: opts.accountId });
+  const accountId = account.accountId;
+  const loggerName = accountId === DEFAULT_ACCOUNT_ID ? "qqbot" : `qqbot:${accountId}`;
+  const loggerOptions = { log: runtime?.log, error: runtime?.error };
+  const logger = createLogger(loggerName, loggerOptions);
+
+  const existing = monitors.get(accountId);
+  if (existing) {
+    if (existing.promise) {
+      return existing.promise;
     }
-    throw new Error("QQBot monitor state invalid: active socket without promise");
+    throw new Error("QQBot monitor state invalid: active instance without promise");
   }
 
-  const rawCfg = config?.channels?.qqbot;
-  const parsed = rawCfg ? QQBotConfigSchema.safeParse(rawCfg) : null;
-  const qqCfg = parsed?.success ? parsed.data : rawCfg;
+  const qqCfg = account.config;
   if (!qqCfg) {
-    throw new Error("QQBot configuration not found");
+    throw new Error(`QQBot configuration not found for account ${accountId}`);
   }
 
   if (!qqCfg.appId || !qqCfg.clientSecret) {
     throw new Error("QQBot not configured (missing appId or clientSecret)");
   }
 
-  activePromise = new Promise<void>((resolve, reject) => {
-    let stopped = false;
-    let reconnectAttempt = 0;
-    let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
-    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
-    let sessionId: string | null = null;
-    let lastSeq: number | null = null;
-    let connecting = false;
-
-    const clearTimers = () => {
-      if (heartbeatTimer) {
-        clearInterval(heartbeatTimer);
-        heartbeatTimer = null;
-      }
-      if (reconnectTimer) {
-        clearTimeout(reconnectTimer);
-        reconnectTimer = null;
-      }
-    };
+  const appId = qqCfg.appId;
+  const clientSecret = qqCfg.clientSecret;
+  const intents = resolveQQBotIntents(qqCfg);
+  const persistSession = qqCfg.persistSession !== false;
+  const instance: QQBotMonitorInstance = { promise: null, stop: null };
+  monitors.set(accountId, instance);
 
-    const cleanupSocket = () => {
-      clearTimers();
-      if (activeSocket) {
-        try {
-          if (activeSocket.readyState === WebSocket.OPEN) {
-            activeSocket.close();
-          }
-        } catch {
-          // ignore
-        }
-      }
-      activeSocket = null;
-    };
+  instance.promise = new Promise<void>((resolve, reject) => {
+    let stopped = false;
+    let startAttempt = 0;
+    let startTimer: ReturnType<typeof setTimeout> | null = null;
+    const shards: QQBotShard[] = [];
 
     const finish = (err?: unknown) => {
       if (stopped) return;
       stopped = true;
       abortSignal?.removeEventListener("abort", onAbort);
-      cleanupSocket();
-      activeAccountId = null;
-      activePromise = null;
-      activeStop = null;
+      if (startTimer) {
+        clearTimeout(startTimer);
+        startTimer = null;
+      }
+      for (const shard of shards) {
+        shard.stop();
+      }
+      if (monitors.get(accountId) === instance) {
+        monitors.delete(accountId);
+      }
       if (err) {
         reject(err);
       } else {
@@ -128,172 +119,313 @@ export async function monitorQQBotProvider(opts: MonitorQQBotOpts = {}): Promise
       finish();
     };
 
-    activeStop = () => {
+    instance.stop = () => {
       logger.info("stop requested");
       finish();
     };
 
-    const scheduleReconnect = (reason: string) => {
-      if (stopped) return;
-      if (reconnectTimer) return;
-      const delay =
-        RECONNECT_DELAYS_MS[Math.min(reconnectAttempt, RECONNECT_DELAYS_MS.length - 1)];
-      reconnectAttempt += 1;
-      logger.warn(`[reconnect] ${reason}; retry in ${delay}ms`);
-      reconnectTimer = setTimeout(() => {
-        reconnectTimer = null;
-        void connect();
-      }, delay);
-    };
-
-    const startHeartbeat = (intervalMs: number) => {
-      if (heartbeatTimer) {
-        clearInterval(heartbeatTimer);
+    const createShard = (shardId: number, shardCount: number, shardLogger: Logger): QQBotShard => {
+      const sessionKey = { appId, shardId, shardCount };
+      const saved = persistSession ? loadQQBotSession({ ...sessionKey, intents }) : undefined;
+
+      let closed = false;
+      let socket: WebSocket | null = null;
+      let reconnectAttempt = 0;
+      let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+      let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+      let persistTimer: ReturnType<typeof setTimeout> | null = null;
+      let lastPersistAt = 0;
+      let sessionId: string | null = saved?.sessionId ?? null;
+      let lastSeq: number | null = saved?.lastSeq ?? null;
+      let connecting = false;
+
+      if (saved) {
+        shardLogger.info(`restored session ${saved.sessionId} (seq=${saved.lastSeq}), will try RESUME`);
       }
-      heartbeatTimer = setInterval(() => {
-        if (!activeSocket || activeSocket.readyState !== WebSocket.OPEN) return;
-        const payload = JSON.stringify({ op: 1, d: lastSeq });
-        activeSocket.send(payload);
-      }, intervalMs);
-    };
 
-    const sendIdentify = (token: string) => {
-      if (!activeSocket || activeSocket.readyState !== WebSocket.OPEN) return;
-      const payload = {
-        op: 2,
-        d: {
-          token: `QQBot ${token}`,
-          intents: DEFAULT_INTENTS,
-          shard: [0, 1],
-        },
+      const writeSession = () => {
+        if (!sessionId || typeof lastSeq !== "number") return;
+        lastPersistAt = Date.now();
+        try {
+          saveQQBotSession(sessionKey, { sessionId, lastSeq, intents, updatedAt: lastPersistAt });
+        } catch (err) {
+          shardLogger.warn(`failed to persist session: ${String(err)}`);
+        }
       };
-      activeSocket.send(JSON.stringify(payload));
-    };
 
-    const sendResume = (token: string, session: string, seq: number) => {
-      if (!activeSocket || activeSocket.readyState !== WebSocket.OPEN) return;
-      const payload = {
-        op: 6,
-        d: {
-          token: `QQBot ${token}`,
-          session_id: session,
-          seq,
-        },
+      const persist = (force = false) => {
+        if (!persistSession) return;
+        if (persistTimer) {
+          if (!force) return;
+          clearTimeout(persistTimer);
+          persistTimer = null;
+        }
+        const wait = SESSION_PERSIST_INTERVAL_MS - (Date.now() - lastPersistAt);
+        if (force || wait <= 0) {
+          writeSession();
+          return;
+        }
+        persistTimer = setTimeout(() => {
+          persistTimer = null;
+          writeSession();
+        }, wait);
       };
-      activeSocket.send(JSON.stringify(payload));
-    };
 
-    const handleGatewayPayload = async (payload: GatewayPayload) => {
-      if (typeof payload.s === "number") {
-        lastSeq = payload.s;
-      }
+      const resetSession = () => {
+        sessionId = null;
+        lastSeq = null;
+        if (persistTimer) {
+          clearTimeout(persistTimer);
+          persistTimer = null;
+        }
+        if (!persistSession) return;
+        try {
+          clearQQBotSession(sessionKey);
+        } catch (err) {
+          shardLogger.warn(`failed to clear session: ${String(err)}`);
+        }
+      };
 
-      switch (payload.op) {
-        case 10: {
-          const hello = payload.d as { heartbeat_interval?: number } | undefined;
-          const interval = hello?.heartbeat_interval ?? 30000;
-          startHeartbeat(interval);
-
-          const token = await getAccessToken(qqCfg.appId as string, qqCfg.clientSecret as string);
-          if (sessionId && typeof lastSeq === "number") {
-            sendResume(token, sessionId, lastSeq);
-          } else {
-            sendIdentify(token);
+      const clearTimers = () => {
+        if (heartbeatTimer) {
+          clearInterval(heartbeatTimer);
+          heartbeatTimer = null;
+        }
+        if (reconnectTimer) {
+          clearTimeout(reconnectTimer);
+          reconnectTimer = null;
+        }
+      };
+
+      const cleanupSocket = () => {
+        clearTimers();
+        if (socket) {
+          try {
+            if (socket.readyState === WebSocket.OPEN) {
+              socket.close();
+            }
+          } catch {
+            // ignore
           }
-          return;
         }
-        case 11:
-          return;
-        case 7:
-          cleanupSocket();
-          scheduleReconnect("server requested reconnect");
-          return;
-        case 9:
-          sessionId = null;
-          lastSeq = null;
-          clearTokenCache();
-          cleanupSocket();
-          scheduleReconnect("invalid session");
-          return;
-        case 0: {
-          const eventType = payload.t ?? "";
-          if (eventType === "READY") {
-            const ready = payload.d as { session_id?: string } | undefined;
-            if (ready?.session_id) {
-              sessionId = ready.session_id;
+        socket = null;
+      };
+
+      const scheduleReconnect = (reason: string, delayMs?: number) => {
+        if (closed) return;
+        if (reconnectTimer) return;
+        const delay =
+          delayMs ?? RECONNECT_DELAYS_MS[Math.min(reconnectAttempt, RECONNECT_DELAYS_MS.length - 1)];
+        reconnectAttempt += 1;
+        shardLogger.warn(`[reconnect] ${reason}; retry in ${delay}ms`);
+        reconnectTimer = setTimeout(() => {
+          reconnectTimer = null;
+          void connect();
+        }, delay);
+      };
+
+      const startHeartbeat = (intervalMs: number) => {
+        if (heartbeatTimer) {
+          clearInterval(heartbeatTimer);
+        }
+        heartbeatTimer = setInterval(() => {
+          if (!socket || socket.readyState !== WebSocket.OPEN) return;
+          socket.send(JSON.stringify({ op: 1, d: lastSeq }));
+        }, intervalMs);
+      };
+
+      const sendIdentify = (token: string) => {
+        if (!socket || socket.readyState !== WebSocket.OPEN) return;
+        const payload = {
+          op: 2,
+          d: {
+            token: `QQBot ${token}`,
+            intents,
+            shard: [shardId, shardCount],
+          },
+        };
+        socket.send(JSON.stringify(payload));
+      };
+
+      const sendResume = (token: string, session: string, seq: number) => {
+        if (!socket || socket.readyState !== WebSocket.OPEN) return;
+        const payload = {
+          op: 6,
+          d: {
+            token: `QQBot ${token}`,
+            session_id: session,
+            seq,
+          },
+        };
+        socket.send(JSON.stringify(payload));
+      };
+
+      const handleGatewayPayload = async (payload: GatewayPayload) => {
+        if (typeof payload.s === "number") {
+          lastSeq = payload.s;
+          persist();
+        }
+
+        switch (payload.op) {
+          case 10: {
+            const hello = payload.d as { heartbeat_interval?: number } | undefined;
+            const interval = hello?.heartbeat_interval ?? 30000;
+            startHeartbeat(interval);
+
+            const token = await getAccessToken(appId, clientSecret);
+            if (sessionId && typeof lastSeq === "number") {
+              sendResume(token, sessionId, lastSeq);
+            } else {
+              sendIdentify(token);
             }
-            reconnectAttempt = 0;
-            logger.info("gateway ready");
             return;
           }
-          if (eventType === "RESUMED") {
-            reconnectAttempt = 0;
-            logger.info("gateway resumed");
+          case 11:
+            return;
+          case 7:
+            cleanupSocket();
+            scheduleReconnect("server requested reconnect");
+            return;
+          case 9:
+            resetSession();
+            clearTokenCache(appId);
+            cleanupSocket();
+            scheduleReconnect("invalid session");
+            return;
+          case 0: {
+            const eventType = payload.t ?? "";
+            if (eventType === "READY") {
+              const ready = payload.d as { session_id?: string } | undefined;
+              if (ready?.session_id) {
+                sessionId = ready.session_id;
+                persist(true);
+              }
+              reconnectAttempt = 0;
+              shardLogger.info("gateway ready");
+              return;
+            }
+            if (eventType === "RESUMED") {
+              reconnectAttempt = 0;
+              shardLogger.info("gateway resumed");
+              return;
+            }
+            if (eventType) {
+              await handleQQBotDispatch({
+                eventType,
+                eventData: payload.d,
+                cfg: opts.config,
+                accountId,
+                logger: shardLogger,
+              });
+            }
             return;
           }
-          if (eventType) {
-            await handleQQBotDispatch({
-              eventType,
-              eventData: payload.d,
-              cfg: opts.config,
-              accountId,
-              logger,
-            });
-          }
-          return;
+          default:
+            return;
         }
-        default:
-          return;
-      }
-    };
+      };
 
-    const connect = async () => {
-      if (stopped || connecting) return;
-      connecting = true;
+      const connect = async () => {
+        if (closed || connecting) return;
+        connecting = true;
 
-      try {
-        cleanupSocket();
-        const token = await getAccessToken(qqCfg.appId as string, qqCfg.clientSecret as string);
-        const gatewayUrl = await getGatewayUrl(token);
-        logger.info(`connecting gateway: ${gatewayUrl}`);
-
-        const ws = new WebSocket(gatewayUrl);
-        activeSocket = ws;
-        activeAccountId = accountId;
-
-        ws.on("open", () => {
-          logger.info("gateway socket opened");
-        });
-
-        ws.on("message", (data) => {
-          const raw = typeof data === "string" ? data : data.toString();
-          let payload: GatewayPayload;
-          try {
-            payload = JSON.parse(raw) as GatewayPayload;
-          } catch (err) {
-            logger.warn(`failed to parse gateway payload: ${String(err)}`);
+        try {
+          cleanupSocket();
+          const token = await getAccessToken(appId, clientSecret);
+          const gateway = await getGatewayBotInfo(token);
+          // 无可恢复会话时需要 IDENTIFY，会消耗 session_start_limit
+          const limit = gateway.session_start_limit;
+          if (!sessionId && limit && limit.remaining <= 0) {
+            scheduleReconnect("session start limit exhausted", Math.max(limit.reset_after, 1000));
             return;
           }
-          void handleGatewayPayload(payload).catch((err) => {
-            logger.error(`gateway dispatch error: ${String(err)}`);
+          if (closed) return;
+          shardLogger.info(`connecting gateway: ${gateway.url}`);
+
+          const ws = new WebSocket(gateway.url);
+          socket = ws;
+
+          ws.on("open", () => {
+            shardLogger.info("gateway socket opened");
+          });
+
+          ws.on("message", (data) => {
+            const raw = typeof data === "string" ? data : data.toString();
+            let payload: GatewayPayload;
+            try {
+              payload = JSON.parse(raw) as GatewayPayload;
+            } catch (err) {
+              shardLogger.warn(`failed to parse gateway payload: ${String(err)}`);
+              return;
+            }
+            void handleGatewayPayload(payload).catch((err) => {
+              shardLogger.error(`gateway dispatch error: ${String(err)}`);
+            });
+          });
+
+          ws.on("close", (code, reason) => {
+            if (socket !== ws) return;
+            shardLogger.warn(`gateway socket closed (${code}) ${String(reason)}`);
+            cleanupSocket();
+            scheduleReconnect("socket closed");
           });
-        });
 
-        ws.on("close", (code, reason) => {
-          logger.warn(`gateway socket closed (${code}) ${String(reason)}`);
+          ws.on("error", (err) => {
+            shardLogger.error(`gateway socket error: ${String(err)}`);
+          });
+        } catch (err) {
+          shardLogger.error(`gateway connect failed: ${String(err)}`);
           cleanupSocket();
-          scheduleReconnect("socket closed");
-        });
+          scheduleReconnect("connect failed");
+        } finally {
+          connecting = false;
+        }
+      };
 
-        ws.on("error", (err) => {
-          logger.error(`gateway socket error: ${String(err)}`);
-        });
+      return {
+        start: (delayMs: number) => {
+          if (delayMs <= 0) {
+            void connect();
+            return;
+          }
+          reconnectTimer = setTimeout(() => {
+            reconnectTimer = null;
+            void connect();
+          }, delayMs);
+        },
+        stop: () => {
+          if (closed) return;
+          // 先落盘最新序号，便于重启后 RESUME
+          persist(true);
+          closed = true;
+          cleanupSocket();
+        },
+      };
+    };
+
+    const start = async () => {
+      try {
+        const token = await getAccessToken(appId, clientSecret);
+        const gateway = await getGatewayBotInfo(token);
+        if (stopped) return;
+        const shardCount = qqCfg.shardCount ?? Math.max(1, gateway.shards || 1);
+        const maxConcurrency = Math.max(1, gateway.session_start_limit?.max_concurrency ?? 1);
+        logger.info(`starting ${shardCount} shard(s), intents=${intents}`);
+        for (let shardId = 0; shardId < shardCount; shardId += 1) {
+          const shardLogger =
+            shardCount > 1 ? createLogger(`${loggerName}#${shardId}`, loggerOptions) : logger;
+          const shard = createShard(shardId, shardCount, shardLogger);
+          shards.push(shard);
+          shard.start(Math.floor(shardId / maxConcurrency) * IDENTIFY_WINDOW_MS);
+        }
       } catch (err) {
-        logger.error(`gateway connect failed: ${String(err)}`);
-        cleanupSocket();
-        scheduleReconnect("connect failed");
-      } finally {
-        connecting = false;
+        const delay = RECONNECT_DELAYS_MS[Math.min(startAttempt, RECONNECT_DELAYS_MS.length - 1)];
+        startAttempt += 1;
+        logger.error(`gateway start failed: ${String(err)}; retry in ${delay}ms`);
+        startTimer = setTimeout(() => {
+          startTimer = null;
+          void start();
+        }, delay);
       }
     };
 
@@ -303,30 +435,30 @@ export async function monitorQQBotProvider(opts: MonitorQQBotOpts = {}): Promise
     }
 
     abortSignal?.addEventListener("abort", onAbort, { once: true });
-    void connect();
+    void start();
   });
 
-  return activePromise;
+  return instance.promise;
 }
 
-export function stopQQBotMonitor(): void {
-  if (activeStop) {
-    activeStop();
-    return;
-  }
-  if (activeSocket) {
-    try {
-      activeSocket.close();
-    } catch {
-      // ignore
+/**
+ * 停止 QQ Bot 网关连接
+ *
+ * @param accountId 账户 ID；不传时停止所有账户
+ */
+export function stopQQBotMonitor(accountId?: string): void {
+  const targets = accountId ? [accountId] : Array.from(monitors.keys());
+  for (const id of targets) {
+    const instance = monitors.get(id);
+    if (!instance) continue;
+    if (instance.stop) {
+      instance.stop();
+      continue;
     }
-    activeSocket = null;
-    activeAccountId = null;
-    activePromise = null;
-    activeStop = null;
+    monitors.delete(id);
   }
 }
 
-export function isQQBotMonitorActive(): boolean {
-  return activeSocket !== null;
+export function isQQBotMonitorActive(accountId?: string): boolean {
+  return accountId ? monitors.has(accountId) : monitors.size > 0;
 }
@@ -2,16 +2,19 @@
  * QQ Bot 出站适配器
  */
 
-import { QQBotConfigSchema } from "./config.js";
+import { enqueueSend } from "@openclaw-china/shared";
+import { resolveQQBotAccount } from "./config.js";
 import {
   getAccessToken,
   sendC2CInputNotify,
   sendC2CMessage,
   sendGroupMessage,
   sendChannelMessage,
+  sendDmsMessage,
 } from "./client.js";
+import type { QQArk, QQEmbed, QQMarkdownTemplate } from "./client.js";
 import { sendFileQQBot } from "./send.js";
-import type { QQBotConfig, QQBotSendResult } from "./types.js";
+import type { QQBotConfig, QQBotKeyboard, QQBotSendResult } from "./types.js";
 
 export interface OutboundConfig {
   channels?: {
@@ -19,7 +22,7 @@ export interface OutboundConfig {
   };
 }
 
-type TargetKind = "c2c" | "group" | "channel";
+type TargetKind = "c2c" | "group" | "channel" | "dms";
 
 function stripPrefix(value: string, prefix: string): string {
   return value.startsWith(prefix) ? value.slice(prefix.length) : value;
@@ -35,6 +38,9 @@ function parseTarget(to: string): { kind: TargetKind; id: string } {
   if (raw.startsWith("channel:")) {
     return { kind: "channel", id: raw.slice("channel:".length) };
   }
+  if (raw.startsWith("dms:")) {
+    return { kind: "dms", id: raw.slice("dms:".length) };
+  }
   if (raw.startsWith("user:")) {
     return { kind: "c2c", id: raw.slice("user:".length) };
   }
@@ -45,6 +51,12 @@ function parseTarget(to: string): { kind: TargetKind; id: string } {
   return { kind: "c2c", id: raw };
 }
 
+function resolveMarkdownTemplate(qqCfg: QQBotConfig, text: string): QQMarkdownTemplate | undefined {
+  const template = qqCfg.markdownTemplate;
+  if (!template) return undefined;
+  return { templateId: template.id, params: { [template.param]: text } };
+}
+
 export const qqbotOutbound = {
   deliveryMode: "direct" as const,
   textChunkLimit: 1500,
@@ -55,11 +67,17 @@ export const qqbotOutbound = {
     to: string;
     text: string;
     replyToId?: string;
+    /** 回复按钮回调时使用事件 ID 代替 replyToId */
+    replyEventId?: string;
+    /** 随消息下发的按钮（仅 markdown / 模板 markdown 消息生效） */
+    keyboard?: QQBotKeyboard;
+    /** 频道 / 频道私信的 embed 与 ark 消息 */
+    embed?: QQEmbed;
+    ark?: QQArk;
+    accountId?: string;
   }): Promise<QQBotSendResult> => {
-    const { cfg, to, text, replyToId } = params;
-    const rawCfg = cfg.channels?.qqbot;
-    const parsed = rawCfg ? QQBotConfigSchema.safeParse(rawCfg) : null;
-    const qqCfg = parsed?.success ? parsed.data : rawCfg;
+    const { cfg, to, text, replyToId, replyEventId, keyboard, embed, ark, accountId } = params;
+    const qqCfg = resolveQQBotAccount({ cfg, accountId }).config;
     if (!qqCfg) {
       return { channel: "qqbot", error: "QQBot channel not configured" };
     }
@@ -70,35 +88,44 @@ export const qqbotOutbound = {
     const target = parseTarget(to);
     const accessToken = await getAccessToken(qqCfg.appId, qqCfg.clientSecret);
     const markdown = qqCfg.markdownSupport ?? false;
+    const markdownTemplate = resolveMarkdownTemplate(qqCfg, text);
+    const messageId = replyEventId ? undefined : replyToId;
 
     try {
-      if (target.kind === "group") {
-        const result = await sendGroupMessage({
-          accessToken,
-          groupOpenid: target.id,
-          content: text,
-          messageId: replyToId,
-          markdown,
-        });
-        return { channel: "qqbot", messageId: result.id, timestamp: result.timestamp };
-      }
-      if (target.kind === "channel") {
-        const result = await sendChannelMessage({
-          accessToken,
-          channelId: target.id,
-          content: text,
-          messageId: replyToId,
-        });
-        return { channel: "qqbot", messageId: result.id, timestamp: result.timestamp };
-      }
-
-      const result = await sendC2CMessage({
-        accessToken,
-        openid: target.id,
-        content: text,
-        messageId: replyToId,
-        markdown,
-      });
+      // 经共享发送队列按应用 + 会话限流，触发频控时退避重试
+      const result = await enqueueSend(
+        { platform: "qqbot", accountId: qqCfg.appId, target: `${target.kind}:${target.id}` },
+        () => {
+          if (target.kind === "group") {
+            return sendGroupMessage({
+              accessToken,
+              groupOpenid: target.id,
+              content: text,
+              messageId,
+              eventId: replyEventId,
+              markdown,
+              markdownTemplate,
+              keyboard,
+            });
+          }
+          if (target.kind === "channel" || target.kind === "dms") {
+            const message = { accessToken, content: text, messageId, eventId: replyEventId, embed, ark };
+            return target.kind === "dms"
+              ? sendDmsMessage({ ...message, guildId: target.id })
+              : sendChannelMessage({ ...message, channelId: target.id });
+          }
+          return sendC2CMessage({
+            accessToken,
+            openid: target.id,
+            content: text,
+            messageId,
+            eventId: replyEventId,
+            markdown,
+            markdownTemplate,
+            keyboard,
+          });
+        }
+      );
       return { channel: "qqbot", messageId: result.id, timestamp: result.timestamp };
     } catch (err) {
       const message = err instanceof Error ? err.message : String(err);
@@ -112,19 +139,18 @@ export const qqbotOutbound = {
     text?: string;
     mediaUrl?: string;
     replyToId?: string;
+    accountId?: string;
   }): Promise<QQBotSendResult> => {
-    const { cfg, to, mediaUrl, text, replyToId } = params;
+    const { cfg, to, mediaUrl, text, replyToId, accountId } = params;
     if (!mediaUrl) {
       const fallbackText = text?.trim() ?? "";
       if (!fallbackText) {
         return { channel: "qqbot", error: "mediaUrl is required for sendMedia" };
       }
-      return qqbotOutbound.sendText({ cfg, to, text: fallbackText, replyToId });
+      return qqbotOutbound.sendText({ cfg, to, text: fallbackText, replyToId, accountId });
     }
 
-    const rawCfg = cfg.channels?.qqbot;
-    const parsed = rawCfg ? QQBotConfigSchema.safeParse(rawCfg) : null;
-    const qqCfg = parsed?.success ? parsed.data : rawCfg;
+    const qqCfg = resolveQQBotAccount({ cfg, accountId }).config;
     if (!qqCfg) {
       return { channel: "qqbot", error: "QQBot channel not configured" };
     }
@@ -133,18 +159,17 @@ export const qqbotOutbound = {
     }
 
     const target = parseTarget(to);
-    if (target.kind === "channel") {
-      const fallbackText = text?.trim() ? `${text}\n${mediaUrl}` : mediaUrl;
-      return qqbotOutbound.sendText({ cfg, to, text: fallbackText, replyToId });
-    }
-
     try {
-      const result = await sendFileQQBot({
-        cfg: qqCfg,
-        target: { kind: target.kind, id: target.id },
-        mediaUrl,
-        messageId: replyToId,
-      });
+      const result = await enqueueSend(
+        { platform: "qqbot", accountId: qqCfg.appId, target: `${target.kind}:${target.id}` },
+        () =>
+          sendFileQQBot({
+            cfg: qqCfg,
+            target: { kind: target.kind, id: target.id },
+            mediaUrl,
+            messageId: replyToId,
+          })
+      );
       return { channel: "qqbot", messageId: result.id, timestamp: result.timestamp };
     } catch (err) {
       const message = err instanceof Error ? err.message : String(err);
@@ -157,11 +182,10 @@ export const qqbotOutbound = {
     to: string;
     replyToId?: string;
     inputSecond?: number;
+    accountId?: string;
   }): Promise<QQBotSendResult> => {
-    const { cfg, to, replyToId, inputSecond } = params;
-    const rawCfg = cfg.channels?.qqbot;
-    const parsed = rawCfg ? QQBotConfigSchema.safeParse(rawCfg) : null;
-    const qqCfg = parsed?.success ? parsed.data : rawCfg;
+    const { cfg, to, replyToId, inputSecond, accountId } = params;
+    const qqCfg = resolveQQBotAccount({ cfg, accountId }).config;
     if (!qqCfg) {
       return { channel: "qqbot", error: "QQBot channel not configured" };
     }
@@ -7,6 +7,8 @@ const mocks = vi.hoisted(() => ({
   uploadGroupMedia: vi.fn(),
   sendC2CMediaMessage: vi.fn(),
   sendGroupMediaMessage: vi.fn(),
+  sendChannelMessage: vi.fn(),
+  sendDmsMessage: vi.fn(),
 }));
 
 vi.mock("@openclaw-china/shared", async () => {
@@ -31,10 +33,15 @@ vi.mock("./client.js", () => ({
   uploadGroupMedia: mocks.uploadGroupMedia,
   sendC2CMediaMessage: mocks.sendC2CMediaMessage,
   sendGroupMediaMessage: mocks.sendGroupMediaMessage,
+  sendChannelMessage: mocks.sendChannelMessage,
+  sendDmsMessage: mocks.sendDmsMessage,
 }));
 
 import { HttpError } from "@openclaw-china/shared";
 import { sendFileQQBot } from "./send.js";
+import type { QQBotConfig } from "./types.js";
+
+const guildCfg = { appId: "app", clientSecret: "secret" } as QQBotConfig;
 
 describe("sendFileQQBot", () => {
   beforeEach(() => {
@@ -123,4 +130,52 @@ describe("sendFileQQBot", () => {
       })
     ).rejects.toThrow("code=304023");
   });
+
+  it("sends guild channel images by URL and DMS images as file_image", async () => {
+    mocks.sendChannelMessage.mockResolvedValue({ id: "msg-2", timestamp: 2 });
+    mocks.sendDmsMessage.mockResolvedValue({ id: "msg-3", timestamp: 3 });
+    mocks.readMedia.mockResolvedValue({
+      buffer: Buffer.from("hello-image"),
+      fileName: "hello.png",
+      size: 11,
+      mimeType: "image/png",
+    });
+
+    await sendFileQQBot({
+      cfg: guildCfg,
+      target: { kind: "channel", id: "channel-1" },
+      mediaUrl: "https://example.com/media.png",
+      messageId: "reply-3",
+    });
+    await sendFileQQBot({
+      cfg: guildCfg,
+      target: { kind: "dms", id: "guild-1" },
+      mediaUrl: "C:/tmp/hello.png",
+    });
+
+    expect(mocks.uploadGroupMedia).not.toHaveBeenCalled();
+    expect(mocks.sendChannelMessage).toHaveBeenCalledWith({
+      accessToken: "token",
+      channelId: "channel-1",
+      messageId: "reply-3",
+      image: "https://example.com/media.png",
+    });
+    expect(mocks.sendDmsMessage).toHaveBeenCalledWith({
+      accessToken: "token",
+      guildId: "guild-1",
+      messageId: undefined,
+      fileImage: { data: Buffer.from("hello-image"), fileName: "hello.png" },
+    });
+  });
+
+  it("rejects non-image media for guild targets", async () => {
+    await expect(
+      sendFileQQBot({
+        cfg: guildCfg,
+        target: { kind: "channel", id: "channel-2" },
+        mediaUrl: "https://example.com/video.mp4",
+      })
+    ).rejects.toThrow("only support images");
+    expect(mocks.sendChannelMessage).not.toHaveBeenCalled();
+  });
 });
@@ -5,6 +5,8 @@
 import {
   getAccessToken,
   sendC2CMediaMessage,
+  sendChannelMessage,
+  sendDmsMessage,
   sendGroupMediaMessage,
   uploadC2CMedia,
   uploadGroupMedia,
@@ -22,7 +24,8 @@ import {
 } from "@openclaw-china/shared";
 
 export type QQBotFileTarget = {
-  kind: "c2c" | "group";
+  /** channel 为频道子频道 ID，dms 为频道私信会话的 guild_id */
+  kind: "c2c" | "group" | "channel" | "dms";
   id: string;
 };
 
@@ -36,6 +39,8 @@ export interface SendFileQQBotParams {
 const QQBOT_UNSUPPORTED_FILE_TYPE_MESSAGE =
   "QQ official C2C/group media API does not support generic files (file_type=4, e.g. PDF). Images and other supported media types are unaffected.";
 
+const QQBOT_GUILD_IMAGE_ONLY_MESSAGE = "QQ guild channel and DMS messages only support images.";
+
 function resolveQQBotMediaFileType(fileName: string): MediaFileType {
   const mediaType = detectMediaType(fileName);
   switch (mediaType) {
@@ -52,7 +57,7 @@ function resolveQQBotMediaFileType(fileName: string): MediaFileType {
 
 async function uploadQQBotFile(params: {
   accessToken: string;
-  target: QQBotFileTarget;
+  target: QQBotFileTarget & { kind: "c2c" | "group" };
   fileType: MediaFileType;
   url?: string;
   fileData?: string;
@@ -90,6 +95,10 @@ export async function sendFileQQBot(params: SendFileQQBotParams): Promise<{ id:
 
   const src = stripTitleFromUrl(mediaUrl);
   const fileType = resolveQQBotMediaFileType(src);
+  const isGuild = target.kind === "channel" || target.kind === "dms";
+  if (isGuild && fileType !== MediaFileType.IMAGE) {
+    throw new Error(QQBOT_GUILD_IMAGE_ONLY_MESSAGE);
+  }
   if (fileType === MediaFileType.FILE) {
     throw new Error(QQBOT_UNSUPPORTED_FILE_TYPE_MESSAGE);
   }
@@ -100,12 +109,24 @@ export async function sendFileQQBot(params: SendFileQQBotParams): Promise<{ id:
   const maxSizeBytes = Math.floor(maxFileSizeMB * 1024 * 1024);
 
   const accessToken = await getAccessToken(cfg.appId, cfg.clientSecret);
+  if (target.kind === "channel" || target.kind === "dms") {
+    return sendGuildImage({
+      accessToken,
+      target: { kind: target.kind, id: target.id },
+      src,
+      sourceIsHttp,
+      messageId,
+      readOptions: { timeout: mediaTimeoutMs, maxSize: maxSizeBytes },
+    });
+  }
+
+  const uploadTarget = { kind: target.kind, id: target.id };
   let fileInfo: string;
   try {
     if (sourceIsHttp) {
       fileInfo = await uploadQQBotFile({
         accessToken,
-        target,
+        target: uploadTarget,
         fileType,
         url: src,
       });
@@ -116,7 +137,7 @@ export async function sendFileQQBot(params: SendFileQQBotParams): Promise<{ id:
       });
       fileInfo = await uploadQQBotFile({
         accessToken,
-        target,
+        target: uploadTarget,
         fileType,
         fileData: buffer.toString("base64"),
       });
@@ -153,6 +174,35 @@ export async function sendFileQQBot(params: SendFileQQBotParams): Promise<{ id:
   }
 }
 
+/**
+ * 频道 / 频道私信图片：公网 URL 走 image 字段，本地文件走 multipart file_image
+ */
+async function sendGuildImage(params: {
+  accessToken: string;
+  target: { kind: "channel" | "dms"; id: string };
+  src: string;
+  sourceIsHttp: boolean;
+  messageId?: string;
+  readOptions: { timeout: number; maxSize: number };
+}): Promise<{ id: string; timestamp: number | string }> {
+  const { accessToken, target, src, sourceIsHttp, messageId, readOptions } = params;
+  let image: { image?: string; fileImage?: { data: Buffer; fileName: string } };
+  if (sourceIsHttp) {
+    image = { image: src };
+  } else {
+    const { buffer, fileName } = await readMediaWithConfig(src, readOptions);
+    image = { fileImage: { data: buffer, fileName } };
+  }
+
+  try {
+    return target.kind === "dms"
+      ? await sendDmsMessage({ accessToken, guildId: target.id, messageId, ...image })
+      : await sendChannelMessage({ accessToken, channelId: target.id, messageId, ...image });
+  } catch (err) {
+    throw new Error(`QQBot ${target.kind} image send failed: ${formatQQBotError(err)}`);
+  }
+}
+
 function formatQQBotError(err: unknown): string {
   if (err instanceof HttpError) {
     const body = normalizeHttpErrorBody(err.body);
@@ -0,0 +1,42 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import {
+  SESSION_RESUME_TTL_MS,
+  clearQQBotSession,
+  loadQQBotSession,
+  saveQQBotSession,
+} from "./session-store.js";
+
+describe("qqbot session store", () => {
+  let storeDir: string;
+
+  beforeEach(() => {
+    storeDir = fs.mkdtempSync(path.join(os.tmpdir(), "qqbot-session-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(storeDir, { recursive: true, force: true });
+  });
+
+  it("restores a recent session per shard", () => {
+    const key = { appId: "app", shardId: 1, shardCount: 2, storeDir };
+    saveQQBotSession(key, { sessionId: "s-1", lastSeq: 42, intents: 7, updatedAt: 1000 });
+
+    expect(loadQQBotSession({ ...key, intents: 7, now: 2000 })).toMatchObject({ sessionId: "s-1", lastSeq: 42 });
+    expect(loadQQBotSession({ ...key, shardId: 0, intents: 7, now: 2000 })).toBeUndefined();
+  });
+
+  it("ignores expired sessions and changed intents", () => {
+    const key = { appId: "app", shardId: 0, shardCount: 1, storeDir };
+    saveQQBotSession(key, { sessionId: "s-1", lastSeq: 1, intents: 7, updatedAt: 0 });
+
+    expect(loadQQBotSession({ ...key, intents: 7, now: SESSION_RESUME_TTL_MS + 1 })).toBeUndefined();
+    expect(loadQQBotSession({ ...key, intents: 3, now: 10 })).toBeUndefined();
+
+    clearQQBotSession(key);
+    expect(loadQQBotSession({ ...key, intents: 7, now: 10 })).toBeUndefined();
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * QQ Bot 网关会话持久化
+ *
+ * 保存每个分片的 session_id / 最后序号，进程快速重启后可直接 RESUME，
+ * 不必重新 IDENTIFY（重新鉴权期间的事件会丢失，且会消耗 session_start_limit）
+ *
+ * 存储位置: ~/.openclaw/qqbot/sessions/<appId>.json
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { homedir } from "node:os";
+
+/** 默认存储目录 */
+export const DEFAULT_SESSION_STORE_DIR = path.join(homedir(), ".openclaw", "qqbot", "sessions");
+
+/** 超过该时长的会话不再尝试 RESUME */
+export const SESSION_RESUME_TTL_MS = 5 * 60 * 1000;
+
+export interface QQBotSessionKey {
+  appId: string;
+  shardId: number;
+  shardCount: number;
+  /** 存储目录，默认 DEFAULT_SESSION_STORE_DIR */
+  storeDir?: string;
+}
+
+export interface QQBotSessionState {
+  sessionId: string;
+  lastSeq: number;
+  /** 建立会话时使用的 intents，变化后旧会话不可复用 */
+  intents: number;
+  /** 最后更新时间（毫秒） */
+  updatedAt: number;
+}
+
+interface SessionStoreData {
+  version: 1;
+  shards: Record<string, QQBotSessionState>;
+}
+
+function sanitizeSegment(value: string): string {
+  return value.replace(/[^a-zA-Z0-9_-]+/g, "_");
+}
+
+export function resolveSessionStorePath(key: QQBotSessionKey): string {
+  const dir = key.storeDir ?? DEFAULT_SESSION_STORE_DIR;
+  return path.join(dir, `${sanitizeSegment(key.appId)}.json`);
+}
+
+function shardKey(key: QQBotSessionKey): string {
+  return `${key.shardId}/${key.shardCount}`;
+}
+
+function readStore(key: QQBotSessionKey): SessionStoreData {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(resolveSessionStorePath(key), "utf8")) as Partial<SessionStoreData>;
+    return {
+      version: 1,
+      shards: parsed.shards && typeof parsed.shards === "object" ? parsed.shards : {},
+    };
+  } catch {
+    return { version: 1, shards: {} };
+  }
+}
+
+function writeStore(key: QQBotSessionKey, data: SessionStoreData): void {
+  const filePath = resolveSessionStorePath(key);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  // 先写临时文件再重命名，避免进程中断导致文件损坏
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(data, null, 2), "utf8");
+  fs.renameSync(tempPath, filePath);
+}
+
+/**
+ * 读取可用于 RESUME 的会话；过期或 intents 不一致时返回 undefined
+ */
+export function loadQQBotSession(
+  key: QQBotSessionKey & { intents: number; now?: number }
+): QQBotSessionState | undefined {
+  const state = readStore(key).shards[shardKey(key)];
+  if (!state?.sessionId || typeof state.lastSeq !== "number") return undefined;
+  if (state.intents !== key.intents) return undefined;
+  const now = key.now ?? Date.now();
+  if (now - state.updatedAt > SESSION_RESUME_TTL_MS) return undefined;
+  return state;
+}
+
+export function saveQQBotSession(key: QQBotSessionKey, state: QQBotSessionState): void {
+  const data = readStore(key);
+  data.shards[shardKey(key)] = state;
+  writeStore(key, data);
+}
+
+export function clearQQBotSession(key: QQBotSessionKey): void {
+  const data = readStore(key);
+  if (!data.shards[shardKey(key)]) return;
+  delete data.shards[shardKey(key)];
+  writeStore(key, data);
+}
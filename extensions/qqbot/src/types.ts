@@ -1,11 +1,15 @@
-export type { QQBotConfig } from "./config.js";
+import type { QQBotConfig } from "./config.js";
+
+export type { QQBotConfig, QQBotAccountConfig, QQBotKeyboard } from "./config.js";
 
 export interface ResolvedQQBotAccount {
   accountId: string;
+  name?: string;
   enabled: boolean;
   configured: boolean;
   appId?: string;
   markdownSupport?: boolean;
+  config?: QQBotConfig;
 }
 
 export interface QQBotSendResult {
@@ -37,6 +41,15 @@ export interface QQInboundMessage {
   channelId?: string;
   guildId?: string;
   mentionedBot: boolean;
+  /** 按钮回调（INTERACTION_CREATE）的事件 ID，被动回复时代替 messageId */
+  eventId?: string;
+  /** 频道消息中被 @ 的用户（不含机器人） */
+  mentions?: QQInboundMention[];
+}
+
+export interface QQInboundMention {
+  id: string;
+  name: string;
 }
 
 export interface InboundContext {
@@ -60,4 +73,6 @@ export interface InboundContext {
   CommandAuthorized: boolean;
   OriginatingChannel: "qqbot";
   OriginatingTo: string;
+  /** 群覆盖配置中的系统提示词 */
+  GroupSystemPrompt?: string;
 }
@@ -50,14 +50,27 @@ export {
   clearAllAccessTokenCache,
   downloadAndSendImage,
   sendWecomAppImageMessage,
+  sendWecomAppTextCardMessage,
+  sendWecomAppNewsMessage,
+  sendWecomAppMpNewsMessage,
+  sendWecomAppTemplateCardMessage,
+  createWecomAppChat,
+  updateWecomAppChat,
+  createWecomAppMenu,
+  recallWecomAppMessage,
+  type AppChatResult,
 } from "./src/api.js";
 
+// 导出菜单管理
+export { syncWecomAppMenu, validateWecomAppMenu, type MenuSyncResult } from "./src/menu.js";
+
 // 导出封装发送函数 (业务层推荐使用)
 export {
   sendWecomDM,
   sendWecom,
   normalizeTarget,
   parseTarget,
+  type TargetType,
   type SendMessageOptions,
   type SendResult,
 } from "./src/send.js";
@@ -69,6 +82,14 @@ export type {
   WecomAppInboundMessage,
   WecomAppDmPolicy,
   WecomAppSendTarget,
+  WecomAppTextCard,
+  WecomAppNewsArticle,
+  WecomAppMpNewsArticle,
+  WecomAppTemplateCard,
+  WecomAppTemplateCardEvent,
+  WecomAppMenuButton,
+  WecomAppMenuConfig,
+  WecomAppMenuEvent,
   AccessTokenCacheEntry,
 } from "./src/types.js";
 
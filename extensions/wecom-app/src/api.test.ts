@@ -1,6 +1,17 @@
 import { afterEach, describe, expect, it, vi } from "vitest";
+import { clearSentMessages } from "@openclaw-china/shared";
 
-import { clearAllAccessTokenCache, getAccessToken, sendWecomAppMessage } from "./api.js";
+import {
+  clearAllAccessTokenCache,
+  createWecomAppChat,
+  getAccessToken,
+  sendWecomAppMessage,
+  sendWecomAppTemplateCardMessage,
+  sendWecomAppTextCardMessage,
+  updateWecomAppChat,
+} from "./api.js";
+import { wecomAppPlugin } from "./channel.js";
+import { normalizeTarget, parseTarget } from "./send.js";
 import type { ResolvedWecomAppAccount } from "./types.js";
 
 function createAccount(apiBaseUrl?: string): ResolvedWecomAppAccount {
@@ -32,6 +43,7 @@ function mockJsonResponse(payload: unknown): Response {
 
 afterEach(() => {
   clearAllAccessTokenCache();
+  clearSentMessages();
   vi.unstubAllGlobals();
   vi.restoreAllMocks();
 });
@@ -75,3 +87,152 @@ describe("wecom-app api base url", () => {
     expect(fetchMock.mock.calls[1]?.[0]).toBe("https://proxy.wecom.local/cgi-bin/message/send?access_token=token-c");
   });
 });
+
+describe("wecom-app send targets", () => {
+  function mockSend() {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(mockJsonResponse({ errcode: 0, access_token: "token-d" }))
+      .mockResolvedValue(mockJsonResponse({ errcode: 0, errmsg: "ok" }));
+    vi.stubGlobal("fetch", fetchMock as unknown as typeof fetch);
+    return fetchMock;
+  }
+
+  it("parses party, tag and chat targets", () => {
+    expect(parseTarget("party:2")).toEqual({ partyId: "2" });
+    expect(parseTarget("tag:1")).toEqual({ tagId: "1" });
+    expect(parseTarget("chat:wr123")).toEqual({ chatid: "wr123" });
+    expect(parseTarget("zhangsan")).toEqual({ userId: "zhangsan" });
+    expect(normalizeTarget("wecom-app:user:2", "party")).toBe("party:2");
+  });
+
+  it("maps party and tag targets to toparty and totag", async () => {
+    const fetchMock = mockSend();
+
+    await sendWecomAppMessage(createAccount(), { partyId: "2", tagId: "1" }, "hello");
+
+    expect(fetchMock.mock.calls[1]?.[0]).toBe("https://qyapi.weixin.qq.com/cgi-bin/message/send?access_token=token-d");
+    expect(JSON.parse(String(fetchMock.mock.calls[1]?.[1]?.body))).toEqual({
+      agentid: 1000002,
+      toparty: "2",
+      totag: "1",
+      msgtype: "text",
+      text: { content: "hello" },
+    });
+  });
+
+  it("sends chat targets through appchat/send", async () => {
+    const fetchMock = mockSend();
+
+    const result = await sendWecomAppMessage(createAccount(), { chatid: "wr123" }, "hello");
+
+    expect(result.ok).toBe(true);
+    expect(fetchMock.mock.calls[1]?.[0]).toBe("https://qyapi.weixin.qq.com/cgi-bin/appchat/send?access_token=token-d");
+    expect(JSON.parse(String(fetchMock.mock.calls[1]?.[1]?.body))).toEqual({
+      chatid: "wr123",
+      msgtype: "text",
+      text: { content: "hello" },
+    });
+  });
+
+  it("rejects empty targets without calling the api", async () => {
+    const fetchMock = mockSend();
+
+    const result = await sendWecomAppMessage(createAccount(), {}, "hello");
+
+    expect(result.ok).toBe(false);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("creates and updates app chats", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(mockJsonResponse({ errcode: 0, access_token: "token-e" }))
+      .mockResolvedValueOnce(mockJsonResponse({ errcode: 0, errmsg: "ok", chatid: "wr456" }))
+      .mockResolvedValueOnce(mockJsonResponse({ errcode: 0, errmsg: "ok" }));
+    vi.stubGlobal("fetch", fetchMock as unknown as typeof fetch);
+    const account = createAccount();
+
+    const created = await createWecomAppChat(account, { name: "项目群", userList: ["zhangsan", "lisi"] });
+    expect(created).toEqual({ ok: true, chatid: "wr456", errcode: 0, errmsg: "ok" });
+    expect(fetchMock.mock.calls[1]?.[0]).toBe("https://qyapi.weixin.qq.com/cgi-bin/appchat/create?access_token=token-e");
+
+    const updated = await updateWecomAppChat(account, { chatid: "wr456", addUserList: ["wangwu"] });
+    expect(updated.ok).toBe(true);
+    expect(JSON.parse(String(fetchMock.mock.calls[2]?.[1]?.body))).toEqual({
+      chatid: "wr456",
+      add_user_list: ["wangwu"],
+    });
+  });
+});
+
+describe("wecom-app rich messages", () => {
+  it("sends textcard payloads", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(mockJsonResponse({ errcode: 0, access_token: "token-f" }))
+      .mockResolvedValueOnce(mockJsonResponse({ errcode: 0, errmsg: "ok", msgid: "msg-2" }));
+    vi.stubGlobal("fetch", fetchMock as unknown as typeof fetch);
+
+    const card = { title: "审批提醒", description: "请处理报销单", url: "https://example.com/a", btntxt: "去审批" };
+    const result = await sendWecomAppTextCardMessage(createAccount(), { userId: "zhangsan" }, card);
+
+    expect(result.msgid).toBe("msg-2");
+    expect(JSON.parse(String(fetchMock.mock.calls[1]?.[1]?.body))).toEqual({
+      agentid: 1000002,
+      touser: "zhangsan",
+      msgtype: "textcard",
+      textcard: card,
+    });
+  });
+
+  it("rejects template cards for app chats", async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock as unknown as typeof fetch);
+
+    const result = await sendWecomAppTemplateCardMessage(
+      createAccount(),
+      { chatid: "wr123" },
+      { card_type: "button_interaction", task_id: "task-1" }
+    );
+
+    expect(result.ok).toBe(false);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe("wecom-app recall", () => {
+  const cfg = {
+    channels: {
+      "wecom-app": { corpId: "corp-id", corpSecret: "corp-secret", agentId: 1000002 },
+    },
+  };
+
+  it("recalls the latest message sent to a target", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(mockJsonResponse({ errcode: 0, access_token: "token-r" }))
+      .mockResolvedValueOnce(mockJsonResponse({ errcode: 0, errmsg: "ok", msgid: "msg-r1" }))
+      .mockResolvedValueOnce(mockJsonResponse({ errcode: 0, errmsg: "ok" }));
+    vi.stubGlobal("fetch", fetchMock as unknown as typeof fetch);
+
+    const sent = await wecomAppPlugin.outbound.sendText({ cfg, to: "user:zhangsan", text: "答案有误" });
+    expect(sent.messageId).toBe("msg-r1");
+
+    const result = await wecomAppPlugin.outbound.recall({ cfg, to: "user:zhangsan" });
+
+    expect(result).toEqual({ ok: true });
+    expect(fetchMock.mock.calls[2]?.[0]).toBe(
+      "https://qyapi.weixin.qq.com/cgi-bin/message/recall?access_token=token-r"
+    );
+    expect(JSON.parse(String(fetchMock.mock.calls[2]?.[1]?.body))).toEqual({ msgid: "msg-r1" });
+
+    // 已撤回的消息不再可定位
+    expect((await wecomAppPlugin.outbound.recall({ cfg, to: "user:zhangsan" })).ok).toBe(false);
+  });
+
+  it("does not support editing", async () => {
+    const result = await wecomAppPlugin.outbound.edit({ cfg, messageId: "msg-1", text: "new" });
+    expect(result.ok).toBe(false);
+  });
+});
@@ -3,12 +3,22 @@
  * 
  * 提供 Access Token 缓存和主动发送消息能力
  */
-import type { ResolvedWecomAppAccount, WecomAppSendTarget, AccessTokenCacheEntry } from "./types.js";
+import type {
+  ResolvedWecomAppAccount,
+  WecomAppSendTarget,
+  AccessTokenCacheEntry,
+  WecomAppTextCard,
+  WecomAppNewsArticle,
+  WecomAppMpNewsArticle,
+  WecomAppTemplateCard,
+  WecomAppMenuButton,
+} from "./types.js";
 import {
   resolveInboundMediaDir,
   resolveInboundMediaKeepDays,
   resolveApiBaseUrl,
 } from "./config.js";
+import { RateLimitError, SEND_RATE_PRESETS, enqueueSend, isRateLimitError } from "@openclaw-china/shared";
 import { mkdir, writeFile, unlink, rename, readdir, stat } from "node:fs/promises";
 import { basename, join, extname } from "node:path";
 import { tmpdir } from "node:os";
@@ -337,6 +347,12 @@ export type SendMessageResult = {
   msgid?: string;
 };
 
+const NOT_CONFIGURED_RESULT: SendMessageResult = {
+  ok: false,
+  errcode: -1,
+  errmsg: "Account not configured for active sending (missing corpId, corpSecret, or agentId)",
+};
+
 // ─────────────────────────────────────────────────────────────────────────────
 // 入站媒体下载 (media_id -> 本地文件)
 // ─────────────────────────────────────────────────────────────────────────────
@@ -545,109 +561,367 @@ export async function downloadWecomMediaToFile(
   }
 }
 
+/**
+ * 将发送目标转换为 message/send 的接收方字段（多个 ID 用 "|" 分隔）
+ */
+function resolveRecipientFields(target: WecomAppSendTarget): Record<string, string> {
+  const fields: Record<string, string> = {};
+  if (target.userId?.trim()) fields.touser = target.userId.trim();
+  if (target.partyId?.trim()) fields.toparty = target.partyId.trim();
+  if (target.tagId?.trim()) fields.totag = target.tagId.trim();
+  return fields;
+}
 
 /**
- * 发送企业微信应用消息
- * 
- * @param account - 已解析的账户配置
- * @param target - 发送目标 (userId)
- * @param message - 消息内容 (会自动移除 Markdown 格式)
+ * 发送消息：群聊目标走 appchat/send，其余走 message/send（touser/toparty/totag）
+ *
+ * 经共享发送队列按应用 + 目标限流；返回 45009 / 45033 等频控错误码时退避重试
  */
-export async function sendWecomAppMessage(
+async function postWecomAppMessage(
   account: ResolvedWecomAppAccount,
   target: WecomAppSendTarget,
-  message: string
+  message: Record<string, unknown>
 ): Promise<SendMessageResult> {
-  if (!account.canSendActive) {
-    return {
-      ok: false,
-      errcode: -1,
-      errmsg: "Account not configured for active sending (missing corpId, corpSecret, or agentId)",
-    };
+  const chatid = target.chatid?.trim();
+  const recipients = resolveRecipientFields(target);
+  if (!chatid && Object.keys(recipients).length === 0) {
+    return { ok: false, errcode: -1, errmsg: "missing send target (user, party, tag or chat)" };
   }
 
   const token = await getAccessToken(account);
-  const text = stripMarkdown(message);
-
-  const payload: Record<string, unknown> = {
-    msgtype: "text",
-    agentid: account.agentId,
-    text: { content: text },
-    touser: target.userId,
-  };
+  const payload = chatid
+    ? { chatid, ...message }
+    : { agentid: account.agentId, ...recipients, ...message };
+  const path = chatid ? "/cgi-bin/appchat/send" : "/cgi-bin/message/send";
 
   // 注意：企业微信 API 要求 access_token 作为查询参数传递。
   // 这可能会在服务器日志、浏览器历史和引用头中暴露令牌。
   // 确保任何记录此 URL 的日志都隐藏 access_token 参数。
+  const queueTarget = chatid
+    ? `chat:${chatid}`
+    : Object.entries(recipients)
+        .map(([key, value]) => `${key}=${value}`)
+        .join("&");
+
+  let data: SendMessageResult & { errcode?: number };
+  try {
+    data = await enqueueSend({ platform: "wecom-app", accountId: account.accountId, target: queueTarget }, async () => {
+      const resp = await fetch(
+        buildWecomApiUrl(account, `${path}?access_token=${encodeURIComponent(token)}`),
+        {
+          method: "POST",
+          body: JSON.stringify(payload),
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+      const result = (await resp.json()) as SendMessageResult & { errcode?: number };
+      if (isRateLimitError(result, SEND_RATE_PRESETS["wecom-app"].throttleCodes)) {
+        throw new RateLimitError(result.errmsg ?? "rate limited", result.errcode);
+      }
+      return result;
+    });
+  } catch (err) {
+    // 重试后仍被限流：按普通失败结果返回
+    if (err instanceof RateLimitError) {
+      return { ok: false, errcode: Number(err.code), errmsg: err.message };
+    }
+    throw err;
+  }
+
+  return {
+    ok: data.errcode === 0,
+    errcode: data.errcode,
+    errmsg: data.errmsg,
+    invaliduser: data.invaliduser,
+    invalidparty: data.invalidparty,
+    invalidtag: data.invalidtag,
+    msgid: data.msgid,
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 应用群聊 (appchat)
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** 应用群聊操作结果 */
+export type AppChatResult = {
+  ok: boolean;
+  chatid?: string;
+  errcode?: number;
+  errmsg?: string;
+};
+
+async function postAppChatApi(
+  account: ResolvedWecomAppAccount,
+  path: string,
+  payload: Record<string, unknown>
+): Promise<AppChatResult> {
+  if (!account.corpId || !account.corpSecret) {
+    return { ok: false, errcode: -1, errmsg: "corpId or corpSecret not configured" };
+  }
+
+  const token = await getAccessToken(account);
   const resp = await fetch(
-    buildWecomApiUrl(account, `/cgi-bin/message/send?access_token=${encodeURIComponent(token)}`),
+    buildWecomApiUrl(account, `${path}?access_token=${encodeURIComponent(token)}`),
     {
       method: "POST",
       body: JSON.stringify(payload),
       headers: { "Content-Type": "application/json" },
     }
   );
-
-  const data = (await resp.json()) as SendMessageResult & { errcode?: number };
+  const data = (await resp.json()) as { errcode?: number; errmsg?: string; chatid?: string };
 
   return {
     ok: data.errcode === 0,
+    chatid: data.chatid,
     errcode: data.errcode,
     errmsg: data.errmsg,
-    invaliduser: data.invaliduser,
-    invalidparty: data.invalidparty,
-    invalidtag: data.invalidtag,
-    msgid: data.msgid,
   };
 }
 
 /**
- * 发送 Markdown 格式消息 (仅企业微信客户端支持)
+ * 创建应用群聊（群成员 2~2000 人，创建后应用可通过 chat:<chatid> 发送消息）
  */
-export async function sendWecomAppMarkdownMessage(
+export async function createWecomAppChat(
   account: ResolvedWecomAppAccount,
-  target: WecomAppSendTarget,
-  markdownContent: string
-): Promise<SendMessageResult> {
+  params: {
+    /** 群成员 userid 列表 */
+    userList: string[];
+    /** 群名称 */
+    name?: string;
+    /** 群主 userid，缺省时随机选择一名成员 */
+    owner?: string;
+    /** 指定群 ID（仅限字母数字），缺省由企业微信生成 */
+    chatid?: string;
+  }
+): Promise<AppChatResult> {
+  const payload: Record<string, unknown> = { userlist: params.userList };
+  if (params.name) payload.name = params.name;
+  if (params.owner) payload.owner = params.owner;
+  if (params.chatid) payload.chatid = params.chatid;
+  return postAppChatApi(account, "/cgi-bin/appchat/create", payload);
+}
+
+/**
+ * 修改应用群聊（群名、群主、增删成员）
+ */
+export async function updateWecomAppChat(
+  account: ResolvedWecomAppAccount,
+  params: {
+    chatid: string;
+    name?: string;
+    owner?: string;
+    addUserList?: string[];
+    delUserList?: string[];
+  }
+): Promise<AppChatResult> {
+  const payload: Record<string, unknown> = { chatid: params.chatid };
+  if (params.name) payload.name = params.name;
+  if (params.owner) payload.owner = params.owner;
+  if (params.addUserList?.length) payload.add_user_list = params.addUserList;
+  if (params.delUserList?.length) payload.del_user_list = params.delUserList;
+  const result = await postAppChatApi(account, "/cgi-bin/appchat/update", payload);
+  return { ...result, chatid: params.chatid };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 应用菜单
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * 创建应用菜单（覆盖已有菜单，即用于更新）
+ */
+export async function createWecomAppMenu(
+  account: ResolvedWecomAppAccount,
+  buttons: WecomAppMenuButton[]
+): Promise<{ ok: boolean; errcode?: number; errmsg?: string }> {
   if (!account.canSendActive) {
-    return {
-      ok: false,
-      errcode: -1,
-      errmsg: "Account not configured for active sending (missing corpId, corpSecret, or agentId)",
-    };
+    return { ...NOT_CONFIGURED_RESULT };
   }
 
   const token = await getAccessToken(account);
+  const resp = await fetch(
+    buildWecomApiUrl(
+      account,
+      `/cgi-bin/menu/create?access_token=${encodeURIComponent(token)}&agentid=${encodeURIComponent(String(account.agentId))}`
+    ),
+    {
+      method: "POST",
+      body: JSON.stringify({ button: buttons }),
+      headers: { "Content-Type": "application/json" },
+    }
+  );
+  const data = (await resp.json()) as { errcode?: number; errmsg?: string };
 
-  const payload: Record<string, unknown> = {
-    msgtype: "markdown",
-    agentid: account.agentId,
-    markdown: { content: markdownContent },
-    touser: target.userId,
+  return {
+    ok: data.errcode === 0,
+    errcode: data.errcode,
+    errmsg: data.errmsg,
   };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 消息撤回
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * 撤回应用消息（仅限 24 小时内通过 /cgi-bin/message/send 发送、带 msgid 的消息；
+ * 应用群聊消息不返回 msgid，无法撤回）
+ */
+export async function recallWecomAppMessage(
+  account: ResolvedWecomAppAccount,
+  msgid: string
+): Promise<{ ok: boolean; errcode?: number; errmsg?: string }> {
+  if (!account.canSendActive) {
+    return { ...NOT_CONFIGURED_RESULT };
+  }
 
+  const token = await getAccessToken(account);
   const resp = await fetch(
-    buildWecomApiUrl(account, `/cgi-bin/message/send?access_token=${encodeURIComponent(token)}`),
+    buildWecomApiUrl(account, `/cgi-bin/message/recall?access_token=${encodeURIComponent(token)}`),
     {
       method: "POST",
-      body: JSON.stringify(payload),
+      body: JSON.stringify({ msgid }),
       headers: { "Content-Type": "application/json" },
     }
   );
-
-  const data = (await resp.json()) as SendMessageResult & { errcode?: number };
+  const data = (await resp.json()) as { errcode?: number; errmsg?: string };
 
   return {
     ok: data.errcode === 0,
     errcode: data.errcode,
     errmsg: data.errmsg,
-    invaliduser: data.invaliduser,
-    invalidparty: data.invalidparty,
-    invalidtag: data.invalidtag,
-    msgid: data.msgid,
   };
 }
 
+/**
+ * 发送企业微信应用消息
+ * 
+ * @param account - 已解析的账户配置
+ * @param target - 发送目标 (userId / partyId / tagId / chatid)
+ * @param message - 消息内容 (会自动移除 Markdown 格式)
+ */
+export async function sendWecomAppMessage(
+  account: ResolvedWecomAppAccount,
+  target: WecomAppSendTarget,
+  message: string
+): Promise<SendMessageResult> {
+  if (!account.canSendActive) {
+    return {
+      ok: false,
+      errcode: -1,
+      errmsg: "Account not configured for active sending (missing corpId, corpSecret, or agentId)",
+    };
+  }
+
+  const text = stripMarkdown(message);
+
+  return postWecomAppMessage(account, target, {
+    msgtype: "text",
+    text: { content: text },
+  });
+}
+
+/**
+ * 发送 Markdown 格式消息 (仅企业微信客户端支持)
+ */
+export async function sendWecomAppMarkdownMessage(
+  account: ResolvedWecomAppAccount,
+  target: WecomAppSendTarget,
+  markdownContent: string
+): Promise<SendMessageResult> {
+  if (!account.canSendActive) {
+    return {
+      ok: false,
+      errcode: -1,
+      errmsg: "Account not configured for active sending (missing corpId, corpSecret, or agentId)",
+    };
+  }
+
+  return postWecomAppMessage(account, target, {
+    msgtype: "markdown",
+    markdown: { content: markdownContent },
+  });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 卡片 / 图文消息
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * 发送文本卡片消息 (textcard)
+ */
+export async function sendWecomAppTextCardMessage(
+  account: ResolvedWecomAppAccount,
+  target: WecomAppSendTarget,
+  card: WecomAppTextCard
+): Promise<SendMessageResult> {
+  if (!account.canSendActive) return { ...NOT_CONFIGURED_RESULT };
+
+  return postWecomAppMessage(account, target, {
+    msgtype: "textcard",
+    textcard: card,
+  });
+}
+
+/**
+ * 发送图文消息 (news，1~8 条图文)
+ */
+export async function sendWecomAppNewsMessage(
+  account: ResolvedWecomAppAccount,
+  target: WecomAppSendTarget,
+  articles: WecomAppNewsArticle[]
+): Promise<SendMessageResult> {
+  if (!account.canSendActive) return { ...NOT_CONFIGURED_RESULT };
+  if (articles.length === 0 || articles.length > 8) {
+    return { ok: false, errcode: -1, errmsg: "news message requires 1-8 articles" };
+  }
+
+  return postWecomAppMessage(account, target, {
+    msgtype: "news",
+    news: { articles },
+  });
+}
+
+/**
+ * 发送图文消息 (mpnews，1~8 条图文，正文存储在企业微信)
+ */
+export async function sendWecomAppMpNewsMessage(
+  account: ResolvedWecomAppAccount,
+  target: WecomAppSendTarget,
+  articles: WecomAppMpNewsArticle[]
+): Promise<SendMessageResult> {
+  if (!account.canSendActive) return { ...NOT_CONFIGURED_RESULT };
+  if (articles.length === 0 || articles.length > 8) {
+    return { ok: false, errcode: -1, errmsg: "mpnews message requires 1-8 articles" };
+  }
+
+  return postWecomAppMessage(account, target, {
+    msgtype: "mpnews",
+    mpnews: { articles },
+  });
+}
+
+/**
+ * 发送模板卡片消息 (template_card)
+ * 交互类卡片的用户操作会以 template_card_event 回调，并转交给 Agent
+ */
+export async function sendWecomAppTemplateCardMessage(
+  account: ResolvedWecomAppAccount,
+  target: WecomAppSendTarget,
+  templateCard: WecomAppTemplateCard
+): Promise<SendMessageResult> {
+  if (!account.canSendActive) return { ...NOT_CONFIGURED_RESULT };
+  if (target.chatid) {
+    return { ok: false, errcode: -1, errmsg: "template_card is not supported in app chats" };
+  }
+
+  return postWecomAppMessage(account, target, {
+    msgtype: "template_card",
+    template_card: templateCard,
+  });
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // 图片消息支持
 // ─────────────────────────────────────────────────────────────────────────────
@@ -783,35 +1057,10 @@ export async function sendWecomAppImageMessage(
     };
   }
 
-  const token = await getAccessToken(account);
-
-  const payload: Record<string, unknown> = {
+  return postWecomAppMessage(account, target, {
     msgtype: "image",
-    agentid: account.agentId,
     image: { media_id: mediaId },
-    touser: target.userId,
-  };
-
-  const resp = await fetch(
-    buildWecomApiUrl(account, `/cgi-bin/message/send?access_token=${encodeURIComponent(token)}`),
-    {
-      method: "POST",
-      body: JSON.stringify(payload),
-      headers: { "Content-Type": "application/json" },
-    }
-  );
-
-  const data = (await resp.json()) as SendMessageResult & { errcode?: number };
-
-  return {
-    ok: data.errcode === 0,
-    errcode: data.errcode,
-    errmsg: data.errmsg,
-    invaliduser: data.invaliduser,
-    invalidparty: data.invalidparty,
-    invalidtag: data.invalidtag,
-    msgid: data.msgid,
-  };
+  });
 }
 
 /**
@@ -960,35 +1209,10 @@ export async function sendWecomAppVoiceMessage(
     };
   }
 
-  const token = await getAccessToken(account);
-
-  const payload: Record<string, unknown> = {
+  return postWecomAppMessage(account, target, {
     msgtype: "voice",
-    agentid: account.agentId,
     voice: { media_id: mediaId },
-    touser: target.userId,
-  };
-
-  const resp = await fetch(
-    buildWecomApiUrl(account, `/cgi-bin/message/send?access_token=${encodeURIComponent(token)}`),
-    {
-      method: "POST",
-      body: JSON.stringify(payload),
-      headers: { "Content-Type": "application/json" },
-    }
-  );
-
-  const data = (await resp.json()) as SendMessageResult & { errcode?: number };
-
-  return {
-    ok: data.errcode === 0,
-    errcode: data.errcode,
-    errmsg: data.errmsg,
-    invaliduser: data.invaliduser,
-    invalidparty: data.invalidparty,
-    invalidtag: data.invalidtag,
-    msgid: data.msgid,
-  };
+  });
 }
 
 /**
@@ -1161,36 +1385,11 @@ export async function sendWecomAppFileMessage(
     };
   }
 
-  const token = await getAccessToken(account);
-
-  const payload: Record<string, unknown> = {
+  return postWecomAppMessage(account, target, {
     msgtype: "file",
-    agentid: account.agentId,
     file: { media_id: mediaId },
     safe: 0,
-    touser: target.userId,
-  };
-
-  const resp = await fetch(
-    buildWecomApiUrl(account, `/cgi-bin/message/send?access_token=${encodeURIComponent(token)}`),
-    {
-      method: "POST",
-      body: JSON.stringify(payload),
-      headers: { "Content-Type": "application/json" },
-    }
-  );
-
-  const data = (await resp.json()) as SendMessageResult & { errcode?: number };
-
-  return {
-    ok: data.errcode === 0,
-    errcode: data.errcode,
-    errmsg: data.errmsg,
-    invaliduser: data.invaliduser,
-    invalidparty: data.invalidparty,
-    invalidtag: data.invalidtag,
-    msgid: data.msgid,
-  };
+  });
 }
 
 /**
@@ -0,0 +1,37 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { dispatchWecomAppMessage } from "./bot.js";
+import type { ResolvedWecomAppAccount } from "./types.js";
+
+function buildAccount(config: ResolvedWecomAppAccount["config"]): ResolvedWecomAppAccount {
+  return {
+    accountId: "pairing-fallback",
+    enabled: true,
+    configured: true,
+    token: "token123",
+    encodingAESKey: "abcdefghijklmnopqrstuvwxyz0123456789ABCDEFG",
+    receiveId: "corp123",
+    canSendActive: false,
+    config,
+  };
+}
+
+describe("dispatchWecomAppMessage", () => {
+  it("treats pairing without allowFrom as open instead of issuing a pairing code", async () => {
+    const onChunk = vi.fn();
+    const logs: string[] = [];
+
+    await dispatchWecomAppMessage({
+      account: buildAccount({ dmPolicy: "pairing", allowFrom: [] }),
+      msg: { msgid: "msg-1", msgtype: "text", from: { userid: "user-1" }, text: { content: "hello" } },
+      core: {},
+      hooks: { onChunk },
+      log: (msg) => logs.push(msg),
+      error: (msg) => logs.push(msg),
+    });
+
+    expect(logs.some((line) => line.includes("treating DMs as open for account pairing-fallback"))).toBe(true);
+    expect(logs.some((line) => line.includes("core routing or buffered dispatcher missing"))).toBe(true);
+    expect(onChunk).not.toHaveBeenCalled();
+  });
+});
@@ -8,15 +8,25 @@
 import {
   checkDmPolicy,
   createLogger,
+  handlePairingCommand,
+  issuePairingChallenge,
+  resolveEffectiveDmPolicy,
+  warnPairingWithoutAdmins,
   transcribeTencentFlash,
   type Logger,
 } from "@openclaw-china/shared";
 import { readFile } from "node:fs/promises";
 
 import type { PluginRuntime } from "./runtime.js";
-import type { ResolvedWecomAppAccount, WecomAppInboundMessage, WecomAppDmPolicy } from "./types.js";
+import type {
+  ResolvedWecomAppAccount,
+  WecomAppInboundMessage,
+  WecomAppTemplateCardEvent,
+  WecomAppMenuEvent,
+} from "./types.js";
 import {
   resolveAllowFrom,
+  resolveMenuCommand,
   resolveWecomAppASRCredentials,
   resolveDmPolicy,
   resolveInboundMediaEnabled,
@@ -27,7 +37,6 @@ import {
   sendWecomAppMessage,
   downloadAndSendImage,
   downloadWecomMediaToFile,
-  cleanupFile,
   finalizeInboundMedia,
   pruneInboundMediaDir,
 } from "./api.js";
@@ -46,6 +55,100 @@ function resolveVoiceFormat(msg: WecomAppInboundMessage, savedPath: string): str
   return "silk";
 }
 
+/**
+ * 提取模板卡片交互事件；非 template_card_event 返回 null
+ */
+export function extractWecomAppTemplateCardEvent(msg: WecomAppInboundMessage): WecomAppTemplateCardEvent | null {
+  const m = msg as {
+    Event?: string;
+    EventKey?: string;
+    TaskId?: string;
+    CardType?: string;
+    ResponseCode?: string;
+    SelectedItems?: Array<{ questionKey: string; optionIds: string[] }>;
+  };
+  if (String(m.Event ?? "").toLowerCase() !== "template_card_event") return null;
+  return {
+    taskId: String(m.TaskId ?? "").trim(),
+    cardType: String(m.CardType ?? "").trim(),
+    eventKey: String(m.EventKey ?? "").trim(),
+    responseCode: m.ResponseCode?.trim() || undefined,
+    selectedItems: m.SelectedItems ?? [],
+  };
+}
+
+function formatTemplateCardEvent(event: WecomAppTemplateCardEvent): string {
+  const parts = [`task_id=${event.taskId}`, `card_type=${event.cardType}`];
+  if (event.eventKey) parts.push(`event_key=${event.eventKey}`);
+  for (const item of event.selectedItems) {
+    parts.push(`${item.questionKey}=${item.optionIds.join(",")}`);
+  }
+  return `[template_card_event] ${parts.join(" ")}`;
+}
+
+/** 应用菜单事件类型（webhook 入口据此决定是否转交 Agent） */
+export const WECOM_APP_MENU_EVENT_TYPES: ReadonlySet<string> = new Set([
+  "click",
+  "view",
+  "scancode_push",
+  "scancode_waitmsg",
+  "pic_sysphoto",
+  "pic_photo_or_album",
+  "pic_weixin",
+  "location_select",
+]);
+
+/**
+ * 提取应用菜单事件；非菜单事件返回 null
+ */
+export function extractWecomAppMenuEvent(msg: WecomAppInboundMessage): WecomAppMenuEvent | null {
+  const m = msg as {
+    Event?: string;
+    EventKey?: string;
+    ScanType?: string;
+    ScanResult?: string;
+    Location_X?: string;
+    Location_Y?: string;
+    Scale?: string;
+    Label?: string;
+    Poiname?: string;
+    Count?: number;
+  };
+  const event = String(m.Event ?? "").toLowerCase();
+  if (!WECOM_APP_MENU_EVENT_TYPES.has(event)) return null;
+
+  const result: WecomAppMenuEvent = { event, eventKey: String(m.EventKey ?? "").trim() };
+  if (event.startsWith("scancode_")) {
+    result.scanType = m.ScanType?.trim() || undefined;
+    result.scanResult = m.ScanResult?.trim() || undefined;
+  }
+  if (event === "location_select" && m.Location_X && m.Location_Y) {
+    result.location = {
+      latitude: String(m.Location_X).trim(),
+      longitude: String(m.Location_Y).trim(),
+      scale: m.Scale?.trim() || undefined,
+      label: m.Label?.trim() || undefined,
+      poiname: m.Poiname?.trim() || undefined,
+    };
+  }
+  if (event.startsWith("pic_") && typeof m.Count === "number" && Number.isFinite(m.Count)) {
+    result.picCount = m.Count;
+  }
+  return result;
+}
+
+function formatMenuEvent(event: WecomAppMenuEvent): string {
+  const parts = [event.event === "view" ? `url=${event.eventKey}` : `key=${event.eventKey}`];
+  if (event.scanResult) parts.push(`scan_type=${event.scanType ?? ""} result=${event.scanResult}`);
+  if (event.location) {
+    const { latitude, longitude, label, poiname } = event.location;
+    parts.push(`location=${latitude},${longitude}`);
+    if (poiname || label) parts.push(poiname || label || "");
+  }
+  if (event.picCount !== undefined) parts.push(`count=${event.picCount}`);
+  return `[menu] ${event.event} ${parts.join(" ")}`;
+}
+
 /**
  * 提取消息内容
  */
@@ -98,6 +201,10 @@ export function extractWecomAppContent(msg: WecomAppInboundMessage): string {
     return parts.length ? `[location] ${parts.join(" ")}` : "[location]";
   }
   if (msgtype === "event") {
+    const cardEvent = extractWecomAppTemplateCardEvent(msg);
+    if (cardEvent) return formatTemplateCardEvent(cardEvent);
+    const menuEvent = extractWecomAppMenuEvent(msg);
+    if (menuEvent) return formatMenuEvent(menuEvent);
     const eventtype = String(
       (msg as { event?: { eventtype?: string }; Event?: string }).event?.eventtype ??
       (msg as { Event?: string }).Event ?? ""
@@ -380,20 +487,46 @@ export async function dispatchWecomAppMessage(params: {
   const accountConfig = account?.config ?? {};
 
   // DM 策略检查
-  const dmPolicy = resolveDmPolicy(accountConfig);
   const allowFrom = resolveAllowFrom(accountConfig);
+  const { dmPolicy, pairingWithoutAdmins } = resolveEffectiveDmPolicy(resolveDmPolicy(accountConfig), allowFrom);
+  const pairingScope = { channel: "wecom-app", accountId: account.accountId };
+  if (pairingWithoutAdmins) {
+    warnPairingWithoutAdmins(pairingScope, logger);
+  }
 
   const policyResult = checkDmPolicy({
     dmPolicy,
     senderId,
     allowFrom,
+    pairing: pairingScope,
   });
 
   if (!policyResult.allowed) {
     logger.debug(`policy rejected: ${policyResult.reason}`);
+    if (policyResult.pairingRequired) {
+      const challenge = issuePairingChallenge(pairingScope, senderId);
+      if (challenge.created) {
+        logger.info(`pairing code ${challenge.code} issued for sender ${senderId}`);
+      }
+      hooks.onChunk(challenge.text);
+    }
     return;
   }
 
+  // 配对模式下 allowFrom 中的发送者作为管理员审批配对码
+  if (dmPolicy === "pairing") {
+    const pairingReply = handlePairingCommand({
+      scope: pairingScope,
+      senderId,
+      text: extractWecomAppContent(msg),
+      admins: allowFrom,
+    });
+    if (pairingReply !== null) {
+      hooks.onChunk(pairingReply);
+      return;
+    }
+  }
+
   const channel = core.channel;
   if (!channel?.routing?.resolveAgentRoute || !channel.reply?.dispatchReplyWithBufferedBlockDispatcher) {
     logger.debug("core routing or buffered dispatcher missing, skipping dispatch");
@@ -407,7 +540,11 @@ export async function dispatchWecomAppMessage(params: {
     peer: { kind: "dm", id: chatId },
   });
 
-  const { text: rawBody, cleanup } = await buildInboundBody({ cfg: safeCfg, account, msg });
+  const { text: inboundText, cleanup } = await buildInboundBody({ cfg: safeCfg, account, msg });
+  // 菜单事件命中预设命令时，以命令文本作为用户消息
+  const menuEvent = extractWecomAppMenuEvent(msg) ?? undefined;
+  const menuCommand = menuEvent ? resolveMenuCommand(accountConfig, menuEvent.eventKey) : undefined;
+  const rawBody = menuCommand ?? inboundText;
   const fromLabel = `user:${senderId}`;
 
   const storePath = channel.session?.resolveStorePath?.(safeCfg.session?.store, {
@@ -436,6 +573,7 @@ export async function dispatchWecomAppMessage(params: {
     : rawBody;
 
   const msgid = msg.msgid ?? msg.MsgId ?? undefined;
+  const templateCardEvent = extractWecomAppTemplateCardEvent(msg) ?? undefined;
 
   // 构建标准化的目标标识，用于自动回复到当前会话
   // - From: 带渠道前缀，用于标识来源渠道
@@ -461,6 +599,8 @@ export async function dispatchWecomAppMessage(params: {
         MessageSid: msgid,
         OriginatingChannel: "wecom-app",
         OriginatingTo: to,
+        TemplateCardEvent: templateCardEvent,
+        MenuEvent: menuEvent,
       })
     : {
         Body: body,
@@ -479,6 +619,8 @@ export async function dispatchWecomAppMessage(params: {
         MessageSid: msgid,
         OriginatingChannel: "wecom-app",
         OriginatingTo: to,
+        TemplateCardEvent: templateCardEvent,
+        MenuEvent: menuEvent,
       }) as {
     SessionKey?: string;
     [key: string]: unknown;
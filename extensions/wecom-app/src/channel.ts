@@ -16,8 +16,22 @@ import {
 } from "./config.js";
 import { registerWecomAppWebhookTarget } from "./monitor.js";
 import { setWecomAppRuntime } from "./runtime.js";
-import { sendWecomAppMessage, stripMarkdown, downloadAndSendImage, downloadAndSendVoice, downloadAndSendFile } from "./api.js";
+import {
+  forgetSentMessage,
+  recordSentMessage,
+  resolveSentMessage,
+  type MessageActionResult,
+} from "@openclaw-china/shared";
+import {
+  sendWecomAppMessage,
+  downloadAndSendImage,
+  downloadAndSendVoice,
+  downloadAndSendFile,
+  recallWecomAppMessage,
+} from "./api.js";
 import { hasFfmpeg, transcodeToAmr } from "./ffmpeg.js";
+import { parseTarget } from "./send.js";
+import { syncWecomAppMenu } from "./menu.js";
 
 /**
  * 媒体类型
@@ -221,6 +235,7 @@ export const wecomAppPlugin = {
    * - "wecom-app:xxx" → { channel: "wecom-app", to: "user:xxx" }
    * - "user:xxx" → { channel: "wecom-app", to: "user:xxx" }
    * - "xxx" (裸ID) → { channel: "wecom-app", to: "user:xxx" }
+   * - "party:xxx" / "tag:xxx" / "chat:xxx" → 保留类型前缀，发送时映射到 toparty / totag / appchat
    * - 带 accountId: "user:xxx@account1" → { channel: "wecom-app", accountId: "account1", to: "user:xxx" }
    */
   directory: {
@@ -296,7 +311,12 @@ export const wecomAppPlugin = {
         }
       }
 
-      // 3. 剥离 user: 或 group: 前缀，返回纯 ID
+      // 3. 部门 / 标签 / 应用群聊目标保留前缀，供 outbound 区分接收方类型
+      if (/^(party|tag|chat):/.test(to)) {
+        return { channel: "wecom-app", accountId, to };
+      }
+
+      // 4. 剥离 user: 或 group: 前缀，返回纯 ID
       // 这样框架才能正确匹配 inbound context 中的 From/To 字段
       if (to.startsWith("group:")) {
         return { channel: "wecom-app", accountId, to: to.slice(6) };
@@ -305,7 +325,7 @@ export const wecomAppPlugin = {
         return { channel: "wecom-app", accountId, to: to.slice(5) };
       }
 
-      // 4. 裸 ID 格式（直接返回，默认当作用户 ID）
+      // 5. 裸 ID 格式（直接返回，默认当作用户 ID）
       return { channel: "wecom-app", accountId, to };
     },
 
@@ -350,6 +370,9 @@ export const wecomAppPlugin = {
     getTargetFormats: (): string[] => [
       "wecom-app:user:<userId>",
       "user:<userId>",
+      "party:<partyId>",
+      "tag:<tagId>",
+      "chat:<chatId>",
       "<userId>",  // 裸 ID，默认当作用户 ID
     ],
   },
@@ -386,7 +409,7 @@ export const wecomAppPlugin = {
         };
       }
 
-      // 解析 to: 支持格式 "wecom-app:user:xxx" / "wecom-app:xxx" / "user:xxx" / "xxx"
+      // 解析 to: 支持格式 "wecom-app:user:xxx" / "wecom-app:xxx" / "user:xxx" / "party:xxx" / "tag:xxx" / "chat:xxx" / "xxx"
       let to = params.to;
 
       // 1. 先剥离 channel 前缀 "wecom-app:"
@@ -395,16 +418,14 @@ export const wecomAppPlugin = {
         to = to.slice(channelPrefix.length);
       }
 
-      // 2. 解析剩余部分: "user:xxx" / "xxx"
-      let target: { userId: string };
-      if (to.startsWith("user:")) {
-        target = { userId: to.slice(5) };
-      } else {
-        target = { userId: to };
-      }
+      // 2. 解析剩余部分: "user:xxx" / "party:xxx" / "tag:xxx" / "chat:xxx" / "xxx"
+      const target = parseTarget(to);
 
       try {
         const result = await sendWecomAppMessage(account, target, params.text);
+        if (result.ok && result.msgid) {
+          recordSentMessage({ channel: "wecom-app", accountId: account.accountId, messageId: result.msgid, to: params.to });
+        }
         return {
           channel: "wecom-app",
           ok: result.ok,
@@ -458,7 +479,7 @@ export const wecomAppPlugin = {
         };
       }
 
-      // 解析 to: 支持格式 "wecom-app:user:xxx" / "wecom-app:xxx" / "user:xxx" / "xxx"
+      // 解析 to: 支持格式 "wecom-app:user:xxx" / "wecom-app:xxx" / "user:xxx" / "party:xxx" / "tag:xxx" / "chat:xxx" / "xxx"
       let to = params.to;
 
       //1. 先剥离 channel 前缀 "wecom-app:"
@@ -467,13 +488,8 @@ export const wecomAppPlugin = {
         to = to.slice(channelPrefix.length);
       }
 
-      //2. 解析剩余部分: "user:xxx" / "xxx"
-      let target: { userId: string };
-      if (to.startsWith("user:")) {
-        target = { userId: to.slice(5) };
-      } else {
-        target = { userId: to };
-      }
+      //2. 解析剩余部分: "user:xxx" / "party:xxx" / "tag:xxx" / "chat:xxx" / "xxx"
+      const target = parseTarget(to);
 
       console.log(`[wecom-app] Target parsed:`, target);
 
@@ -557,6 +573,9 @@ export const wecomAppPlugin = {
         }
 
         console.log(`[wecom-app] Media send returned: ok=${result.ok}, msgid=${result.msgid}, errcode=${result.errcode}, errmsg=${result.errmsg}`);
+        if (result.ok && result.msgid) {
+          recordSentMessage({ channel: "wecom-app", accountId: account.accountId, messageId: result.msgid, to: params.to });
+        }
 
         return {
           channel: "wecom-app",
@@ -574,6 +593,53 @@ export const wecomAppPlugin = {
         };
       }
     },
+
+    /**
+     * 撤回应用消息（24 小时内）
+     * 未指定 messageId 时撤回发给 to 的最近一条消息；应用群聊消息无 msgid，无法撤回
+     */
+    recall: async (params: {
+      cfg: PluginConfig;
+      accountId?: string;
+      messageId?: string;
+      to?: string;
+    }): Promise<MessageActionResult> => {
+      const account = resolveWecomAppAccount({ cfg: params.cfg, accountId: params.accountId });
+      const record = resolveSentMessage({
+        channel: "wecom-app",
+        accountId: account.accountId,
+        messageId: params.messageId,
+        to: params.to,
+      });
+      const msgid = record?.messageId ?? params.messageId?.trim();
+      if (!msgid) {
+        return { ok: false, error: "no sent message to recall" };
+      }
+
+      try {
+        const result = await recallWecomAppMessage(account, msgid);
+        if (!result.ok) {
+          return { ok: false, error: `recall failed: ${result.errmsg ?? "unknown error"} (errcode=${result.errcode})` };
+        }
+      } catch (err) {
+        return { ok: false, error: err instanceof Error ? err.message : String(err) };
+      }
+      forgetSentMessage({ channel: "wecom-app", accountId: account.accountId, messageId: msgid });
+      return { ok: true };
+    },
+
+    /**
+     * 编辑已发送的消息（企业微信应用消息不支持编辑）
+     */
+    edit: async (_params: {
+      cfg: PluginConfig;
+      accountId?: string;
+      messageId?: string;
+      to?: string;
+      text: string;
+    }): Promise<MessageActionResult> => {
+      return { ok: false, error: "WeCom app messages cannot be edited; recall and resend instead" };
+    },
   },
 
   gateway: {
@@ -623,6 +689,16 @@ export const wecomAppPlugin = {
       unregisterHooks.set(ctx.accountId, unregister);
 
       ctx.log?.info(`[wecom-app] webhook registered at ${path} for account ${ctx.accountId} (canSendActive=${account.canSendActive})`);
+
+      // 同步应用菜单（失败不影响消息收发）
+      syncWecomAppMenu(account)
+        .then((result) => {
+          if (!result.ok) ctx.log?.error(`[wecom-app] menu sync failed for account ${ctx.accountId}: ${result.error}`);
+          else if (!result.skipped) ctx.log?.info(`[wecom-app] menu synced for account ${ctx.accountId}`);
+        })
+        .catch((err) => {
+          ctx.log?.error(`[wecom-app] menu sync failed for account ${ctx.accountId}: ${String(err)}`);
+        });
       ctx.setStatus?.({
         accountId: ctx.accountId,
         running: true,
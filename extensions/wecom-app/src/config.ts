@@ -13,6 +13,70 @@ import type {
   WecomAppDmPolicy,
 } from "./types.js";
 
+const MENU_BUTTON_TYPES = [
+  "click",
+  "view",
+  "scancode_push",
+  "scancode_waitmsg",
+  "pic_sysphoto",
+  "pic_photo_or_album",
+  "pic_weixin",
+  "location_select",
+  "view_miniprogram",
+] as const;
+
+const WecomAppMenuLeafButtonSchema = z.object({
+  type: z.enum(MENU_BUTTON_TYPES).optional(),
+  name: z.string(),
+  key: z.string().optional(),
+  url: z.string().optional(),
+  appid: z.string().optional(),
+  pagepath: z.string().optional(),
+});
+
+const WecomAppMenuSchema = z.object({
+  sync: z.boolean().optional(),
+  button: z.array(
+    WecomAppMenuLeafButtonSchema.extend({
+      sub_button: z.array(WecomAppMenuLeafButtonSchema).optional(),
+    })
+  ),
+  commands: z.record(z.string()).optional(),
+});
+
+const menuButtonJsonSchema = {
+  type: "object",
+  properties: {
+    type: { type: "string", enum: [...MENU_BUTTON_TYPES] },
+    name: { type: "string" },
+    key: { type: "string" },
+    url: { type: "string" },
+    appid: { type: "string" },
+    pagepath: { type: "string" },
+  },
+  required: ["name"],
+};
+
+const menuJsonSchema = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    sync: { type: "boolean" },
+    button: {
+      type: "array",
+      items: {
+        ...menuButtonJsonSchema,
+        properties: {
+          ...menuButtonJsonSchema.properties,
+          sub_button: { type: "array", items: menuButtonJsonSchema },
+        },
+      },
+    },
+    commands: { type: "object", additionalProperties: { type: "string" } },
+  },
+  required: ["button"],
+};
+
 /** 默认账户 ID */
 export const DEFAULT_ACCOUNT_ID = "default";
 
@@ -64,6 +128,7 @@ const WecomAppAccountSchema = z.object({
 
   // 其他字段
   welcomeText: z.string().optional(),
+  menu: WecomAppMenuSchema.optional(),
   dmPolicy: z.enum(["open", "pairing", "allowlist", "disabled"]).optional(),
   allowFrom: z.array(z.string()).optional(),
 });
@@ -121,6 +186,7 @@ export const WecomAppConfigJsonSchema = {
         },
       },
       welcomeText: { type: "string" },
+      menu: menuJsonSchema,
       dmPolicy: { type: "string", enum: ["open", "pairing", "allowlist", "disabled"] },
       allowFrom: { type: "array", items: { type: "string" } },
       maxFileSizeMB: { type: "number" },
@@ -164,6 +230,7 @@ export const WecomAppConfigJsonSchema = {
               },
             },
             welcomeText: { type: "string" },
+            menu: menuJsonSchema,
             dmPolicy: { type: "string", enum: ["open", "pairing", "allowlist", "disabled"] },
             allowFrom: { type: "array", items: { type: "string" } },
             groupPolicy: { type: "string", enum: ["open", "allowlist", "disabled"] },
@@ -290,13 +357,21 @@ export function listEnabledWecomAppAccounts(cfg: PluginConfig): ResolvedWecomApp
 }
 
 export function resolveDmPolicy(config: WecomAppAccountConfig): WecomAppDmPolicy {
-  return (config.dmPolicy ?? "pairing") as WecomAppDmPolicy;
+  return (config.dmPolicy ?? "open") as WecomAppDmPolicy;
 }
 
 export function resolveAllowFrom(config: WecomAppAccountConfig): string[] {
   return config.allowFrom ?? [];
 }
 
+/**
+ * 解析菜单事件对应的预设命令（未配置时返回 undefined，由 Agent 直接处理事件）
+ */
+export function resolveMenuCommand(config: WecomAppAccountConfig, eventKey: string): string | undefined {
+  const command = config.menu?.commands?.[eventKey]?.trim();
+  return command || undefined;
+}
+
 export const DEFAULT_WECOM_APP_API_BASE_URL = "https://qyapi.weixin.qq.com";
 
 export function resolveApiBaseUrl(config: WecomAppAccountConfig): string {
@@ -0,0 +1,91 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { clearAllAccessTokenCache } from "./api.js";
+import { clearSyncedMenus, syncWecomAppMenu, validateWecomAppMenu } from "./menu.js";
+import type { ResolvedWecomAppAccount, WecomAppMenuConfig } from "./types.js";
+
+function createAccount(menu?: WecomAppMenuConfig): ResolvedWecomAppAccount {
+  return {
+    accountId: "default",
+    enabled: true,
+    configured: true,
+    token: "token",
+    encodingAESKey: "encoding-aes-key",
+    receiveId: "corp-id",
+    corpId: "corp-id",
+    corpSecret: "corp-secret",
+    agentId: 1000002,
+    canSendActive: true,
+    config: { menu },
+  };
+}
+
+function mockJsonResponse(payload: unknown): Response {
+  return {
+    json: vi.fn().mockResolvedValue(payload),
+  } as unknown as Response;
+}
+
+afterEach(() => {
+  clearSyncedMenus();
+  clearAllAccessTokenCache();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+const menu: WecomAppMenuConfig = {
+  button: [
+    { type: "click", name: "今日日报", key: "daily_report" },
+    {
+      name: "工具",
+      sub_button: [
+        { type: "scancode_push", name: "扫码", key: "scan" },
+        { type: "view", name: "官网", url: "https://example.com" },
+      ],
+    },
+  ],
+  commands: { daily_report: "/report today" },
+};
+
+describe("wecom-app menu", () => {
+  it("validates menu structure", () => {
+    expect(validateWecomAppMenu(menu.button)).toBeNull();
+    expect(validateWecomAppMenu([{ type: "click", name: "a" }])).toBe("button[0]: key is required for click");
+    expect(validateWecomAppMenu([{ type: "view", name: "a" }])).toBe("button[0]: url is required for view");
+    expect(
+      validateWecomAppMenu([
+        { type: "click", name: "a", key: "a" },
+        { type: "click", name: "b", key: "b" },
+        { type: "click", name: "c", key: "c" },
+        { type: "click", name: "d", key: "d" },
+      ])
+    ).toBe("menu supports at most 3 top-level buttons");
+  });
+
+  it("creates the menu once per unchanged config", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(mockJsonResponse({ errcode: 0, access_token: "token-a" }))
+      .mockResolvedValue(mockJsonResponse({ errcode: 0, errmsg: "ok" }));
+    vi.stubGlobal("fetch", fetchMock as unknown as typeof fetch);
+    const account = createAccount(menu);
+
+    expect(await syncWecomAppMenu(account)).toEqual({ ok: true });
+    expect(fetchMock.mock.calls[1]?.[0]).toBe(
+      "https://qyapi.weixin.qq.com/cgi-bin/menu/create?access_token=token-a&agentid=1000002"
+    );
+    expect(JSON.parse(String(fetchMock.mock.calls[1]?.[1]?.body))).toEqual({ button: menu.button });
+
+    expect(await syncWecomAppMenu(account)).toEqual({ ok: true, skipped: true });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("skips accounts without menu or with sync disabled", async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock as unknown as typeof fetch);
+
+    expect(await syncWecomAppMenu(createAccount())).toEqual({ ok: true, skipped: true });
+    expect(await syncWecomAppMenu(createAccount({ ...menu, sync: false }))).toEqual({ ok: true, skipped: true });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * 企业微信自建应用菜单管理
+ *
+ * 根据配置 menu.button 校验并同步应用菜单（/cgi-bin/menu/create）
+ */
+
+import type { ResolvedWecomAppAccount, WecomAppMenuButton } from "./types.js";
+import { createWecomAppMenu } from "./api.js";
+
+const MAX_TOP_BUTTONS = 3;
+const MAX_SUB_BUTTONS = 5;
+
+/** 需要 key 的按钮类型（点击后回调事件） */
+const KEYED_BUTTON_TYPES = new Set([
+  "click",
+  "scancode_push",
+  "scancode_waitmsg",
+  "pic_sysphoto",
+  "pic_photo_or_album",
+  "pic_weixin",
+  "location_select",
+]);
+
+/** 已同步的菜单指纹，避免每次重启/重载都重复调用 menu/create */
+const syncedMenus = new Map<string, string>();
+
+export type MenuSyncResult = {
+  ok: boolean;
+  /** 菜单未变化或未开启同步时为 true */
+  skipped?: boolean;
+  error?: string;
+};
+
+function validateButton(button: WecomAppMenuButton, path: string): string | null {
+  if (!button.name?.trim()) return `${path}: name is required`;
+  if (button.sub_button?.length) return null;
+  if (!button.type) return `${path}: type is required`;
+  if (KEYED_BUTTON_TYPES.has(button.type) && !button.key?.trim()) {
+    return `${path}: key is required for ${button.type}`;
+  }
+  if (button.type === "view" && !button.url?.trim()) return `${path}: url is required for view`;
+  if (button.type === "view_miniprogram" && (!button.appid?.trim() || !button.pagepath?.trim())) {
+    return `${path}: appid and pagepath are required for view_miniprogram`;
+  }
+  return null;
+}
+
+/**
+ * 校验菜单结构，返回第一个错误；合法时返回 null
+ */
+export function validateWecomAppMenu(buttons: WecomAppMenuButton[]): string | null {
+  if (buttons.length === 0) return "menu requires at least one button";
+  if (buttons.length > MAX_TOP_BUTTONS) return `menu supports at most ${MAX_TOP_BUTTONS} top-level buttons`;
+
+  for (const [i, button] of buttons.entries()) {
+    const error = validateButton(button, `button[${i}]`);
+    if (error) return error;
+    const subs = button.sub_button ?? [];
+    if (subs.length > MAX_SUB_BUTTONS) {
+      return `button[${i}]: at most ${MAX_SUB_BUTTONS} sub buttons`;
+    }
+    for (const [j, sub] of subs.entries()) {
+      if (sub.sub_button?.length) return `button[${i}].sub_button[${j}]: nested sub buttons are not supported`;
+      const subError = validateButton(sub, `button[${i}].sub_button[${j}]`);
+      if (subError) return subError;
+    }
+  }
+  return null;
+}
+
+/**
+ * 按配置同步应用菜单
+ * - 未配置 menu 或 menu.sync=false 时跳过
+ * - 与上次同步内容一致时跳过
+ */
+export async function syncWecomAppMenu(account: ResolvedWecomAppAccount): Promise<MenuSyncResult> {
+  const menu = account.config.menu;
+  if (!menu || menu.sync === false) return { ok: true, skipped: true };
+  if (!account.canSendActive) {
+    return { ok: false, error: "menu sync requires corpId, corpSecret and agentId" };
+  }
+
+  const invalid = validateWecomAppMenu(menu.button ?? []);
+  if (invalid) return { ok: false, error: invalid };
+
+  const key = `${account.corpId}:${account.agentId}`;
+  const fingerprint = JSON.stringify(menu.button);
+  if (syncedMenus.get(key) === fingerprint) return { ok: true, skipped: true };
+
+  const result = await createWecomAppMenu(account, menu.button);
+  if (!result.ok) {
+    return { ok: false, error: `menu/create failed: ${result.errmsg ?? "unknown error"} (errcode=${result.errcode})` };
+  }
+  syncedMenus.set(key, fingerprint);
+  return { ok: true };
+}
+
+export function clearSyncedMenus(): void {
+  syncedMenus.clear();
+}
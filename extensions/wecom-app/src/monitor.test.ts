@@ -1,9 +1,10 @@
 import { Readable } from "node:stream";
 import type { IncomingMessage, ServerResponse } from "node:http";
-import { describe, expect, it } from "vitest";
+import { describe, expect, it, vi } from "vitest";
 
 import { computeWecomAppMsgSignature, encryptWecomAppPlaintext } from "./crypto.js";
 import { handleWecomAppWebhookRequest, registerWecomAppWebhookTarget } from "./monitor.js";
+import { clearWecomAppRuntime, setWecomAppRuntime, type PluginRuntime } from "./runtime.js";
 import type { ResolvedWecomAppAccount } from "./types.js";
 
 const token = "token123";
@@ -184,3 +185,164 @@ describe("wecom-app webhook routing", () => {
     unregisterB();
   });
 });
+
+function mockAgentRuntime(dispatched: Array<Record<string, unknown>>): void {
+  setWecomAppRuntime({
+    channel: {
+      routing: {
+        resolveAgentRoute: () => ({ agentId: "main", accountId: "default", sessionKey: "agent:main:wecom-app:dm:user1" }),
+      },
+      reply: {
+        dispatchReplyWithBufferedBlockDispatcher: async (params: { ctx: Record<string, unknown> }) => {
+          dispatched.push(params.ctx);
+        },
+      },
+    },
+  } as unknown as PluginRuntime);
+}
+
+function buildEncryptedXmlRequest(xml: string, timestamp: string, nonce: string): IncomingMessage {
+  const encrypt = encryptWecomAppPlaintext({ encodingAESKey, receiveId: "corp123", plaintext: xml });
+  const signature = computeWecomAppMsgSignature({ token, timestamp, nonce, encrypt });
+  const params = new URLSearchParams({ timestamp, nonce, msg_signature: signature });
+  return createRequest("POST", `/wecom-app?${params.toString()}`, JSON.stringify({ encrypt }));
+}
+
+describe("wecom-app agent events", () => {
+  function registerOpenAccount(menuCommands?: Record<string, string>): () => void {
+    const account = buildAccount({ accountId: "default", agentId: 1001, receiveId: "corp123" });
+    account.config.dmPolicy = "open";
+    if (menuCommands) account.config.menu = { button: [], commands: menuCommands };
+    return registerWecomAppWebhookTarget({
+      account,
+      config: { channels: { "wecom-app": {} } },
+      runtime: {},
+      path: "/wecom-app",
+    });
+  }
+
+  it("routes template_card_event to the agent as a structured event", async () => {
+    const dispatched: Array<Record<string, unknown>> = [];
+    mockAgentRuntime(dispatched);
+    const unregister = registerOpenAccount();
+
+    const xml = [
+      "<xml>",
+      "<ToUserName><![CDATA[corp123]]></ToUserName>",
+      "<FromUserName><![CDATA[user1]]></FromUserName>",
+      "<CreateTime>1700000003</CreateTime>",
+      "<MsgType><![CDATA[event]]></MsgType>",
+      "<Event><![CDATA[template_card_event]]></Event>",
+      "<EventKey><![CDATA[approve]]></EventKey>",
+      "<TaskId><![CDATA[task-1]]></TaskId>",
+      "<CardType><![CDATA[vote_interaction]]></CardType>",
+      "<ResponseCode><![CDATA[code-1]]></ResponseCode>",
+      "<AgentID>1001</AgentID>",
+      "<SelectedItems><SelectedItem><QuestionKey><![CDATA[q1]]></QuestionKey>",
+      "<OptionIds><OptionId><![CDATA[a]]></OptionId><OptionId><![CDATA[b]]></OptionId></OptionIds>",
+      "</SelectedItem></SelectedItems>",
+      "</xml>",
+    ].join("");
+    const req = buildEncryptedXmlRequest(xml, "1700000003", "nonce3");
+    const recorder = createResponseRecorder();
+
+    try {
+      expect(await handleWecomAppWebhookRequest(req, recorder.res)).toBe(true);
+      await vi.waitFor(() => expect(dispatched).toHaveLength(1));
+
+      expect(dispatched[0]?.RawBody).toBe(
+        "[template_card_event] task_id=task-1 card_type=vote_interaction event_key=approve q1=a,b"
+      );
+      expect(dispatched[0]?.TemplateCardEvent).toEqual({
+        taskId: "task-1",
+        cardType: "vote_interaction",
+        eventKey: "approve",
+        responseCode: "code-1",
+        selectedItems: [{ questionKey: "q1", optionIds: ["a", "b"] }],
+      });
+    } finally {
+      unregister();
+      clearWecomAppRuntime();
+    }
+  });
+
+  it("dispatches menu events and maps canned commands", async () => {
+    const dispatched: Array<Record<string, unknown>> = [];
+    mockAgentRuntime(dispatched);
+    const unregister = registerOpenAccount({ daily_report: "/report today" });
+
+    const buildMenuXml = (event: string, extra: string) =>
+      [
+        "<xml>",
+        "<ToUserName><![CDATA[corp123]]></ToUserName>",
+        "<FromUserName><![CDATA[user1]]></FromUserName>",
+        "<MsgType><![CDATA[event]]></MsgType>",
+        `<Event><![CDATA[${event}]]></Event>`,
+        "<AgentID>1001</AgentID>",
+        extra,
+        "</xml>",
+      ].join("");
+
+    try {
+      await handleWecomAppWebhookRequest(
+        buildEncryptedXmlRequest(
+          buildMenuXml("click", "<EventKey><![CDATA[daily_report]]></EventKey>"),
+          "1700000004",
+          "nonce4"
+        ),
+        createResponseRecorder().res
+      );
+      await vi.waitFor(() => expect(dispatched).toHaveLength(1));
+      expect(dispatched[0]?.RawBody).toBe("/report today");
+      expect(dispatched[0]?.MenuEvent).toEqual({ event: "click", eventKey: "daily_report" });
+
+      await handleWecomAppWebhookRequest(
+        buildEncryptedXmlRequest(
+          buildMenuXml(
+            "scancode_push",
+            "<EventKey><![CDATA[scan]]></EventKey><ScanCodeInfo><ScanType><![CDATA[qrcode]]></ScanType><ScanResult><![CDATA[hello]]></ScanResult></ScanCodeInfo>"
+          ),
+          "1700000005",
+          "nonce5"
+        ),
+        createResponseRecorder().res
+      );
+      await vi.waitFor(() => expect(dispatched).toHaveLength(2));
+      expect(dispatched[1]?.RawBody).toBe("[menu] scancode_push key=scan scan_type=qrcode result=hello");
+      expect(dispatched[1]?.MenuEvent).toEqual({
+        event: "scancode_push",
+        eventKey: "scan",
+        scanType: "qrcode",
+        scanResult: "hello",
+      });
+
+      // 未映射的 view（菜单链接点击）直接应答，不转交 Agent
+      const viewRecorder = createResponseRecorder();
+      await handleWecomAppWebhookRequest(
+        buildEncryptedXmlRequest(
+          buildMenuXml("view", "<EventKey><![CDATA[https://example.com/docs]]></EventKey>"),
+          "1700000006",
+          "nonce6"
+        ),
+        viewRecorder.res
+      );
+      expect(viewRecorder.getBody()).toContain("encrypt");
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      expect(dispatched).toHaveLength(2);
+
+      await handleWecomAppWebhookRequest(
+        buildEncryptedXmlRequest(
+          buildMenuXml("view", "<EventKey><![CDATA[daily_report]]></EventKey>"),
+          "1700000007",
+          "nonce7"
+        ),
+        createResponseRecorder().res
+      );
+      await vi.waitFor(() => expect(dispatched).toHaveLength(3));
+      expect(dispatched[2]?.RawBody).toBe("/report today");
+    } finally {
+      unregister();
+      clearWecomAppRuntime();
+    }
+  });
+});
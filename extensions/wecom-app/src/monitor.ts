@@ -7,14 +7,14 @@ import crypto from "node:crypto";
 import { createLogger, type Logger } from "@openclaw-china/shared";
 
 import type { ResolvedWecomAppAccount, WecomAppInboundMessage } from "./types.js";
-import type { PluginConfig } from "./config.js";
+import { resolveMenuCommand, type PluginConfig } from "./config.js";
 import {
   decryptWecomAppEncrypted,
   encryptWecomAppPlaintext,
   verifyWecomAppSignature,
   computeWecomAppMsgSignature,
 } from "./crypto.js";
-import { dispatchWecomAppMessage } from "./bot.js";
+import { dispatchWecomAppMessage, WECOM_APP_MENU_EVENT_TYPES } from "./bot.js";
 import { tryGetWecomAppRuntime } from "./runtime.js";
 import { sendWecomAppMessage, stripMarkdown } from "./api.js";
 
@@ -58,6 +58,8 @@ const STREAM_TTL_MS = 10 * 60 * 1000;
 const STREAM_MAX_BYTES = 512_000;
 /** 等待时间：5秒是企业微信最大响应时间，用于累积足够内容 */
 const INITIAL_STREAM_WAIT_MS = 5000;
+/** 转交给 Agent 处理的事件类型（模板卡片交互、应用菜单） */
+const AGENT_EVENT_TYPES = new Set(["template_card_event", ...WECOM_APP_MENU_EVENT_TYPES]);
 
 function normalizeWebhookPath(raw: string): string {
   const trimmed = raw.trim();
@@ -183,6 +185,23 @@ function parseXmlBody(xml: string): Record<string, string> {
   return result;
 }
 
+/**
+ * 解析 template_card_event 的投票/多选结果
+ * <SelectedItems><SelectedItem><QuestionKey/><OptionIds><OptionId/>...</OptionIds></SelectedItem></SelectedItems>
+ */
+function parseSelectedItems(xml: string): Array<{ questionKey: string; optionIds: string[] }> | undefined {
+  const block = xml.match(/<SelectedItems>([\s\S]*?)<\/SelectedItems>/)?.[1];
+  if (!block) return undefined;
+  const unwrap = (value: string) => value.replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, "$1").trim();
+  const items: Array<{ questionKey: string; optionIds: string[] }> = [];
+  for (const [, item] of block.matchAll(/<SelectedItem>([\s\S]*?)<\/SelectedItem>/g)) {
+    const questionKey = unwrap(item!.match(/<QuestionKey>([\s\S]*?)<\/QuestionKey>/)?.[1] ?? "");
+    const optionIds = [...item!.matchAll(/<OptionId>([\s\S]*?)<\/OptionId>/g)].map(([, id]) => unwrap(id!));
+    items.push({ questionKey, optionIds });
+  }
+  return items;
+}
+
 /**
  * 判断是否是 XML 格式
  */
@@ -296,6 +315,17 @@ function parseWecomAppPlainMessage(raw: string): WecomAppInboundMessage {
       Label: xmlData.Label,
       // 事件类型
       Event: xmlData.Event,
+      EventKey: xmlData.EventKey,
+      // template_card_event fields
+      TaskId: xmlData.TaskId,
+      CardType: xmlData.CardType,
+      ResponseCode: xmlData.ResponseCode,
+      SelectedItems: parseSelectedItems(trimmed),
+      // menu event fields
+      ScanType: xmlData.ScanType,
+      ScanResult: xmlData.ScanResult,
+      Poiname: xmlData.Poiname,
+      Count: xmlData.Count ? Number(xmlData.Count) : undefined,
     } as WecomAppInboundMessage;
   }
   
@@ -674,16 +704,22 @@ export async function handleWecomAppWebhookRequest(req: IncomingMessage, res: Se
       return true;
     }
 
-    jsonOk(
-      res,
-      buildEncryptedJsonReply({
-        account: target.account,
-        plaintextJson: {},
-        nonce: msgNonce,
-        timestamp: msgTimestamp,
-      })
-    );
-    return true;
+    // 模板卡片交互与菜单事件交给 Agent 处理，其余事件直接应答；
+    // view 只是菜单链接点击，未配置预设命令时不触发回复
+    const eventKey = String((msg as { EventKey?: string }).EventKey ?? "").trim();
+    const skipView = eventtype === "view" && !resolveMenuCommand(target.account.config, eventKey);
+    if (!AGENT_EVENT_TYPES.has(eventtype) || skipView) {
+      jsonOk(
+        res,
+        buildEncryptedJsonReply({
+          account: target.account,
+          plaintextJson: {},
+          nonce: msgNonce,
+          timestamp: msgTimestamp,
+        })
+      );
+      return true;
+    }
   }
 
   const streamId = createStreamId();
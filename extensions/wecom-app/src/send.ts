@@ -5,6 +5,7 @@
  *
  * 使用示例：
  * - 私聊：sendWecomDM("caihongyu", { text: "Hello" })
+ * - 部门 / 标签 / 应用群聊：sendWecom(account, "party:2", { text: "Hello" })
  */
 
 import type { ResolvedWecomAppAccount, WecomAppSendTarget } from "./types.js";
@@ -33,11 +34,17 @@ export type SendResult = {
 // Target 规范化
 // ─────────────────────────────────────────────────────────────────────────────
 
+/** 目标类型 */
+export type TargetType = "user" | "party" | "tag" | "chat";
+
+const TARGET_PREFIXES: TargetType[] = ["user", "party", "tag", "chat"];
+
 /**
  * 规范化目标格式
  *
  * 输入格式（用户侧传入）：
  * - 私聊："caihongyu" 或 "user:caihongyu"
+ * - 部门："party:2"；标签："tag:1"；应用群聊："chat:wrOgQh..."
  * - 带 channel 前缀："wecom-app:user:caihongyu"
  *
  * 输出格式（OpenClaw 标准）：
@@ -45,7 +52,7 @@ export type SendResult = {
  */
 export function normalizeTarget(
   target: string,
-  type: "user"
+  type: TargetType
 ): string {
   let normalized = target.trim();
 
@@ -55,27 +62,38 @@ export function normalizeTarget(
     normalized = normalized.slice(channelPrefix.length);
   }
 
-  // 如果已有正确的类型前缀，直接返回
-  if (type === "user" && normalized.startsWith("user:")) {
-    return normalized;
-  }
-
-  // 移除可能存在的错误前缀
-  if (normalized.startsWith("user:")) {
-    normalized = normalized.slice(5);
+  // 移除已有的类型前缀，再添加正确的类型前缀
+  for (const prefix of TARGET_PREFIXES) {
+    if (normalized.startsWith(`${prefix}:`)) {
+      normalized = normalized.slice(prefix.length + 1);
+      break;
+    }
   }
 
-  // 添加正确的类型前缀
-  return `user:${normalized}`;
+  return `${type}:${normalized}`;
 }
 
 /**
  * 将规范化的 target 字符串解析为 WecomAppSendTarget
+ *
+ * - "user:xxx" / "xxx" → touser
+ * - "party:xxx" → toparty
+ * - "tag:xxx" → totag
+ * - "chat:xxx" → appchat/send
  */
 export function parseTarget(target: string): WecomAppSendTarget {
   if (target.startsWith("user:")) {
     return { userId: target.slice(5) };
   }
+  if (target.startsWith("party:")) {
+    return { partyId: target.slice(6) };
+  }
+  if (target.startsWith("tag:")) {
+    return { tagId: target.slice(4) };
+  }
+  if (target.startsWith("chat:")) {
+    return { chatid: target.slice(5) };
+  }
   // 默认当作用户 ID
   return { userId: target };
 }
@@ -197,11 +215,14 @@ async function sendMessage(
  *
  * 支持多种 target 格式：
  * - "user:xxx" → 私聊
+ * - "party:xxx" → 部门成员
+ * - "tag:xxx" → 标签成员
+ * - "chat:xxx" → 应用群聊
  * - "wecom-app:user:xxx" → 私聊（带 channel 前缀）
  * - "xxx" → 私聊（裸 ID，默认当作用户）
  *
  * @param account - 已解析的账户配置
- * @param target - 目标（支持 "user:xxx"、"wecom-app:user:xxx"、"xxx" 格式）
+ * @param target - 目标（支持 "user:xxx"、"party:xxx"、"tag:xxx"、"chat:xxx"、"wecom-app:user:xxx"、"xxx" 格式）
  * @param options - 消息选项
  */
 export async function sendWecom(
@@ -223,7 +244,7 @@ export async function sendWecom(
     normalizedTarget = normalizedTarget.slice(channelPrefix.length);
   }
 
-  // 解析目标（只支持 user:）
+  // 解析目标（user: / party: / tag: / chat:）
   const parsedTarget = parseTarget(normalizedTarget);
 
   return sendMessage(account, parsedTarget, options);
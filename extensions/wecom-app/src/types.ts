@@ -5,6 +5,46 @@
 /** DM 消息策略 */
 export type WecomAppDmPolicy = "open" | "pairing" | "allowlist" | "disabled";
 
+/** 应用菜单按钮类型 */
+export type WecomAppMenuButtonType =
+  | "click"
+  | "view"
+  | "scancode_push"
+  | "scancode_waitmsg"
+  | "pic_sysphoto"
+  | "pic_photo_or_album"
+  | "pic_weixin"
+  | "location_select"
+  | "view_miniprogram";
+
+/**
+ * 应用菜单按钮（一级菜单最多 3 个，每个一级菜单最多 5 个子菜单）
+ * 含 sub_button 的一级菜单无需 type
+ */
+export type WecomAppMenuButton = {
+  type?: WecomAppMenuButtonType;
+  name: string;
+  /** click / scancode / pic / location 类按钮的事件 key */
+  key?: string;
+  /** view 类按钮跳转链接 */
+  url?: string;
+  /** view_miniprogram 类按钮小程序 appid */
+  appid?: string;
+  /** view_miniprogram 类按钮小程序页面 */
+  pagepath?: string;
+  sub_button?: WecomAppMenuButton[];
+};
+
+/** 应用菜单配置 */
+export type WecomAppMenuConfig = {
+  /** 启动时是否同步菜单（调用 menu/create），默认 true */
+  sync?: boolean;
+  /** 菜单按钮 */
+  button: WecomAppMenuButton[];
+  /** 菜单事件命令：EventKey → 作为用户消息交给 Agent 的文本 */
+  commands?: Record<string, string>;
+};
+
 /**
  * 企业微信自建应用账户配置
  * 相比普通 wecom 智能机器人，增加了 corpId, corpSecret, agentId 用于主动发送消息
@@ -72,6 +112,9 @@ export type WecomAppAccountConfig = {
   /** 欢迎文本 */
   welcomeText?: string;
 
+  /** 应用自定义菜单 */
+  menu?: WecomAppMenuConfig;
+
   /** DM 策略 */
   dmPolicy?: WecomAppDmPolicy;
   /** DM 允许列表 */
@@ -121,8 +164,100 @@ export type ResolvedWecomAppAccount = {
 
 /** 消息发送目标 */
 export type WecomAppSendTarget = {
-  /** 用户 ID */
-  userId: string;
+  /** 用户 ID（多个用 "|" 分隔） */
+  userId?: string;
+  /** 部门 ID（多个用 "|" 分隔） */
+  partyId?: string;
+  /** 标签 ID（多个用 "|" 分隔） */
+  tagId?: string;
+  /** 应用群聊 ID（走 appchat/send） */
+  chatid?: string;
+};
+
+/** 文本卡片消息 (textcard) */
+export type WecomAppTextCard = {
+  /** 标题，不超过 128 字节 */
+  title: string;
+  /** 描述，不超过 512 字节，支持 <div class="gray|normal|highlight"> 样式 */
+  description: string;
+  /** 点击后跳转的链接 */
+  url: string;
+  /** 按钮文字，默认为「详情」 */
+  btntxt?: string;
+};
+
+/** 图文消息文章 (news) */
+export type WecomAppNewsArticle = {
+  title: string;
+  description?: string;
+  /** 点击后跳转的链接（与 appid/pagepath 二选一） */
+  url?: string;
+  /** 图文封面图片链接 */
+  picurl?: string;
+  /** 小程序 appid */
+  appid?: string;
+  /** 小程序页面路径 */
+  pagepath?: string;
+};
+
+/** 图文消息文章 (mpnews，内容存储在企业微信) */
+export type WecomAppMpNewsArticle = {
+  title: string;
+  /** 封面图片 media_id */
+  thumb_media_id: string;
+  /** 正文，支持 HTML */
+  content: string;
+  author?: string;
+  /** 点击「阅读原文」后的链接 */
+  content_source_url?: string;
+  /** 摘要 */
+  digest?: string;
+};
+
+/**
+ * 模板卡片 (template_card)
+ * card_type: text_notice / news_notice / button_interaction / vote_interaction / multiple_interaction
+ * 交互类卡片需提供 task_id，用户操作后回调 template_card_event
+ */
+export type WecomAppTemplateCard = {
+  card_type: string;
+  task_id?: string;
+  [key: string]: unknown;
+};
+
+/** 模板卡片交互事件 (template_card_event) */
+export type WecomAppTemplateCardEvent = {
+  /** 发送卡片时指定的 task_id */
+  taskId: string;
+  /** 卡片类型 */
+  cardType: string;
+  /** 用户点击的按钮 key */
+  eventKey: string;
+  /** 用于更新卡片的 response_code（72 小时内有效，仅可使用一次） */
+  responseCode?: string;
+  /** 投票 / 多项选择结果 */
+  selectedItems: Array<{ questionKey: string; optionIds: string[] }>;
+};
+
+/** 菜单事件 (click / view / scancode_* / pic_* / location_select) */
+export type WecomAppMenuEvent = {
+  /** 事件类型 */
+  event: string;
+  /** 按钮 key（view 事件为跳转链接） */
+  eventKey: string;
+  /** 扫码类型与结果 */
+  scanType?: string;
+  scanResult?: string;
+  /** 选择的位置 */
+  location?: {
+    latitude: string;
+    longitude: string;
+    scale?: string;
+    label?: string;
+    poiname?: string;
+  };
+  /** 发送的图片数量（图片本身随后以 image 消息推送） */
+  picCount?: number;
 };
 
 /** Access Token 缓存条目 */
@@ -183,6 +318,16 @@ export type WecomAppInboundEvent = WecomAppInboundBase & {
   create_time?: number;
   Event?: string;
   EventKey?: string;
+  /** template_card_event 字段 */
+  TaskId?: string;
+  CardType?: string;
+  ResponseCode?: string;
+  SelectedItems?: Array<{ questionKey: string; optionIds: string[] }>;
+  /** 菜单事件字段 */
+  ScanType?: string;
+  ScanResult?: string;
+  Poiname?: string;
+  Count?: number;
   event?: {
     eventtype?: string;
     [key: string]: unknown;
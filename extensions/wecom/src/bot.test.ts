@@ -0,0 +1,36 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { dispatchWecomMessage } from "./bot.js";
+import type { ResolvedWecomAccount } from "./types.js";
+
+function buildAccount(config: ResolvedWecomAccount["config"]): ResolvedWecomAccount {
+  return {
+    accountId: "pairing-fallback",
+    enabled: true,
+    configured: true,
+    token: "token123",
+    encodingAESKey: "abcdefghijklmnopqrstuvwxyz0123456789ABCDEFG",
+    receiveId: "corp123",
+    config,
+  };
+}
+
+describe("dispatchWecomMessage", () => {
+  it("treats pairing without allowFrom as open instead of issuing a pairing code", async () => {
+    const onChunk = vi.fn();
+    const logs: string[] = [];
+
+    await dispatchWecomMessage({
+      account: buildAccount({ dmPolicy: "pairing", allowFrom: [] }),
+      msg: { msgid: "msg-1", msgtype: "text", chattype: "single", from: { userid: "user-1" }, text: { content: "hello" } },
+      core: {},
+      hooks: { onChunk },
+      log: (msg) => logs.push(msg),
+      error: (msg) => logs.push(msg),
+    });
+
+    expect(logs.some((line) => line.includes("treating DMs as open for account pairing-fallback"))).toBe(true);
+    expect(logs.some((line) => line.includes("core routing or buffered dispatcher missing"))).toBe(true);
+    expect(onChunk).not.toHaveBeenCalled();
+  });
+});
@@ -5,23 +5,31 @@
  */
 
 import {
+  applyGroupAgentOverride,
   checkDmPolicy,
   checkGroupPolicy,
+  resolveGroupOverride,
   createLogger,
+  handlePairingCommand,
+  issuePairingChallenge,
   type Logger,
+  resolveEffectiveDmPolicy,
+  warnPairingWithoutAdmins,
   resolveExtension,
 } from "@openclaw-china/shared";
 
 import type { PluginRuntime } from "./runtime.js";
-import type { ResolvedWecomAccount, WecomInboundMessage, WecomDmPolicy } from "./types.js";
+import type { ResolvedWecomAccount, WecomInboundMessage } from "./types.js";
 import { decryptWecomMedia } from "./crypto.js";
 import * as os from "os";
 import * as path from "path";
 import * as fsPromises from "fs/promises";
 import {
   resolveAllowFrom,
+  resolveDmPolicy,
   resolveGroupAllowFrom,
   resolveGroupPolicy,
+  resolveGroups,
   resolveRequireMention,
   type PluginConfig,
 } from "./config.js";
@@ -170,6 +178,8 @@ export async function dispatchWecomMessage(params: {
       groupAllowFrom,
       requireMention,
       mentionedBot: true,
+      senderId,
+      groups: resolveGroups(accountConfig),
     });
 
     if (!policyResult.allowed) {
@@ -177,23 +187,52 @@ export async function dispatchWecomMessage(params: {
       return;
     }
   } else {
-    const dmPolicyRaw: WecomDmPolicy = accountConfig.dmPolicy ?? "pairing";
+    const allowFrom = resolveAllowFrom(accountConfig);
+    const { dmPolicy: dmPolicyRaw, pairingWithoutAdmins } = resolveEffectiveDmPolicy(
+      resolveDmPolicy(accountConfig),
+      allowFrom
+    );
     if (dmPolicyRaw === "disabled") {
       logger.debug("dmPolicy=disabled, skipping dispatch");
       return;
     }
+    const pairingScope = { channel: "wecom", accountId: account.accountId };
+    if (pairingWithoutAdmins) {
+      warnPairingWithoutAdmins(pairingScope, logger);
+    }
 
-    const allowFrom = resolveAllowFrom(accountConfig);
     const policyResult = checkDmPolicy({
       dmPolicy: dmPolicyRaw,
       senderId,
       allowFrom,
+      pairing: pairingScope,
     });
 
     if (!policyResult.allowed) {
       logger.debug(`policy rejected: ${policyResult.reason}`);
+      if (policyResult.pairingRequired) {
+        const challenge = issuePairingChallenge(pairingScope, senderId);
+        if (challenge.created) {
+          logger.info(`pairing code ${challenge.code} issued for sender ${senderId}`);
+        }
+        hooks.onChunk(challenge.text);
+      }
       return;
     }
+
+    // 配对模式下 allowFrom 中的发送者作为管理员审批配对码
+    if (dmPolicyRaw === "pairing") {
+      const pairingReply = handlePairingCommand({
+        scope: pairingScope,
+        senderId,
+        text: extractWecomContent(msg),
+        admins: allowFrom,
+      });
+      if (pairingReply !== null) {
+        hooks.onChunk(pairingReply);
+        return;
+      }
+    }
   }
 
   const channel = core.channel;
@@ -202,11 +241,17 @@ export async function dispatchWecomMessage(params: {
     return;
   }
 
-  const route = channel.routing.resolveAgentRoute({
-    cfg: safeCfg,
-    channel: "wecom",
-    peer: { kind: chatType === "group" ? "group" : "dm", id: chatId },
-  });
+  // 群覆盖配置：固定 Agent、附加系统提示词
+  const groupOverride =
+    chatType === "group" ? resolveGroupOverride(resolveGroups(accountConfig), chatId) : undefined;
+  const route = applyGroupAgentOverride(
+    channel.routing.resolveAgentRoute({
+      cfg: safeCfg,
+      channel: "wecom",
+      peer: { kind: chatType === "group" ? "group" : "dm", id: chatId },
+    }),
+    groupOverride
+  );
 
   // 处理媒体文件（下载和解密）
   const mediaResult = await processMediaInMessage({
@@ -262,6 +307,7 @@ export async function dispatchWecomMessage(params: {
           MessageSid: msg.msgid,
           OriginatingChannel: "wecom",
           OriginatingTo: `wecom:${chatId}`,
+          GroupSystemPrompt: groupOverride?.systemPrompt,
         })
       : {
           Body: body,
@@ -280,6 +326,7 @@ export async function dispatchWecomMessage(params: {
           MessageSid: msg.msgid,
           OriginatingChannel: "wecom",
           OriginatingTo: `wecom:${chatId}`,
+          GroupSystemPrompt: groupOverride?.systemPrompt,
         }) as {
       SessionKey?: string;
       [key: string]: unknown;
@@ -15,6 +15,13 @@ import {
   type PluginConfig,
 } from "./config.js";
 import { registerWecomWebhookTarget } from "./monitor.js";
+import {
+  buildImageBody,
+  buildMarkdownBody,
+  resolveWecomChatId,
+  sendWecomResponseUrlMessage,
+  type WecomResponseUrlBody,
+} from "./response-url.js";
 import { setWecomRuntime } from "./runtime.js";
 
 const meta = {
@@ -30,6 +37,49 @@ const meta = {
 
 const unregisterHooks = new Map<string, () => void>();
 
+type WecomOutboundResult = {
+  channel: string;
+  ok: boolean;
+  messageId: string;
+  error?: Error;
+};
+
+/**
+ * 通过会话最近一次回调携带的 response_url 发送
+ */
+async function sendViaResponseUrl(params: {
+  cfg: PluginConfig;
+  accountId?: string;
+  to: string;
+  buildBody: () => Promise<WecomResponseUrlBody>;
+}): Promise<WecomOutboundResult> {
+  const account = resolveWecomAccount({ cfg: params.cfg, accountId: params.accountId });
+  const chatId = resolveWecomChatId(params.to);
+  if (!chatId) {
+    return { channel: "wecom", ok: false, messageId: "", error: new Error(`invalid target: ${params.to}`) };
+  }
+  try {
+    const result = await sendWecomResponseUrlMessage({
+      accountId: account.accountId,
+      chatId,
+      body: await params.buildBody(),
+    });
+    return {
+      channel: "wecom",
+      ok: result.ok,
+      messageId: "",
+      error: result.ok ? undefined : new Error(result.error ?? "send failed"),
+    };
+  } catch (err) {
+    return {
+      channel: "wecom",
+      ok: false,
+      messageId: "",
+      error: err instanceof Error ? err : new Error(String(err)),
+    };
+  }
+}
+
 export const wecomPlugin = {
   id: "wecom",
 
@@ -39,7 +89,7 @@ export const wecomPlugin = {
 
   capabilities: {
     chatTypes: ["direct", "group"] as const,
-    media: false,
+    media: true,
     reactions: false,
     threads: false,
     edit: false,
@@ -153,14 +203,30 @@ export const wecomPlugin = {
 
   outbound: {
     deliveryMode: "direct",
-    sendText: async () => {
-      return {
-        channel: "wecom",
-        ok: false,
-        messageId: "",
-        error: new Error("WeCom intelligent bot only supports replying within callbacks (no standalone sendText)."),
-      };
-    },
+    /**
+     * 主动发送文本（以 markdown 发送，兼容纯文本）
+     * 智能机器人无主动发送接口，依赖会话最近 1 小时内的 response_url，且每个 response_url 仅可使用一次
+     */
+    sendText: async (params: { cfg: PluginConfig; accountId?: string; to: string; text: string }): Promise<WecomOutboundResult> =>
+      sendViaResponseUrl({
+        ...params,
+        buildBody: async () => buildMarkdownBody(params.text),
+      }),
+
+    /**
+     * 主动发送图片（本地路径或 http(s) URL，最大 2MB）
+     */
+    sendMedia: async (params: {
+      cfg: PluginConfig;
+      accountId?: string;
+      to: string;
+      mediaUrl: string;
+      text?: string;
+    }): Promise<WecomOutboundResult> =>
+      sendViaResponseUrl({
+        ...params,
+        buildBody: () => buildImageBody(params.mediaUrl),
+      }),
   },
 
   gateway: {
@@ -1,11 +1,26 @@
 // 企业微信配置 schema
 import { z } from "zod";
 
-import type { ResolvedWecomAccount, WecomAccountConfig, WecomConfig, WecomDmPolicy, WecomGroupPolicy } from "./types.js";
+import type {
+  ResolvedWecomAccount,
+  WecomAccountConfig,
+  WecomConfig,
+  WecomDmPolicy,
+  WecomGroupConfig,
+  WecomGroupPolicy,
+} from "./types.js";
 
 /** 默认账户 ID */
 export const DEFAULT_ACCOUNT_ID = "default";
 
+/** 按群覆盖配置（groups.<会话 ID>，"*" 为所有群默认值） */
+const WecomGroupConfigSchema = z.object({
+  requireMention: z.boolean().optional(),
+  allowFrom: z.array(z.string()).optional(),
+  agentId: z.string().optional(),
+  systemPrompt: z.string().optional(),
+});
+
 const WecomAccountSchema = z.object({
   name: z.string().optional(),
   enabled: z.boolean().optional(),
@@ -14,10 +29,12 @@ const WecomAccountSchema = z.object({
   encodingAESKey: z.string().optional(),
   receiveId: z.string().optional(),
   welcomeText: z.string().optional(),
+  workingIndicator: z.boolean().optional(),
   dmPolicy: z.enum(["open", "pairing", "allowlist", "disabled"]).optional(),
   allowFrom: z.array(z.string()).optional(),
   groupPolicy: z.enum(["open", "allowlist", "disabled"]).optional(),
   groupAllowFrom: z.array(z.string()).optional(),
+  groups: z.record(WecomGroupConfigSchema).optional(),
   requireMention: z.boolean().optional(),
 });
 
@@ -40,10 +57,24 @@ export const WecomConfigJsonSchema = {
       encodingAESKey: { type: "string" },
       receiveId: { type: "string" },
       welcomeText: { type: "string" },
+      workingIndicator: { type: "boolean" },
       dmPolicy: { type: "string", enum: ["open", "pairing", "allowlist", "disabled"] },
       allowFrom: { type: "array", items: { type: "string" } },
       groupPolicy: { type: "string", enum: ["open", "allowlist", "disabled"] },
       groupAllowFrom: { type: "array", items: { type: "string" } },
+      groups: {
+        type: "object",
+        additionalProperties: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            requireMention: { type: "boolean" },
+            allowFrom: { type: "array", items: { type: "string" } },
+            agentId: { type: "string" },
+            systemPrompt: { type: "string" }
+          }
+        }
+      },
       requireMention: { type: "boolean" },
       defaultAccount: { type: "string" },
       accounts: {
@@ -59,10 +90,24 @@ export const WecomConfigJsonSchema = {
             encodingAESKey: { type: "string" },
             receiveId: { type: "string" },
             welcomeText: { type: "string" },
+            workingIndicator: { type: "boolean" },
             dmPolicy: { type: "string", enum: ["open", "pairing", "allowlist", "disabled"] },
             allowFrom: { type: "array", items: { type: "string" } },
             groupPolicy: { type: "string", enum: ["open", "allowlist", "disabled"] },
             groupAllowFrom: { type: "array", items: { type: "string" } },
+            groups: {
+              type: "object",
+              additionalProperties: {
+                type: "object",
+                additionalProperties: false,
+                properties: {
+                  requireMention: { type: "boolean" },
+                  allowFrom: { type: "array", items: { type: "string" } },
+                  agentId: { type: "string" },
+                  systemPrompt: { type: "string" }
+                }
+              }
+            },
             requireMention: { type: "boolean" }
           }
         }
@@ -156,7 +201,7 @@ export function listEnabledWecomAccounts(cfg: PluginConfig): ResolvedWecomAccoun
 }
 
 export function resolveDmPolicy(config: WecomAccountConfig): WecomDmPolicy {
-  return (config.dmPolicy ?? "pairing") as WecomDmPolicy;
+  return (config.dmPolicy ?? "open") as WecomDmPolicy;
 }
 
 export function resolveGroupPolicy(config: WecomAccountConfig): WecomGroupPolicy {
@@ -174,4 +219,8 @@ export function resolveAllowFrom(config: WecomAccountConfig): string[] {
 
 export function resolveGroupAllowFrom(config: WecomAccountConfig): string[] {
   return config.groupAllowFrom ?? [];
-}
+}
+
+export function resolveGroups(config: WecomAccountConfig): Record<string, WecomGroupConfig> {
+  return config.groups ?? {};
+}
@@ -8,6 +8,7 @@ import type { PluginConfig } from "./config.js";
 import { decryptWecomEncrypted, encryptWecomPlaintext, verifyWecomSignature, computeWecomMsgSignature } from "./crypto.js";
 import { dispatchWecomMessage } from "./bot.js";
 import { tryGetWecomRuntime } from "./runtime.js";
+import { buildMarkdownBody, recordWecomResponseUrl, sendWecomResponseUrlMessage } from "./response-url.js";
 
 export type WecomRuntimeEnv = {
   log?: (message: string) => void;
@@ -31,6 +32,8 @@ type StreamState = {
   finished: boolean;
   error?: string;
   content: string;
+  /** 尚无回复内容时展示的「处理中」文案；空串表示不展示 */
+  placeholder: string;
 };
 
 const webhookTargets = new Map<string, WecomWebhookTarget[]>();
@@ -40,6 +43,9 @@ const msgidToStreamId = new Map<string, string>();
 const STREAM_TTL_MS = 10 * 60 * 1000;
 const STREAM_MAX_BYTES = 20_480;
 const INITIAL_STREAM_WAIT_MS = 800;
+// 企业微信仅在首次回复后约 6 分钟内拉取流式内容，之后的结果改走 response_url
+const STREAM_WINDOW_MS = 6 * 60 * 1000;
+const STREAM_PLACEHOLDER = "稍等~";
 
 function normalizeWebhookPath(raw: string): string {
   const trimmed = raw.trim();
@@ -147,19 +153,22 @@ function resolveSignatureParam(params: URLSearchParams): string {
   return params.get("msg_signature") ?? params.get("msgsignature") ?? params.get("signature") ?? "";
 }
 
-function buildStreamPlaceholderReply(streamId: string): { msgtype: "stream"; stream: { id: string; finish: boolean; content: string } } {
+function buildStreamPlaceholderReply(streamId: string, placeholder: string): { msgtype: "stream"; stream: { id: string; finish: boolean; content: string } } {
   return {
     msgtype: "stream",
     stream: {
       id: streamId,
       finish: false,
-      content: "稍等~",
+      content: placeholder,
     },
   };
 }
 
 function buildStreamReplyFromState(state: StreamState): { msgtype: "stream"; stream: { id: string; finish: boolean; content: string } } {
-  const content = truncateUtf8Bytes(state.content, STREAM_MAX_BYTES);
+  // 回复内容到达前持续展示占位文案，避免刷新时把「处理中」提示清空
+  const content = state.content || state.finished
+    ? truncateUtf8Bytes(state.content, STREAM_MAX_BYTES)
+    : state.placeholder;
   return {
     msgtype: "stream",
     stream: {
@@ -203,6 +212,11 @@ function appendStreamContent(state: StreamState, nextText: string): void {
   state.updatedAt = Date.now();
 }
 
+function resolveResponseChatId(msg: WecomInboundMessage): string {
+  if (msg.chattype === "group") return msg.chatid?.trim() ?? "";
+  return msg.from?.userid?.trim() ?? "";
+}
+
 function buildLogger(target: WecomWebhookTarget): Logger {
   return createLogger("wecom", {
     log: target.runtime.log,
@@ -353,6 +367,14 @@ export async function handleWecomWebhookRequest(req: IncomingMessage, res: Serve
   const msgtype = String(msg.msgtype ?? "").toLowerCase();
   const msgid = msg.msgid ? String(msg.msgid) : undefined;
 
+  if (msgtype !== "stream" && msg.response_url) {
+    recordWecomResponseUrl({
+      accountId: target.account.accountId,
+      chatId: resolveResponseChatId(msg),
+      responseUrl: msg.response_url,
+    });
+  }
+
   if (msgtype === "stream") {
     const streamId = String((msg as { stream?: { id?: string } }).stream?.id ?? "").trim();
     const state = streamId ? streams.get(streamId) : undefined;
@@ -365,6 +387,7 @@ export async function handleWecomWebhookRequest(req: IncomingMessage, res: Serve
           started: true,
           finished: true,
           content: "",
+          placeholder: "",
         });
     jsonOk(
       res,
@@ -380,7 +403,7 @@ export async function handleWecomWebhookRequest(req: IncomingMessage, res: Serve
 
   if (msgid && msgidToStreamId.has(msgid)) {
     const streamId = msgidToStreamId.get(msgid) ?? "";
-    const reply = buildStreamPlaceholderReply(streamId);
+    const reply = buildStreamPlaceholderReply(streamId, streams.get(streamId)?.placeholder ?? "");
     jsonOk(
       res,
       buildEncryptedJsonReply({
@@ -432,6 +455,7 @@ export async function handleWecomWebhookRequest(req: IncomingMessage, res: Serve
     started: false,
     finished: false,
     content: "",
+    placeholder: target.account.config.workingIndicator === false ? "" : STREAM_PLACEHOLDER,
   });
 
   const core = tryGetWecomRuntime();
@@ -468,12 +492,22 @@ export async function handleWecomWebhookRequest(req: IncomingMessage, res: Serve
       log: target.runtime.log,
       error: target.runtime.error,
     })
-      .then(() => {
+      .then(async () => {
         const current = streams.get(streamId);
         if (current) {
           current.finished = true;
           current.updatedAt = Date.now();
         }
+        // 流式窗口已关闭：企业微信不会再拉取 stream，最终回答通过 response_url 补发
+        if (current?.content.trim() && Date.now() - current.createdAt >= STREAM_WINDOW_MS) {
+          const result = await sendWecomResponseUrlMessage({
+            accountId: target.account.accountId,
+            chatId: resolveResponseChatId(msg),
+            body: buildMarkdownBody(current.content),
+          });
+          if (result.ok) target.statusSink?.({ lastOutboundAt: Date.now() });
+          else logger.error(`wecom late reply failed: ${result.error}`);
+        }
       })
       .catch((err) => {
         const current = streams.get(streamId);
@@ -497,7 +531,7 @@ export async function handleWecomWebhookRequest(req: IncomingMessage, res: Serve
   const state = streams.get(streamId);
   const initialReply = state && (state.content.trim() || state.error)
     ? buildStreamReplyFromState(state)
-    : buildStreamPlaceholderReply(streamId);
+    : buildStreamPlaceholderReply(streamId, state?.placeholder ?? "");
 
   jsonOk(
     res,
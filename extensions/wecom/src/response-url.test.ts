@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import {
+  RESPONSE_URL_TTL_MS,
+  buildMarkdownBody,
+  clearWecomResponseUrls,
+  recordWecomResponseUrl,
+  resolveWecomChatId,
+  sendWecomResponseUrlMessage,
+  takeWecomResponseUrl,
+} from "./response-url.js";
+
+afterEach(() => {
+  clearWecomResponseUrls();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("wecom response_url store", () => {
+  it("keeps the latest url per account and conversation", () => {
+    recordWecomResponseUrl({ accountId: "default", chatId: "alice", responseUrl: "https://u/1", now: 0 });
+    recordWecomResponseUrl({ accountId: "default", chatId: "alice", responseUrl: "https://u/2", now: 10 });
+    recordWecomResponseUrl({ accountId: "other", chatId: "alice", responseUrl: "https://u/3", now: 10 });
+
+    expect(takeWecomResponseUrl({ accountId: "default", chatId: "alice", now: 20 })).toBe("https://u/2");
+    // 仅可使用一次
+    expect(takeWecomResponseUrl({ accountId: "default", chatId: "alice", now: 20 })).toBeUndefined();
+    expect(takeWecomResponseUrl({ accountId: "other", chatId: "alice", now: 20 })).toBe("https://u/3");
+  });
+
+  it("drops expired urls", () => {
+    recordWecomResponseUrl({ accountId: "default", chatId: "chat1", responseUrl: "https://u/1", now: 0 });
+    expect(takeWecomResponseUrl({ accountId: "default", chatId: "chat1", now: RESPONSE_URL_TTL_MS })).toBeUndefined();
+  });
+
+  it("parses outbound targets", () => {
+    expect(resolveWecomChatId("wecom:group:chat1")).toBe("chat1");
+    expect(resolveWecomChatId("wecom:alice")).toBe("alice");
+    expect(resolveWecomChatId("user:alice")).toBe("alice");
+    expect(resolveWecomChatId("alice")).toBe("alice");
+  });
+});
+
+describe("sendWecomResponseUrlMessage", () => {
+  it("posts the body to the stored url", async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: vi.fn().mockResolvedValue({ errcode: 0, errmsg: "ok" }),
+    });
+    vi.stubGlobal("fetch", fetchMock as unknown as typeof fetch);
+    recordWecomResponseUrl({ accountId: "default", chatId: "alice", responseUrl: "https://u/1" });
+
+    const result = await sendWecomResponseUrlMessage({
+      accountId: "default",
+      chatId: "alice",
+      body: buildMarkdownBody("hello"),
+    });
+
+    expect(result).toEqual({ ok: true });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0]?.[0]).toBe("https://u/1");
+    expect(JSON.parse(String(fetchMock.mock.calls[0]?.[1]?.body))).toEqual({
+      msgtype: "markdown",
+      markdown: { content: "hello" },
+    });
+  });
+
+  it("fails without a stored url", async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock as unknown as typeof fetch);
+
+    const result = await sendWecomResponseUrlMessage({
+      accountId: "default",
+      chatId: "bob",
+      body: buildMarkdownBody("hello"),
+    });
+
+    expect(result.ok).toBe(false);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("surfaces wecom error codes", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue({
+        ok: true,
+        json: vi.fn().mockResolvedValue({ errcode: 93000, errmsg: "invalid response_url" }),
+      }) as unknown as typeof fetch
+    );
+    recordWecomResponseUrl({ accountId: "default", chatId: "alice", responseUrl: "https://u/1" });
+
+    const result = await sendWecomResponseUrlMessage({
+      accountId: "default",
+      chatId: "alice",
+      body: buildMarkdownBody("hello"),
+    });
+
+    expect(result).toEqual({ ok: false, error: "response_url rejected: 93000 invalid response_url" });
+  });
+});
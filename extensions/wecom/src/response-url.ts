@@ -0,0 +1,151 @@
+/**
+ * 企业微信智能机器人 response_url 主动回复
+ *
+ * 每次回调都会携带一个 response_url（有效期 1 小时，仅可调用一次）。
+ * 这里按「账户 + 会话」记录最新的 response_url，供流式窗口关闭后的
+ * 主动发送（定时任务结果、长耗时回答等）使用。
+ */
+
+import crypto from "node:crypto";
+import fs from "node:fs";
+
+/** response_url 有效期 */
+export const RESPONSE_URL_TTL_MS = 60 * 60 * 1000;
+
+/** 图片消息大小上限（base64 编码前） */
+const IMAGE_MAX_BYTES = 2 * 1024 * 1024;
+
+type ResponseUrlEntry = {
+  url: string;
+  expiresAt: number;
+};
+
+export type WecomResponseUrlBody =
+  | { msgtype: "markdown"; markdown: { content: string } }
+  | { msgtype: "image"; image: { base64: string; md5: string } };
+
+export type WecomResponseUrlResult = {
+  ok: boolean;
+  error?: string;
+};
+
+const responseUrls = new Map<string, ResponseUrlEntry>();
+
+function buildKey(accountId: string, chatId: string): string {
+  return `${accountId}:${chatId}`;
+}
+
+function pruneResponseUrls(now: number): void {
+  for (const [key, entry] of responseUrls.entries()) {
+    if (entry.expiresAt <= now) responseUrls.delete(key);
+  }
+}
+
+/**
+ * 解析出站目标为会话 ID
+ * 支持 "wecom:group:xxx" / "wecom:user:xxx" / "wecom:xxx" / "group:xxx" / "user:xxx" / "xxx"
+ */
+export function resolveWecomChatId(to: string): string {
+  let raw = to.trim();
+  if (raw.startsWith("wecom:")) raw = raw.slice("wecom:".length);
+  if (raw.startsWith("group:")) raw = raw.slice("group:".length);
+  else if (raw.startsWith("user:")) raw = raw.slice("user:".length);
+  return raw.trim();
+}
+
+/**
+ * 记录会话最新的 response_url（覆盖旧值）
+ */
+export function recordWecomResponseUrl(params: {
+  accountId: string;
+  chatId: string;
+  responseUrl: string;
+  now?: number;
+}): void {
+  const chatId = params.chatId.trim();
+  const url = params.responseUrl.trim();
+  if (!chatId || !url) return;
+  const now = params.now ?? Date.now();
+  pruneResponseUrls(now);
+  responseUrls.set(buildKey(params.accountId, chatId), { url, expiresAt: now + RESPONSE_URL_TTL_MS });
+}
+
+/**
+ * 取出会话可用的 response_url；取出后即失效（仅可调用一次）
+ */
+export function takeWecomResponseUrl(params: {
+  accountId: string;
+  chatId: string;
+  now?: number;
+}): string | undefined {
+  const key = buildKey(params.accountId, params.chatId.trim());
+  const entry = responseUrls.get(key);
+  if (!entry) return undefined;
+  responseUrls.delete(key);
+  const now = params.now ?? Date.now();
+  return entry.expiresAt > now ? entry.url : undefined;
+}
+
+export function clearWecomResponseUrls(): void {
+  responseUrls.clear();
+}
+
+/**
+ * 通过会话的 response_url 发送一条消息
+ */
+export async function sendWecomResponseUrlMessage(params: {
+  accountId: string;
+  chatId: string;
+  body: WecomResponseUrlBody;
+}): Promise<WecomResponseUrlResult> {
+  const url = takeWecomResponseUrl({ accountId: params.accountId, chatId: params.chatId });
+  if (!url) {
+    return {
+      ok: false,
+      error: `no valid response_url for ${params.chatId} (the user must message the bot within the last hour)`,
+    };
+  }
+
+  const resp = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(params.body),
+  });
+  if (!resp.ok) {
+    return { ok: false, error: `response_url request failed: HTTP ${resp.status}` };
+  }
+  const data = (await resp.json().catch(() => ({}))) as { errcode?: number; errmsg?: string };
+  if (data.errcode !== undefined && data.errcode !== 0) {
+    return { ok: false, error: `response_url rejected: ${data.errcode} ${data.errmsg ?? ""}`.trim() };
+  }
+  return { ok: true };
+}
+
+export function buildMarkdownBody(content: string): WecomResponseUrlBody {
+  return { msgtype: "markdown", markdown: { content } };
+}
+
+/**
+ * 读取图片（本地路径或 http(s) URL）并构造 image 消息体
+ */
+export async function buildImageBody(mediaUrl: string): Promise<WecomResponseUrlBody> {
+  let buffer: Buffer;
+  if (/^https?:\/\//i.test(mediaUrl)) {
+    const resp = await fetch(mediaUrl);
+    if (!resp.ok) throw new Error(`failed to download image: HTTP ${resp.status}`);
+    buffer = Buffer.from(await resp.arrayBuffer());
+  } else {
+    const path = mediaUrl.startsWith("file://") ? new URL(mediaUrl).pathname : mediaUrl;
+    buffer = await fs.promises.readFile(path);
+  }
+  if (buffer.length > IMAGE_MAX_BYTES) {
+    throw new Error(`image exceeds ${IMAGE_MAX_BYTES} bytes`);
+  }
+  return {
+    msgtype: "image",
+    image: {
+      base64: buffer.toString("base64"),
+      md5: crypto.createHash("md5").update(buffer).digest("hex"),
+    },
+  };
+}
@@ -1,6 +1,14 @@
 export type WecomDmPolicy = "open" | "pairing" | "allowlist" | "disabled";
 export type WecomGroupPolicy = "open" | "allowlist" | "disabled";
 
+/** 按群覆盖配置 */
+export type WecomGroupConfig = {
+  requireMention?: boolean;
+  allowFrom?: string[];
+  agentId?: string;
+  systemPrompt?: string;
+};
+
 export type WecomAccountConfig = {
   name?: string;
   enabled?: boolean;
@@ -11,12 +19,15 @@ export type WecomAccountConfig = {
   receiveId?: string;
 
   welcomeText?: string;
+  /** 回复到达前在流式消息中展示「稍等~」占位，默认开启 */
+  workingIndicator?: boolean;
 
   dmPolicy?: WecomDmPolicy;
   allowFrom?: string[];
 
   groupPolicy?: WecomGroupPolicy;
   groupAllowFrom?: string[];
+  groups?: Record<string, WecomGroupConfig>;
   requireMention?: boolean;
 };
 
@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  buildGroupHistoryBody,
+  clearGroupHistory,
+  getGroupHistory,
+  recordGroupHistory,
+  takeGroupHistory,
+} from "./group-history.js";
+
+const scope = { channel: "dingtalk", accountId: "default", conversationId: "cid-1" };
+
+function entry(index: number) {
+  return { sender: `user${index}`, body: `message ${index}`, timestamp: index, messageId: `m${index}` };
+}
+
+afterEach(() => {
+  clearGroupHistory();
+});
+
+describe("group history buffer", () => {
+  it("keeps only the latest historyLimit entries per conversation", () => {
+    for (let i = 1; i <= 4; i++) {
+      recordGroupHistory({ ...scope, limit: 3, entry: entry(i) });
+    }
+    recordGroupHistory({ ...scope, conversationId: "cid-2", limit: 3, entry: entry(9) });
+
+    expect(getGroupHistory(scope).map((item) => item.messageId)).toEqual(["m2", "m3", "m4"]);
+    expect(getGroupHistory({ ...scope, accountId: "other" })).toEqual([]);
+    expect(getGroupHistory({ ...scope, conversationId: "cid-2" })).toHaveLength(1);
+  });
+
+  it("ignores records when the limit is zero or the body is empty", () => {
+    recordGroupHistory({ ...scope, limit: 0, entry: entry(1) });
+    recordGroupHistory({ ...scope, limit: 5, entry: { ...entry(2), body: "   " } });
+
+    expect(getGroupHistory(scope)).toEqual([]);
+  });
+
+  it("takes and clears history when the bot is mentioned", () => {
+    recordGroupHistory({ ...scope, limit: 5, entry: entry(1) });
+    recordGroupHistory({ ...scope, limit: 5, entry: entry(2) });
+
+    const entries = takeGroupHistory(scope);
+    expect(buildGroupHistoryBody({ entries, body: "总结一下上面" })).toBe(
+      [
+        "[Chat messages since your last reply - for context]",
+        "user1: message 1",
+        "user2: message 2",
+        "",
+        "[Current message - respond to this]",
+        "总结一下上面",
+      ].join("\n")
+    );
+    expect(takeGroupHistory(scope)).toEqual([]);
+    expect(buildGroupHistoryBody({ entries: [], body: "hi" })).toBe("hi");
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * 群聊历史缓冲
+ *
+ * 群聊中未 @机器人 的消息按会话记入环形缓冲（最多 historyLimit 条），
+ * 机器人被 @ 时取出并拼接到入站正文前，让 Agent 理解「总结一下上面」之类的指代。
+ */
+
+import type { HistoryEntry } from "../types/common.js";
+
+/** 每个渠道最多跟踪的群会话数 */
+const MAX_CONVERSATIONS_PER_CHANNEL = 1000;
+
+/** 单条历史正文的最大长度，超出截断 */
+const MAX_ENTRY_BODY_LENGTH = 2000;
+
+const HISTORY_HEADER = "[Chat messages since your last reply - for context]";
+const CURRENT_MESSAGE_HEADER = "[Current message - respond to this]";
+
+export interface GroupHistoryScope {
+  channel: string;
+  accountId: string;
+  /** 群会话 ID */
+  conversationId: string;
+}
+
+// channel -> (accountId:conversationId -> entries)，Map 保持插入顺序便于淘汰最久未活跃的会话
+const groupHistories = new Map<string, Map<string, HistoryEntry[]>>();
+
+function buildKey(accountId: string, conversationId: string): string {
+  return `${accountId}:${conversationId}`;
+}
+
+/**
+ * 记录一条未触发机器人的群消息；limit <= 0 或正文为空时忽略
+ */
+export function recordGroupHistory(
+  params: GroupHistoryScope & { limit: number; entry: HistoryEntry }
+): void {
+  const { channel, accountId, conversationId, limit } = params;
+  const body = params.entry.body.trim();
+  if (limit <= 0 || !body) return;
+
+  let conversations = groupHistories.get(channel);
+  if (!conversations) {
+    conversations = new Map();
+    groupHistories.set(channel, conversations);
+  }
+  const key = buildKey(accountId, conversationId);
+  const entries = conversations.get(key) ?? [];
+  // 重新插入，使该会话成为最近活跃
+  conversations.delete(key);
+
+  entries.push({
+    ...params.entry,
+    body: body.length > MAX_ENTRY_BODY_LENGTH ? `${body.slice(0, MAX_ENTRY_BODY_LENGTH)}…` : body,
+  });
+  if (entries.length > limit) entries.splice(0, entries.length - limit);
+  conversations.set(key, entries);
+
+  while (conversations.size > MAX_CONVERSATIONS_PER_CHANNEL) {
+    const oldest = conversations.keys().next().value;
+    if (oldest === undefined) break;
+    conversations.delete(oldest);
+  }
+}
+
+export function getGroupHistory(scope: GroupHistoryScope): HistoryEntry[] {
+  return [...(groupHistories.get(scope.channel)?.get(buildKey(scope.accountId, scope.conversationId)) ?? [])];
+}
+
+/**
+ * 取出并清空会话的历史（机器人被 @ 时调用）
+ */
+export function takeGroupHistory(scope: GroupHistoryScope): HistoryEntry[] {
+  const conversations = groupHistories.get(scope.channel);
+  const key = buildKey(scope.accountId, scope.conversationId);
+  const entries = conversations?.get(key) ?? [];
+  conversations?.delete(key);
+  return entries;
+}
+
+export function clearGroupHistory(channel?: string): void {
+  if (channel) groupHistories.delete(channel);
+  else groupHistories.clear();
+}
+
+/**
+ * 将历史消息拼接到当前消息正文前；没有历史时原样返回
+ */
+export function buildGroupHistoryBody(params: { entries: HistoryEntry[]; body: string }): string {
+  if (params.entries.length === 0) return params.body;
+  const lines = params.entries.map((entry) => `${entry.sender}: ${entry.body}`);
+  return [HISTORY_HEADER, ...lines, "", CURRENT_MESSAGE_HEADER, params.body].join("\n");
+}
@@ -0,0 +1 @@
+export * from "./group-history.js";
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { RateLimitError, enqueueSend, isRateLimitError, resetSendQueues } from "./send-queue.js";
+
+const preset = {
+  target: { capacity: 2, refillPerSecond: 1 },
+  throttleCodes: [45009],
+  retry: { maxRetries: 2, initialDelay: 500 },
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  resetSendQueues();
+  vi.useRealTimers();
+});
+
+describe("send queue", () => {
+  it("sends in order and waits for tokens once the burst is used", async () => {
+    const sent: number[] = [];
+    const params = { platform: "dingtalk" as const, accountId: "app", target: "group:cid", preset };
+    const results = [1, 2, 3].map((n) =>
+      enqueueSend(params, async () => {
+        sent.push(n);
+        return n;
+      })
+    );
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(sent).toEqual([1, 2]);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(sent).toEqual([1, 2, 3]);
+    await expect(Promise.all(results)).resolves.toEqual([1, 2, 3]);
+  });
+
+  it("does not delay other targets", async () => {
+    const sent: string[] = [];
+    for (const target of ["a", "a", "a", "b"]) {
+      void enqueueSend({ platform: "feishu", accountId: "app", target, preset }, async () => {
+        sent.push(target);
+      });
+    }
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect([...sent].sort()).toEqual(["a", "a", "b"]);
+  });
+
+  it("backs off and retries on throttle errors only", async () => {
+    const task = vi
+      .fn()
+      .mockRejectedValueOnce(new RateLimitError("api freq out of limit", 45009))
+      .mockResolvedValue("ok");
+    const result = enqueueSend({ platform: "wecom-app", accountId: "app", target: "user:u", preset }, task);
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(task).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(500);
+    await expect(result).resolves.toBe("ok");
+    expect(task).toHaveBeenCalledTimes(2);
+
+    const failing = vi.fn().mockRejectedValue(new Error("invalid user"));
+    await expect(
+      enqueueSend({ platform: "wecom-app", accountId: "app", target: "user:v", preset }, failing)
+    ).rejects.toThrow("invalid user");
+    expect(failing).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("isRateLimitError", () => {
+  it("detects 429 and platform throttle codes", () => {
+    expect(isRateLimitError({ status: 429 })).toBe(true);
+    expect(isRateLimitError({ response: { status: 400, data: { code: 99991400 } } }, [99991400])).toBe(true);
+    expect(isRateLimitError(new Error("Request failed with status code 429"))).toBe(true);
+    expect(
+      isRateLimitError(new Error("send failed: Forbidden.AccessDenied.QpsLimitForApi (code: x)"), ["QpsLimit"])
+    ).toBe(true);
+    expect(isRateLimitError(new Error("errcode=45009, errmsg=api freq out of limit"), [45009])).toBe(true);
+    expect(isRateLimitError({ status: 500 })).toBe(false);
+    expect(isRateLimitError("429")).toBe(false);
+  });
+
+  it("ignores throttle codes embedded in longer numbers", () => {
+    expect(isRateLimitError(new Error("invalid userid 1450090187"), [45009])).toBe(false);
+    expect(isRateLimitError(new Error("send failed (code: 900181)"), [90018])).toBe(false);
+  });
+});
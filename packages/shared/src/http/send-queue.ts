@@ -0,0 +1,221 @@
+/**
+ * 出站发送队列
+ *
+ * 按 账户 + 目标 串行发送，并用令牌桶同时限制账户级与目标级速率；
+ * 遇到 429 或平台限流错误码时通过 withRetry 退避重试。
+ */
+
+import { withRetry, type RetryOptions } from "./retry.js";
+
+/**
+ * 令牌桶规则
+ */
+export interface TokenBucketRule {
+  /** 桶容量（允许的突发条数） */
+  capacity: number;
+  /** 每秒补充的令牌数 */
+  refillPerSecond: number;
+}
+
+/**
+ * 平台限流预设
+ */
+export interface SendRatePreset {
+  /** 账户（应用）级限流 */
+  account?: TokenBucketRule;
+  /** 单个目标（用户 / 群）限流 */
+  target?: TokenBucketRule;
+  /** 平台限流错误码，出现在错误的 code / errcode 字段或错误信息中 */
+  throttleCodes?: Array<string | number>;
+  /** 限流退避选项 */
+  retry?: Omit<RetryOptions, "shouldRetry">;
+}
+
+export type SendPlatform = "dingtalk" | "feishu" | "qqbot" | "wecom-app";
+
+/**
+ * 各平台限流预设（按官方文档的频率限制留出余量）
+ */
+export const SEND_RATE_PRESETS: Record<SendPlatform, SendRatePreset> = {
+  // 钉钉：机器人发消息接口约 20 QPS；群内机器人每分钟最多 20 条
+  dingtalk: {
+    account: { capacity: 20, refillPerSecond: 20 },
+    target: { capacity: 20, refillPerSecond: 20 / 60 },
+    throttleCodes: ["QpsLimit", "Throttling", 130101, 90018],
+  },
+  // 飞书：发送消息接口 50 QPS；向同一用户 / 群发送 5 QPS
+  feishu: {
+    account: { capacity: 50, refillPerSecond: 50 },
+    target: { capacity: 5, refillPerSecond: 5 },
+    throttleCodes: [99991400, 230020],
+  },
+  // QQ：主动 / 被动消息均有频控，单个会话控制在 5 QPS
+  qqbot: {
+    account: { capacity: 20, refillPerSecond: 20 },
+    target: { capacity: 5, refillPerSecond: 5 },
+    throttleCodes: [22009],
+  },
+  // 企业微信：单接口每分钟 1 万次；每个成员每分钟最多接收 30 条应用消息
+  "wecom-app": {
+    account: { capacity: 100, refillPerSecond: 10000 / 60 },
+    target: { capacity: 30, refillPerSecond: 30 / 60 },
+    throttleCodes: [45009, 45033],
+  },
+};
+
+/** 限流退避默认值 */
+const DEFAULT_THROTTLE_RETRY: Omit<RetryOptions, "shouldRetry"> = {
+  maxRetries: 3,
+  initialDelay: 1000,
+  maxDelay: 10000,
+  backoffMultiplier: 2,
+};
+
+/** 最多保留的令牌桶数 */
+const MAX_BUCKETS = 5000;
+
+/**
+ * 平台返回限流错误（用于将 errcode 形式的结果转为可重试的异常）
+ */
+export class RateLimitError extends Error {
+  constructor(
+    message: string,
+    public readonly code?: string | number
+  ) {
+    super(message);
+    this.name = "RateLimitError";
+  }
+}
+
+/**
+ * 判断错误是否为限流：HTTP 429、RateLimitError 或命中平台限流错误码
+ */
+export function isRateLimitError(error: unknown, throttleCodes: Array<string | number> = []): boolean {
+  if (!error || typeof error !== "object") return false;
+  const record = error as {
+    name?: unknown;
+    status?: unknown;
+    code?: unknown;
+    errcode?: unknown;
+    message?: unknown;
+    response?: { status?: unknown; data?: { code?: unknown } };
+  };
+  if (record.name === "RateLimitError") return true;
+  if (record.status === 429 || record.response?.status === 429) return true;
+
+  const codes = throttleCodes.map(String);
+  for (const value of [record.code, record.errcode, record.response?.data?.code]) {
+    if (value !== undefined && value !== null && codes.includes(String(value))) return true;
+  }
+
+  const message = typeof record.message === "string" ? record.message : "";
+  if (/\b429\b|too many requests|rate limit|frequency limit/i.test(message)) return true;
+  return codes.some((code) => messageHasCode(message, code));
+}
+
+/**
+ * 数字错误码要求前后不紧邻数字，避免命中更长数字（如用户 ID）中的片段；
+ * 字符串错误码（如 QpsLimit）按子串匹配，兼容 QpsLimitForApi 等变体
+ */
+function messageHasCode(message: string, code: string): boolean {
+  if (/^\d+$/.test(code)) return new RegExp(`(?<!\\d)${code}(?!\\d)`).test(message);
+  return message.includes(code);
+}
+
+type BucketState = {
+  tokens: number;
+  updatedAt: number;
+};
+
+const buckets = new Map<string, BucketState>();
+// 目标 -> 队尾，保证同一目标按入队顺序发送
+const queueTails = new Map<string, Promise<void>>();
+
+/**
+ * 预留一个令牌，返回需要等待的毫秒数（令牌可透支，等待期间视为已占用）
+ */
+function reserveToken(key: string, rule: TokenBucketRule, now: number): number {
+  let bucket = buckets.get(key);
+  if (!bucket) {
+    bucket = { tokens: rule.capacity, updatedAt: now };
+    buckets.set(key, bucket);
+    while (buckets.size > MAX_BUCKETS) {
+      const oldest = buckets.keys().next().value;
+      if (oldest === undefined) break;
+      buckets.delete(oldest);
+    }
+  }
+
+  const elapsed = Math.max(0, now - bucket.updatedAt) / 1000;
+  bucket.tokens = Math.min(rule.capacity, bucket.tokens + elapsed * rule.refillPerSecond);
+  bucket.updatedAt = now;
+  bucket.tokens -= 1;
+
+  return bucket.tokens >= 0 ? 0 : Math.ceil((-bucket.tokens / rule.refillPerSecond) * 1000);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export interface SendQueueParams {
+  /** 平台，用于选择预设 */
+  platform: SendPlatform;
+  /** 账户标识（同一应用共享账户级配额） */
+  accountId: string;
+  /** 发送目标（用户 / 群） */
+  target: string;
+  /** 覆盖平台预设 */
+  preset?: SendRatePreset;
+}
+
+/**
+ * 将一次发送加入队列：同一目标串行，等待令牌后执行，限流时退避重试
+ *
+ * @example
+ * ```ts
+ * const result = await enqueueSend(
+ *   { platform: "feishu", accountId: cfg.appId, target: chatId },
+ *   () => client.im.v1.message.create(...)
+ * );
+ * ```
+ */
+export function enqueueSend<T>(params: SendQueueParams, task: () => Promise<T>): Promise<T> {
+  const preset = params.preset ?? SEND_RATE_PRESETS[params.platform];
+  const accountKey = `${params.platform}:${params.accountId}`;
+  const targetKey = `${accountKey}:${params.target}`;
+
+  const previous = queueTails.get(targetKey) ?? Promise.resolve();
+  const run = previous.then(async () => {
+    const now = Date.now();
+    const wait = Math.max(
+      preset.account ? reserveToken(accountKey, preset.account, now) : 0,
+      preset.target ? reserveToken(targetKey, preset.target, now) : 0
+    );
+    if (wait > 0) await sleep(wait);
+
+    return withRetry(task, {
+      ...DEFAULT_THROTTLE_RETRY,
+      ...preset.retry,
+      shouldRetry: (error) => isRateLimitError(error, preset.throttleCodes),
+    });
+  });
+
+  const tail = run.then(
+    () => undefined,
+    () => undefined
+  );
+  queueTails.set(targetKey, tail);
+  void tail.then(() => {
+    if (queueTails.get(targetKey) === tail) queueTails.delete(targetKey);
+  });
+  return run;
+}
+
+/**
+ * 清空令牌桶与队列状态（测试用）
+ */
+export function resetSendQueues(): void {
+  buckets.clear();
+  queueTails.clear();
+}
@@ -3,9 +3,12 @@
 
 export * from "./logger/index.js";
 export * from "./policy/index.js";
+export * from "./pairing/index.js";
 export * from "./http/index.js";
 export * from "./types/common.js";
 export * from "./file/index.js";
 export * from "./media/index.js";
 export * from "./cron/index.js";
 export * from "./asr/index.js";
+export * from "./outbound/index.js";
+export * from "./history/index.js";
@@ -0,0 +1,3 @@
+export * from "./sent-messages.js";
+export * from "./working-indicator.js";
+export * from "./stream-reply.js";
@@ -0,0 +1,48 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  SENT_MESSAGE_TTL_MS,
+  clearSentMessages,
+  forgetSentMessage,
+  getSentMessage,
+  listSentMessages,
+  recordSentMessage,
+  resolveSentMessage,
+} from "./sent-messages.js";
+
+afterEach(() => {
+  clearSentMessages();
+});
+
+describe("sent message registry", () => {
+  it("looks up by message id and falls back to the latest message for a target", () => {
+    recordSentMessage({ channel: "feishu-china", accountId: "default", messageId: "m1", to: "chat:a", sentAt: 0 });
+    recordSentMessage({ channel: "feishu-china", accountId: "default", messageId: "m2", to: "chat:a", sentAt: 10 });
+    recordSentMessage({ channel: "feishu-china", accountId: "other", messageId: "m3", to: "chat:a", sentAt: 20 });
+
+    expect(getSentMessage({ channel: "feishu-china", accountId: "default", messageId: "m1", now: 30 })?.to).toBe(
+      "chat:a"
+    );
+    expect(
+      resolveSentMessage({ channel: "feishu-china", accountId: "default", to: "chat:a", now: 30 })?.messageId
+    ).toBe("m2");
+    expect(resolveSentMessage({ channel: "feishu-china", accountId: "default", now: 30 })).toBeUndefined();
+    expect(resolveSentMessage({ channel: "dingtalk", accountId: "default", to: "chat:a", now: 30 })).toBeUndefined();
+  });
+
+  it("drops expired and forgotten records", () => {
+    recordSentMessage({ channel: "dingtalk", accountId: "default", messageId: "k1", to: "user:u", sentAt: 0 });
+    recordSentMessage({ channel: "dingtalk", accountId: "default", messageId: "k2", to: "user:u", sentAt: 5 });
+
+    expect(
+      getSentMessage({ channel: "dingtalk", accountId: "default", messageId: "k1", now: SENT_MESSAGE_TTL_MS })
+    ).toBeUndefined();
+
+    forgetSentMessage({ channel: "dingtalk", accountId: "default", messageId: "k2" });
+    expect(listSentMessages("dingtalk").map((r) => r.messageId)).toEqual(["k1"]);
+  });
+
+  it("ignores empty message ids", () => {
+    recordSentMessage({ channel: "wecom-app", accountId: "default", messageId: "  ", to: "user:u" });
+    expect(listSentMessages("wecom-app")).toEqual([]);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * 已发送消息登记
+ *
+ * 各渠道出站发送成功后记录平台返回的消息 ID，
+ * 供撤回（recall）/ 编辑（edit）按 messageId 或最近一条消息定位。
+ */
+
+/** 记录保留时长（各平台撤回时限均不超过 24 小时） */
+export const SENT_MESSAGE_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** 每个渠道最多保留的记录数 */
+const MAX_RECORDS_PER_CHANNEL = 1000;
+
+export interface SentMessageRecord {
+  channel: string;
+  accountId: string;
+  /** 平台消息 ID */
+  messageId: string;
+  /** 出站目标（与 sendText/sendMedia 的 to 一致） */
+  to: string;
+  /** 消息类型，如 text / card / image / file */
+  kind?: string;
+  /** 撤回/编辑所需的渠道私有数据 */
+  meta?: Record<string, unknown>;
+  sentAt: number;
+}
+
+/** 撤回/编辑结果 */
+export interface MessageActionResult {
+  ok: boolean;
+  error?: string;
+}
+
+// channel -> (accountId:messageId -> record)，Map 保持插入顺序便于淘汰最旧记录
+const sentMessages = new Map<string, Map<string, SentMessageRecord>>();
+
+function buildKey(accountId: string, messageId: string): string {
+  return `${accountId}:${messageId}`;
+}
+
+function pruneChannel(records: Map<string, SentMessageRecord>, now: number): void {
+  for (const [key, record] of records) {
+    if (now - record.sentAt < SENT_MESSAGE_TTL_MS) break;
+    records.delete(key);
+  }
+  while (records.size > MAX_RECORDS_PER_CHANNEL) {
+    const oldest = records.keys().next().value;
+    if (oldest === undefined) break;
+    records.delete(oldest);
+  }
+}
+
+/**
+ * 记录一条已发送消息；messageId 为空时忽略
+ */
+export function recordSentMessage(
+  record: Omit<SentMessageRecord, "sentAt"> & { sentAt?: number }
+): void {
+  const messageId = record.messageId?.trim();
+  if (!messageId) return;
+  const sentAt = record.sentAt ?? Date.now();
+
+  let records = sentMessages.get(record.channel);
+  if (!records) {
+    records = new Map();
+    sentMessages.set(record.channel, records);
+  }
+  const key = buildKey(record.accountId, messageId);
+  records.delete(key);
+  records.set(key, { ...record, messageId, sentAt });
+  pruneChannel(records, sentAt);
+}
+
+export function getSentMessage(params: {
+  channel: string;
+  accountId: string;
+  messageId: string;
+  now?: number;
+}): SentMessageRecord | undefined {
+  const record = sentMessages.get(params.channel)?.get(buildKey(params.accountId, params.messageId));
+  if (!record) return undefined;
+  const now = params.now ?? Date.now();
+  return now - record.sentAt < SENT_MESSAGE_TTL_MS ? record : undefined;
+}
+
+/**
+ * 定位要撤回/编辑的消息
+ * - 提供 messageId 时按 ID 查找
+ * - 否则返回发给 to 的最近一条消息
+ */
+export function resolveSentMessage(params: {
+  channel: string;
+  accountId: string;
+  messageId?: string;
+  to?: string;
+  now?: number;
+}): SentMessageRecord | undefined {
+  const { channel, accountId, messageId, to } = params;
+  if (messageId?.trim()) {
+    return getSentMessage({ channel, accountId, messageId: messageId.trim(), now: params.now });
+  }
+  if (!to?.trim()) return undefined;
+
+  const now = params.now ?? Date.now();
+  const records = Array.from(sentMessages.get(channel)?.values() ?? []);
+  for (let i = records.length - 1; i >= 0; i--) {
+    const record = records[i];
+    if (now - record.sentAt >= SENT_MESSAGE_TTL_MS) break;
+    if (record.accountId === accountId && record.to === to.trim()) return record;
+  }
+  return undefined;
+}
+
+export function forgetSentMessage(params: { channel: string; accountId: string; messageId: string }): void {
+  sentMessages.get(params.channel)?.delete(buildKey(params.accountId, params.messageId));
+}
+
+export function listSentMessages(channel: string): SentMessageRecord[] {
+  return Array.from(sentMessages.get(channel)?.values() ?? []);
+}
+
+export function clearSentMessages(channel?: string): void {
+  if (channel) sentMessages.delete(channel);
+  else sentMessages.clear();
+}
@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createStreamingReplyState, createThrottledStream } from "./stream-reply.js";
+
+describe("throttled stream", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("pushes the first update immediately and only the latest text per window", async () => {
+    const push = vi.fn().mockResolvedValue(undefined);
+    const stream = createThrottledStream({ intervalMs: 300, push });
+
+    stream.update("a");
+    stream.update("ab");
+    stream.update("abc");
+    await vi.advanceTimersByTimeAsync(0);
+    expect(push.mock.calls.map((call) => call[0])).toEqual(["a"]);
+    expect(stream.latestText).toBe("abc");
+
+    await vi.advanceTimersByTimeAsync(300);
+    expect(push.mock.calls.map((call) => call[0])).toEqual(["a", "abc"]);
+
+    stream.update("abc");
+    await vi.advanceTimersByTimeAsync(300);
+    expect(push).toHaveBeenCalledTimes(2);
+  });
+
+  it("runs pushes in order and keeps going after a failed push", async () => {
+    const order: string[] = [];
+    const onError = vi.fn();
+    const push = vi.fn(async (text: string) => {
+      await new Promise((resolve) => setTimeout(resolve, 500));
+      if (text === "one") throw new Error("boom");
+      order.push(text);
+    });
+    const stream = createThrottledStream({ intervalMs: 100, push, onError });
+
+    stream.update("one");
+    await vi.advanceTimersByTimeAsync(100);
+    stream.update("two");
+    await vi.advanceTimersByTimeAsync(100);
+    const closing = stream.close(async () => {
+      order.push("final");
+    });
+    await vi.advanceTimersByTimeAsync(1000);
+    await closing;
+
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(order).toEqual(["two", "final"]);
+  });
+
+  it("drops pending updates on close and finalizes only once", async () => {
+    const push = vi.fn().mockResolvedValue(undefined);
+    const final = vi.fn().mockResolvedValue(undefined);
+    const stream = createThrottledStream({ intervalMs: 300, push });
+
+    stream.update("partial");
+    stream.update("partial reply");
+    await stream.close(final);
+    await stream.close(final);
+    stream.update("late");
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(push.mock.calls.map((call) => call[0])).toEqual(["partial"]);
+    expect(final).toHaveBeenCalledTimes(1);
+  });
+
+  it("surfaces errors from the final call", async () => {
+    const stream = createThrottledStream({ intervalMs: 300, push: vi.fn().mockResolvedValue(undefined) });
+
+    await expect(stream.close(() => Promise.reject(new Error("finish failed")))).rejects.toThrow("finish failed");
+  });
+});
+
+describe("streaming reply state", () => {
+  function createStream() {
+    return { update: vi.fn() };
+  }
+
+  it("appends blocks until a partial snapshot replaces them", async () => {
+    const stream = createStream();
+    const start = vi.fn().mockResolvedValue(stream);
+    const state = createStreamingReplyState({ enabled: true, start });
+
+    await state.appendBlock("first ");
+    await state.appendBlock("second");
+    expect(state.text).toBe("first\n\nsecond");
+
+    await state.applyPartial("first second third");
+    await state.appendBlock("second");
+    expect(state.sawPartial).toBe(true);
+    expect(state.text).toBe("first second third");
+    expect(stream.update.mock.calls.map((call) => call[0])).toEqual([
+      "first",
+      "first\n\nsecond",
+      "first second third",
+    ]);
+    expect(start).toHaveBeenCalledTimes(1);
+    await expect(state.current()).resolves.toBe(stream);
+  });
+
+  it("stays disabled when streaming is off", async () => {
+    const start = vi.fn();
+    const state = createStreamingReplyState({ enabled: false, start });
+
+    await state.appendBlock("hello");
+    await state.applyPartial("hello");
+
+    expect(state.disabled).toBe(true);
+    expect(state.text).toBe("");
+    expect(start).not.toHaveBeenCalled();
+    await expect(state.current()).resolves.toBeNull();
+  });
+
+  it("falls back when the stream cannot be created and keeps buffered text", async () => {
+    const onStartFailed = vi.fn();
+    const failing = createStreamingReplyState({
+      enabled: true,
+      start: () => Promise.reject(new Error("card rejected")),
+      onStartFailed,
+    });
+
+    await failing.appendBlock("buffered");
+    expect(failing.disabled).toBe(true);
+    expect(onStartFailed).toHaveBeenCalledWith(expect.any(Error));
+    expect(failing.takeText()).toBe("buffered");
+    expect(failing.text).toBe("");
+
+    const empty = createStreamingReplyState({ enabled: true, start: async () => null, onStartFailed });
+    await expect(empty.ensure()).resolves.toBeNull();
+    expect(empty.disabled).toBe(true);
+    expect(onStartFailed).toHaveBeenLastCalledWith();
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * 流式回复（飞书流式卡片、钉钉 AI Card 等）
+ *
+ * - createThrottledStream: 节流推送正文，平台更新请求串行执行，节流窗口内只推送最新内容
+ * - createStreamingReplyState: 分发侧状态，合并 partial 快照与 block 片段，首次需要时再创建流
+ *
+ * 各渠道只需提供「推送中间内容」「收尾」「创建流」三个平台调用。
+ */
+
+export interface ThrottledStreamOptions {
+  /** 推送间隔（毫秒） */
+  intervalMs: number;
+  /** 推送中间内容 */
+  push: (text: string) => Promise<void>;
+  /** 中间内容推送失败不中断流，仅记录 */
+  onError?: (err: unknown) => void;
+}
+
+export interface ThrottledStream {
+  /** 最近一次 update 的正文 */
+  readonly latestText: string;
+  /** 更新正文（节流，返回时不保证已推送） */
+  update: (text: string) => void;
+  /**
+   * 结束流：丢弃尚未推送的中间内容，等待已排队的推送完成后执行收尾调用。
+   * 重复调用不会再次收尾；收尾调用的错误原样抛出
+   */
+  close: (final: () => Promise<void>) => Promise<void>;
+}
+
+export function createThrottledStream(options: ThrottledStreamOptions): ThrottledStream {
+  const { intervalMs, push, onError } = options;
+
+  let latestText = "";
+  let pushedText = "";
+  let lastPushAt = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let queue: Promise<void> = Promise.resolve();
+  let closed = false;
+
+  const flush = () => {
+    timer = null;
+    if (closed || latestText === pushedText) return;
+    const text = latestText;
+    pushedText = text;
+    lastPushAt = Date.now();
+    queue = queue
+      .then(() => push(text))
+      .catch((err: unknown) => {
+        onError?.(err);
+      });
+  };
+
+  return {
+    get latestText() {
+      return latestText;
+    },
+    update: (text: string) => {
+      if (closed) return;
+      latestText = text;
+      if (timer) return;
+      const wait = lastPushAt + intervalMs - Date.now();
+      if (wait <= 0) {
+        flush();
+      } else {
+        timer = setTimeout(flush, wait);
+      }
+    },
+    close: async (final: () => Promise<void>) => {
+      if (closed) return;
+      closed = true;
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      await queue;
+      await final();
+    },
+  };
+}
+
+export interface StreamingReplyStateOptions<T> {
+  /** 是否启用流式回复 */
+  enabled: boolean;
+  /** 创建流；返回 null 或抛错时降级为普通回复 */
+  start: () => Promise<T | null>;
+  /** 流创建失败（err 为 undefined 表示 start 返回了 null） */
+  onStartFailed?: (err?: unknown) => void;
+}
+
+export interface StreamingReplyState<T> {
+  /** 未启用或流创建失败，此时应走普通回复 */
+  readonly disabled: boolean;
+  /** 已累计的正文（partial 快照或 block 片段拼接） */
+  readonly text: string;
+  /** 是否收到过 partial 快照（此时正文已是完整快照，final 会覆盖它） */
+  readonly sawPartial: boolean;
+  /** 流式过程中记录的分发错误 */
+  error: string | undefined;
+  /** 创建流（仅首次调用时创建） */
+  ensure: () => Promise<T | null>;
+  /** 已创建的流；从未调用 ensure 时为 null */
+  current: () => Promise<T | null>;
+  /** 追加 block 片段；收到过 partial 快照后忽略（快照已包含 block 内容） */
+  appendBlock: (text: string) => Promise<void>;
+  /** 以 partial 快照替换正文 */
+  applyPartial: (text: string) => Promise<void>;
+  /** 取出并清空已累计的正文（流创建失败后补发用） */
+  takeText: () => string;
+}
+
+export function createStreamingReplyState<T extends { update: (text: string) => void }>(
+  options: StreamingReplyStateOptions<T>
+): StreamingReplyState<T> {
+  let starting: Promise<T | null> | null = null;
+  let startFailed = false;
+  let text = "";
+  let sawPartial = false;
+
+  const isDisabled = () => !options.enabled || startFailed;
+
+  const ensure = (): Promise<T | null> => {
+    if (isDisabled()) return Promise.resolve(null);
+    starting ??= options.start().then(
+      (stream) => {
+        if (!stream) {
+          startFailed = true;
+          options.onStartFailed?.();
+        }
+        return stream;
+      },
+      (err: unknown) => {
+        startFailed = true;
+        options.onStartFailed?.(err);
+        return null;
+      }
+    );
+    return starting;
+  };
+
+  const pushText = async () => {
+    const stream = await ensure();
+    stream?.update(text);
+  };
+
+  return {
+    get disabled() {
+      return isDisabled();
+    },
+    get text() {
+      return text;
+    },
+    get sawPartial() {
+      return sawPartial;
+    },
+    error: undefined,
+    ensure,
+    current: () => starting ?? Promise.resolve(null),
+    appendBlock: async (chunk: string) => {
+      const trimmed = chunk.trim();
+      if (isDisabled() || sawPartial || !trimmed) return;
+      text = text ? `${text}\n\n${trimmed}` : trimmed;
+      await pushText();
+    },
+    applyPartial: async (snapshot: string) => {
+      if (isDisabled() || !snapshot.trim()) return;
+      sawPartial = true;
+      text = snapshot;
+      await pushText();
+    },
+    takeText: () => {
+      const pending = text;
+      text = "";
+      return pending;
+    },
+  };
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it, vi } from "vitest";
+import { createWorkingIndicator } from "./working-indicator.js";
+
+describe("working indicator", () => {
+  it("shows once and clears with the state returned by show", async () => {
+    const show = vi.fn().mockResolvedValue("reaction-1");
+    const clear = vi.fn().mockResolvedValue(undefined);
+    const indicator = createWorkingIndicator({ show, clear });
+
+    await indicator.start();
+    await indicator.start();
+    await indicator.stop();
+    await indicator.stop();
+
+    expect(show).toHaveBeenCalledTimes(1);
+    expect(clear).toHaveBeenCalledTimes(1);
+    expect(clear).toHaveBeenCalledWith("reaction-1");
+  });
+
+  it("waits for a pending show before clearing", async () => {
+    const order: string[] = [];
+    let resolveShow: (value: string) => void = () => undefined;
+    const indicator = createWorkingIndicator({
+      show: () =>
+        new Promise<string>((resolve) => {
+          resolveShow = (value) => {
+            order.push("shown");
+            resolve(value);
+          };
+        }),
+      clear: async () => {
+        order.push("cleared");
+      },
+    });
+
+    const starting = indicator.start();
+    const stopping = indicator.stop();
+    resolveShow("r");
+    await Promise.all([starting, stopping]);
+
+    expect(order).toEqual(["shown", "cleared"]);
+  });
+
+  it("reports failures without throwing and skips clear after a failed show", async () => {
+    const onError = vi.fn();
+    const clear = vi.fn();
+    const indicator = createWorkingIndicator({
+      show: () => Promise.reject(new Error("rate limited")),
+      clear,
+      onError,
+    });
+
+    await indicator.start();
+    await indicator.stop();
+
+    expect(onError).toHaveBeenCalledWith(expect.any(Error), "show");
+    expect(clear).not.toHaveBeenCalled();
+  });
+
+  it("does nothing when stopped before start", async () => {
+    const show = vi.fn();
+    const indicator = createWorkingIndicator({ show });
+
+    await indicator.stop();
+    await indicator.start();
+
+    expect(show).not.toHaveBeenCalled();
+  });
+});
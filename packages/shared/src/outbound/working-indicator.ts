@@ -0,0 +1,60 @@
+/**
+ * 「已收到 / 处理中」指示
+ *
+ * 入站消息被接受时显示（飞书表情回复、钉钉表情贴、QQ 输入中状态等），
+ * 回复送达或处理结束时清除。各渠道只需提供 show / clear 两个平台调用。
+ */
+
+export interface WorkingIndicatorOptions<T> {
+  /** 显示指示，返回值（如 reaction ID）会传给 clear */
+  show: () => Promise<T>;
+  /** 清除指示；平台指示会自动消失时可省略 */
+  clear?: (state: T) => Promise<void>;
+  /** 指示失败不影响回复，仅记录 */
+  onError?: (err: unknown, phase: "show" | "clear") => void;
+}
+
+export interface WorkingIndicator {
+  /** 显示指示（重复调用无效） */
+  start: () => Promise<void>;
+  /** 清除指示（重复调用无效；未 start 时不做任何事） */
+  stop: () => Promise<void>;
+}
+
+/** 未启用时使用的空指示 */
+export const NOOP_WORKING_INDICATOR: WorkingIndicator = {
+  start: async () => undefined,
+  stop: async () => undefined,
+};
+
+export function createWorkingIndicator<T>(options: WorkingIndicatorOptions<T>): WorkingIndicator {
+  let shown: Promise<{ ok: true; state: T } | { ok: false }> | undefined;
+  let stopped = false;
+
+  return {
+    start: async () => {
+      if (shown || stopped) return;
+      shown = options.show().then(
+        (state) => ({ ok: true as const, state }),
+        (err: unknown) => {
+          options.onError?.(err, "show");
+          return { ok: false as const };
+        }
+      );
+      await shown;
+    },
+    stop: async () => {
+      if (stopped) return;
+      stopped = true;
+      if (!shown || !options.clear) return;
+      // 等待 show 完成后再清除，避免清除请求先于显示请求到达
+      const result = await shown;
+      if (!result.ok) return;
+      try {
+        await options.clear(result.state);
+      } catch (err) {
+        options.onError?.(err, "clear");
+      }
+    },
+  };
+}
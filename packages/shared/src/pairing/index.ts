@@ -0,0 +1,2 @@
+export * from "./pairing-store.js";
+export * from "./pairing-command.js";
@@ -0,0 +1,98 @@
+/**
+ * 配对流程的用户提示与管理员命令
+ *
+ * 管理员（allowFrom 中的发送者）在单聊中发送:
+ * - /pair approve <配对码>  批准配对
+ * - /pair revoke <发送者ID> 撤销授权
+ * - /pair list              查看已批准与待审批列表
+ */
+
+import {
+  approvePairingCode,
+  listPairing,
+  requestPairingCode,
+  revokePairing,
+  type PairingScope,
+} from "./pairing-store.js";
+
+const PAIR_COMMAND_REGEX = /^\/pair(?:\s+(\S+))?(?:\s+(\S+))?\s*$/i;
+
+const PAIR_USAGE = [
+  "配对命令:",
+  "/pair approve <配对码>",
+  "/pair revoke <发送者ID>",
+  "/pair list",
+].join("\n");
+
+/**
+ * 为未授权的发送者签发配对码并生成提示文本
+ */
+export function issuePairingChallenge(
+  scope: PairingScope,
+  senderId: string,
+  options: { ttlMs?: number } = {}
+): { code: string; created: boolean; text: string } {
+  const { request, created } = requestPairingCode(scope, senderId, options);
+  const minutes = Math.max(1, Math.round((request.expiresAt - Date.now()) / 60_000));
+  const text = [
+    "你还没有获得与机器人单聊的授权。",
+    `配对码: ${request.code}（${minutes} 分钟内有效）`,
+    `请联系管理员发送 /pair approve ${request.code} 完成配对。`,
+  ].join("\n");
+  return { code: request.code, created, text };
+}
+
+/**
+ * 是否为配对命令
+ */
+export function isPairingCommand(text: string): boolean {
+  return PAIR_COMMAND_REGEX.test(text.trim());
+}
+
+/**
+ * 处理管理员的配对命令
+ *
+ * @returns 回复文本；不是配对命令时返回 null
+ */
+export function handlePairingCommand(params: {
+  scope: PairingScope;
+  senderId: string;
+  text: string;
+  /** 管理员 ID 列表 */
+  admins: string[];
+}): string | null {
+  const { scope, senderId, admins } = params;
+  const match = PAIR_COMMAND_REGEX.exec(params.text.trim());
+  if (!match) return null;
+
+  if (!admins.includes(senderId)) {
+    return "只有管理员可以执行配对命令。";
+  }
+
+  const action = match[1]?.toLowerCase();
+  const arg = match[2];
+
+  switch (action) {
+    case "approve": {
+      if (!arg) return PAIR_USAGE;
+      const approval = approvePairingCode(scope, arg, { approvedBy: senderId });
+      return approval
+        ? `已批准 ${approval.senderId} 的配对请求。`
+        : `配对码 ${arg} 不存在或已过期。`;
+    }
+    case "revoke": {
+      if (!arg) return PAIR_USAGE;
+      return revokePairing(scope, arg) ? `已撤销 ${arg} 的授权。` : `${arg} 不在已配对列表中。`;
+    }
+    case "list": {
+      const { approved, pending } = listPairing(scope);
+      const lines = [`已批准 (${approved.length}):`];
+      for (const item of approved) lines.push(`- ${item.senderId}`);
+      lines.push(`待审批 (${pending.length}):`);
+      for (const item of pending) lines.push(`- ${item.code} ${item.senderId}`);
+      return lines.join("\n");
+    }
+    default:
+      return PAIR_USAGE;
+  }
+}
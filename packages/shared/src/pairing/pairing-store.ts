@@ -0,0 +1,230 @@
+/**
+ * DM 配对存储
+ *
+ * dmPolicy=pairing 时，未授权的发送者会收到一次性配对码；
+ * 管理员审批后发送者 ID 持久化到本地，后续由 checkDmPolicy 放行
+ *
+ * 存储位置: ~/.openclaw/pairing/<channel>[-<accountId>].json
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { homedir } from "node:os";
+import { randomInt } from "node:crypto";
+
+/** 默认存储目录 */
+export const DEFAULT_PAIRING_STORE_DIR = path.join(homedir(), ".openclaw", "pairing");
+
+/** 配对码默认有效期（1 小时） */
+export const DEFAULT_PAIRING_CODE_TTL_MS = 60 * 60 * 1000;
+
+/** 配对码长度 */
+const PAIRING_CODE_LENGTH = 6;
+
+/** 同一作用域内最多保留的待审批请求数 */
+const MAX_PENDING_REQUESTS = 100;
+
+/**
+ * 配对作用域：按渠道 + 账户隔离
+ */
+export interface PairingScope {
+  /** 渠道 ID（如 feishu-china / dingtalk） */
+  channel: string;
+  /** 账户 ID，默认账户可不传 */
+  accountId?: string;
+  /** 存储目录，默认 DEFAULT_PAIRING_STORE_DIR */
+  storeDir?: string;
+}
+
+/**
+ * 已批准的发送者
+ */
+export interface PairingApproval {
+  senderId: string;
+  /** 批准时间（毫秒） */
+  approvedAt: number;
+  /** 审批人 ID */
+  approvedBy?: string;
+}
+
+/**
+ * 待审批的配对请求
+ */
+export interface PairingRequest {
+  code: string;
+  senderId: string;
+  /** 创建时间（毫秒） */
+  createdAt: number;
+  /** 过期时间（毫秒） */
+  expiresAt: number;
+}
+
+interface PairingStoreData {
+  version: 1;
+  approved: Record<string, PairingApproval>;
+  pending: Record<string, PairingRequest>;
+}
+
+function sanitizeSegment(value: string): string {
+  return value.replace(/[^a-zA-Z0-9_-]+/g, "_");
+}
+
+/**
+ * 解析作用域对应的存储文件路径
+ */
+export function resolvePairingStorePath(scope: PairingScope): string {
+  const dir = scope.storeDir ?? DEFAULT_PAIRING_STORE_DIR;
+  const accountId = scope.accountId?.trim();
+  const name =
+    accountId && accountId !== "default"
+      ? `${sanitizeSegment(scope.channel)}-${sanitizeSegment(accountId)}`
+      : sanitizeSegment(scope.channel);
+  return path.join(dir, `${name}.json`);
+}
+
+function emptyStore(): PairingStoreData {
+  return { version: 1, approved: {}, pending: {} };
+}
+
+function readStore(scope: PairingScope): PairingStoreData {
+  const filePath = resolvePairingStorePath(scope);
+  let raw: string;
+  try {
+    raw = fs.readFileSync(filePath, "utf8");
+  } catch {
+    return emptyStore();
+  }
+  try {
+    const parsed = JSON.parse(raw) as Partial<PairingStoreData>;
+    return {
+      version: 1,
+      approved: parsed.approved && typeof parsed.approved === "object" ? parsed.approved : {},
+      pending: parsed.pending && typeof parsed.pending === "object" ? parsed.pending : {},
+    };
+  } catch {
+    return emptyStore();
+  }
+}
+
+function writeStore(scope: PairingScope, data: PairingStoreData): void {
+  const filePath = resolvePairingStorePath(scope);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  // 先写临时文件再重命名，避免进程中断导致文件损坏
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(data, null, 2), "utf8");
+  fs.renameSync(tempPath, filePath);
+}
+
+function prunePending(data: PairingStoreData, now: number): void {
+  for (const [code, request] of Object.entries(data.pending)) {
+    if (request.expiresAt <= now) delete data.pending[code];
+  }
+  const pending = Object.values(data.pending).sort((a, b) => a.createdAt - b.createdAt);
+  for (const request of pending.slice(0, Math.max(0, pending.length - MAX_PENDING_REQUESTS))) {
+    delete data.pending[request.code];
+  }
+}
+
+function generateCode(existing: Record<string, PairingRequest>): string {
+  for (;;) {
+    const code = String(randomInt(0, 10 ** PAIRING_CODE_LENGTH)).padStart(PAIRING_CODE_LENGTH, "0");
+    if (!existing[code]) return code;
+  }
+}
+
+/**
+ * 发送者是否已通过配对
+ */
+export function isPairingApproved(scope: PairingScope, senderId: string): boolean {
+  if (!senderId) return false;
+  return Boolean(readStore(scope).approved[senderId]);
+}
+
+/**
+ * 为发送者获取配对码
+ *
+ * 已有未过期的请求时复用原配对码（created=false），否则生成新码
+ */
+export function requestPairingCode(
+  scope: PairingScope,
+  senderId: string,
+  options: { ttlMs?: number; now?: number } = {}
+): { request: PairingRequest; created: boolean } {
+  const now = options.now ?? Date.now();
+  const data = readStore(scope);
+  prunePending(data, now);
+
+  const existing = Object.values(data.pending).find((request) => request.senderId === senderId);
+  if (existing) {
+    return { request: existing, created: false };
+  }
+
+  const request: PairingRequest = {
+    code: generateCode(data.pending),
+    senderId,
+    createdAt: now,
+    expiresAt: now + (options.ttlMs ?? DEFAULT_PAIRING_CODE_TTL_MS),
+  };
+  data.pending[request.code] = request;
+  writeStore(scope, data);
+  return { request, created: true };
+}
+
+/**
+ * 审批配对码
+ *
+ * @returns 批准记录；配对码不存在或已过期时返回 null
+ */
+export function approvePairingCode(
+  scope: PairingScope,
+  code: string,
+  options: { approvedBy?: string; now?: number } = {}
+): PairingApproval | null {
+  const now = options.now ?? Date.now();
+  const data = readStore(scope);
+  prunePending(data, now);
+
+  const request = data.pending[code.trim()];
+  if (!request) {
+    writeStore(scope, data);
+    return null;
+  }
+
+  const approval: PairingApproval = {
+    senderId: request.senderId,
+    approvedAt: now,
+    ...(options.approvedBy ? { approvedBy: options.approvedBy } : {}),
+  };
+  delete data.pending[request.code];
+  data.approved[request.senderId] = approval;
+  writeStore(scope, data);
+  return approval;
+}
+
+/**
+ * 撤销发送者的配对授权
+ *
+ * @returns 是否存在并已撤销
+ */
+export function revokePairing(scope: PairingScope, senderId: string): boolean {
+  const data = readStore(scope);
+  if (!data.approved[senderId]) return false;
+  delete data.approved[senderId];
+  writeStore(scope, data);
+  return true;
+}
+
+/**
+ * 列出已批准的发送者与待审批请求
+ */
+export function listPairing(
+  scope: PairingScope,
+  options: { now?: number } = {}
+): { approved: PairingApproval[]; pending: PairingRequest[] } {
+  const data = readStore(scope);
+  prunePending(data, options.now ?? Date.now());
+  return {
+    approved: Object.values(data.approved).sort((a, b) => a.approvedAt - b.approvedAt),
+    pending: Object.values(data.pending).sort((a, b) => a.createdAt - b.createdAt),
+  };
+}
@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  approvePairingCode,
+  isPairingApproved,
+  listPairing,
+  requestPairingCode,
+  resolvePairingStorePath,
+  revokePairing,
+  type PairingScope,
+} from "./pairing-store.js";
+import { handlePairingCommand, issuePairingChallenge } from "./pairing-command.js";
+import { checkDmPolicy, resolveEffectiveDmPolicy, warnPairingWithoutAdmins } from "../policy/dm-policy.js";
+
+describe("pairing store", () => {
+  let scope: PairingScope;
+
+  beforeEach(() => {
+    scope = {
+      channel: "feishu-china",
+      storeDir: fs.mkdtempSync(path.join(os.tmpdir(), "pairing-test-")),
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(scope.storeDir as string, { recursive: true, force: true });
+  });
+
+  it("separates accounts into their own files", () => {
+    expect(resolvePairingStorePath(scope)).toBe(path.join(scope.storeDir as string, "feishu-china.json"));
+    expect(resolvePairingStorePath({ ...scope, accountId: "default" })).toBe(
+      resolvePairingStorePath(scope)
+    );
+    expect(resolvePairingStorePath({ ...scope, accountId: "ops/team" })).toBe(
+      path.join(scope.storeDir as string, "feishu-china-ops_team.json")
+    );
+  });
+
+  it("reuses a pending code until it expires", () => {
+    const first = requestPairingCode(scope, "ou_alice", { now: 1_000, ttlMs: 10_000 });
+    expect(first.created).toBe(true);
+    expect(first.request.code).toMatch(/^\d{6}$/);
+
+    const again = requestPairingCode(scope, "ou_alice", { now: 5_000, ttlMs: 10_000 });
+    expect(again.created).toBe(false);
+    expect(again.request.code).toBe(first.request.code);
+
+    const expired = requestPairingCode(scope, "ou_alice", { now: 20_000, ttlMs: 10_000 });
+    expect(expired.created).toBe(true);
+  });
+
+  it("persists approvals and lets the DM policy consult them", () => {
+    const { request } = requestPairingCode(scope, "ou_alice");
+    expect(checkDmPolicy({ dmPolicy: "pairing", senderId: "ou_alice", pairing: scope })).toEqual({
+      allowed: false,
+      reason: "sender ou_alice not paired",
+      pairingRequired: true,
+    });
+
+    expect(approvePairingCode(scope, request.code, { approvedBy: "ou_admin" })?.senderId).toBe(
+      "ou_alice"
+    );
+    expect(isPairingApproved(scope, "ou_alice")).toBe(true);
+    expect(checkDmPolicy({ dmPolicy: "pairing", senderId: "ou_alice", pairing: scope }).allowed).toBe(
+      true
+    );
+    expect(listPairing(scope).pending).toHaveLength(0);
+
+    // 配对码只能使用一次
+    expect(approvePairingCode(scope, request.code)).toBeNull();
+
+    expect(revokePairing(scope, "ou_alice")).toBe(true);
+    expect(isPairingApproved(scope, "ou_alice")).toBe(false);
+  });
+
+  it("treats pairing without admins as open", () => {
+    expect(resolveEffectiveDmPolicy("pairing", [])).toEqual({ dmPolicy: "open", pairingWithoutAdmins: true });
+    expect(resolveEffectiveDmPolicy("pairing", ["ou_admin"])).toEqual({
+      dmPolicy: "pairing",
+      pairingWithoutAdmins: false,
+    });
+    expect(resolveEffectiveDmPolicy("allowlist", []).dmPolicy).toBe("allowlist");
+
+    const warn = vi.fn();
+    warnPairingWithoutAdmins({ channel: "test-channel", accountId: "a1" }, { warn });
+    warnPairingWithoutAdmins({ channel: "test-channel", accountId: "a1" }, { warn });
+    warnPairingWithoutAdmins({ channel: "test-channel", accountId: "a2" }, { warn });
+    expect(warn).toHaveBeenCalledTimes(2);
+    expect(warn.mock.calls[0]?.[0]).toContain("treating DMs as open for account a1");
+  });
+
+  it("rejects expired codes", () => {
+    const { request } = requestPairingCode(scope, "ou_alice", { now: 1_000, ttlMs: 1_000 });
+    expect(approvePairingCode(scope, request.code, { now: 5_000 })).toBeNull();
+    expect(isPairingApproved(scope, "ou_alice")).toBe(false);
+  });
+});
+
+describe("pairing commands", () => {
+  let scope: PairingScope;
+
+  beforeEach(() => {
+    scope = {
+      channel: "dingtalk",
+      storeDir: fs.mkdtempSync(path.join(os.tmpdir(), "pairing-test-")),
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(scope.storeDir as string, { recursive: true, force: true });
+  });
+
+  it("lets admins approve codes issued to unknown senders", () => {
+    const challenge = issuePairingChallenge(scope, "user_1");
+    expect(challenge.text).toContain(`/pair approve ${challenge.code}`);
+
+    const reply = handlePairingCommand({
+      scope,
+      senderId: "admin",
+      text: `/pair approve ${challenge.code}`,
+      admins: ["admin"],
+    });
+    expect(reply).toContain("user_1");
+    expect(isPairingApproved(scope, "user_1")).toBe(true);
+
+    expect(
+      handlePairingCommand({ scope, senderId: "admin", text: "/pair list", admins: ["admin"] })
+    ).toContain("- user_1");
+  });
+
+  it("refuses commands from non-admins and ignores other text", () => {
+    const { code } = issuePairingChallenge(scope, "user_1");
+    expect(
+      handlePairingCommand({ scope, senderId: "user_1", text: `/pair approve ${code}`, admins: ["admin"] })
+    ).toBe("只有管理员可以执行配对命令。");
+    expect(isPairingApproved(scope, "user_1")).toBe(false);
+
+    expect(handlePairingCommand({ scope, senderId: "admin", text: "hello", admins: ["admin"] })).toBeNull();
+  });
+});
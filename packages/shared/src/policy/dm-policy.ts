@@ -4,10 +4,12 @@
  * 实现 open/pairing/allowlist 策略检查
  */
 
+import { isPairingApproved, type PairingScope } from "../pairing/pairing-store.js";
+
 /**
  * DM 策略类型
  * - open: 允许所有单聊消息
- * - pairing: 配对模式（允许所有，配对逻辑由上层处理）
+ * - pairing: 配对模式（允许 allowFrom 与配对存储中已批准的发送者，其余发送者需通过配对码审批）
  * - allowlist: 仅允许白名单中的发送者
  */
 export type DmPolicyType = "open" | "pairing" | "allowlist";
@@ -20,6 +22,10 @@ export interface PolicyCheckResult {
   allowed: boolean;
   /** 拒绝原因（如果被拒绝） */
   reason?: string;
+  /** 发送者需要配对（pairing 策略下未授权时为 true） */
+  pairingRequired?: boolean;
+  /** 仅因未 @机器人 被拒绝（群聊，可记入群聊历史） */
+  mentionRequired?: boolean;
 }
 
 /**
@@ -30,8 +36,10 @@ export interface DmPolicyCheckParams {
   dmPolicy: DmPolicyType;
   /** 发送者 ID */
   senderId: string;
-  /** 白名单（allowlist 策略时使用） */
+  /** 白名单（allowlist / pairing 策略时使用） */
   allowFrom?: string[];
+  /** 配对存储作用域（pairing 策略时使用） */
+  pairing?: PairingScope;
 }
 
 /**
@@ -52,10 +60,14 @@ export interface DmPolicyCheckParams {
  *
  * checkDmPolicy({ dmPolicy: "allowlist", senderId: "user3", allowFrom: ["user1", "user2"] });
  * // => { allowed: false, reason: "sender user3 not in DM allowlist" }
+ *
+ * // 配对策略（user3 尚未配对）
+ * checkDmPolicy({ dmPolicy: "pairing", senderId: "user3", pairing: { channel: "dingtalk" } });
+ * // => { allowed: false, reason: "sender user3 not paired", pairingRequired: true }
  * ```
  */
 export function checkDmPolicy(params: DmPolicyCheckParams): PolicyCheckResult {
-  const { dmPolicy, senderId, allowFrom = [] } = params;
+  const { dmPolicy, senderId, allowFrom = [], pairing } = params;
 
   switch (dmPolicy) {
     case "open":
@@ -63,8 +75,18 @@ export function checkDmPolicy(params: DmPolicyCheckParams): PolicyCheckResult {
       return { allowed: true };
 
     case "pairing":
-      // 配对策略：允许所有单聊消息（配对逻辑由上层处理）
-      return { allowed: true };
+      // 配对策略：allowFrom 或已批准的发送者放行，其余需要配对
+      if (allowFrom.includes(senderId)) {
+        return { allowed: true };
+      }
+      if (pairing && isPairingApproved(pairing, senderId)) {
+        return { allowed: true };
+      }
+      return {
+        allowed: false,
+        reason: `sender ${senderId} not paired`,
+        pairingRequired: true,
+      };
 
     case "allowlist":
       // 白名单策略：仅允许 allowFrom 中的发送者
@@ -80,3 +102,46 @@ export function checkDmPolicy(params: DmPolicyCheckParams): PolicyCheckResult {
       return { allowed: true };
   }
 }
+
+/**
+ * 解析实际生效的单聊策略
+ *
+ * pairing 策略依赖 allowFrom 中的管理员审批配对码；allowFrom 为空时无人能批准，
+ * 按 open 处理并由调用方给出告警，避免所有单聊被拒
+ *
+ * @example
+ * ```ts
+ * resolveEffectiveDmPolicy("pairing", []);
+ * // => { dmPolicy: "open", pairingWithoutAdmins: true }
+ * ```
+ */
+export function resolveEffectiveDmPolicy<T extends string>(
+  dmPolicy: T,
+  allowFrom: string[] = []
+): { dmPolicy: T | "open"; pairingWithoutAdmins: boolean } {
+  if (dmPolicy === "pairing" && allowFrom.length === 0) {
+    return { dmPolicy: "open", pairingWithoutAdmins: true };
+  }
+  return { dmPolicy, pairingWithoutAdmins: false };
+}
+
+// 已告警过「pairing 无管理员」的账户（channel:accountId），避免每条消息重复告警
+const pairingWithoutAdminsWarned = new Set<string>();
+
+/**
+ * 告警 pairing 策略未配置管理员（每个渠道账户只告警一次）
+ *
+ * 与 resolveEffectiveDmPolicy 配合使用，pairingWithoutAdmins 为 true 时调用
+ */
+export function warnPairingWithoutAdmins(
+  scope: PairingScope,
+  logger: { warn: (msg: string) => void }
+): void {
+  const accountId = scope.accountId ?? "default";
+  const key = `${scope.channel}:${accountId}`;
+  if (pairingWithoutAdminsWarned.has(key)) return;
+  pairingWithoutAdminsWarned.add(key);
+  logger.warn(
+    `dmPolicy=pairing but allowFrom is empty (no admin can approve pairing codes); treating DMs as open for account ${accountId}`
+  );
+}
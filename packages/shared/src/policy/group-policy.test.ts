@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyGroupAgentOverride,
+  checkGroupPolicy,
+  resolveGroupOverride,
+  type GroupOverrideConfig,
+} from "./group-policy.js";
+
+describe("group overrides", () => {
+  const groups: Record<string, GroupOverrideConfig> = {
+    quiet: { requireMention: false },
+    ops: { allowFrom: ["alice"], agentId: "ops", systemPrompt: "只回答运维问题" },
+    "*": { requireMention: true },
+  };
+
+  it("prefers exact group entries over the wildcard", () => {
+    expect(resolveGroupOverride(groups, "ops")?.agentId).toBe("ops");
+    expect(resolveGroupOverride(groups, "other")).toEqual({ requireMention: true });
+    expect(resolveGroupOverride(undefined, "ops")).toBeUndefined();
+  });
+
+  it("lets a group override the global requireMention", () => {
+    const base = {
+      groupPolicy: "open" as const,
+      requireMention: true,
+      mentionedBot: false,
+      groups,
+    };
+    expect(checkGroupPolicy({ ...base, conversationId: "quiet" })).toEqual({ allowed: true });
+    expect(checkGroupPolicy({ ...base, conversationId: "other" })).toMatchObject({
+      allowed: false,
+      mentionRequired: true,
+    });
+    expect(
+      checkGroupPolicy({
+        ...base,
+        requireMention: false,
+        conversationId: "other",
+      }).reason
+    ).toBe("message did not mention bot");
+  });
+
+  it("restricts which senders may trigger the bot in a group", () => {
+    const base = {
+      groupPolicy: "open" as const,
+      conversationId: "ops",
+      requireMention: false,
+      mentionedBot: true,
+      groups,
+    };
+    expect(checkGroupPolicy({ ...base, senderId: "alice" })).toEqual({ allowed: true });
+    expect(checkGroupPolicy({ ...base, senderId: "bob" })).toEqual({
+      allowed: false,
+      reason: "sender bob not allowed in group ops",
+    });
+    expect(checkGroupPolicy({ ...base }).allowed).toBe(false);
+  });
+
+  it("still applies the group allowlist before overrides", () => {
+    expect(
+      checkGroupPolicy({
+        groupPolicy: "allowlist",
+        conversationId: "quiet",
+        groupAllowFrom: [],
+        requireMention: true,
+        mentionedBot: false,
+        groups,
+      }).reason
+    ).toBe("group quiet not in allowlist");
+  });
+
+  it("pins the agent and rewrites the session key", () => {
+    const route = { agentId: "main", accountId: "default", sessionKey: "agent:main:dingtalk:group:ops" };
+    expect(applyGroupAgentOverride(route, groups.ops)).toEqual({
+      agentId: "ops",
+      accountId: "default",
+      sessionKey: "agent:ops:dingtalk:group:ops",
+    });
+    expect(applyGroupAgentOverride(route, groups.quiet)).toBe(route);
+    expect(applyGroupAgentOverride(route, undefined)).toBe(route);
+  });
+});
@@ -1,7 +1,7 @@
 /**
  * 群组策略引擎
  *
- * 实现 open/allowlist/disabled 策略检查
+ * 实现 open/allowlist/disabled 策略检查，并支持按群覆盖（groups.<conversationId>）
  */
 
 import type { PolicyCheckResult } from "./dm-policy.js";
@@ -14,6 +14,46 @@ import type { PolicyCheckResult } from "./dm-policy.js";
  */
 export type GroupPolicyType = "open" | "allowlist" | "disabled";
 
+/**
+ * 单个群的覆盖配置（groups.<conversationId>，"*" 作为所有群的默认值）
+ */
+export interface GroupOverrideConfig {
+  /** 覆盖全局 requireMention */
+  requireMention?: boolean;
+  /** 允许在该群触发机器人的发送者（为空时不限制） */
+  allowFrom?: string[];
+  /** 该群固定使用的 Agent ID */
+  agentId?: string;
+  /** 该群附加的系统提示词 */
+  systemPrompt?: string;
+}
+
+/**
+ * 查找群的覆盖配置：精确匹配优先，其次为通配 "*"
+ */
+export function resolveGroupOverride(
+  groups: Record<string, GroupOverrideConfig> | undefined,
+  conversationId: string
+): GroupOverrideConfig | undefined {
+  if (!groups) return undefined;
+  return groups[conversationId] ?? groups["*"];
+}
+
+/**
+ * 将群覆盖配置中的 agentId 应用到路由结果
+ *
+ * sessionKey 形如 agent:<agentId>:...，同步替换其中的 agentId 以隔离会话
+ */
+export function applyGroupAgentOverride<T extends { agentId?: string; sessionKey: string }>(
+  route: T,
+  override: GroupOverrideConfig | undefined
+): T {
+  const agentId = override?.agentId?.trim();
+  if (!agentId || agentId === route.agentId) return route;
+  const sessionKey = route.sessionKey.replace(/^agent:[^:]+:/, `agent:${agentId}:`);
+  return { ...route, agentId, sessionKey };
+}
+
 /**
  * 群组策略检查参数
  */
@@ -28,6 +68,10 @@ export interface GroupPolicyCheckParams {
   requireMention: boolean;
   /** 是否 @提及了机器人 */
   mentionedBot: boolean;
+  /** 发送者 ID（按群限制发送者时使用） */
+  senderId?: string;
+  /** 按群覆盖配置 */
+  groups?: Record<string, GroupOverrideConfig>;
 }
 
 /**
@@ -44,15 +88,21 @@ export interface GroupPolicyCheckParams {
  *
  * // 开放策略 + 要求 @提及
  * checkGroupPolicy({ groupPolicy: "open", conversationId: "g1", requireMention: true, mentionedBot: false });
- * // => { allowed: false, reason: "message did not mention bot" }
+ * // => { allowed: false, reason: "message did not mention bot", mentionRequired: true }
  *
  * // 白名单策略
  * checkGroupPolicy({ groupPolicy: "allowlist", conversationId: "g1", groupAllowFrom: ["g1"], requireMention: false, mentionedBot: false });
  * // => { allowed: true }
+ *
+ * // 按群覆盖：g1 无需 @，且仅 u1 可触发
+ * checkGroupPolicy({ groupPolicy: "open", conversationId: "g1", requireMention: true, mentionedBot: false, senderId: "u2", groups: { g1: { requireMention: false, allowFrom: ["u1"] } } });
+ * // => { allowed: false, reason: "sender u2 not allowed in group g1" }
  * ```
  */
 export function checkGroupPolicy(params: GroupPolicyCheckParams): PolicyCheckResult {
-  const { groupPolicy, conversationId, groupAllowFrom = [], requireMention, mentionedBot } = params;
+  const { groupPolicy, conversationId, groupAllowFrom = [], mentionedBot, senderId, groups } = params;
+  const override = resolveGroupOverride(groups, conversationId);
+  const requireMention = override?.requireMention ?? params.requireMention;
 
   // 首先检查群聊策略
   switch (groupPolicy) {
@@ -81,11 +131,21 @@ export function checkGroupPolicy(params: GroupPolicyCheckParams): PolicyCheckRes
       break;
   }
 
+  // 按群限制发送者
+  const senderAllowFrom = override?.allowFrom ?? [];
+  if (senderAllowFrom.length > 0 && !(senderId && senderAllowFrom.includes(senderId))) {
+    return {
+      allowed: false,
+      reason: `sender ${senderId ?? "unknown"} not allowed in group ${conversationId}`,
+    };
+  }
+
   // 然后检查 @提及要求
   if (requireMention && !mentionedBot) {
     return {
       allowed: false,
       reason: "message did not mention bot",
+      mentionRequired: true,
     };
   }
 